@@ -33,6 +33,15 @@ export function MobileNavigation() {
         </svg>
       ),
     },
+    {
+      path: '/stats',
+      label: 'Stats',
+      icon: (isActive: boolean) => (
+        <svg className={`w-6 h-6 ${isActive ? 'text-yellow-500' : 'text-gray-400'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+        </svg>
+      ),
+    },
     {
       path: '/settings',
       label: 'Settings',
@@ -51,7 +60,7 @@ export function MobileNavigation() {
       className="fixed bottom-0 left-0 right-0 bg-white border-t border-gray-200"
       aria-label="Main navigation"
     >
-      <div className="flex justify-center space-x-12 py-2">
+      <div className="flex justify-center space-x-6 py-2">
         {navItems.map(({ path, label, icon }) => (
           <NavLink
             key={path}
@@ -0,0 +1,49 @@
+/**
+ * Shared verse text component
+ *
+ * Shows verse text with verse numbers, section headings and poetry lines when the verse
+ * has structured segments (see utils/verseSegments). The text passed in may be masked or
+ * partly revealed - its words are laid over the segments. Without segments, or when the
+ * words don't line up, the plain text is shown.
+ */
+import { alignWordsToSegments, isPoetry, type VerseSegment } from '../../utils/verseSegments';
+
+interface VerseTextProps {
+  text: string;
+  segments?: VerseSegment[] | null;
+  quoted?: boolean;
+}
+
+export function VerseText({ text, segments, quoted = false }: VerseTextProps) {
+  const aligned = segments && segments.length > 1
+    ? alignWordsToSegments(segments, text.split(' ').filter(Boolean))
+    : null;
+
+  if (!aligned) {
+    return <>{quoted ? `"${text}"` : text}</>;
+  }
+
+  const showChapter = aligned[0].chapter !== aligned[aligned.length - 1].chapter;
+
+  return (
+    <span className="block text-left">
+      {aligned.map(segment => (
+        <span key={`${segment.chapter}:${segment.verse}`} className={isPoetry(segment) ? 'block my-1' : undefined}>
+          {segment.heading && (
+            <span className="block text-base font-sans font-medium text-primary/60 mt-3 mb-1">
+              {segment.heading}
+            </span>
+          )}
+          <sup className="text-xs text-primary/50 font-sans mr-0.5">
+            {showChapter ? `${segment.chapter}:${segment.verse}` : segment.verse}
+          </sup>
+          {isPoetry(segment)
+            ? segment.lines.map((line, index) => (
+                <span key={index} className={index === 0 ? 'inline' : 'block pl-6'}>{line}</span>
+              ))
+            : segment.lines.join(' ')}{' '}
+        </span>
+      ))}
+    </span>
+  );
+}
@@ -11,6 +11,8 @@ import { BatchSuccessMessage } from './components/BatchSuccessMessage';
 import { Card } from '../../components/shared/Card';
 import { useHybridLoading } from '../../hooks/useHybridLoading';
 import { BatchResultsSkeleton } from '../../components/skeletons/BatchResultsSkeleton';
+import { DEFAULT_PASSAGE_CHUNK_SIZE, PASSAGE_CHUNK_SIZES } from '../../utils/passages';
+import { DEFAULT_PROJECT_INTERVAL_DAYS, PROJECT_INTERVAL_OPTIONS } from '../../utils/chapterProjects';
 
 export function AddVerse() {
   const navigate = useNavigate();
@@ -26,8 +28,14 @@ export function AddVerse() {
     batchSuccess,
     isBatch,
     showManualEntry,
+    canSplit,
+    passageChunkSize,
+    isChapter,
+    projectIntervalDays,
     setReference,
     setVerseText,
+    setPassageChunkSize,
+    setProjectIntervalDays,
     validateReference,
     addVerse,
     clearError,
@@ -156,6 +164,62 @@ export function AddVerse() {
               </div>
             </div>
 
+            {/* Chapter project option - a whole chapter learned one verse every few days */}
+            {isChapter && !isBatch && !showManualEntry && (
+              <div className="mt-3 flex items-center gap-3 text-sm text-primary/70">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={projectIntervalDays !== null}
+                    onChange={(e) => setProjectIntervalDays(e.target.checked ? DEFAULT_PROJECT_INTERVAL_DAYS : null)}
+                    disabled={isLoading}
+                  />
+                  Memorize as a chapter project
+                </label>
+                {projectIntervalDays !== null && (
+                  <select
+                    value={projectIntervalDays}
+                    onChange={(e) => setProjectIntervalDays(Number(e.target.value))}
+                    disabled={isLoading}
+                    className="border border-primary/20 rounded px-2 py-1 text-sm"
+                  >
+                    {PROJECT_INTERVAL_OPTIONS.map(days => (
+                      <option key={days} value={days}>
+                        {days === 1 ? 'New verse every day' : `New verse every ${days} days`}
+                      </option>
+                    ))}
+                  </select>
+                )}
+              </div>
+            )}
+
+            {/* Passage option - long ranges can be learned a few verses at a time */}
+            {canSplit && !isBatch && !showManualEntry && projectIntervalDays === null && (
+              <div className="mt-3 flex items-center gap-3 text-sm text-primary/70">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={passageChunkSize !== null}
+                    onChange={(e) => setPassageChunkSize(e.target.checked ? DEFAULT_PASSAGE_CHUNK_SIZE : null)}
+                    disabled={isLoading}
+                  />
+                  Split into passage chunks
+                </label>
+                {passageChunkSize !== null && (
+                  <select
+                    value={passageChunkSize}
+                    onChange={(e) => setPassageChunkSize(Number(e.target.value))}
+                    disabled={isLoading}
+                    className="border border-primary/20 rounded px-2 py-1 text-sm"
+                  >
+                    {PASSAGE_CHUNK_SIZES.map(size => (
+                      <option key={size} value={size}>{size} verses each</option>
+                    ))}
+                  </select>
+                )}
+              </div>
+            )}
+
             {/* Multiple References Examples - Collapsible */}
             {showExamples && (
               <div className="mt-4 bg-primary/5 rounded-lg p-4 border border-primary/10 transition-all duration-200 ease-in-out">
@@ -11,6 +11,8 @@ import { dataService, DuplicateVerseError, ValidationError, NetworkError, type B
 import { normalizeReferenceForLookup } from '../../../utils/referenceNormalizer';
 import { detectNetworkStatus, isNetworkConnectivityError, getErrorMessage } from '../../../services/networkDetection';
 import { parseBatchVerseInput } from '../../../utils/batchVerseParser';
+import { canSplitPassage } from '../../../utils/passages';
+import { parseChapterReference } from '../../../utils/chapterProjects';
 import type { LocalDBSchema } from '../../../services/localDb';
 
 // Form state interface
@@ -30,12 +32,18 @@ export interface AddVerseFormState {
   batchSuccess: BatchVerseCreationResult | null; // For batch operations
   isBatch: boolean; // Whether current input is detected as batch
   showManualEntry: boolean; // Show manual text entry when offline
+  canSplit: boolean; // Whether the reference is long enough to add as a passage
+  passageChunkSize: number | null; // Verses per chunk when adding as a passage (null = one card)
+  isChapter: boolean; // Whether the reference is a whole chapter that can start a project
+  projectIntervalDays: number | null; // Days between new verses for a chapter project (null = no project)
 }
 
 // Hook return interface
 interface UseAddVerseReturn extends AddVerseFormState {
   setReference: (reference: string) => void;
   setVerseText: (text: string) => void;
+  setPassageChunkSize: (chunkSize: number | null) => void;
+  setProjectIntervalDays: (intervalDays: number | null) => void;
   validateReference: (reference: string) => Promise<boolean>;
   addVerse: (reference: string, manualText?: string) => Promise<void>;
   clearState: () => void;
@@ -59,7 +67,11 @@ export function useAddVerse(): UseAddVerseReturn {
     success: null,
     batchSuccess: null,
     isBatch: false,
-    showManualEntry: false
+    showManualEntry: false,
+    canSplit: false,
+    passageChunkSize: null,
+    isChapter: false,
+    projectIntervalDays: null
   });
 
   // Debounced validation timer
@@ -72,11 +84,15 @@ export function useAddVerse(): UseAddVerseReturn {
     // Detect if this is a batch input (multiple references)
     const parseResult = parseBatchVerseInput(reference);
     const isBatch = parseResult.cards.length > 1;
+    const canSplit = parseResult.cards.length === 1 && canSplitPassage(parseResult.cards[0].reference);
+    const isChapter = parseResult.cards.length === 1 && !!parseChapterReference(parseResult.cards[0].reference);
     
     setState(prev => ({
       ...prev,
       reference,
       isBatch,
+      canSplit,
+      isChapter,
       validationError: null,
       error: null,
       success: null, // Clear single success if switching modes
@@ -95,6 +111,26 @@ export function useAddVerse(): UseAddVerseReturn {
     }));
   }, []);
 
+  /**
+   * Chooses whether a long range is added as a passage of chunk cards (see utils/passages)
+   */
+  const setPassageChunkSize = useCallback((passageChunkSize: number | null) => {
+    setState(prev => ({
+      ...prev,
+      passageChunkSize
+    }));
+  }, []);
+
+  /**
+   * Chooses whether a whole chapter starts a chapter project (see utils/chapterProjects)
+   */
+  const setProjectIntervalDays = useCallback((projectIntervalDays: number | null) => {
+    setState(prev => ({
+      ...prev,
+      projectIntervalDays
+    }));
+  }, []);
+
   /**
    * Simple validation with debouncing - just check if input looks reasonable
    */
@@ -311,6 +347,101 @@ export function useAddVerse(): UseAddVerseReturn {
         }
       }
 
+      // Handle chapter projects - the first verse now, the rest one every few days
+      if (state.projectIntervalDays && parseChapterReference(optimizedReference) && !state.showManualEntry) {
+        try {
+          const result = await dataService.addChapterProject(optimizedReference, userId, state.projectIntervalDays, accessToken || undefined);
+
+          if (result.success && result.local) {
+            setState(prev => ({
+              ...prev,
+              isLoading: false,
+              error: null,
+              success: {
+                reference: result.local!.verse.reference,
+                text: result.local!.verse.text,
+                verse: result.local!.verse,
+                verseCard: result.local!.verseCard
+              },
+              reference: '', // Clear form
+              verseText: '', // Clear manual text
+              showManualEntry: false,
+              isBatch: false,
+              canSplit: false,
+              passageChunkSize: null,
+              isChapter: false,
+              projectIntervalDays: null
+            }));
+
+            if (result.errors.remote) {
+              console.warn('Chapter project saved locally but failed to sync to remote:', result.errors.remote);
+            }
+            return;
+          }
+        } catch (error) {
+          console.error('Chapter Project Error:', error);
+
+          const networkStatus = await detectNetworkStatus();
+          if (!(error instanceof ValidationError) && !(error instanceof DuplicateVerseError) &&
+              (isNetworkConnectivityError(error, networkStatus) || error instanceof NetworkError)) {
+            setState(prev => ({
+              ...prev,
+              isLoading: false,
+              error: 'Connection issue detected. Starting a chapter project requires internet connection. Please check your connection and try again.'
+            }));
+            return;
+          }
+          throw error;
+        }
+      }
+
+      // Handle passages - chunk cards plus a chain card for the whole range
+      if (state.passageChunkSize && canSplitPassage(optimizedReference) && !state.showManualEntry) {
+        try {
+          const result = await dataService.addPassage(optimizedReference, userId, state.passageChunkSize, accessToken || undefined);
+
+          if (result.success && result.local) {
+            setState(prev => ({
+              ...prev,
+              isLoading: false,
+              error: null,
+              success: {
+                reference: result.local!.verse.reference,
+                text: result.local!.verse.text,
+                verse: result.local!.verse,
+                verseCard: result.local!.chain
+              },
+              reference: '', // Clear form
+              verseText: '', // Clear manual text
+              showManualEntry: false,
+              isBatch: false,
+              canSplit: false,
+              passageChunkSize: null,
+              isChapter: false
+            }));
+
+            if (result.errors.remote) {
+              console.warn('Passage saved locally but failed to sync to remote:', result.errors.remote);
+            }
+            return;
+          }
+        } catch (error) {
+          console.error('Passage Creation Error:', error);
+
+          const networkStatus = await detectNetworkStatus();
+          if (!(error instanceof ValidationError) && !(error instanceof DuplicateVerseError) &&
+              (isNetworkConnectivityError(error, networkStatus) || error instanceof NetworkError)) {
+            setState(prev => ({
+              ...prev,
+              isLoading: false,
+              error: 'Connection issue detected. Adding a passage requires internet connection. Please check your connection and try again.'
+            }));
+            return;
+          }
+          throw error;
+        }
+      }
+
       // Handle single verse operations
       // Try to add verse using ESV API first (if not already in manual mode)
       if (!state.showManualEntry) {
@@ -438,7 +569,7 @@ export function useAddVerse(): UseAddVerseReturn {
         batchSuccess: null // Clear batch success on error
       }));
     }
-  }, [getCurrentUserId, getAccessToken, state.isLoading, state.showManualEntry]);
+  }, [getCurrentUserId, getAccessToken, state.isLoading, state.showManualEntry, state.passageChunkSize, state.projectIntervalDays]);
 
   /**
    * Retry with ESV API (exit manual entry mode)
@@ -464,7 +595,13 @@ export function useAddVerse(): UseAddVerseReturn {
       isLoading: false,
       error: null,
       success: null,
-      showManualEntry: false
+      batchSuccess: null,
+      isBatch: false,
+      showManualEntry: false,
+      canSplit: false,
+      passageChunkSize: null,
+      isChapter: false,
+      projectIntervalDays: null
     });
   }, []);
 
@@ -508,6 +645,8 @@ export function useAddVerse(): UseAddVerseReturn {
     ...state,
     setReference,
     setVerseText,
+    setPassageChunkSize,
+    setProjectIntervalDays,
     validateReference,
     addVerse,
     clearState,
@@ -9,6 +9,10 @@ import { useLibrary, type LibraryVerseCard } from './hooks/useLibrary';
 import { encodeReference } from '../../utils/referenceEncoding';
 import { ErrorCard } from '../../components/shared/ErrorCard';
 import { EmptyState } from '../../components/shared/EmptyState';
+import { LearningQueue } from './components/LearningQueue';
+import { PassageEntry } from './components/PassageEntry';
+import { ChapterProjects } from './components/ChapterProjects';
+import { isPassageChain, isPassageChunk } from '../../utils/passages';
 
 // Biblical books organized by testament
 const OLD_TESTAMENT_BOOKS = [
@@ -100,12 +104,25 @@ const groupVersesByTestament = (verses: LibraryVerseCard[]) => {
 
 export function Library() {
   const navigate = useNavigate();
-  const { verses, loading, error, refreshLibrary, clearError } = useLibrary();
+  const { verses, loading, error, queuedVerses, projects, moveQueuedVerse, promoteQueuedVerse, refreshLibrary, clearError } = useLibrary();
   const [activeTestament, setActiveTestament] = useState<'Old Testament' | 'New Testament' | 'Needs Attention'>('New Testament');
   const [expandedBooks, setExpandedBooks] = useState<Set<string>>(new Set());
 
+  // Chunk cards are listed under their passage's chain card rather than on their own
+  const passageChunks = useMemo(() => {
+    const chunksByPassage = new Map<string, LibraryVerseCard[]>();
+    for (const card of verses.filter(isPassageChunk)) {
+      chunksByPassage.set(card.passageId!, [...(chunksByPassage.get(card.passageId!) ?? []), card]);
+    }
+    chunksByPassage.forEach(chunks => chunks.sort((a, b) => a.passagePosition! - b.passagePosition!));
+    return chunksByPassage;
+  }, [verses]);
+
   // Group verses by testament and book
-  const groupedVerses = useMemo(() => groupVersesByTestament(verses), [verses]);
+  const groupedVerses = useMemo(() => {
+    const chainIds = new Set(verses.filter(isPassageChain).map(card => card.passageId!));
+    return groupVersesByTestament(verses.filter(card => !isPassageChunk(card) || !chainIds.has(card.passageId!)));
+  }, [verses]);
 
   // Auto-switch to "Needs Attention" if there are invalid verses and user is on a different tab
   const hasInvalidVerses = groupedVerses["Needs Attention"] && Object.keys(groupedVerses["Needs Attention"]).length > 0;
@@ -211,6 +228,16 @@ export function Library() {
       {/* Scrollable Content */}
       <div className="pt-6 pb-8">
 
+        {/* Whole chapters learned a verse at a time */}
+        <ChapterProjects projects={projects} />
+
+        {/* New verses waiting to be introduced */}
+        <LearningQueue
+          queuedVerses={queuedVerses}
+          onMove={moveQueuedVerse}
+          onPromote={promoteQueuedVerse}
+        />
+
         {/* Books and Verses */}
         <div className="space-y-2 pb-8">
           {groupedVerses[activeTestament] && Object.entries(groupedVerses[activeTestament]).map(([book, bookVerses]) => (
@@ -236,7 +263,14 @@ export function Library() {
               <div className={`overflow-hidden transition-all duration-300 ease-in-out ${expandedBooks.has(book) ? 'max-h-screen opacity-100' : 'max-h-0 opacity-0'
                 }`}>
                 <div className="ml-4 pt-1">
-                  {bookVerses.map((verseCard, index) => (
+                  {bookVerses.map((verseCard, index) => isPassageChain(verseCard) ? (
+                    <PassageEntry
+                      key={verseCard.id}
+                      chain={verseCard}
+                      chunks={passageChunks.get(verseCard.passageId!) ?? []}
+                      onSelect={handleVerseClick}
+                    />
+                  ) : (
                     <button
                       key={verseCard.id}
                       onClick={() => handleVerseClick(verseCard)}
@@ -260,6 +294,9 @@ export function Library() {
                               verseCard.verse.reference
                             }
                           </h4>
+                          {verseCard.direction === 'reverse' && (
+                            <span className="text-xs font-medium text-blue-600 bg-blue-50 px-2 py-0.5 rounded">Text → reference</span>
+                          )}
                         </div>
                         {verseCard.verse.validationError ? (
                           <div className="space-y-2">
@@ -0,0 +1,58 @@
+/**
+ * Chapter projects - whole chapters memorized one verse at a time (see utils/chapterProjects).
+ * Shows how far through each chapter the user is and when the next verse arrives.
+ */
+import type { LocalDBSchema } from '../../../services/localDb';
+import { useTimezone } from '../../../contexts/TimezoneContext';
+import { getUserTodayStringInTimezone, parseLocalDate } from '../../../utils/dateUtils';
+import { getNextIntroductionDate, getProjectProgress } from '../../../utils/chapterProjects';
+
+interface ChapterProjectsProps {
+  projects: LocalDBSchema['projects'][];
+}
+
+export function ChapterProjects({ projects }: ChapterProjectsProps) {
+  const { timezone } = useTimezone();
+
+  if (projects.length === 0) return null;
+
+  const today = getUserTodayStringInTimezone(timezone);
+
+  const describeNext = (project: LocalDBSchema['projects']) => {
+    const next = getNextIntroductionDate(project, today);
+    if (!next) return 'Complete';
+    if (next <= today) return 'Next verse today';
+    return `Next verse ${parseLocalDate(next).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}`;
+  };
+
+  return (
+    <div className="mb-4 border border-primary/10 rounded-lg px-4 py-3">
+      <h3 className="font-medium text-primary mb-2">Chapter projects</h3>
+      <ul className="space-y-3">
+        {projects.map(project => {
+          const { introduced, total, percent } = getProjectProgress(project);
+          return (
+            <li key={project.id}>
+              <div className="flex items-center justify-between text-sm mb-1">
+                <span className="text-primary">{project.reference}</span>
+                <span className="text-xs text-primary/50">
+                  {introduced}/{total} verses · {describeNext(project)}
+                </span>
+              </div>
+              <div
+                className="h-2 bg-primary/10 rounded-full overflow-hidden"
+                role="progressbar"
+                aria-label={`${project.reference} progress`}
+                aria-valuenow={percent}
+                aria-valuemin={0}
+                aria-valuemax={100}
+              >
+                <div className="h-full bg-accent transition-all duration-300 ease-in-out" style={{ width: `${percent}%` }} />
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+/**
+ * Learning queue - new verses waiting to be introduced into daily review.
+ * A few are introduced each day (Settings > Learning Schedule); users can reorder
+ * the queue or start a verse right away.
+ */
+import { useState } from 'react';
+import type { LibraryVerseCard } from '../hooks/useLibrary';
+
+interface LearningQueueProps {
+  queuedVerses: LibraryVerseCard[];
+  onMove: (cardId: string, offset: -1 | 1) => Promise<void>;
+  onPromote: (cardId: string) => Promise<void>;
+}
+
+export function LearningQueue({ queuedVerses, onMove, onPromote }: LearningQueueProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [busyCardId, setBusyCardId] = useState<string | null>(null);
+
+  if (queuedVerses.length === 0) return null;
+
+  const run = async (cardId: string, action: () => Promise<void>) => {
+    setBusyCardId(cardId);
+    try {
+      await action();
+    } finally {
+      setBusyCardId(null);
+    }
+  };
+
+  return (
+    <div className="mb-4 border border-primary/10 rounded-lg">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full px-4 py-3 text-left hover:bg-primary/5 transition-all duration-200 ease-in-out flex items-center justify-between rounded-lg"
+      >
+        <span className="font-medium text-primary">
+          Learning queue
+          <span className="bg-accent text-white text-xs rounded-full px-2 py-0.5 ml-2">{queuedVerses.length}</span>
+        </span>
+        <svg
+          className={`w-5 h-5 text-primary/40 transition-all duration-300 ease-in-out transform ${expanded ? 'rotate-180' : 'rotate-0'}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <polyline points="6,9 12,15 18,9"></polyline>
+        </svg>
+      </button>
+
+      {expanded && (
+        <div className="px-4 pb-3">
+          <p className="text-xs text-primary/50 mb-2">
+            New verses are added to your daily review a few at a time, top first.
+          </p>
+          <ol className="space-y-1">
+            {queuedVerses.map((verseCard, index) => (
+              <li key={verseCard.id} className="flex items-center justify-between gap-2 py-1">
+                <span className="text-sm text-primary truncate">
+                  <span className="text-primary/40 mr-2">{index + 1}.</span>
+                  {verseCard.verse.reference}
+                </span>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <button
+                    onClick={() => run(verseCard.id, () => onMove(verseCard.id, -1))}
+                    disabled={index === 0 || busyCardId !== null}
+                    aria-label={`Move ${verseCard.verse.reference} up`}
+                    className="text-primary/60 hover:text-primary px-2 py-1 rounded disabled:opacity-30"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    onClick={() => run(verseCard.id, () => onMove(verseCard.id, 1))}
+                    disabled={index === queuedVerses.length - 1 || busyCardId !== null}
+                    aria-label={`Move ${verseCard.verse.reference} down`}
+                    className="text-primary/60 hover:text-primary px-2 py-1 rounded disabled:opacity-30"
+                  >
+                    ↓
+                  </button>
+                  <button
+                    onClick={() => run(verseCard.id, () => onPromote(verseCard.id))}
+                    disabled={busyCardId !== null}
+                    className="text-xs bg-blue-100 text-blue-700 px-3 py-1.5 rounded hover:bg-blue-200 transition-colors font-medium disabled:opacity-50"
+                  >
+                    Start now
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+}
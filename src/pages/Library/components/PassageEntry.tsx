@@ -0,0 +1,71 @@
+/**
+ * Passage entry - one library row for a passage (see utils/passages).
+ * Shows the whole range with chunk progress and expands to list the chunk cards in order.
+ */
+import { useState } from 'react';
+import type { LibraryVerseCard } from '../hooks/useLibrary';
+import { getPassageProgress } from '../../../utils/passages';
+
+interface PassageEntryProps {
+  chain: LibraryVerseCard;
+  chunks: LibraryVerseCard[]; // Sorted by passage position
+  onSelect: (card: LibraryVerseCard) => void;
+}
+
+export function PassageEntry({ chain, chunks, onSelect }: PassageEntryProps) {
+  const [expanded, setExpanded] = useState(false);
+  const { learned, total } = getPassageProgress(chunks);
+
+  return (
+    <div className="w-full">
+      <div className="flex items-center rounded-lg hover:bg-primary/5 transition-all duration-200 ease-in-out">
+        <button
+          onClick={() => onSelect(chain)}
+          className="flex-1 min-w-0 px-4 py-3 text-left"
+        >
+          <div className="flex items-center gap-2 mb-2">
+            <h4 className="font-medium text-base text-primary">{chain.verse.reference}</h4>
+            <span className="text-xs text-primary/50">
+              {learned}/{total} chunks learned{chain.locked ? '' : ' · reviewing as a whole'}
+            </span>
+          </div>
+          <p className="text-sm text-primary/60 truncate leading-relaxed" style={{ fontFamily: 'Crimson Text, serif' }}>
+            {chain.verse.text}
+          </p>
+        </button>
+        <button
+          onClick={() => setExpanded(!expanded)}
+          aria-label={expanded ? 'Hide passage chunks' : 'Show passage chunks'}
+          className="px-4 py-3 text-primary/40 flex-shrink-0"
+        >
+          <svg
+            className={`w-5 h-5 transition-all duration-300 ease-in-out transform ${expanded ? 'rotate-180' : 'rotate-0'}`}
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <polyline points="6,9 12,15 18,9"></polyline>
+          </svg>
+        </button>
+      </div>
+
+      {expanded && (
+        <ol className="ml-4 border-l border-primary/10">
+          {chunks.map(chunk => (
+            <li key={chunk.id}>
+              <button
+                onClick={() => onSelect(chunk)}
+                className="w-full px-4 py-2 text-left hover:bg-primary/5 transition-all duration-200 ease-in-out flex items-center justify-between rounded-lg"
+              >
+                <span className="text-sm text-primary truncate">{chunk.verse.reference}</span>
+                <span className="text-xs text-primary/40 capitalize flex-shrink-0 ml-2">
+                  {chunk.archived ? 'archived' : chunk.currentPhase}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
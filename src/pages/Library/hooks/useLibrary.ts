@@ -5,11 +5,22 @@
  * Provides access to user's verse collection with offline-first functionality.
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { useAuth } from '../../../contexts/AuthContext';
 import { useTimezone } from '../../../contexts/TimezoneContext';
-import { localDb } from '../../../services/localDb';
-import { countDueCards } from '../../../utils/assignmentLogic';
+import { localDb, type LocalDBSchema } from '../../../services/localDb';
+import { dataService } from '../../../services/dataService';
+import {
+  DEFAULT_NEW_CARDS_PER_DAY,
+  DEFAULT_OVERDUE_DAILY_CAP,
+  countDueCards,
+  sortLearningQueue,
+  type DueCardOptions
+} from '../../../utils/assignmentLogic';
+import { getScheduler, type SchedulerType } from '../../../utils/spacedRepetition';
+import { applyPassageLocks } from '../../../utils/passages';
+import type { VerseSegment } from '../../../utils/verseSegments';
+import { getCardDirection, type CardDirection } from '../../../utils/referenceRecall';
 
 // Library-specific verse card interface with assignment fields
 export interface LibraryVerseCard {
@@ -19,9 +30,11 @@ export interface LibraryVerseCard {
     reference: string;
     text: string;
     translation: string;
+    segments?: VerseSegment[] | null; // Verse numbers, headings and poetry lines for display
     validationError?: string; // ESV validation error (if any)
   };
   currentPhase: 'daily' | 'weekly' | 'biweekly' | 'monthly';
+  phaseProgressCount?: number;         // Successful reviews toward the next phase
   nextDueDate: string;
   assignedDayOfWeek: number | null;    // 1-7 (Sunday=1) for weekly/biweekly
   assignedWeekParity: number | null;   // 0 or 1 for biweekly scheduling
@@ -30,6 +43,17 @@ export interface LibraryVerseCard {
   bestStreak: number;
   lastReviewedAt: string | null;
   archived: boolean;
+  scheduler?: SchedulerType;           // User's scheduler - defaults to the phase ladder
+  overdueDays?: number;                // Days past due (set for review - see getOverdueDays)
+  recentFailures?: number;             // Failed reviews in the last RECENT_FAILURE_DAYS (set for review ordering)
+  queued?: boolean;                    // Waiting in the learning queue
+  queuePosition?: number | null;       // Manual queue order
+  intervalDays?: number;               // SM-2 interval
+  passageId?: string | null;           // Passage this card belongs to (see utils/passages)
+  passagePosition?: number | null;     // 0 = chain card, 1.. = chunks in order
+  locked?: boolean;                    // Chain card waiting for its chunks
+  direction?: CardDirection;           // 'reverse' = text → reference card
+  createdAt?: string;
   source: 'local' | 'remote' | 'both';
 }
 
@@ -39,16 +63,22 @@ interface UseLibraryReturn {
   error: string | null;
   totalCount: number;
   dueCount: number;
+  queuedVerses: LibraryVerseCard[];
+  projects: LocalDBSchema['projects'][];
+  moveQueuedVerse: (cardId: string, offset: -1 | 1) => Promise<void>;
+  promoteQueuedVerse: (cardId: string) => Promise<void>;
   refreshLibrary: () => Promise<void>;
   clearError: () => void;
 }
 
 export function useLibrary(): UseLibraryReturn {
-  const { getCurrentUserId } = useAuth();
+  const { getCurrentUserId, getAccessToken } = useAuth();
   const { timezone } = useTimezone();
   const [verses, setVerses] = useState<LibraryVerseCard[]>([]);
+  const [projects, setProjects] = useState<LocalDBSchema['projects'][]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [dueCardOptions, setDueCardOptions] = useState<DueCardOptions>({});
 
   /**
    * Loads verses from local database (primary source)
@@ -56,6 +86,8 @@ export function useLibrary(): UseLibraryReturn {
   const loadLocalVerses = useCallback(async (userId: string): Promise<LibraryVerseCard[]> => {
     try {
       const localCards = await localDb.verseCards.getByUser(userId);
+      const userProfile = await localDb.userProfiles.findByUserId(userId);
+      const scheduler = getScheduler(userProfile?.scheduler).type;
       const libraryCards: LibraryVerseCard[] = [];
 
       for (const card of localCards) {
@@ -77,9 +109,11 @@ export function useLibrary(): UseLibraryReturn {
               reference: verse.reference,
               text: verse.text,
               translation: verse.translation,
+              segments: verse.segments ?? null,
               validationError: verse.validation_error // Include validation error info
             },
             currentPhase: card.current_phase,
+            phaseProgressCount: card.phase_progress_count,
             nextDueDate: card.next_due_date,
             assignedDayOfWeek: card.assigned_day_of_week,
             assignedWeekParity: card.assigned_week_parity,
@@ -88,13 +122,21 @@ export function useLibrary(): UseLibraryReturn {
             bestStreak: card.best_streak,
             lastReviewedAt: card.last_reviewed_at,
             archived: card.archived,
+            scheduler,
+            queued: !card.introduced_at,
+            queuePosition: card.queue_position ?? null,
+            intervalDays: card.interval_days,
+            passageId: card.passage_id ?? null,
+            passagePosition: card.passage_position ?? null,
+            direction: getCardDirection(card),
+            createdAt: card.created_at,
             source: 'local'
           });
         }
       }
 
       // Sort: invalid verses at top, then by reference
-      return libraryCards.sort((a, b) => {
+      return applyPassageLocks(libraryCards).sort((a, b) => {
         // Invalid verses first
         if (a.verse.validationError && !b.verse.validationError) return -1;
         if (!a.verse.validationError && b.verse.validationError) return 1;
@@ -118,8 +160,27 @@ export function useLibrary(): UseLibraryReturn {
 
       // Load from local database (primary source)
       const userId = getCurrentUserId();
+
+      // Shift the schedule forward first if a pause just ended
+      const accessToken = await getAccessToken();
+      await dataService.resumeExpiredPause(userId, accessToken || undefined);
+
+      // Introduce today's verse of any chapter projects before loading cards
+      await dataService.advanceChapterProjects(userId, accessToken || undefined);
+
       const localVerses = await loadLocalVerses(userId);
       setVerses(localVerses);
+      setProjects((await localDb.projects.getByUser(userId)).filter(project => !project.archived));
+
+      // Same overdue cap and pause as the review queue so the due count matches
+      const userProfile = await localDb.userProfiles.findByUserId(userId);
+      setDueCardOptions({
+        dailyCap: userProfile?.overdue_daily_cap ?? DEFAULT_OVERDUE_DAILY_CAP,
+        reviewedToday: await localDb.reviewLogs.countOverdueToday(userId),
+        pause: userProfile,
+        newCardsPerDay: userProfile?.new_cards_per_day ?? DEFAULT_NEW_CARDS_PER_DAY,
+        introducedToday: await localDb.verseCards.countIntroducedToday(userId)
+      });
 
       // TODO: In the future, we could merge with remote data here
       // const remoteVerses = await dataService.getUserVerses(userId);
@@ -133,7 +194,7 @@ export function useLibrary(): UseLibraryReturn {
     } finally {
       setLoading(false);
     }
-  }, [getCurrentUserId, loadLocalVerses]);
+  }, [getCurrentUserId, getAccessToken, loadLocalVerses]);
 
   /**
    * Clears error state
@@ -170,9 +231,48 @@ export function useLibrary(): UseLibraryReturn {
     return () => window.removeEventListener('focus', handleFocus);
   }, [refreshLibrary]);
 
+  /**
+   * Moves a queued verse one place earlier (-1) or later (1) in the learning queue
+   */
+  const moveQueuedVerse = useCallback(async (cardId: string, offset: -1 | 1) => {
+    const queue = sortLearningQueue(verses.filter(card => card.queued && !card.archived && !card.locked));
+    const index = queue.findIndex(card => card.id === cardId);
+    const target = index + offset;
+    if (index === -1 || target < 0 || target >= queue.length) return;
+
+    [queue[index], queue[target]] = [queue[target], queue[index]];
+
+    try {
+      const accessToken = await getAccessToken();
+      await dataService.reorderLearningQueue(getCurrentUserId(), queue.map(card => card.id), accessToken || undefined);
+      await refreshLibrary();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to reorder learning queue';
+      setError(errorMessage);
+    }
+  }, [verses, getAccessToken, getCurrentUserId, refreshLibrary]);
+
+  /**
+   * Starts learning a queued verse today, ahead of the daily new-card limit
+   */
+  const promoteQueuedVerse = useCallback(async (cardId: string) => {
+    try {
+      const accessToken = await getAccessToken();
+      await dataService.promoteQueuedCard(cardId, getCurrentUserId(), accessToken || undefined);
+      await refreshLibrary();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to start verse';
+      setError(errorMessage);
+    }
+  }, [getAccessToken, getCurrentUserId, refreshLibrary]);
+
   // Calculate derived values using assignment-aware logic
   const totalCount = verses.length;
-  const dueCount = countDueCards(verses, timezone);
+  const dueCount = countDueCards(verses, timezone, dueCardOptions);
+  const queuedVerses = useMemo(
+    () => sortLearningQueue(verses.filter(card => card.queued && !card.archived && !card.locked)),
+    [verses]
+  );
 
   return {
     verses,
@@ -180,6 +280,10 @@ export function useLibrary(): UseLibraryReturn {
     error,
     totalCount,
     dueCount,
+    queuedVerses,
+    projects,
+    moveQueuedVerse,
+    promoteQueuedVerse,
     refreshLibrary,
     clearError
   };
@@ -3,12 +3,37 @@
  * Full-screen interface with local-only sessions, undo functionality, and card stack visuals.
  */
 
+import { useState, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { useSlackReview } from './hooks/useSlackReview';
-import { SlackCard } from './components/SlackCard';
+import { useSlackReview, type ReviewMode } from './hooks/useSlackReview';
+import { SlackCard, type SwipeDirection } from './components/SlackCard';
+import { TypedRecallCard } from './components/TypedRecallCard';
+import { AudioRecallCard } from './components/AudioRecallCard';
+import { ShortcutHelp } from './components/ShortcutHelp';
+import { SessionTimer } from './components/SessionTimer';
+import { useReviewShortcuts } from './hooks/useReviewShortcuts';
 import { EmptyState } from '../../components/shared/EmptyState';
 import { ErrorCard } from '../../components/shared/ErrorCard';
 import { Card } from '../../components/shared/Card';
+import type { ReviewGrade } from '../../utils/spacedRepetition';
+import { formatShortcutKey } from '../../utils/reviewShortcuts';
+import { SESSION_TIME_BUDGET_OPTIONS } from '../../utils/sessionTiming';
+import { REVIEW_ORDERS, REVIEW_ORDER_LABELS, type ReviewOrder } from '../../utils/reviewOrder';
+
+// Swipe directions map to review grades
+const SWIPE_GRADES: Record<SwipeDirection, ReviewGrade> = {
+  left: 'again',
+  down: 'hard',
+  right: 'good',
+  up: 'easy'
+};
+
+// Header switch between review modes - audio speaks the reference and listens for the verse
+const REVIEW_MODE_OPTIONS: { mode: ReviewMode; label: string }[] = [
+  { mode: 'swipe', label: 'Swipe' },
+  { mode: 'typed', label: 'Type' },
+  { mode: 'audio', label: 'Listen' }
+];
 
 export function Review() {
   const navigate = useNavigate();
@@ -18,29 +43,55 @@ export function Review() {
     loading,
     error,
     session,
+    resumableSession,
+    canUndo,
     currentCard,
     sessionProgress,
     referenceDisplayMode,
+    phaseRequirements,
+    reviewShortcuts,
+    dailyStreak,
+    reviewMode,
+    setReviewMode,
+    timeBudgetMinutes,
+    setTimeBudgetMinutes,
+    reviewOrder,
+    setReviewOrder,
     startSession,
     startTodaysSession,
     startIncorrectSession,
-    markCardCorrect,
-    markCardIncorrect,
+    gradeCard,
+    submitTypedRecall,
     undoLastAction,
     completeSession,
+    resumeSession,
+    discardSavedSession,
     refreshDueCards
   } = useSlackReview();
 
-  const handleSwipe = (direction: 'left' | 'right') => {
-    if (direction === 'right') {
-      markCardCorrect();
-    } else {
-      markCardIncorrect();
-    }
-  };
+  // Typed and audio recall grade themselves; text → reference cards ask for the
+  // reference, so they're always swiped
+  const isTypedRecall = reviewMode === 'typed' && currentCard?.direction !== 'reverse';
+  const isAudioRecall = reviewMode === 'audio' && currentCard?.direction !== 'reverse';
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const closeShortcuts = useCallback(() => setShowShortcuts(false), []);
 
-  const handleButtonClick = (direction: 'left' | 'right') => {
-    handleSwipe(direction);
+  // Keyboard review for desktop - grades mirror the bottom buttons, so typed and audio
+  // recall (which grade themselves) only get undo and help
+  const canGradeByKey = !isTypedRecall && !isAudioRecall && !showShortcuts;
+  useReviewShortcuts(reviewShortcuts, {
+    ...(canGradeByKey ? {
+      correct: () => gradeCard('good'),
+      incorrect: () => gradeCard('again'),
+      hard: () => gradeCard('hard'),
+      easy: () => gradeCard('easy')
+    } : {}),
+    ...(canUndo ? { undo: undoLastAction } : {}),
+    help: () => setShowShortcuts(shown => !shown)
+  }, !!currentCard);
+
+  const handleSwipe = (direction: SwipeDirection) => {
+    gradeCard(SWIPE_GRADES[direction]);
   };
 
   const handleCompleteSession = async () => {
@@ -75,6 +126,35 @@ export function Review() {
     );
   }
 
+  // Session interrupted earlier today (e.g. the app was closed) - offer to pick it up
+  if (!session && resumableSession) {
+    const reviewedCount = resumableSession.actions.length;
+    return (
+      <div className="fixed inset-0 bg-background flex items-center justify-center p-4" style={{ height: '100dvh' }}>
+        <div className="text-center max-w-md">
+          <EmptyState
+            title="Resume your session?"
+            description={`You reviewed ${reviewedCount} of ${resumableSession.cards.length} verse${resumableSession.cards.length !== 1 ? 's' : ''} before the session was interrupted.`}
+            actionText="Resume Session"
+            onAction={resumeSession}
+            icon="⏯"
+          />
+          <div className="mt-6 space-y-3">
+            <button
+              onClick={discardSavedSession}
+              className="w-full px-6 py-3 text-primary/60 hover:text-primary hover:bg-primary/5 transition-colors rounded-lg"
+            >
+              Start Over
+            </button>
+            <p className="text-xs text-primary/50">
+              Verses you already reviewed stay reviewed either way.
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   // No session active - show start options
   if (!session) {
     return (
@@ -100,6 +180,39 @@ export function Review() {
               icon="📖"
             />
             <div className="mt-6 space-y-3">
+              <label className="flex items-center justify-center gap-2 text-sm text-primary/70">
+                Order
+                <select
+                  value={reviewOrder}
+                  onChange={(e) => setReviewOrder(e.target.value as ReviewOrder)}
+                  className="bg-white border border-primary/20 rounded px-2 py-1 text-sm font-medium text-primary focus:outline-none focus:ring-2 focus:ring-accent/20 focus:border-accent"
+                >
+                  {REVIEW_ORDERS.map(order => (
+                    <option key={order} value={order}>{REVIEW_ORDER_LABELS[order]}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center justify-center gap-2 text-sm text-primary/70">
+                Time available
+                <select
+                  value={timeBudgetMinutes}
+                  onChange={(e) => setTimeBudgetMinutes(Number(e.target.value))}
+                  className="bg-white border border-primary/20 rounded px-2 py-1 text-sm font-medium text-primary focus:outline-none focus:ring-2 focus:ring-accent/20 focus:border-accent"
+                >
+                  {SESSION_TIME_BUDGET_OPTIONS.map(minutes => (
+                    <option key={minutes} value={minutes}>
+                      {minutes === 0 ? 'No limit' : `${minutes} minutes`}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {timeBudgetMinutes > 0 && (
+                <p className="text-xs text-primary/50">
+                  {reviewOrder === 'scheduled'
+                    ? "Most overdue and least settled verses come first - the session ends when time's up."
+                    : "The session ends when time's up."}
+                </p>
+              )}
               {todaysCards.length > 0 && (
                 <button
                   onClick={startTodaysSession}
@@ -152,6 +265,17 @@ export function Review() {
               Score: {sessionProgress.correctCount}/{sessionProgress.total}
               ({Math.round((sessionProgress.correctCount / sessionProgress.total) * 100)}%)
             </p>
+            {session.cardsLeftAtTimeUp > 0 && (
+              <p className="text-primary/70 -mt-6 mb-8">
+                ⏱ Time's up - {session.cardsLeftAtTimeUp} verse{session.cardsLeftAtTimeUp !== 1 ? 's' : ''} left for next time
+              </p>
+            )}
+            {dailyStreak && dailyStreak.current > 0 && (
+              <p className="text-primary font-medium -mt-4 mb-8">
+                🔥 {dailyStreak.current} day{dailyStreak.current !== 1 ? 's' : ''} in a row
+                {dailyStreak.current === dailyStreak.best && dailyStreak.current > 1 && ' - your best yet!'}
+              </p>
+            )}
 
             <div className="space-y-3">
               {sessionProgress.incorrectCount > 0 && (
@@ -201,16 +325,37 @@ export function Review() {
           </svg>
         </button>
 
-        <div className="text-center">
+        <div className="text-center flex flex-col items-center">
           <span className="text-primary font-medium">
             {sessionProgress.total - sessionProgress.current} Left
           </span>
+          {session.timeBudgetMinutes > 0 && (
+            <SessionTimer startTime={session.startTime} budgetMinutes={session.timeBudgetMinutes} />
+          )}
+          <div className="flex gap-2">
+            {REVIEW_MODE_OPTIONS.map(({ mode, label }) => (
+              <button
+                key={mode}
+                onClick={() => setReviewMode(mode)}
+                className={`text-xs transition-colors ${reviewMode === mode ? 'text-primary font-medium underline' : 'text-primary/60 hover:text-primary'}`}
+              >
+                {label}
+              </button>
+            ))}
+            <button
+              onClick={() => setShowShortcuts(true)}
+              className="hidden md:inline text-xs text-primary/60 hover:text-primary transition-colors"
+              title="Keyboard shortcuts"
+            >
+              Keys ({formatShortcutKey(reviewShortcuts.help)})
+            </button>
+          </div>
         </div>
 
         <button
           onClick={undoLastAction}
-          disabled={session?.actions.length === 0}
-          className={`px-3 py-1 rounded-lg font-medium text-sm transition-colors ${session?.actions.length === 0
+          disabled={!canUndo}
+          className={`px-3 py-1 rounded-lg font-medium text-sm transition-colors ${!canUndo
             ? 'text-primary/30 cursor-not-allowed'
             : 'text-primary hover:bg-primary/10'
             }`}
@@ -221,7 +366,25 @@ export function Review() {
 
       {/* Card Stack Area */}
       <div className="absolute inset-0 flex items-center justify-center p-4" style={{ paddingTop: '80px', paddingBottom: '120px' }}>
-        {currentCard && (
+        {currentCard && isTypedRecall && (
+          <div className="w-full max-w-lg h-full max-h-[500px] relative">
+            <TypedRecallCard
+              key={currentCard.id}
+              card={currentCard}
+              onSubmit={submitTypedRecall}
+            />
+          </div>
+        )}
+        {currentCard && isAudioRecall && (
+          <div className="w-full max-w-lg h-full max-h-[500px] relative">
+            <AudioRecallCard
+              key={currentCard.id}
+              card={currentCard}
+              onSubmit={submitTypedRecall}
+            />
+          </div>
+        )}
+        {currentCard && !isTypedRecall && !isAudioRecall && (
           <div className="w-full max-w-lg h-full max-h-[500px] relative">
             <SlackCard
               key={currentCard.id}
@@ -230,32 +393,49 @@ export function Review() {
               stackIndex={0}
               onSwipe={handleSwipe}
               referenceDisplayMode={referenceDisplayMode}
+              phaseRequirements={phaseRequirements}
+              shortcuts={showShortcuts ? undefined : reviewShortcuts}
               backgroundCards={session.cards.slice(sessionProgress.current + 1, sessionProgress.current + 3)}
             />
           </div>
         )}
       </div>
 
-      {/* Floating Bottom Buttons */}
-      <div
-        className="absolute bottom-5 left-0 right-0 z-50 flex gap-4 p-4 bg-background/80 backdrop-blur-sm"
-        style={{ paddingBottom: 'env(safe-area-inset-bottom, 16px)' }}
-        data-testid="footer-overlay"
-      >
-        <button
-          className="flex-1 py-4 px-6 border-2 border-red-500 text-red-500 rounded-xl font-medium active:bg-red-100 active:scale-95 transition-all duration-150 min-h-[56px]"
-          onClick={() => handleSwipe('left')}
-        >
-          Mark Incorrect
-        </button>
-        <button
-          className="flex-1 py-4 px-6 bg-green-500 text-white rounded-xl font-medium active:bg-green-700 active:scale-95 transition-all duration-150 min-h-[56px]"
-          onClick={() => handleSwipe('right')}
+      {/* Floating Bottom Buttons - typed and audio recall grade themselves */}
+      {!isTypedRecall && !isAudioRecall && (
+        <div
+          className="absolute bottom-5 left-0 right-0 z-50 flex gap-2 p-4 bg-background/80 backdrop-blur-sm"
+          style={{ paddingBottom: 'env(safe-area-inset-bottom, 16px)' }}
+          data-testid="footer-overlay"
         >
-          Mark Correct
-        </button>
-      </div>
+          <button
+            className="flex-1 py-4 px-2 border-2 border-red-500 text-red-500 rounded-xl font-medium active:bg-red-100 active:scale-95 transition-all duration-150 min-h-[56px]"
+            onClick={() => gradeCard('again')}
+          >
+            Again
+          </button>
+          <button
+            className="flex-1 py-4 px-2 border-2 border-amber-500 text-amber-600 rounded-xl font-medium active:bg-amber-100 active:scale-95 transition-all duration-150 min-h-[56px]"
+            onClick={() => gradeCard('hard')}
+          >
+            Hard
+          </button>
+          <button
+            className="flex-1 py-4 px-2 bg-green-500 text-white rounded-xl font-medium active:bg-green-700 active:scale-95 transition-all duration-150 min-h-[56px]"
+            onClick={() => gradeCard('good')}
+          >
+            Good
+          </button>
+          <button
+            className="flex-1 py-4 px-2 bg-blue-500 text-white rounded-xl font-medium active:bg-blue-700 active:scale-95 transition-all duration-150 min-h-[56px]"
+            onClick={() => gradeCard('easy')}
+          >
+            Easy
+          </button>
+        </div>
+      )}
 
+      {showShortcuts && <ShortcutHelp shortcuts={reviewShortcuts} onClose={closeShortcuts} />}
     </div>
   );
 }
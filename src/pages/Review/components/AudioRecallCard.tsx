@@ -0,0 +1,168 @@
+/**
+ * AudioRecallCard Component
+ *
+ * Hands-free review card - the reference is spoken aloud, the user recites the verse and
+ * the transcript is graded like a typed answer (see utils/spokenRecall). The result is
+ * spoken back and the card advances by itself.
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { LibraryVerseCard } from '../../Library/hooks/useLibrary';
+import type { RecallGrade } from '../../../utils/recallScoring';
+import { gradeSpokenRecall } from '../../../utils/spokenRecall';
+import { useSpeech } from '../hooks/useSpeech';
+import { DiffToken } from './TypedRecallCard';
+
+interface AudioRecallCardProps {
+  card: LibraryVerseCard;
+  onSubmit: (grade: RecallGrade) => void;
+}
+
+type AudioRecallStatus = 'speaking' | 'listening' | 'graded';
+
+export function AudioRecallCard({ card, onSubmit }: AudioRecallCardProps) {
+  const { isSupported, isListening, transcript, error, speak, listen, stopListening, cancel } = useSpeech();
+  const [status, setStatus] = useState<AudioRecallStatus>('speaking');
+  const [grade, setGrade] = useState<RecallGrade | null>(null);
+  // Bumped whenever an attempt is abandoned, so its pending steps stop
+  const attemptRef = useRef(0);
+  // Latest onSubmit, so a new callback from the session doesn't restart the attempt
+  const onSubmitRef = useRef(onSubmit);
+
+  useEffect(() => {
+    onSubmitRef.current = onSubmit;
+  }, [onSubmit]);
+
+  const { verse } = card;
+
+  const runAttempt = useCallback(async () => {
+    const attempt = ++attemptRef.current;
+    const isStale = () => attempt !== attemptRef.current;
+
+    setGrade(null);
+    setStatus('speaking');
+    await speak(verse.reference);
+    if (isStale()) return;
+
+    setStatus('listening');
+    const transcripts = await listen();
+    if (isStale()) return;
+
+    const result = gradeSpokenRecall(verse.text, transcripts);
+    setGrade(result);
+    setStatus('graded');
+    await speak(result.wasSuccessful
+      ? `Correct. ${result.accuracyPercentage} percent.`
+      : `${result.accuracyPercentage} percent. The verse is: ${verse.text}`);
+    if (isStale()) return;
+
+    onSubmitRef.current(result);
+  }, [verse.reference, verse.text, speak, listen]);
+
+  const abandonAttempt = useCallback(() => {
+    attemptRef.current++;
+    cancel();
+  }, [cancel]);
+
+  useEffect(() => {
+    if (!isSupported) return;
+    runAttempt().catch(attemptError => console.error('Audio recall failed:', attemptError));
+    return abandonAttempt;
+  }, [isSupported, runAttempt, abandonAttempt]);
+
+  const handleRetry = () => {
+    abandonAttempt();
+    runAttempt().catch(attemptError => console.error('Audio recall failed:', attemptError));
+  };
+
+  const handleNext = () => {
+    if (!grade) return;
+    abandonAttempt();
+    onSubmit(grade);
+  };
+
+  return (
+    <div
+      className="absolute inset-0 bg-white rounded-2xl border border-primary/10 flex flex-col overflow-hidden"
+      style={{ boxShadow: '0 10px 20px rgba(0,0,0,0.15)' }}
+      data-testid="audio-recall-card"
+    >
+      {/* Header with reference */}
+      <div className="p-4 border-b border-primary/10 flex-shrink-0">
+        <h2 className="text-xl font-bold text-primary text-center">
+          {verse.reference}
+        </h2>
+      </div>
+
+      <div className="flex-1 flex flex-col p-4 min-h-0 gap-4">
+        {!isSupported ? (
+          <p className="flex-1 flex items-center text-center text-primary/70">
+            Audio review needs speech recognition, which this browser doesn't support. Switch to swiping or typing above.
+          </p>
+        ) : status !== 'graded' || !grade ? (
+          <>
+            <div className="text-center">
+              <p className={`text-lg font-medium ${isListening ? 'text-green-600' : 'text-primary/60'}`}>
+                {status === 'speaking' ? 'Listen for the reference…' : 'Recite the verse'}
+              </p>
+              {error && <p className="text-error text-sm mt-1">{error}</p>}
+            </div>
+
+            <div className="flex-1 overflow-y-auto">
+              <p className="text-xl leading-relaxed text-primary/80" style={{ fontFamily: 'serif' }}>
+                {transcript}
+              </p>
+            </div>
+
+            <div className="flex gap-2">
+              <button
+                onClick={handleRetry}
+                className="flex-1 py-3 border border-primary/20 text-primary rounded-xl font-medium transition-colors"
+              >
+                Start over
+              </button>
+              <button
+                onClick={stopListening}
+                disabled={!isListening}
+                className="flex-1 py-3 bg-primary text-white rounded-xl font-medium disabled:opacity-40 transition-colors"
+              >
+                Done
+              </button>
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="text-center">
+              <p className={`text-3xl font-bold ${grade.wasSuccessful ? 'text-green-600' : 'text-red-600'}`}>
+                {grade.accuracyPercentage}%
+              </p>
+            </div>
+
+            <div className="flex-1 overflow-y-auto">
+              <p className="text-xl leading-relaxed flex flex-wrap gap-x-1.5 gap-y-1" style={{ fontFamily: 'serif' }}>
+                {grade.tokens.map((token, index) => (
+                  <DiffToken key={index} token={token} />
+                ))}
+              </p>
+            </div>
+
+            <div className="flex gap-2">
+              <button
+                onClick={handleRetry}
+                className="flex-1 py-3 border border-primary/20 text-primary rounded-xl font-medium transition-colors"
+              >
+                Try again
+              </button>
+              <button
+                onClick={handleNext}
+                className={`flex-1 py-3 rounded-xl font-medium text-white transition-colors ${grade.wasSuccessful ? 'bg-green-500 active:bg-green-700' : 'bg-red-500 active:bg-red-700'}`}
+              >
+                Next Verse
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+/**
+ * ClozeText Component
+ *
+ * Verse text with some words blanked (see utils/cloze). Tap a blank to reveal it, or type
+ * the next blank's word into the box to fill it in.
+ */
+
+import { useState } from 'react';
+import { isClozeGuessCorrect, maskClozeWord } from '../../../utils/cloze';
+
+interface ClozeTextProps {
+  words: string[];
+  blanks: number[]; // Indexes of words still hidden, in order
+  onReveal: (index: number) => void;
+}
+
+export function ClozeText({ words, blanks, onReveal }: ClozeTextProps) {
+  const [guess, setGuess] = useState('');
+  const nextBlank = blanks[0];
+
+  const handleGuess = (value: string) => {
+    if (nextBlank !== undefined && isClozeGuessCorrect(value, words[nextBlank])) {
+      onReveal(nextBlank);
+      setGuess('');
+    } else {
+      setGuess(value);
+    }
+  };
+
+  return (
+    <>
+      <span>
+        "{words.map((word, index) => (
+          <span key={index}>
+            {index > 0 && ' '}
+            {blanks.includes(index) ? (
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation(); // Don't reveal the card's next blank as well
+                  onReveal(index);
+                }}
+                className={`text-primary/40 hover:text-primary/70 ${index === nextBlank ? 'underline decoration-accent' : ''}`}
+                aria-label="Reveal hidden word"
+              >
+                {maskClozeWord(word)}
+              </button>
+            ) : word}
+          </span>
+        ))}"
+      </span>
+      {nextBlank !== undefined && (
+        <input
+          type="text"
+          value={guess}
+          onChange={(e) => handleGuess(e.target.value)}
+          onClick={(e) => e.stopPropagation()}
+          placeholder="Type the underlined word..."
+          autoCapitalize="off"
+          autoCorrect="off"
+          spellCheck={false}
+          className="block w-full mt-4 p-2 border border-primary/20 rounded-lg text-base font-sans text-primary focus:outline-none focus:ring-2 focus:ring-accent"
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,79 @@
+/**
+ * ReferencePrompt Component
+ *
+ * Front of a text → reference card: the verse text with a box for its reference. The answer
+ * is checked with isReferenceRecallCorrect, so "Jn 3:16" counts for "John 3:16". Checking
+ * (or giving up) shows the reference - the card is then graded by swiping as usual.
+ */
+
+import { useState } from 'react';
+import type { LibraryVerseCard } from '../../Library/hooks/useLibrary';
+import { VerseText } from '../../../components/shared/VerseText';
+import { isReferenceRecallCorrect } from '../../../utils/referenceRecall';
+
+interface ReferencePromptProps {
+  verse: LibraryVerseCard['verse'];
+}
+
+export function ReferencePrompt({ verse }: ReferencePromptProps) {
+  const [answer, setAnswer] = useState('');
+  const [result, setResult] = useState<'correct' | 'incorrect' | 'revealed' | null>(null);
+
+  const handleCheck = () => {
+    setResult(isReferenceRecallCorrect(answer, verse.reference) ? 'correct' : 'incorrect');
+  };
+
+  return (
+    <div className="text-center" onClick={(e) => e.stopPropagation()}>
+      <div className="max-h-64 overflow-y-auto">
+        <p className="text-primary text-xl leading-relaxed mb-4 select-none" style={{ fontFamily: 'serif' }}>
+          <VerseText text={verse.text} segments={verse.segments} quoted />
+        </p>
+      </div>
+
+      {result === null ? (
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleCheck();
+          }}
+        >
+          <input
+            type="text"
+            value={answer}
+            onChange={(e) => setAnswer(e.target.value)}
+            placeholder="Which reference is this?"
+            autoCapitalize="off"
+            autoCorrect="off"
+            spellCheck={false}
+            className="flex-1 min-w-0 p-2 border border-primary/20 rounded-lg text-base text-primary focus:outline-none focus:ring-2 focus:ring-accent"
+          />
+          <button
+            type="submit"
+            disabled={!answer.trim()}
+            className="px-4 py-2 bg-accent text-primary rounded-lg font-medium disabled:opacity-50"
+          >
+            Check
+          </button>
+          <button
+            type="button"
+            onClick={() => setResult('revealed')}
+            className="px-3 py-2 text-primary/60 hover:text-primary text-sm"
+          >
+            Show
+          </button>
+        </form>
+      ) : (
+        <div>
+          {result === 'correct' && <p className="text-green-600 font-medium mb-1">✓ Correct</p>}
+          {result === 'incorrect' && (
+            <p className="text-red-600 font-medium mb-1">✗ You answered "{answer}"</p>
+          )}
+          <cite className="text-primary text-lg font-medium">— {verse.reference}</cite>
+          <p className="text-primary/50 text-sm mt-4">Swipe to grade</p>
+        </div>
+      )}
+    </div>
+  );
+}
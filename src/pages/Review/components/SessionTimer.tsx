@@ -0,0 +1,32 @@
+/**
+ * SessionTimer Component
+ *
+ * Countdown for a session with a time budget - the session itself ends after the card
+ * in progress once time is up (see advanceSession in utils/reviewSession).
+ */
+
+import { useState, useEffect } from 'react';
+
+interface SessionTimerProps {
+  startTime: number;
+  budgetMinutes: number;
+}
+
+export function SessionTimer({ startTime, budgetMinutes }: SessionTimerProps) {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const remainingSeconds = Math.max(0, Math.ceil((startTime + budgetMinutes * 60 * 1000 - now) / 1000));
+  const minutes = Math.floor(remainingSeconds / 60);
+  const seconds = String(remainingSeconds % 60).padStart(2, '0');
+
+  return (
+    <span className={`text-xs font-medium ${remainingSeconds === 0 ? 'text-red-600' : 'text-primary/60'}`}>
+      {remainingSeconds === 0 ? "⏱ Time's up - last card" : `⏱ ${minutes}:${seconds} left`}
+    </span>
+  );
+}
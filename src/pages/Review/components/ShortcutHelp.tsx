@@ -0,0 +1,59 @@
+/**
+ * ShortcutHelp Component
+ *
+ * Overlay listing the user's review keyboard shortcuts - opened with the help key,
+ * closed with Escape, the help key again, or a click outside.
+ */
+
+import { useEffect } from 'react';
+import {
+  REVIEW_SHORTCUT_ACTIONS,
+  REVIEW_SHORTCUT_LABELS,
+  formatShortcutKey,
+  type ReviewShortcuts
+} from '../../../utils/reviewShortcuts';
+
+interface ShortcutHelpProps {
+  shortcuts: ReviewShortcuts;
+  onClose: () => void;
+}
+
+export function ShortcutHelp({ shortcuts, onClose }: ShortcutHelpProps) {
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 z-[100] bg-black/40 flex items-center justify-center p-4"
+      onClick={onClose}
+      data-testid="shortcut-help"
+    >
+      <div
+        className="bg-white rounded-2xl p-6 w-full max-w-sm"
+        style={{ boxShadow: '0 10px 20px rgba(0,0,0,0.15)' }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-lg font-semibold text-primary mb-4">Keyboard Shortcuts</h2>
+        <dl className="space-y-2">
+          {REVIEW_SHORTCUT_ACTIONS.map(action => (
+            <div key={action} className="flex items-center justify-between gap-4">
+              <dt className="text-sm text-primary/80">{REVIEW_SHORTCUT_LABELS[action]}</dt>
+              <dd>
+                <kbd className="min-w-[2rem] inline-block text-center px-2 py-0.5 border border-primary/20 rounded bg-primary/5 text-sm font-medium text-primary">
+                  {formatShortcutKey(shortcuts[action])}
+                </kbd>
+              </dd>
+            </div>
+          ))}
+        </dl>
+        <p className="text-xs text-primary/50 mt-4">Change these in Settings.</p>
+      </div>
+    </div>
+  );
+}
@@ -11,14 +11,26 @@ import { useDrag } from '@use-gesture/react';
 import { useSpring, animated } from '@react-spring/web';
 import type { LibraryVerseCard } from '../../Library/hooks/useLibrary';
 import { useTextRevelation, type TextRevelationMode } from '../hooks/useTextRevelation';
+import { useReviewShortcuts } from '../hooks/useReviewShortcuts';
+import { VerseText } from '../../../components/shared/VerseText';
+import { ClozeText } from './ClozeText';
+import { ReferencePrompt } from './ReferencePrompt';
+import { getClozeRatio } from '../../../utils/cloze';
+import type { AdvancingPhase } from '../../../utils/spacedRepetition';
+import { DEFAULT_REVIEW_SHORTCUTS, type ReviewShortcuts } from '../../../utils/reviewShortcuts';
+
+// Left = again, down = hard, right = good, up = easy
+export type SwipeDirection = 'left' | 'right' | 'up' | 'down';
 
 interface SlackCardProps {
   card: LibraryVerseCard;
   isTopCard: boolean;
   stackIndex: number; // 0 = top, 1 = second, etc.
-  onSwipe: (direction: 'left' | 'right') => void;
+  onSwipe: (direction: SwipeDirection) => void;
   referenceDisplayMode: string;
   backgroundCards?: LibraryVerseCard[];
+  phaseRequirements?: Record<AdvancingPhase, number>; // Cloze difficulty follows progress toward these
+  shortcuts?: ReviewShortcuts; // Keyboard reveal shortcuts - only the top card listens
 }
 
 export function SlackCard({
@@ -27,7 +39,9 @@ export function SlackCard({
   stackIndex,
   onSwipe,
   referenceDisplayMode,
-  backgroundCards = []
+  backgroundCards = [],
+  phaseRequirements,
+  shortcuts
 }: SlackCardProps) {
   const [isDragging, setIsDragging] = useState(false);
   const [showingText, setShowingText] = useState(false);
@@ -45,13 +59,21 @@ export function SlackCard({
   const textMode: TextRevelationMode =
     referenceDisplayMode === 'full' ? 'first' :
       referenceDisplayMode === 'first' ? 'first' :
-        'blank';
+        referenceDisplayMode === 'cloze' ? 'cloze' :
+          'blank';
 
   const {
     displayText,
     revealNext,
-    isComplete
-  } = useTextRevelation(verse.text, textMode);
+    revealAll,
+    isComplete,
+    words,
+    clozeBlanks,
+    revealWord
+  } = useTextRevelation(verse.text, textMode, {
+    ratio: getClozeRatio(card.currentPhase, card.phaseProgressCount ?? 0, phaseRequirements),
+    seed: `${card.id}:${card.lastReviewedAt ?? ''}`
+  });
 
   // React Spring for smooth animations - function form needed for api.start()
   const [{ x, y, rotate, scale }, api] = useSpring(() => ({
@@ -67,13 +89,13 @@ export function SlackCard({
   }), []);
 
   // Track if card has been swiped away and in which direction
-  const [exitState, setExitState] = useState<{isGone: boolean, direction: 'left' | 'right' | null}>({
+  const [exitState, setExitState] = useState<{isGone: boolean, direction: SwipeDirection | null}>({
     isGone: false,
     direction: null
   });
 
   // Simple drag configuration with tap filtering
-  const bind = useDrag(({ down, movement: [mx, my], direction: [xDir], velocity: [vx, vy], tap }) => {
+  const bind = useDrag(({ down, movement: [mx, my], direction: [xDir, yDir], velocity: [vx, vy], tap }) => {
     if (!isTopCard || exitState.isGone) return;
 
     // Ignore tap events - let onClick handle taps
@@ -95,11 +117,16 @@ export function SlackCard({
     } else {
       setIsDragging(false);
       
-      // Check for swipe - match visual threshold
-      const trigger = Math.abs(vx) > 0.2 || Math.abs(mx) > 80;
+      // Check for swipe - match visual threshold. Vertical swipes grade hard/easy.
+      const isVertical = Math.abs(my) > Math.abs(mx);
+      const trigger = isVertical
+        ? Math.abs(vy) > 0.2 || Math.abs(my) > 80
+        : Math.abs(vx) > 0.2 || Math.abs(mx) > 80;
       
       if (trigger) {
-        const direction = xDir < 0 ? 'left' : 'right';
+        const direction: SwipeDirection = isVertical
+          ? (yDir < 0 ? 'up' : 'down')
+          : (xDir < 0 ? 'left' : 'right');
         
         // Get current position and set up CSS animation
         const cardElement = document.querySelector('[data-testid="verse-card"]') as HTMLElement;
@@ -107,8 +134,13 @@ export function SlackCard({
           cardElement.style.setProperty('--start-x', `${x.get()}px`);
           cardElement.style.setProperty('--start-y', `${y.get()}px`);
           cardElement.style.setProperty('--start-rotate', `${rotate.get()}deg`);
-          cardElement.style.setProperty('--end-x', direction === 'right' ? '120vw' : '-120vw');
-          cardElement.style.setProperty('--end-y', `${y.get() + (vy * 50)}px`);
+          if (isVertical) {
+            cardElement.style.setProperty('--end-x', `${x.get() + (vx * 50)}px`);
+            cardElement.style.setProperty('--end-y', direction === 'up' ? '-120vh' : '120vh');
+          } else {
+            cardElement.style.setProperty('--end-x', direction === 'right' ? '120vw' : '-120vw');
+            cardElement.style.setProperty('--end-y', `${y.get() + (vy * 50)}px`);
+          }
         }
         
         setExitState({ isGone: true, direction });
@@ -172,6 +204,15 @@ export function SlackCard({
   });
 
 
+  // Keyboard reveal - unlike a tap, never hides the text again
+  useReviewShortcuts(shortcuts ?? DEFAULT_REVIEW_SHORTCUTS, {
+    revealNext: () => (showingText ? revealNext() : setShowingText(true)),
+    revealAll: () => {
+      setShowingText(true);
+      revealAll();
+    }
+  }, isTopCard && !!shortcuts && !exitState.isGone && card.direction !== 'reverse');
+
   const handleToggleText = () => {
     if (!showingText) {
       setShowingText(true);
@@ -194,7 +235,7 @@ export function SlackCard({
           {/* Background card header - same as top card */}
           <div className="p-4 border-b border-primary/10 flex-shrink-0 z-10">
             <h2 className="text-xl font-bold text-primary text-center">
-              {bgCard.verse.reference}
+              {bgCard.direction === 'reverse' ? 'Name the reference' : bgCard.verse.reference}
             </h2>
           </div>
 
@@ -422,6 +463,32 @@ export function SlackCard({
                 <span className="text-3xl font-extrabold text-right">INCORRECT</span>
               </animated.div>
             </animated.div>
+
+            {/* Blue Up Swipe Overlay (Easy) */}
+            <animated.div
+              className="absolute inset-0 rounded-2xl flex items-end justify-center pb-8 bg-blue-500"
+              style={{
+                opacity: y.to(val => {
+                  if (exitState.direction === 'up') return 0.95; // Full opacity during exit
+                  return val < 0 && isDragging && Math.abs(val) > Math.abs(x.get()) ? Math.min(Math.abs(val) / 80, 1) * 0.9 : 0;
+                })
+              }}
+            >
+              <span className="text-white text-3xl font-extrabold">EASY</span>
+            </animated.div>
+
+            {/* Amber Down Swipe Overlay (Hard) */}
+            <animated.div
+              className="absolute inset-0 rounded-2xl flex items-start justify-center pt-8 bg-amber-500"
+              style={{
+                opacity: y.to(val => {
+                  if (exitState.direction === 'down') return 0.95; // Full opacity during exit
+                  return val > 0 && isDragging && Math.abs(val) > Math.abs(x.get()) ? Math.min(val / 80, 1) * 0.9 : 0;
+                })
+              }}
+            >
+              <span className="text-white text-3xl font-extrabold">HARD</span>
+            </animated.div>
           </div>
         )}
 
@@ -435,13 +502,23 @@ export function SlackCard({
         {/* Header with reference */}
         <div className="p-4 border-b border-primary/10 flex-shrink-0 z-10">
           <h2 className="text-xl font-bold text-primary text-center">
-            {verse.reference}
+            {card.direction === 'reverse' ? 'Name the reference' : verse.reference}
           </h2>
+          {card.queued && (
+            <p className="text-xs font-medium text-blue-600 text-center mt-1">New verse</p>
+          )}
+          {!!card.overdueDays && (
+            <p className="text-xs font-medium text-amber-600 text-center mt-1">
+              Overdue by {card.overdueDays} day{card.overdueDays === 1 ? '' : 's'}
+            </p>
+          )}
         </div>
 
         {/* Main content area */}
         <div className="flex-1 flex flex-col justify-center p-4 min-h-0 z-10">
-          {!showingText ? (
+          {card.direction === 'reverse' ? (
+            <ReferencePrompt verse={verse} />
+          ) : !showingText ? (
             <div className="text-center cursor-pointer" onClick={handleToggleText}>
               <div className="max-h-80 overflow-y-auto">
                 <p
@@ -470,7 +547,11 @@ export function SlackCard({
                   className="text-primary text-2xl leading-relaxed mb-4 cursor-pointer select-none"
                   style={{ fontFamily: 'serif' }}
                 >
-                  "{displayText}"
+                  {textMode === 'cloze' ? (
+                    <ClozeText words={words} blanks={clozeBlanks} onReveal={revealWord} />
+                  ) : (
+                    <VerseText text={displayText} segments={verse.segments} quoted />
+                  )}
                 </p>
                 <cite className="text-primary/70 text-lg font-medium">
                   — {verse.reference}
@@ -482,6 +563,11 @@ export function SlackCard({
                     Tap to reveal next word
                   </p>
                 )}
+                {textMode === 'cloze' && !isComplete && (
+                  <p className="text-primary/50 text-sm mt-4">
+                    Tap a blank to reveal it, or type the word
+                  </p>
+                )}
               </div>
             </div>
           )}
@@ -0,0 +1,125 @@
+/**
+ * TypedRecallCard Component
+ *
+ * Review card for typed recall - the user types the verse from memory and
+ * gets a word-by-word diff highlighting missed, extra, and misspelled words.
+ */
+
+import { useState, useMemo } from 'react';
+import type { LibraryVerseCard } from '../../Library/hooks/useLibrary';
+import { gradeTypedRecall, type RecallGrade, type RecallToken } from '../../../utils/recallScoring';
+
+interface TypedRecallCardProps {
+  card: LibraryVerseCard;
+  onSubmit: (grade: RecallGrade) => void;
+}
+
+// Visual treatment for each diff status
+const TOKEN_STYLES: Record<RecallToken['status'], string> = {
+  correct: 'text-primary',
+  missed: 'text-red-600 bg-red-100 rounded px-1',
+  extra: 'text-orange-600 line-through',
+  misspelled: 'text-yellow-700 bg-yellow-100 rounded px-1'
+};
+
+export function DiffToken({ token }: { token: RecallToken }) {
+  if (token.status === 'misspelled') {
+    return (
+      <span className={TOKEN_STYLES.misspelled} title={`You typed "${token.typed}"`}>
+        {token.expected}
+      </span>
+    );
+  }
+
+  return (
+    <span className={TOKEN_STYLES[token.status]}>
+      {token.status === 'extra' ? token.typed : token.expected}
+    </span>
+  );
+}
+
+export function TypedRecallCard({ card, onSubmit }: TypedRecallCardProps) {
+  const [typedText, setTypedText] = useState('');
+  const [grade, setGrade] = useState<RecallGrade | null>(null);
+
+  const { verse } = card;
+
+  const handleCheck = () => {
+    setGrade(gradeTypedRecall(verse.text, typedText));
+  };
+
+  const summary = useMemo(() => {
+    if (!grade) return null;
+    return {
+      missed: grade.tokens.filter(t => t.status === 'missed').length,
+      extra: grade.tokens.filter(t => t.status === 'extra').length,
+      misspelled: grade.tokens.filter(t => t.status === 'misspelled').length
+    };
+  }, [grade]);
+
+  return (
+    <div
+      className="absolute inset-0 bg-white rounded-2xl border border-primary/10 flex flex-col overflow-hidden"
+      style={{ boxShadow: '0 10px 20px rgba(0,0,0,0.15)' }}
+      data-testid="typed-recall-card"
+    >
+      {/* Header with reference */}
+      <div className="p-4 border-b border-primary/10 flex-shrink-0">
+        <h2 className="text-xl font-bold text-primary text-center">
+          {verse.reference}
+        </h2>
+      </div>
+
+      <div className="flex-1 flex flex-col p-4 min-h-0 gap-4">
+        {!grade ? (
+          <>
+            <textarea
+              value={typedText}
+              onChange={(e) => setTypedText(e.target.value)}
+              placeholder="Type the verse from memory..."
+              autoFocus
+              autoCapitalize="off"
+              autoCorrect="off"
+              spellCheck={false}
+              className="flex-1 w-full p-3 border border-primary/20 rounded-lg resize-none text-lg text-primary focus:outline-none focus:ring-2 focus:ring-accent"
+              style={{ fontFamily: 'serif' }}
+            />
+            <button
+              onClick={handleCheck}
+              disabled={typedText.trim().length === 0}
+              className="w-full py-3 bg-primary text-white rounded-xl font-medium disabled:opacity-40 transition-colors"
+            >
+              Check Answer
+            </button>
+          </>
+        ) : (
+          <>
+            <div className="text-center">
+              <p className={`text-3xl font-bold ${grade.wasSuccessful ? 'text-green-600' : 'text-red-600'}`}>
+                {grade.accuracyPercentage}%
+              </p>
+              <p className="text-sm text-primary/60">
+                {summary!.missed} missed · {summary!.misspelled} misspelled · {summary!.extra} extra
+              </p>
+            </div>
+
+            <div className="flex-1 overflow-y-auto">
+              <p className="text-xl leading-relaxed flex flex-wrap gap-x-1.5 gap-y-1" style={{ fontFamily: 'serif' }}>
+                {grade.tokens.map((token, index) => (
+                  <DiffToken key={index} token={token} />
+                ))}
+              </p>
+            </div>
+
+            <button
+              onClick={() => onSubmit(grade)}
+              className={`w-full py-3 rounded-xl font-medium text-white transition-colors ${grade.wasSuccessful ? 'bg-green-500 active:bg-green-700' : 'bg-red-500 active:bg-red-700'}`}
+            >
+              {grade.wasSuccessful ? 'Correct - Next Verse' : 'Incorrect - Next Verse'}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
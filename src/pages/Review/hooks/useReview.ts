@@ -11,6 +11,8 @@ import { useTimezone } from '../../../contexts/TimezoneContext';
 import { localDb } from '../../../services/localDb';
 import { dataService } from '../../../services/dataService';
 import { filterDueCards } from '../../../utils/assignmentLogic';
+import { applyPassageLocks } from '../../../utils/passages';
+import { getCardDirection } from '../../../utils/referenceRecall';
 import type { LibraryVerseCard } from '../../Library/hooks/useLibrary';
 
 interface ReviewSession {
@@ -73,9 +75,12 @@ export function useReview(): UseReviewReturn {
               id: verse.id!,
               reference: verse.reference,
               text: verse.text,
-              translation: verse.translation
+              translation: verse.translation,
+              segments: verse.segments ?? null
             },
             currentPhase: card.current_phase,
+            phaseProgressCount: card.phase_progress_count,
+            direction: getCardDirection(card),
             nextDueDate: card.next_due_date,
             assignedDayOfWeek: card.assigned_day_of_week,
             assignedWeekParity: card.assigned_week_parity,
@@ -115,9 +120,11 @@ export function useReview(): UseReviewReturn {
               id: verse.id!,
               reference: verse.reference,
               text: verse.text,
-              translation: verse.translation
+              translation: verse.translation,
+              segments: verse.segments ?? null
             },
             currentPhase: card.current_phase,
+            phaseProgressCount: card.phase_progress_count,
             nextDueDate: card.next_due_date,
             assignedDayOfWeek: card.assigned_day_of_week,
             assignedWeekParity: card.assigned_week_parity,
@@ -126,13 +133,18 @@ export function useReview(): UseReviewReturn {
             bestStreak: card.best_streak,
             lastReviewedAt: card.last_reviewed_at,
             archived: card.archived,
+            intervalDays: card.interval_days,
+            passageId: card.passage_id ?? null,
+            passagePosition: card.passage_position ?? null,
+            direction: getCardDirection(card),
             source: 'local'
           });
         }
       }
 
       // Filter cards using assignment logic instead of simple date comparison
-      const dueCards = filterDueCards(libraryCards, timezone);
+      // (passage chain cards stay locked until their chunks are learned)
+      const dueCards = filterDueCards(applyPassageLocks(libraryCards), timezone);
       return dueCards.filter(card => 'verse' in card) as LibraryVerseCard[];
     } catch (error) {
       console.error('Failed to load due cards:', error);
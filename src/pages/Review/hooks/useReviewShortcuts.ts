@@ -0,0 +1,49 @@
+/**
+ * useReviewShortcuts Hook
+ *
+ * Listens for the user's review keyboard shortcuts (see utils/reviewShortcuts) and calls
+ * the matching handler. Keys typed into inputs - typed recall, cloze, reference answers -
+ * are left alone, and actions without a handler pass through to the browser.
+ */
+
+import { useEffect, useRef } from 'react';
+import { matchReviewShortcut, type ReviewShortcutAction, type ReviewShortcuts } from '../../../utils/reviewShortcuts';
+
+export type ReviewShortcutHandlers = Partial<Record<ReviewShortcutAction, () => void>>;
+
+function isTextEntry(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+export function useReviewShortcuts(
+  shortcuts: ReviewShortcuts,
+  handlers: ReviewShortcutHandlers,
+  enabled: boolean = true
+) {
+  // Latest handlers, so re-renders don't re-register the listener
+  const handlersRef = useRef(handlers);
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+  }, [handlers]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.repeat || isTextEntry(event.target)) return;
+
+      const action = matchReviewShortcut(shortcuts, event);
+      const handler = action ? handlersRef.current[action] : undefined;
+      if (!handler) return;
+
+      // Space and arrows would otherwise scroll the page or press a focused button
+      event.preventDefault();
+      handler();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [shortcuts, enabled]);
+}
@@ -1,35 +1,55 @@
 /**
  * useSlackReview Hook
  * 
- * Manages review sessions with Slack-style local-only session management,
- * undo functionality, and batch cloud sync. Built on preserved database patterns.
+ * Manages review sessions with Slack-style session management and undo. The session is
+ * saved locally after every action and offered for resuming if the app closes mid-session;
+ * each review is logged once it falls out of the undo window (see utils/reviewSession).
+ * Built on preserved database patterns.
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { v4 as uuidv4 } from 'uuid';
 import { useAuth } from "../../../contexts/AuthContext";
 import { useTimezone } from '../../../contexts/TimezoneContext';
 import { localDb } from '../../../services/localDb';
 import { dataService } from '../../../services/dataService';
-import { filterDueCards } from '../../../utils/assignmentLogic';
+import {
+  DEFAULT_NEW_CARDS_PER_DAY,
+  DEFAULT_OVERDUE_DAILY_CAP,
+  filterDueCards,
+  getOverdueDays
+} from '../../../utils/assignmentLogic';
+import { calculateUserDateValues, getUserTodayStringInTimezone } from '../../../utils/dateUtils';
+import { extendDailyStreak, type DailyStreak } from '../../../utils/dailyStreak';
+import {
+  DEFAULT_PHASE_REQUIREMENTS,
+  getPhaseSettings,
+  getScheduler,
+  isSuccessfulGrade,
+  type AdvancingPhase,
+  type ReviewGrade
+} from '../../../utils/spacedRepetition';
+import type { RecallGrade } from '../../../utils/recallScoring';
+import { applyPassageLocks } from '../../../utils/passages';
+import { getCardDirection } from '../../../utils/referenceRecall';
+import { DEFAULT_REVIEW_SHORTCUTS, getReviewShortcuts, type ReviewShortcuts } from '../../../utils/reviewShortcuts';
+import { getReviewTimeSeconds, sortByReviewPriority } from '../../../utils/sessionTiming';
+import { DEFAULT_REVIEW_ORDER, RECENT_FAILURE_DAYS, getReviewOrder, orderDueCards, type ReviewOrder } from '../../../utils/reviewOrder';
+import {
+  advanceSession,
+  canUndoLastAction,
+  createSession,
+  endSession,
+  getActionsToRecord,
+  isSessionResumable,
+  markActionsRecorded,
+  restoreSession,
+  type ReviewAction,
+  type ReviewSession
+} from '../../../utils/reviewSession';
 import type { LibraryVerseCard } from '../../Library/hooks/useLibrary';
 
-// New interfaces for Slack-style session with undo functionality
-interface ReviewAction {
-  id: string;
-  cardId: string; 
-  wasSuccessful: boolean;
-  timestamp: number;
-  wordRevealProgress?: number; // For progressive word reveal
-}
-
-interface ReviewSession {
-  cards: LibraryVerseCard[];
-  actions: ReviewAction[]; // LOCAL ONLY - for undo system
-  currentCardIndex: number;
-  wordRevealIndex: number; // For progressive word reveal
-  startTime: number;
-}
+export type ReviewMode = 'swipe' | 'typed' | 'audio';
 
 interface UseSlackReviewReturn {
   dueCards: LibraryVerseCard[];
@@ -37,6 +57,8 @@ interface UseSlackReviewReturn {
   loading: boolean;
   error: string | null;
   session: ReviewSession | null;
+  resumableSession: ReviewSession | null; // Saved session from earlier today, waiting to be resumed
+  canUndo: boolean;
   currentCard: LibraryVerseCard | null;
   sessionProgress: {
     current: number;
@@ -45,13 +67,26 @@ interface UseSlackReviewReturn {
     incorrectCount: number;
   };
   referenceDisplayMode: string;
+  phaseRequirements: Record<AdvancingPhase, number>; // User's phase requirements (cloze difficulty)
+  reviewShortcuts: ReviewShortcuts; // User's keyboard shortcuts
+  dailyStreak: DailyStreak | null; // Includes today once the session has reviews
+  reviewMode: ReviewMode;
+  setReviewMode: (mode: ReviewMode) => void;
+  timeBudgetMinutes: number; // Budget for the next due-card session (0 = no limit)
+  setTimeBudgetMinutes: (minutes: number) => void;
+  reviewOrder: ReviewOrder; // How due-card sessions are ordered - remembered on the profile
+  setReviewOrder: (order: ReviewOrder) => Promise<void>;
   startSession: () => void;
   startTodaysSession: () => void;
   startIncorrectSession: () => void;
   markCardCorrect: () => Promise<void>;
   markCardIncorrect: () => Promise<void>;
+  gradeCard: (grade: ReviewGrade) => Promise<void>;
+  submitTypedRecall: (grade: RecallGrade) => Promise<void>;
   undoLastAction: () => void;
   completeSession: () => Promise<void>;
+  resumeSession: () => void;
+  discardSavedSession: () => Promise<void>;
   refreshDueCards: () => Promise<void>;
 }
 
@@ -63,7 +98,19 @@ export function useSlackReview(): UseSlackReviewReturn {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [session, setSession] = useState<ReviewSession | null>(null);
+  const [resumableSession, setResumableSession] = useState<ReviewSession | null>(null);
   const [referenceDisplayMode, setReferenceDisplayMode] = useState<string>('');
+  const [phaseRequirements, setPhaseRequirements] = useState<Record<AdvancingPhase, number>>(DEFAULT_PHASE_REQUIREMENTS);
+  const [reviewShortcuts, setReviewShortcuts] = useState<ReviewShortcuts>(DEFAULT_REVIEW_SHORTCUTS);
+  const [reviewMode, setReviewMode] = useState<ReviewMode>('swipe');
+  const [timeBudgetMinutes, setTimeBudgetMinutes] = useState(0);
+  const [reviewOrder, setReviewOrderState] = useState<ReviewOrder>(DEFAULT_REVIEW_ORDER);
+  const [dailyStreak, setDailyStreak] = useState<DailyStreak | null>(null);
+
+  // Reviews are logged one at a time, in order - ids already queued aren't queued again
+  const recordingRef = useRef<Promise<void>>(Promise.resolve());
+  const queuedActionIdsRef = useRef(new Set<string>());
+  const savedSessionCheckedRef = useRef(false);
 
   // PRESERVE EXACT DATABASE PATTERNS from useReview.ts.backup
 
@@ -85,9 +132,12 @@ export function useSlackReview(): UseSlackReviewReturn {
               id: verse.id!,
               reference: verse.reference,
               text: verse.text,
-              translation: verse.translation
+              translation: verse.translation,
+              segments: verse.segments ?? null
             },
             currentPhase: card.current_phase,
+            phaseProgressCount: card.phase_progress_count,
+            direction: getCardDirection(card),
             nextDueDate: card.next_due_date,
             assignedDayOfWeek: card.assigned_day_of_week,
             assignedWeekParity: card.assigned_week_parity,
@@ -115,6 +165,8 @@ export function useSlackReview(): UseSlackReviewReturn {
     try {
       // Load ALL user cards (not just those with due dates) - EXACT PATTERN
       const allUserCards = await localDb.verseCards.getByUser(userId);
+      const userProfile = await localDb.userProfiles.findByUserId(userId);
+      const scheduler = getScheduler(userProfile?.scheduler).type;
       const libraryCards: LibraryVerseCard[] = [];
 
       for (const card of allUserCards) {
@@ -126,9 +178,11 @@ export function useSlackReview(): UseSlackReviewReturn {
               id: verse.id!,
               reference: verse.reference,
               text: verse.text,
-              translation: verse.translation
+              translation: verse.translation,
+              segments: verse.segments ?? null
             },
             currentPhase: card.current_phase,
+            phaseProgressCount: card.phase_progress_count,
             nextDueDate: card.next_due_date,
             assignedDayOfWeek: card.assigned_day_of_week,
             assignedWeekParity: card.assigned_week_parity,
@@ -137,14 +191,45 @@ export function useSlackReview(): UseSlackReviewReturn {
             bestStreak: card.best_streak,
             lastReviewedAt: card.last_reviewed_at,
             archived: card.archived,
+            scheduler,
+            queued: !card.introduced_at,
+            queuePosition: card.queue_position ?? null,
+            intervalDays: card.interval_days,
+            passageId: card.passage_id ?? null,
+            passagePosition: card.passage_position ?? null,
+            direction: getCardDirection(card),
+            createdAt: card.created_at,
             source: 'local'
           });
         }
       }
 
-      // Filter cards using assignment logic - EXACT PATTERN
-      const dueCards = filterDueCards(libraryCards, timezone);
-      return dueCards.filter(card => 'verse' in card) as LibraryVerseCard[];
+      // Filter cards using assignment logic (or due dates for SM-2) - EXACT PATTERN
+      // Overdue cards beyond today's catch-up cap wait for a later day, new cards are introduced
+      // a few at a time from the learning queue, and nothing is due while paused.
+      // Passage chain cards stay locked until their chunks are learned
+      const dueCards = filterDueCards(applyPassageLocks(libraryCards), timezone, {
+        dailyCap: userProfile?.overdue_daily_cap ?? DEFAULT_OVERDUE_DAILY_CAP,
+        reviewedToday: await localDb.reviewLogs.countOverdueToday(userId),
+        pause: userProfile,
+        newCardsPerDay: userProfile?.new_cards_per_day ?? DEFAULT_NEW_CARDS_PER_DAY,
+        introducedToday: await localDb.verseCards.countIntroducedToday(userId)
+      });
+
+      // Recent failures feed the "weakest first" order
+      const recentFailures = new Map<string, number>();
+      for (const log of await localDb.reviewLogs.getStats(userId, RECENT_FAILURE_DAYS)) {
+        if (!log.was_successful) {
+          recentFailures.set(log.verse_card_id, (recentFailures.get(log.verse_card_id) ?? 0) + 1);
+        }
+      }
+
+      const userCalculation = calculateUserDateValues(timezone);
+      return (dueCards.filter(card => 'verse' in card) as LibraryVerseCard[]).map(card => ({
+        ...card,
+        overdueDays: getOverdueDays(card, userCalculation),
+        recentFailures: recentFailures.get(card.id) ?? 0
+      }));
     } catch (error) {
       console.error('Failed to load due cards:', error);
       return [];
@@ -158,6 +243,9 @@ export function useSlackReview(): UseSlackReviewReturn {
     const userProfile = await localDb.userProfiles.findByUserId(userId);
     if (userProfile) {
       setReferenceDisplayMode(userProfile.reference_display_mode);
+      setPhaseRequirements(getPhaseSettings(userProfile).requirements);
+      setReviewShortcuts(getReviewShortcuts(userProfile));
+      setReviewOrderState(getReviewOrder(userProfile.review_order));
     }
   }, []);
 
@@ -170,6 +258,13 @@ export function useSlackReview(): UseSlackReviewReturn {
       setError(null);
 
       const userId = getCurrentUserId();
+
+      // Shift the schedule forward first if a pause just ended
+      const accessToken = await getAccessToken();
+      await dataService.resumeExpiredPause(userId, accessToken || undefined);
+      await dataService.advanceChapterProjects(userId, accessToken || undefined);
+      setDailyStreak(await dataService.refreshDailyStreak(userId, accessToken || undefined));
+
       const [dueCardsData, todaysCardsData] = await Promise.all([
         loadDueCards(userId),
         loadTodaysCards(userId)
@@ -184,24 +279,114 @@ export function useSlackReview(): UseSlackReviewReturn {
     } finally {
       setLoading(false);
     }
-  }, [getCurrentUserId, loadDueCards, loadTodaysCards]);
+  }, [getCurrentUserId, getAccessToken, loadDueCards, loadTodaysCards]);
 
   // NEW FUNCTIONALITY - Session Management with Undo
 
   /**
-   * Starts a new review session with due cards
+   * Logs reviews for session actions - locally first (including failure demotion), then
+   * synced to remote. Resolves once these and any earlier queued actions are logged, with
+   * the actions that failed to log.
+   */
+  const recordActions = useCallback((actions: ReviewAction[]): Promise<ReviewAction[]> => {
+    const queuedIds = queuedActionIdsRef.current;
+    const toRecord = actions.filter(action => !queuedIds.has(action.id));
+    toRecord.forEach(action => queuedIds.add(action.id));
+
+    recordingRef.current = recordingRef.current.then(async () => {
+      if (toRecord.length === 0) return;
+
+      const userId = getCurrentUserId();
+      const accessToken = await getAccessToken();
+      const recordedIds: string[] = [];
+
+      for (const action of toRecord) {
+        try {
+          await dataService.recordReview(
+            action.cardId,
+            userId,
+            action.wasSuccessful,
+            action.reviewTimeSeconds,
+            accessToken || undefined,
+            {
+              id: action.id,
+              reviewedAt: new Date(action.timestamp).toISOString(),
+              accuracyPercentage: action.accuracyPercentage ?? null,
+              grade: action.grade ?? null,
+              overdueDays: action.overdueDays ?? null
+            }
+          );
+          recordedIds.push(action.id);
+
+          console.log('Review recorded:', action.cardId, action.wasSuccessful);
+        } catch (error) {
+          console.error('Failed to record review:', action.cardId, error);
+          queuedIds.delete(action.id); // Retried with the next batch
+        }
+      }
+
+      setSession(prev => prev && markActionsRecorded(prev, recordedIds));
+    });
+
+    // Logged actions stay queued, so any that aren't - here or in an earlier batch - failed
+    return recordingRef.current.then(() => actions.filter(action => !queuedIds.has(action.id)));
+  }, [getCurrentUserId, getAccessToken]);
+
+  /**
+   * Logs a closed session's remaining reviews and then drops its saved copy. If any fail
+   * to log, the copy is kept - ended, so it isn't offered for resuming - and the next
+   * open retries them.
+   */
+  const settleSession = useCallback(async (userId: string, closed: ReviewSession) => {
+    const failed = await recordActions(getActionsToRecord(closed, 0));
+    if (failed.length === 0) {
+      await localDb.reviewSessions.clear(userId);
+    } else {
+      console.warn(`${failed.length} review(s) not logged - kept for the next open`);
+      await localDb.reviewSessions.save(userId, endSession(closed));
+    }
+  }, [recordActions]);
+
+  /**
+   * Replaces the current session - a finished one has already logged everything, but one
+   * left part way (or a saved one not resumed) still has reviews in its undo window
+   */
+  const replaceSession = useCallback((next: ReviewSession) => {
+    const previous = session ?? resumableSession;
+    if (previous) {
+      recordActions(getActionsToRecord(previous, 0));
+    }
+    setResumableSession(null);
+    setSession(next);
+  }, [session, resumableSession, recordActions]);
+
+  /**
+   * Starts a new review session with due cards in the user's chosen order. With a time
+   * budget and no chosen order, the most important cards come first.
    */
   const startSession = useCallback(() => {
     if (dueCards.length === 0) return;
 
-    setSession({
-      cards: [...dueCards], // Create a copy to avoid mutations
-      actions: [],
-      currentCardIndex: 0,
-      wordRevealIndex: 0,
-      startTime: Date.now()
-    });
-  }, [dueCards]);
+    replaceSession(createSession(
+      reviewOrder === 'scheduled' && timeBudgetMinutes > 0
+        ? sortByReviewPriority(dueCards)
+        : orderDueCards(dueCards, reviewOrder), // Both copy - dueCards isn't mutated
+      timeBudgetMinutes
+    ));
+  }, [dueCards, reviewOrder, timeBudgetMinutes, replaceSession]);
+
+  /**
+   * Changes how sessions order due cards and remembers it on the user's profile
+   */
+  const setReviewOrder = useCallback(async (order: ReviewOrder) => {
+    setReviewOrderState(order);
+    try {
+      const accessToken = await getAccessToken();
+      await dataService.updateUserProfile(getCurrentUserId(), { review_order: order }, accessToken || undefined);
+    } catch (error) {
+      console.error('Failed to save review order:', error);
+    }
+  }, [getCurrentUserId, getAccessToken]);
 
   /**
    * Starts a review session with today's reviewed cards
@@ -209,14 +394,8 @@ export function useSlackReview(): UseSlackReviewReturn {
   const startTodaysSession = useCallback(() => {
     if (todaysCards.length === 0) return;
 
-    setSession({
-      cards: [...todaysCards],
-      actions: [],
-      currentCardIndex: 0,
-      wordRevealIndex: 0,
-      startTime: Date.now()
-    });
-  }, [todaysCards]);
+    replaceSession(createSession([...todaysCards]));
+  }, [todaysCards, replaceSession]);
 
   /**
    * Starts a review session with only incorrect cards
@@ -231,30 +410,27 @@ export function useSlackReview(): UseSlackReviewReturn {
 
     if (incorrectCards.length === 0) return;
 
-    setSession({
-      cards: incorrectCards,
-      actions: [],
-      currentCardIndex: 0,
-      wordRevealIndex: 0,
-      startTime: Date.now()
-    });
-  }, [session]);
+    replaceSession(createSession(incorrectCards));
+  }, [session, replaceSession]);
 
   /**
-   * NEW: Undo functionality - removes last action and restores state
+   * NEW: Undo functionality - removes last action and restores state. Only actions still
+   * in the undo window can be taken back - older ones are already logged.
    */
   const undoLastAction = useCallback(() => {
-    if (!session || session.actions.length === 0) return;
+    if (!session || !canUndoLastAction(session)) return;
     
     const actionsWithoutLast = session.actions.slice(0, -1);
     const lastAction = session.actions[session.actions.length - 1];
+    if (queuedActionIdsRef.current.has(lastAction.id)) return; // Being logged right now
     
     setSession({
       ...session,
       actions: actionsWithoutLast,
       currentCardIndex: Math.max(0, session.currentCardIndex - 1),
       // Restore word reveal progress if applicable
-      wordRevealIndex: lastAction.wordRevealProgress ?? session.wordRevealIndex
+      wordRevealIndex: lastAction.wordRevealProgress ?? session.wordRevealIndex,
+      cardShownAt: Date.now() // The card is timed afresh
     });
 
     console.log('Undo applied:', { 
@@ -265,9 +441,9 @@ export function useSlackReview(): UseSlackReviewReturn {
   }, [session]);
 
   /**
-   * Marks current card as correct - LOCAL ONLY during session
+   * Grades the current card - LOCAL ONLY during session
    */
-  const markCardCorrect = useCallback(async () => {
+  const gradeCard = useCallback(async (grade: ReviewGrade) => {
     if (!session || session.currentCardIndex >= session.cards.length) return;
 
     const currentCard = session.cards[session.currentCardIndex];
@@ -276,26 +452,36 @@ export function useSlackReview(): UseSlackReviewReturn {
     const action: ReviewAction = {
       id: uuidv4(),
       cardId: currentCard.id,
-      wasSuccessful: true,
+      wasSuccessful: isSuccessfulGrade(grade),
+      grade,
       timestamp: Date.now(),
-      wordRevealProgress: session.wordRevealIndex
+      wordRevealProgress: session.wordRevealIndex,
+      overdueDays: currentCard.overdueDays,
+      reviewTimeSeconds: getReviewTimeSeconds(session.cardShownAt, Date.now())
     };
 
-    // Update session state LOCALLY ONLY
-    setSession({
-      ...session,
-      actions: [...session.actions, action],
-      currentCardIndex: session.currentCardIndex + 1,
-      wordRevealIndex: 0 // Reset for next card
-    });
+    // Actions leaving the undo window are logged now
+    const next = advanceSession(session, action);
+    setSession(next);
+    recordActions(getActionsToRecord(next));
 
-    console.log('Card marked correct (local only):', currentCard.verse.reference);
-  }, [session]);
+    console.log(`Card graded ${grade}:`, currentCard.verse.reference);
+  }, [session, recordActions]);
+
+  /**
+   * Marks current card as correct - shorthand for a 'good' grade
+   */
+  const markCardCorrect = useCallback(() => gradeCard('good'), [gradeCard]);
+
+  /**
+   * Marks current card as incorrect - shorthand for an 'again' grade
+   */
+  const markCardIncorrect = useCallback(() => gradeCard('again'), [gradeCard]);
 
   /**
-   * Marks current card as incorrect - LOCAL ONLY during session
+   * Records a typed or spoken recall attempt - success is derived from the graded accuracy
    */
-  const markCardIncorrect = useCallback(async () => {
+  const submitTypedRecall = useCallback(async (grade: RecallGrade) => {
     if (!session || session.currentCardIndex >= session.cards.length) return;
 
     const currentCard = session.cards[session.currentCardIndex];
@@ -304,24 +490,25 @@ export function useSlackReview(): UseSlackReviewReturn {
     const action: ReviewAction = {
       id: uuidv4(),
       cardId: currentCard.id,
-      wasSuccessful: false,
+      wasSuccessful: grade.wasSuccessful,
+      grade: grade.wasSuccessful ? 'good' : 'again',
       timestamp: Date.now(),
-      wordRevealProgress: session.wordRevealIndex
+      wordRevealProgress: session.wordRevealIndex,
+      accuracyPercentage: grade.accuracyPercentage,
+      overdueDays: currentCard.overdueDays,
+      reviewTimeSeconds: getReviewTimeSeconds(session.cardShownAt, Date.now())
     };
 
-    // Update session state LOCALLY ONLY
-    setSession({
-      ...session,
-      actions: [...session.actions, action],
-      currentCardIndex: session.currentCardIndex + 1,
-      wordRevealIndex: 0 // Reset for next card
-    });
+    // Actions leaving the undo window are logged now
+    const next = advanceSession(session, action);
+    setSession(next);
+    recordActions(getActionsToRecord(next));
 
-    console.log('Card marked incorrect (local only):', currentCard.verse.reference);
-  }, [session]);
+    console.log('Typed recall graded:', currentCard.verse.reference, grade.accuracyPercentage);
+  }, [session, recordActions]);
 
   /**
-   * NEW: Complete session with BATCH sync to cloud
+   * Completes the session - logs the reviews still in the undo window and drops the saved copy
    */
   const completeSession = useCallback(async () => {
     if (!session) return;
@@ -330,36 +517,10 @@ export function useSlackReview(): UseSlackReviewReturn {
     
     try {
       setLoading(true);
-      
-      // Batch save all review logs to cloud
-      const accessToken = await getAccessToken();
-      
-      for (const action of session.actions) {
-        try {
-          // First record locally for immediate persistence
-          await localDb.reviewLogs.create({
-            user_id: userId,
-            verse_card_id: action.cardId,
-            was_successful: action.wasSuccessful,
-            counted_toward_progress: true, // Will be recalculated by server trigger
-            review_time_seconds: null
-          });
-
-          // Then sync to remote
-          await dataService.recordReview(
-            action.cardId,
-            userId,
-            action.wasSuccessful,
-            undefined, // review time
-            accessToken || undefined
-          );
+      // Nothing more to save - the session is cleared below once its reviews are logged
+      setSession(null);
 
-          console.log('Review synced:', action.cardId, action.wasSuccessful);
-        } catch (error) {
-          console.error('Failed to sync review:', action.cardId, error);
-          // Continue with other actions even if one fails
-        }
-      }
+      await settleSession(userId, session);
 
       // Refresh due cards after completion
       await refreshDueCards();
@@ -369,10 +530,42 @@ export function useSlackReview(): UseSlackReviewReturn {
       setError('Session saved locally. Will sync when connection improves.');
     } finally {
       setLoading(false);
-      // Clear session regardless of sync success
-      setSession(null);
     }
-  }, [session, getCurrentUserId, getAccessToken, refreshDueCards]);
+  }, [session, getCurrentUserId, settleSession, refreshDueCards]);
+
+  /**
+   * Picks up the session saved before the app last closed
+   */
+  const resumeSession = useCallback(() => {
+    if (!resumableSession) return;
+
+    setSession(restoreSession(resumableSession, Date.now()));
+    setResumableSession(null);
+  }, [resumableSession]);
+
+  /**
+   * Drops the saved session - the reviews it made are still logged
+   */
+  const discardSavedSession = useCallback(async () => {
+    if (!resumableSession) return;
+
+    setResumableSession(null);
+    try {
+      await settleSession(getCurrentUserId(), resumableSession);
+    } catch (error) {
+      console.error('Failed to discard saved review session:', error);
+    }
+    await refreshDueCards();
+  }, [resumableSession, getCurrentUserId, settleSession, refreshDueCards]);
+
+  // Save the session after every action so it survives the app being closed
+  useEffect(() => {
+    if (!session) return;
+
+    localDb.reviewSessions.save(getCurrentUserId(), session).catch(error => {
+      console.error('Failed to save review session:', error);
+    });
+  }, [session, getCurrentUserId]);
 
   // Initialize hook
   useEffect(() => {
@@ -381,9 +574,42 @@ export function useSlackReview(): UseSlackReviewReturn {
     loadReferenceDisplayMode(userId);
   }, [refreshDueCards, getCurrentUserId, loadReferenceDisplayMode]);
 
+  // Offer a session interrupted earlier today for resuming - older or finished ones just
+  // get their remaining reviews logged (see settleSession)
+  useEffect(() => {
+    // Only on open - a timezone change shouldn't bring back a session already dealt with
+    if (savedSessionCheckedRef.current) return;
+    savedSessionCheckedRef.current = true;
+
+    const userId = getCurrentUserId();
+
+    const loadSavedSession = async () => {
+      try {
+        const saved = await localDb.reviewSessions.get(userId);
+        if (!saved) return;
+
+        if (isSessionResumable(saved, getUserTodayStringInTimezone(timezone), timezone)) {
+          setResumableSession(saved);
+        } else {
+          await settleSession(userId, saved);
+          await refreshDueCards();
+        }
+      } catch (error) {
+        console.error('Failed to load saved review session:', error);
+      }
+    };
+
+    loadSavedSession();
+  }, [getCurrentUserId, timezone, settleSession, refreshDueCards]);
+
   // Calculate derived values
   const currentCard = session ? session.cards[session.currentCardIndex] || null : null;
   
+  // The latest reviews aren't logged until they leave the undo window, so count today ahead of time
+  const sessionStreak = dailyStreak && session && session.actions.length > 0
+    ? extendDailyStreak(dailyStreak, getUserTodayStringInTimezone(timezone))
+    : dailyStreak;
+
   const sessionProgress = session ? {
     current: session.currentCardIndex,
     total: session.cards.length,
@@ -402,16 +628,31 @@ export function useSlackReview(): UseSlackReviewReturn {
     loading,
     error,
     session,
+    resumableSession,
+    canUndo: canUndoLastAction(session),
     currentCard,
     sessionProgress,
     referenceDisplayMode,
+    phaseRequirements,
+    reviewShortcuts,
+    dailyStreak: sessionStreak,
+    reviewMode,
+    setReviewMode,
+    timeBudgetMinutes,
+    setTimeBudgetMinutes,
+    reviewOrder,
+    setReviewOrder,
     startSession,
     startTodaysSession,
     startIncorrectSession,
     markCardCorrect,
     markCardIncorrect,
+    gradeCard,
+    submitTypedRecall,
     undoLastAction,
     completeSession,
+    resumeSession,
+    discardSavedSession,
     refreshDueCards
   };
 }
\ No newline at end of file
@@ -0,0 +1,164 @@
+/**
+ * useSpeech Hook
+ *
+ * Web Speech API wrapper for audio review: speaks text aloud with speech synthesis and
+ * listens for a recitation with speech recognition. TypeScript's DOM types don't cover
+ * speech recognition yet, so the parts used here are declared below.
+ */
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+
+interface SpeechRecognitionResultLike {
+  isFinal: boolean;
+  length: number;
+  [index: number]: { transcript: string };
+}
+
+interface SpeechRecognitionEventLike {
+  resultIndex: number;
+  results: { length: number; [index: number]: SpeechRecognitionResultLike };
+}
+
+interface SpeechRecognitionLike {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  maxAlternatives: number;
+  onresult: ((event: SpeechRecognitionEventLike) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+  abort: () => void;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognitionLike;
+
+// Alternative transcripts requested per phrase - each is scored and the best counts
+const MAX_ALTERNATIVES = 3;
+// A pause this long after the last recognized words ends the recitation
+const SILENCE_TIMEOUT_MS = 2500;
+
+function getRecognitionConstructor(): SpeechRecognitionConstructor | null {
+  if (typeof window === 'undefined') return null;
+  const speechWindow = window as unknown as {
+    SpeechRecognition?: SpeechRecognitionConstructor;
+    webkitSpeechRecognition?: SpeechRecognitionConstructor;
+  };
+  return speechWindow.SpeechRecognition ?? speechWindow.webkitSpeechRecognition ?? null;
+}
+
+/**
+ * Joins the phrases recognized so far into whole-recitation transcripts - the nth
+ * transcript takes each phrase's nth alternative (or its best when it has fewer).
+ */
+function collectTranscripts(results: SpeechRecognitionEventLike['results']): string[] {
+  const transcripts: string[] = [];
+  for (let alternative = 0; alternative < MAX_ALTERNATIVES; alternative++) {
+    const phrases: string[] = [];
+    for (let i = 0; i < results.length; i++) {
+      const result = results[i];
+      phrases.push((result[alternative] ?? result[0]).transcript.trim());
+    }
+    transcripts.push(phrases.join(' ').trim());
+  }
+  return [...new Set(transcripts)];
+}
+
+export function useSpeech() {
+  const [isListening, setIsListening] = useState(false);
+  const [transcript, setTranscript] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const recognitionRef = useRef<SpeechRecognitionLike | null>(null);
+
+  const isSupported = typeof window !== 'undefined' && 'speechSynthesis' in window && !!getRecognitionConstructor();
+
+  /**
+   * Speaks text aloud - resolves when it finishes (or fails, so callers never hang)
+   */
+  const speak = useCallback((text: string) => new Promise<void>(resolve => {
+    window.speechSynthesis.cancel();
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = 'en-US';
+    utterance.rate = 0.95;
+    utterance.onend = () => resolve();
+    utterance.onerror = () => resolve();
+    window.speechSynthesis.speak(utterance);
+  }), []);
+
+  /**
+   * Listens until the speaker pauses - resolves with the alternative transcripts of
+   * everything said, best first (empty when nothing was heard)
+   */
+  const listen = useCallback(() => new Promise<string[]>(resolve => {
+    const Recognition = getRecognitionConstructor();
+    if (!Recognition) {
+      resolve([]);
+      return;
+    }
+
+    const recognition = new Recognition();
+    recognition.lang = 'en-US';
+    recognition.continuous = true;
+    recognition.interimResults = true;
+    recognition.maxAlternatives = MAX_ALTERNATIVES;
+
+    let transcripts: string[] = [];
+    let silenceTimer: ReturnType<typeof setTimeout> | undefined;
+
+    recognition.onresult = (event) => {
+      transcripts = collectTranscripts(event.results);
+      setTranscript(transcripts[0] ?? '');
+      clearTimeout(silenceTimer);
+      silenceTimer = setTimeout(() => recognition.stop(), SILENCE_TIMEOUT_MS);
+    };
+    recognition.onerror = (event) => {
+      // 'no-speech' just means silence - the empty transcript is graded as such
+      if (event.error !== 'no-speech' && event.error !== 'aborted') {
+        setError(event.error === 'not-allowed' ? 'Microphone access was denied' : `Speech recognition failed (${event.error})`);
+      }
+    };
+    recognition.onend = () => {
+      clearTimeout(silenceTimer);
+      recognitionRef.current = null;
+      setIsListening(false);
+      resolve(transcripts);
+    };
+
+    recognitionRef.current = recognition;
+    setTranscript('');
+    setError(null);
+    setIsListening(true);
+    recognition.start();
+  }), []);
+
+  /**
+   * Ends listening early - the recitation so far is still returned by listen()
+   */
+  const stopListening = useCallback(() => {
+    recognitionRef.current?.stop();
+  }, []);
+
+  /**
+   * Silences speech and drops any recitation in progress
+   */
+  const cancel = useCallback(() => {
+    recognitionRef.current?.abort();
+    if (typeof window !== 'undefined' && 'speechSynthesis' in window) {
+      window.speechSynthesis.cancel();
+    }
+  }, []);
+
+  useEffect(() => cancel, [cancel]);
+
+  return {
+    isSupported,
+    isListening,
+    transcript,
+    error,
+    speak,
+    listen,
+    stopListening,
+    cancel
+  };
+}
@@ -2,12 +2,19 @@
  * useTextRevelation Hook
  * 
  * Handles progressive text revelation for verse memorization.
- * Supports three modes: full, first-letter, and progressive-words (blank).
+ * Supports four modes: full, first-letter, progressive-words (blank) and cloze
+ * (a subset of words hidden, each revealed by tapping or typing it - see utils/cloze).
  */
 
 import { useState, useCallback, useMemo } from 'react';
+import { maskClozeWord, selectClozeIndices } from '../../../utils/cloze';
 
-export type TextRevelationMode = 'full' | 'first' | 'blank';
+export type TextRevelationMode = 'full' | 'first' | 'blank' | 'cloze';
+
+interface ClozeOptions {
+  ratio: number; // Share of words hidden (see getClozeRatio)
+  seed: string;  // Keeps the same words hidden while the card is shown
+}
 
 interface UseTextRevelationReturn {
   displayText: string;
@@ -18,18 +25,32 @@ interface UseTextRevelationReturn {
   progress: number; // 0-1 for progress tracking
   currentWordIndex: number;
   totalWords: number;
+  words: string[];
+  clozeBlanks: number[]; // Cloze only - indexes of words still hidden, in order
+  revealWord: (index: number) => void;
 }
 
 export function useTextRevelation(
   verseText: string, 
-  mode: TextRevelationMode
+  mode: TextRevelationMode,
+  cloze: ClozeOptions = { ratio: 0, seed: '' }
 ): UseTextRevelationReturn {
   const [revealedWordIndex, setRevealedWordIndex] = useState(0);
   const [isFullyRevealed, setIsFullyRevealed] = useState(false);
+  const [revealedBlanks, setRevealedBlanks] = useState<number[]>([]);
 
   // Split text into words for progressive revelation
   const words = useMemo(() => verseText.split(/\s+/), [verseText]);
 
+  const clozeIndices = useMemo(
+    () => (mode === 'cloze' ? selectClozeIndices(words, cloze.ratio, cloze.seed) : []),
+    [mode, words, cloze.ratio, cloze.seed]
+  );
+  const clozeBlanks = useMemo(
+    () => clozeIndices.filter(index => !revealedBlanks.includes(index)),
+    [clozeIndices, revealedBlanks]
+  );
+
   const getDisplayText = useCallback(() => {
     switch (mode) {
       case 'full':
@@ -69,49 +90,69 @@ export function useTextRevelation(
             : '█'.repeat(Math.max(2, word.replace(/[^A-Za-z]/g, '').length))
         ).join(' ');
 
+      case 'cloze':
+        return words.map((word, index) =>
+          clozeBlanks.includes(index) ? maskClozeWord(word) : word
+        ).join(' ');
+
       default:
         return verseText;
     }
-  }, [mode, verseText, revealedWordIndex, isFullyRevealed, words]);
+  }, [mode, verseText, revealedWordIndex, isFullyRevealed, words, clozeBlanks]);
 
   const revealNext = useCallback(() => {
     if (mode === 'full' || mode === 'first') {
       setIsFullyRevealed(true);
     } else if (mode === 'blank' && revealedWordIndex < words.length) {
       setRevealedWordIndex(prev => prev + 1);
+    } else if (mode === 'cloze' && clozeBlanks.length > 0) {
+      setRevealedBlanks(prev => [...prev, clozeBlanks[0]]);
+    }
+  }, [mode, revealedWordIndex, words.length, clozeBlanks]);
+
+  const revealWord = useCallback((index: number) => {
+    if (mode === 'cloze' && clozeBlanks.includes(index)) {
+      setRevealedBlanks(prev => [...prev, index]);
     }
-  }, [mode, revealedWordIndex, words.length]);
+  }, [mode, clozeBlanks]);
 
   const revealAll = useCallback(() => {
     if (mode === 'blank') {
       setRevealedWordIndex(words.length);
+    } else if (mode === 'cloze') {
+      setRevealedBlanks(clozeIndices);
     } else {
       setIsFullyRevealed(true);
     }
-  }, [mode, words.length]);
+  }, [mode, words.length, clozeIndices]);
 
   const reset = useCallback(() => {
     setRevealedWordIndex(0);
     setIsFullyRevealed(false);
+    setRevealedBlanks([]);
   }, []);
 
   // Calculate completion status
   const isComplete = useMemo(() => {
     if (mode === 'blank') {
       return revealedWordIndex >= words.length;
+    } else if (mode === 'cloze') {
+      return clozeBlanks.length === 0;
     } else {
       return isFullyRevealed;
     }
-  }, [mode, revealedWordIndex, words.length, isFullyRevealed]);
+  }, [mode, revealedWordIndex, words.length, isFullyRevealed, clozeBlanks.length]);
 
   // Calculate progress (0-1)
   const progress = useMemo(() => {
     if (mode === 'blank') {
       return words.length > 0 ? revealedWordIndex / words.length : 0;
+    } else if (mode === 'cloze') {
+      return clozeIndices.length > 0 ? 1 - clozeBlanks.length / clozeIndices.length : 1;
     } else {
       return isFullyRevealed ? 1 : 0;
     }
-  }, [mode, revealedWordIndex, words.length, isFullyRevealed]);
+  }, [mode, revealedWordIndex, words.length, isFullyRevealed, clozeIndices.length, clozeBlanks.length]);
 
   return {
     displayText: getDisplayText(),
@@ -121,6 +162,9 @@ export function useTextRevelation(
     isComplete,
     progress,
     currentWordIndex: revealedWordIndex,
-    totalWords: words.length
+    totalWords: words.length,
+    words,
+    clozeBlanks,
+    revealWord
   };
 }
\ No newline at end of file
@@ -9,6 +9,12 @@ import { dataService } from "../../services/dataService";
 import { db } from "../../services/localDb";
 import { supabaseClient } from "../../services/supabase";
 import { Card } from '../../components/shared/Card';
+import { DailyStreakCard } from './components/DailyStreakCard';
+import { LearningScheduleSettings } from './components/LearningScheduleSettings';
+import { PauseScheduleSettings } from './components/PauseScheduleSettings';
+import { OfflineBibleSettings } from './components/OfflineBibleSettings';
+import { ReviewShortcutSettings } from './components/ReviewShortcutSettings';
+import { TRANSLATIONS } from '../../utils/translations';
 
 export function Settings() {
   const { user, signIn, signOut, convertAnonymousToUser, isAnonymous, getCurrentUserId, getAccessToken } = useAuth();
@@ -753,9 +759,13 @@ export function Settings() {
                   onChange={(e) => updateProfileField('preferredTranslation', e.target.value)}
                   className="w-full bg-white border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
                 >
-                  <option value="ESV">ESV (English Standard Version)</option>
+                  {TRANSLATIONS.map(translation => (
+                    <option key={translation.code} value={translation.code}>
+                      {translation.code} ({translation.name})
+                    </option>
+                  ))}
                 </select>
-                <p className="text-xs text-gray-500 mt-1">More translations coming soon</p>
+                <p className="text-xs text-gray-500 mt-1">New verses are added in this translation. Verses already in your collection keep theirs.</p>
               </div>
 
               {/* Reference Display Mode */}
@@ -774,12 +784,16 @@ export function Settings() {
                   <option value="full">Full Text</option>
                   <option value="first">First Letter ( J__ tap to reveal )</option>
                   <option value="blank">Blank ( ___ tap to reveal )</option>
+                  <option value="cloze">Cloze ( some words hidden, more as you progress )</option>
                 </select>
               </div>
             </div>
         </Card>
       )}
 
+      {/* Daily streak across the whole deck */}
+      <DailyStreakCard />
+
       {/* Display Preferences - For anonymous users or fallback */}
       <Card title="Display">
 
@@ -802,10 +816,23 @@ export function Settings() {
                 <option value="full">Full Text</option>
                 <option value="first">First Letter ( J__ tap to reveal )</option>
                 <option value="blank">Blank ( ___ tap to reveal )</option>
+                <option value="cloze">Cloze ( some words hidden, more as you progress )</option>
               </select>
             </div>
           </div>
       </Card>
+
+      {/* Learning Schedule - phase requirements and intervals */}
+      <LearningScheduleSettings />
+
+      {/* Keyboard shortcuts for desktop review */}
+      <ReviewShortcutSettings />
+
+      {/* Vacation / pause mode */}
+      <PauseScheduleSettings />
+
+      {/* Offline Bible - downloads need a signed-in session */}
+      {!isAnonymous && <OfflineBibleSettings />}
     </div>
   );
 }
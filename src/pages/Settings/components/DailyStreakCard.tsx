@@ -0,0 +1,50 @@
+/**
+ * Daily streak - days in a row with a review session across the whole deck.
+ * Paused days don't break it (see dailyStreak.ts).
+ */
+import { useState, useEffect } from 'react';
+import { useAuth } from "../../../contexts/AuthContext";
+import { db } from "../../../services/localDb";
+import { Card } from '../../../components/shared/Card';
+import { getUserTodayStringInTimezone } from '../../../utils/dateUtils';
+import { getStoredDailyStreak, type DailyStreak } from '../../../utils/dailyStreak';
+
+export function DailyStreakCard() {
+  const { getCurrentUserId } = useAuth();
+  const [streak, setStreak] = useState<DailyStreak | null>(null);
+
+  useEffect(() => {
+    const loadStreak = async () => {
+      try {
+        const userId = getCurrentUserId();
+        if (!userId) return;
+        const profile = await db.user_profiles.where('user_id').equals(userId).first();
+        const today = getUserTodayStringInTimezone(profile?.timezone || 'UTC');
+        setStreak(getStoredDailyStreak(profile, today, profile, profile?.pause_history));
+      } catch (err) {
+        console.error('Failed to load daily streak:', err);
+      }
+    };
+    loadStreak();
+  }, [getCurrentUserId]);
+
+  if (!streak) return null;
+
+  return (
+    <Card title="Daily Streak">
+      <div className="grid grid-cols-2 gap-4 text-center">
+        <div>
+          <p className="text-3xl font-bold text-primary">🔥 {streak.current}</p>
+          <p className="text-xs text-primary/60 mt-1">Current streak (days)</p>
+        </div>
+        <div>
+          <p className="text-3xl font-bold text-primary">{streak.best}</p>
+          <p className="text-xs text-primary/60 mt-1">Best streak (days)</p>
+        </div>
+      </div>
+      <p className="text-xs text-primary/50 mt-4">
+        Review at least once a day to keep your streak going. Paused days don't break it.
+      </p>
+    </Card>
+  );
+}
@@ -0,0 +1,324 @@
+/**
+ * Learning schedule settings - scheduler choice plus per-user phase requirements, intervals,
+ * demotion threshold, new-card limit and overdue catch-up cap. Saved to user_profiles and honored by both the
+ * schedulers in spacedRepetition.ts and the review trigger.
+ */
+import { useState, useEffect } from 'react';
+import { useAuth } from "../../../contexts/AuthContext";
+import { dataService } from "../../../services/dataService";
+import { db } from "../../../services/localDb";
+import { Card } from '../../../components/shared/Card';
+import {
+  DEFAULT_PHASE_SETTINGS,
+  DEMOTION_THRESHOLD_LIMITS,
+  PHASE_INTERVAL_LIMITS,
+  PHASE_REQUIREMENT_LIMITS,
+  DEFAULT_SCHEDULER,
+  SCHEDULERS,
+  SCHEDULER_TYPES,
+  getPhaseSettings,
+  getScheduler,
+  phaseSettingsToProfileFields,
+  validatePhaseSettings,
+  type AdvancingPhase,
+  type PhaseSettings,
+  type ReviewPhase,
+  type SchedulerType
+} from '../../../utils/spacedRepetition';
+import {
+  DEFAULT_NEW_CARDS_PER_DAY,
+  DEFAULT_OVERDUE_DAILY_CAP,
+  NEW_CARDS_PER_DAY_LIMITS,
+  OVERDUE_DAILY_CAP_LIMITS
+} from '../../../utils/assignmentLogic';
+
+const PHASE_LABELS: Record<ReviewPhase, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  biweekly: 'Biweekly',
+  monthly: 'Monthly'
+};
+
+const ADVANCING_PHASES: AdvancingPhase[] = ['daily', 'weekly', 'biweekly'];
+const ALL_PHASES: ReviewPhase[] = ['daily', 'weekly', 'biweekly', 'monthly'];
+
+export function LearningScheduleSettings() {
+  const { getCurrentUserId, getAccessToken } = useAuth();
+  const [settings, setSettings] = useState<PhaseSettings>(DEFAULT_PHASE_SETTINGS);
+  const [scheduler, setScheduler] = useState<SchedulerType>(DEFAULT_SCHEDULER);
+  const [overdueDailyCap, setOverdueDailyCap] = useState(DEFAULT_OVERDUE_DAILY_CAP);
+  const [newCardsPerDay, setNewCardsPerDay] = useState(DEFAULT_NEW_CARDS_PER_DAY);
+  const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [saveSuccess, setSaveSuccess] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        const userId = getCurrentUserId();
+        if (!userId) return;
+        const profile = await db.user_profiles.where('user_id').equals(userId).first();
+        setSettings(getPhaseSettings(profile));
+        setScheduler(getScheduler(profile?.scheduler).type);
+        setOverdueDailyCap(profile?.overdue_daily_cap ?? DEFAULT_OVERDUE_DAILY_CAP);
+        setNewCardsPerDay(profile?.new_cards_per_day ?? DEFAULT_NEW_CARDS_PER_DAY);
+      } catch (err) {
+        console.error('Failed to load learning schedule:', err);
+      }
+    };
+
+    loadSettings();
+  }, [getCurrentUserId]);
+
+  const updateScheduler = (value: SchedulerType) => {
+    setScheduler(value);
+    setHasUnsavedChanges(true);
+    setSaveSuccess(false);
+    setError('');
+  };
+
+  const updateRequirement = (phase: AdvancingPhase, value: string) => {
+    setSettings(prev => ({ ...prev, requirements: { ...prev.requirements, [phase]: Number(value) } }));
+    setHasUnsavedChanges(true);
+    setSaveSuccess(false);
+    setError('');
+  };
+
+  const updateInterval = (phase: ReviewPhase, value: string) => {
+    setSettings(prev => ({ ...prev, intervals: { ...prev.intervals, [phase]: Number(value) } }));
+    setHasUnsavedChanges(true);
+    setSaveSuccess(false);
+    setError('');
+  };
+
+  const updateDemotionThreshold = (value: string) => {
+    setSettings(prev => ({ ...prev, demotionThreshold: Number(value) }));
+    setHasUnsavedChanges(true);
+    setSaveSuccess(false);
+    setError('');
+  };
+
+  const updateOverdueDailyCap = (value: string) => {
+    setOverdueDailyCap(Number(value));
+    setHasUnsavedChanges(true);
+    setSaveSuccess(false);
+    setError('');
+  };
+
+  const updateNewCardsPerDay = (value: string) => {
+    setNewCardsPerDay(Number(value));
+    setHasUnsavedChanges(true);
+    setSaveSuccess(false);
+    setError('');
+  };
+
+  const resetToDefaults = () => {
+    setSettings(DEFAULT_PHASE_SETTINGS);
+    setScheduler(DEFAULT_SCHEDULER);
+    setOverdueDailyCap(DEFAULT_OVERDUE_DAILY_CAP);
+    setNewCardsPerDay(DEFAULT_NEW_CARDS_PER_DAY);
+    setHasUnsavedChanges(true);
+    setSaveSuccess(false);
+    setError('');
+  };
+
+  const saveSettings = async () => {
+    const validationError = validatePhaseSettings(settings);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    if (!Number.isInteger(overdueDailyCap) || overdueDailyCap < OVERDUE_DAILY_CAP_LIMITS.min || overdueDailyCap > OVERDUE_DAILY_CAP_LIMITS.max) {
+      setError(`Overdue verses per day must be between ${OVERDUE_DAILY_CAP_LIMITS.min} and ${OVERDUE_DAILY_CAP_LIMITS.max}`);
+      return;
+    }
+    if (!Number.isInteger(newCardsPerDay) || newCardsPerDay < NEW_CARDS_PER_DAY_LIMITS.min || newCardsPerDay > NEW_CARDS_PER_DAY_LIMITS.max) {
+      setError(`New verses per day must be between ${NEW_CARDS_PER_DAY_LIMITS.min} and ${NEW_CARDS_PER_DAY_LIMITS.max}`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const userId = getCurrentUserId();
+      if (!userId) return;
+      const accessToken = await getAccessToken();
+      await dataService.updateUserProfile(userId, {
+        ...phaseSettingsToProfileFields(settings),
+        scheduler,
+        overdue_daily_cap: overdueDailyCap,
+        new_cards_per_day: newCardsPerDay
+      }, accessToken || undefined);
+
+      setHasUnsavedChanges(false);
+      setSaveSuccess(true);
+
+      // Clear success message after 3 seconds
+      setTimeout(() => setSaveSuccess(false), 3000);
+    } catch (err) {
+      console.error('Failed to save learning schedule:', err);
+      setError('Failed to save learning schedule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-primary">Learning Schedule</h2>
+        {hasUnsavedChanges && (
+          <button
+            onClick={saveSettings}
+            disabled={saving}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save Changes'}
+          </button>
+        )}
+      </div>
+
+      {saveSuccess && (
+        <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-lg">
+          <p className="text-green-600 text-sm">✅ Learning schedule updated!</p>
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-600 text-sm">{error}</p>
+        </div>
+      )}
+
+      <div className="space-y-4">
+        <div>
+          <p className="text-primary/70 text-sm mb-2">Scheduler</p>
+          <div className="space-y-2">
+            {SCHEDULER_TYPES.map(type => (
+              <label key={type} className="flex items-start gap-3 cursor-pointer">
+                <input
+                  type="radio"
+                  name="scheduler"
+                  value={type}
+                  checked={scheduler === type}
+                  onChange={() => updateScheduler(type)}
+                  className="mt-1"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-primary">{SCHEDULERS[type].label}</span>
+                  <span className="block text-xs text-primary/60">{SCHEDULERS[type].description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+          <p className="text-xs text-primary/50 mt-2">
+            Switching keeps each verse's progress - switching back picks up where it left off.
+          </p>
+        </div>
+
+        {scheduler === 'phase' && (
+          <>
+            <div>
+              <p className="text-primary/70 text-sm mb-2">Successful reviews to advance</p>
+              <div className="grid grid-cols-3 gap-3">
+                {ADVANCING_PHASES.map(phase => (
+                  <label key={phase} className="block">
+                    <span className="block text-xs text-primary/60 mb-1">{PHASE_LABELS[phase]}</span>
+                    <input
+                      type="number"
+                      min={PHASE_REQUIREMENT_LIMITS.min}
+                      max={PHASE_REQUIREMENT_LIMITS.max}
+                      value={settings.requirements[phase]}
+                      onChange={(e) => updateRequirement(phase, e.target.value)}
+                      className="w-full bg-white border border-primary/20 rounded px-3 py-1 text-sm font-medium text-primary focus:outline-none focus:ring-2 focus:ring-accent/20 focus:border-accent"
+                    />
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <p className="text-primary/70 text-sm mb-2">Days between reviews</p>
+              <div className="grid grid-cols-4 gap-3">
+                {ALL_PHASES.map(phase => (
+                  <label key={phase} className="block">
+                    <span className="block text-xs text-primary/60 mb-1">{PHASE_LABELS[phase]}</span>
+                    <input
+                      type="number"
+                      min={PHASE_INTERVAL_LIMITS[phase].min}
+                      max={PHASE_INTERVAL_LIMITS[phase].max}
+                      value={settings.intervals[phase]}
+                      onChange={(e) => updateInterval(phase, e.target.value)}
+                      className="w-full bg-white border border-primary/20 rounded px-3 py-1 text-sm font-medium text-primary focus:outline-none focus:ring-2 focus:ring-accent/20 focus:border-accent"
+                    />
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-primary/50 mt-2">
+                Weekly, biweekly and monthly verses are still reviewed on their assigned day - longer intervals skip ahead to a later slot.
+              </p>
+            </div>
+
+            <div>
+              <label className="flex justify-between items-center">
+                <span className="text-primary/70 text-sm">Failures in a row before dropping back a phase</span>
+                <input
+                  type="number"
+                  min={DEMOTION_THRESHOLD_LIMITS.min}
+                  max={DEMOTION_THRESHOLD_LIMITS.max}
+                  value={settings.demotionThreshold}
+                  onChange={(e) => updateDemotionThreshold(e.target.value)}
+                  className="w-20 bg-white border border-primary/20 rounded px-3 py-1 text-sm font-medium text-primary focus:outline-none focus:ring-2 focus:ring-accent/20 focus:border-accent"
+                />
+              </label>
+              <p className="text-xs text-primary/50 mt-2">
+                Set to 0 to never drop verses back.
+              </p>
+            </div>
+          </>
+        )}
+
+        <div>
+          <label className="flex justify-between items-center">
+            <span className="text-primary/70 text-sm">New verses per day</span>
+            <input
+              type="number"
+              min={NEW_CARDS_PER_DAY_LIMITS.min}
+              max={NEW_CARDS_PER_DAY_LIMITS.max}
+              value={newCardsPerDay}
+              onChange={(e) => updateNewCardsPerDay(e.target.value)}
+              className="w-20 bg-white border border-primary/20 rounded px-3 py-1 text-sm font-medium text-primary focus:outline-none focus:ring-2 focus:ring-accent/20 focus:border-accent"
+            />
+          </label>
+          <p className="text-xs text-primary/50 mt-2">
+            Newly added verses wait in your Library's learning queue and join daily review a few at a time. Set to 0 for no limit.
+          </p>
+        </div>
+
+        <div>
+          <label className="flex justify-between items-center">
+            <span className="text-primary/70 text-sm">Overdue verses to catch up per day</span>
+            <input
+              type="number"
+              min={OVERDUE_DAILY_CAP_LIMITS.min}
+              max={OVERDUE_DAILY_CAP_LIMITS.max}
+              value={overdueDailyCap}
+              onChange={(e) => updateOverdueDailyCap(e.target.value)}
+              className="w-20 bg-white border border-primary/20 rounded px-3 py-1 text-sm font-medium text-primary focus:outline-none focus:ring-2 focus:ring-accent/20 focus:border-accent"
+            />
+          </label>
+          <p className="text-xs text-primary/50 mt-2">
+            Missed verses stay due, most overdue first - a big backlog is spread over the next few days. Set to 0 for no limit.
+          </p>
+        </div>
+
+        <button
+          onClick={resetToDefaults}
+          className="text-sm text-primary/60 hover:text-primary transition-colors"
+        >
+          Reset to defaults
+        </button>
+      </div>
+    </Card>
+  );
+}
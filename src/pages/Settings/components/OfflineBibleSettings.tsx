@@ -0,0 +1,132 @@
+/**
+ * Offline Bible - download a public-domain translation so references can be looked up
+ * without a connection (see biblePack.ts and dataService.lookupOfflineVerse).
+ */
+import { useState, useEffect, useCallback } from 'react';
+import { dataService } from "../../../services/dataService";
+import { localDb, type LocalDBSchema } from "../../../services/localDb";
+import { Card } from '../../../components/shared/Card';
+import { TRANSLATIONS } from '../../../utils/translations';
+
+type BiblePack = LocalDBSchema['bible_packs'];
+
+const formatSize = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+export function OfflineBibleSettings() {
+  const [packs, setPacks] = useState<BiblePack[]>([]);
+  const [busyTranslation, setBusyTranslation] = useState<string | null>(null);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [error, setError] = useState('');
+
+  const loadPacks = useCallback(async () => {
+    try {
+      setPacks(await localDb.biblePacks.getAll());
+    } catch (err) {
+      console.error('Failed to load Bible packs:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPacks();
+  }, [loadPacks]);
+
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  const download = async (translation: string) => {
+    setBusyTranslation(translation);
+    setError('');
+    try {
+      await dataService.downloadBiblePack(translation);
+      await loadPacks();
+    } catch (err) {
+      console.error('Failed to download Bible pack:', err);
+      setError(`Failed to download the ${translation} Bible`);
+    } finally {
+      setBusyTranslation(null);
+    }
+  };
+
+  const remove = async (translation: string) => {
+    setBusyTranslation(translation);
+    setError('');
+    try {
+      await dataService.deleteBiblePack(translation);
+      await loadPacks();
+    } catch (err) {
+      console.error('Failed to delete Bible pack:', err);
+      setError(`Failed to delete the ${translation} Bible`);
+    } finally {
+      setBusyTranslation(null);
+    }
+  };
+
+  const totalSize = packs.reduce((sum, pack) => sum + pack.size_bytes, 0);
+
+  return (
+    <Card>
+      <h2 className="text-lg font-semibold text-primary mb-2">Offline Bible</h2>
+      <p className="text-primary/70 text-sm mb-4">
+        Download a public-domain translation to look up and add verses without a connection.
+      </p>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-600 text-sm">{error}</p>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {TRANSLATIONS.filter(translation => translation.publicDomain).map(translation => {
+          const pack = packs.find(candidate => candidate.translation === translation.code);
+          const isBusy = busyTranslation === translation.code;
+
+          return (
+            <div key={translation.code} className="flex items-center justify-between gap-3">
+              <div>
+                <p className="text-sm font-medium text-primary">{translation.name} ({translation.code})</p>
+                <p className="text-xs text-primary/60">
+                  {pack
+                    ? `${formatSize(pack.size_bytes)} · downloaded ${new Date(pack.downloaded_at).toLocaleDateString()}`
+                    : 'Not downloaded'}
+                </p>
+              </div>
+              {pack ? (
+                <button
+                  onClick={() => remove(translation.code)}
+                  disabled={busyTranslation !== null}
+                  className="text-red-600 border border-red-200 px-3 py-1 rounded-lg text-sm font-medium hover:bg-red-50 transition-colors disabled:opacity-50"
+                >
+                  {isBusy ? 'Deleting...' : 'Delete'}
+                </button>
+              ) : (
+                <button
+                  onClick={() => download(translation.code)}
+                  disabled={busyTranslation !== null || !isOnline}
+                  className="bg-blue-600 text-white px-3 py-1 rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                  {isBusy ? 'Downloading...' : 'Download'}
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {packs.length > 0 && (
+        <p className="mt-4 text-xs text-primary/60">Storage used: {formatSize(totalSize)}</p>
+      )}
+      {!isOnline && (
+        <p className="mt-2 text-xs text-orange-700">Connect to the internet to download a translation.</p>
+      )}
+    </Card>
+  );
+}
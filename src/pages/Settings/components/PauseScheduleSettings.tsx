@@ -0,0 +1,177 @@
+/**
+ * Vacation / pause mode settings - pause reviews for a date range and resume early.
+ * While paused nothing is due; on resume every verse shifts forward by the paused days
+ * (see pauseSchedule.ts and resume_user_schedule()).
+ */
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from "../../../contexts/AuthContext";
+import { dataService } from "../../../services/dataService";
+import { db } from "../../../services/localDb";
+import { Card } from '../../../components/shared/Card';
+import { getUserTodayStringInTimezone, parseLocalDate } from '../../../utils/dateUtils';
+import {
+  addDaysToDateString,
+  daysBetween,
+  isPausedOn,
+  validatePause,
+  type PausePeriod
+} from '../../../utils/pauseSchedule';
+
+const RECENT_PAUSE_COUNT = 3;
+
+const formatDate = (date: string) => parseLocalDate(date).toLocaleDateString();
+
+export function PauseScheduleSettings() {
+  const { getCurrentUserId, getAccessToken } = useAuth();
+  const [today, setToday] = useState('');
+  const [pausedFrom, setPausedFrom] = useState<string | null>(null);
+  const [pausedUntil, setPausedUntil] = useState<string | null>(null);
+  const [history, setHistory] = useState<PausePeriod[]>([]);
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadPause = useCallback(async () => {
+    try {
+      const userId = getCurrentUserId();
+      if (!userId) return;
+      const profile = await db.user_profiles.where('user_id').equals(userId).first();
+      const userToday = getUserTodayStringInTimezone(profile?.timezone || 'UTC');
+      setToday(userToday);
+      setPausedFrom(profile?.paused_from ?? null);
+      setPausedUntil(profile?.paused_until ?? null);
+      setHistory(profile?.pause_history ?? []);
+      setStartDate(userToday);
+      setEndDate(addDaysToDateString(userToday, 6));
+    } catch (err) {
+      console.error('Failed to load pause settings:', err);
+    }
+  }, [getCurrentUserId]);
+
+  useEffect(() => {
+    loadPause();
+  }, [loadPause]);
+
+  const pause = async () => {
+    const validationError = validatePause(startDate, endDate, today);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    try {
+      const userId = getCurrentUserId();
+      if (!userId) return;
+      const accessToken = await getAccessToken();
+      await dataService.pauseSchedule(userId, startDate, endDate, accessToken || undefined);
+      await loadPause();
+    } catch (err) {
+      console.error('Failed to pause schedule:', err);
+      setError('Failed to pause reviews');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const resume = async () => {
+    setSaving(true);
+    setError('');
+    try {
+      const userId = getCurrentUserId();
+      if (!userId) return;
+      const accessToken = await getAccessToken();
+      await dataService.resumeSchedule(userId, today, accessToken || undefined);
+      await loadPause();
+    } catch (err) {
+      console.error('Failed to resume schedule:', err);
+      setError('Failed to resume reviews');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const isPaused = isPausedOn({ paused_from: pausedFrom, paused_until: pausedUntil }, today);
+  const recentPauses = history.slice(-RECENT_PAUSE_COUNT).reverse();
+
+  return (
+    <Card>
+      <h2 className="text-lg font-semibold text-primary mb-4">Pause Reviews</h2>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-600 text-sm">{error}</p>
+        </div>
+      )}
+
+      {pausedFrom && pausedUntil ? (
+        <div className="space-y-3">
+          <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg">
+            <p className="text-amber-700 text-sm">
+              {isPaused
+                ? `⏸️ Paused until ${formatDate(pausedUntil)} - nothing is due and streaks are safe.`
+                : `⏸️ Pause scheduled from ${formatDate(pausedFrom)} to ${formatDate(pausedUntil)}.`}
+            </p>
+          </div>
+          <button
+            onClick={resume}
+            disabled={saving}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : isPaused ? 'Resume now' : 'Cancel pause'}
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <p className="text-primary/70 text-sm">
+            Going away? Pause your reviews and every verse picks up where it left off when you're back.
+          </p>
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block">
+              <span className="block text-xs text-primary/60 mb-1">From</span>
+              <input
+                type="date"
+                min={today}
+                value={startDate}
+                onChange={(e) => { setStartDate(e.target.value); setError(''); }}
+                className="w-full bg-white border border-primary/20 rounded px-3 py-1 text-sm font-medium text-primary focus:outline-none focus:ring-2 focus:ring-accent/20 focus:border-accent"
+              />
+            </label>
+            <label className="block">
+              <span className="block text-xs text-primary/60 mb-1">Until</span>
+              <input
+                type="date"
+                min={startDate || today}
+                value={endDate}
+                onChange={(e) => { setEndDate(e.target.value); setError(''); }}
+                className="w-full bg-white border border-primary/20 rounded px-3 py-1 text-sm font-medium text-primary focus:outline-none focus:ring-2 focus:ring-accent/20 focus:border-accent"
+              />
+            </label>
+          </div>
+          <button
+            onClick={pause}
+            disabled={saving}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Pause reviews'}
+          </button>
+        </div>
+      )}
+
+      {recentPauses.length > 0 && (
+        <div className="mt-4">
+          <p className="text-xs text-primary/50 mb-1">Recent pauses</p>
+          <ul className="space-y-1">
+            {recentPauses.map(period => (
+              <li key={period.start} className="text-xs text-primary/60">
+                {formatDate(period.start)} - {formatDate(period.end)} ({daysBetween(period.start, period.end) + 1} days)
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </Card>
+  );
+}
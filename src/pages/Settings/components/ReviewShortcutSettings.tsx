@@ -0,0 +1,165 @@
+/**
+ * Review keyboard shortcut settings - rebind the desktop review keys (see reviewShortcuts.ts).
+ * Click a key, then press the new one; saved to user_profiles.review_shortcuts.
+ */
+import { useState, useEffect } from 'react';
+import { useAuth } from "../../../contexts/AuthContext";
+import { dataService } from "../../../services/dataService";
+import { db } from "../../../services/localDb";
+import { Card } from '../../../components/shared/Card';
+import {
+  DEFAULT_REVIEW_SHORTCUTS,
+  REVIEW_SHORTCUT_ACTIONS,
+  REVIEW_SHORTCUT_LABELS,
+  formatShortcutKey,
+  getReviewShortcuts,
+  normalizeShortcutKey,
+  validateReviewShortcuts,
+  type ReviewShortcutAction,
+  type ReviewShortcuts
+} from '../../../utils/reviewShortcuts';
+
+export function ReviewShortcutSettings() {
+  const { getCurrentUserId, getAccessToken } = useAuth();
+  const [shortcuts, setShortcuts] = useState<ReviewShortcuts>(DEFAULT_REVIEW_SHORTCUTS);
+  const [capturing, setCapturing] = useState<ReviewShortcutAction | null>(null);
+  const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [saveSuccess, setSaveSuccess] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const loadShortcuts = async () => {
+      try {
+        const userId = getCurrentUserId();
+        if (!userId) return;
+        const profile = await db.user_profiles.where('user_id').equals(userId).first();
+        setShortcuts(getReviewShortcuts(profile));
+      } catch (err) {
+        console.error('Failed to load review shortcuts:', err);
+      }
+    };
+
+    loadShortcuts();
+  }, [getCurrentUserId]);
+
+  // While capturing, the next key press becomes the binding - Escape cancels
+  useEffect(() => {
+    if (!capturing) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      if (event.key === 'Escape') {
+        setCapturing(null);
+        return;
+      }
+      if (['Shift', 'Control', 'Alt', 'Meta'].includes(event.key)) return;
+
+      const next = { ...shortcuts, [capturing]: normalizeShortcutKey(event.key) };
+      setShortcuts(next);
+      setCapturing(null);
+      setHasUnsavedChanges(true);
+      setSaveSuccess(false);
+      setError(validateReviewShortcuts(next) ?? '');
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [capturing, shortcuts]);
+
+  const resetToDefaults = () => {
+    setShortcuts(DEFAULT_REVIEW_SHORTCUTS);
+    setCapturing(null);
+    setHasUnsavedChanges(true);
+    setSaveSuccess(false);
+    setError('');
+  };
+
+  const saveShortcuts = async () => {
+    const validationError = validateReviewShortcuts(shortcuts);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const userId = getCurrentUserId();
+      if (!userId) return;
+      const accessToken = await getAccessToken();
+      await dataService.updateUserProfile(userId, {
+        review_shortcuts: shortcuts
+      }, accessToken || undefined);
+
+      setHasUnsavedChanges(false);
+      setSaveSuccess(true);
+
+      // Clear success message after 3 seconds
+      setTimeout(() => setSaveSuccess(false), 3000);
+    } catch (err) {
+      console.error('Failed to save review shortcuts:', err);
+      setError('Failed to save keyboard shortcuts');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-primary">Keyboard Shortcuts</h2>
+        {hasUnsavedChanges && (
+          <button
+            onClick={saveShortcuts}
+            disabled={saving}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save Changes'}
+          </button>
+        )}
+      </div>
+
+      {saveSuccess && (
+        <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-lg">
+          <p className="text-green-600 text-sm">✅ Keyboard shortcuts updated!</p>
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-600 text-sm">{error}</p>
+        </div>
+      )}
+
+      <div className="space-y-4">
+        <p className="text-primary/70 text-sm">
+          Review with the keyboard on desktop. Click a key to change it, then press the new key.
+        </p>
+
+        <div className="space-y-2">
+          {REVIEW_SHORTCUT_ACTIONS.map(action => (
+            <div key={action} className="flex items-center justify-between gap-4">
+              <span className="text-sm text-primary">{REVIEW_SHORTCUT_LABELS[action]}</span>
+              <button
+                onClick={() => setCapturing(capturing === action ? null : action)}
+                className={`min-w-[6rem] px-3 py-1 border rounded text-sm font-medium transition-colors ${capturing === action
+                  ? 'border-accent bg-accent/10 text-primary'
+                  : 'border-primary/20 bg-white text-primary hover:bg-primary/5'
+                  }`}
+              >
+                {capturing === action ? 'Press a key…' : formatShortcutKey(shortcuts[action])}
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <button
+          onClick={resetToDefaults}
+          className="text-sm text-primary/60 hover:text-primary transition-colors"
+        >
+          Reset to defaults
+        </button>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,128 @@
+/**
+ * Stats page component - review activity, success rate, phase breakdown
+ * and a forecast of upcoming reviews. Computed from local data so it works offline.
+ */
+
+import { useStats } from './hooks/useStats';
+import { Card } from '../../components/shared/Card';
+import { ErrorCard } from '../../components/shared/ErrorCard';
+import { EmptyState } from '../../components/shared/EmptyState';
+import { parseLocalDate } from '../../utils/dateUtils';
+import { FORECAST_DAYS, HEATMAP_WEEKS, STATS_HISTORY_DAYS } from '../../utils/reviewStats';
+import { BarChart } from './components/BarChart';
+import { ReviewHeatmap } from './components/ReviewHeatmap';
+import { PhaseBreakdown } from './components/PhaseBreakdown';
+
+const formatDate = (date: string) =>
+  parseLocalDate(date).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+const plural = (count: number, word: string) => `${count} ${count === 1 ? word : `${word}s`}`;
+
+export function Stats() {
+  const { stats, loading, error, refreshStats } = useStats();
+
+  if (error) {
+    return (
+      <ErrorCard
+        title="Error loading stats"
+        message={error}
+        onRetry={refreshStats}
+      />
+    );
+  }
+
+  if (loading || !stats) return null;
+
+  const { recentDays, recentTotals, heatmap, phaseCounts, forecast } = stats;
+  const totalCards = Object.values(phaseCounts).reduce((sum, count) => sum + count, 0);
+
+  if (totalCards === 0 && recentTotals.reviews === 0) {
+    return (
+      <EmptyState
+        title="No stats yet"
+        description="Add a verse and complete a review to start tracking your progress."
+        actionText="Add Verse"
+        actionHref="/add"
+        icon="📊"
+      />
+    );
+  }
+
+  const firstDay = recentDays[0]?.date;
+  const dueThisWeek = forecast.slice(0, 7).reduce((sum, day) => sum + day.count, 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-3">
+        <div className="bg-background border border-primary/10 rounded-xl p-4 text-center">
+          <p className="text-2xl font-bold text-primary">{recentTotals.reviews}</p>
+          <p className="text-xs text-primary/60">Reviews ({STATS_HISTORY_DAYS}d)</p>
+        </div>
+        <div className="bg-background border border-primary/10 rounded-xl p-4 text-center">
+          <p className="text-2xl font-bold text-primary">
+            {recentTotals.successRate === null ? '—' : `${recentTotals.successRate}%`}
+          </p>
+          <p className="text-xs text-primary/60">Success rate</p>
+        </div>
+        <div className="bg-background border border-primary/10 rounded-xl p-4 text-center">
+          <p className="text-2xl font-bold text-primary">{recentTotals.activeDays}</p>
+          <p className="text-xs text-primary/60">Active days</p>
+        </div>
+      </div>
+
+      <Card title="Reviews per day">
+        <BarChart
+          bars={recentDays.map(day => ({
+            key: day.date,
+            value: day.reviews,
+            title: `${formatDate(day.date)}: ${plural(day.reviews, 'review')}`
+          }))}
+          barClassName="bg-accent"
+          startLabel={firstDay && formatDate(firstDay)}
+          endLabel="Today"
+        />
+      </Card>
+
+      <Card title="Success rate">
+        <BarChart
+          bars={recentDays.map(day => ({
+            key: day.date,
+            value: day.successRate,
+            title: day.successRate === null
+              ? `${formatDate(day.date)}: no reviews`
+              : `${formatDate(day.date)}: ${day.successRate}% of ${plural(day.reviews, 'review')}`
+          }))}
+          barClassName="bg-green-500"
+          max={100}
+          startLabel={firstDay && formatDate(firstDay)}
+          endLabel="Today"
+        />
+      </Card>
+
+      <Card title="Activity">
+        <ReviewHeatmap weeks={heatmap} formatDate={formatDate} />
+        <p className="text-xs text-primary/50 mt-2">Last {HEATMAP_WEEKS} weeks</p>
+      </Card>
+
+      <Card title="Verses by phase">
+        <PhaseBreakdown counts={phaseCounts} />
+      </Card>
+
+      <Card title="Upcoming reviews">
+        <p className="text-sm text-primary/70 mb-3">
+          {plural(forecast[0]?.count ?? 0, 'verse')} due today, {plural(dueThisWeek, 'review')} over the next 7 days.
+        </p>
+        <BarChart
+          bars={forecast.map(day => ({
+            key: day.date,
+            value: day.count,
+            title: `${formatDate(day.date)}: ${plural(day.count, 'verse')} due`
+          }))}
+          barClassName="bg-blue-400"
+          startLabel="Today"
+          endLabel={`${FORECAST_DAYS} days`}
+        />
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+/**
+ * Minimal bar chart - one column per day, scaled to the largest value.
+ * Days without a value (null) render as an empty slot.
+ */
+
+export interface BarChartBar {
+  key: string;
+  value: number | null;
+  title: string; // Tooltip, e.g. "Jan 5: 12 reviews"
+}
+
+interface BarChartProps {
+  bars: BarChartBar[];
+  barClassName: string;
+  max?: number;          // Defaults to the largest value
+  startLabel?: string;
+  endLabel?: string;
+}
+
+export function BarChart({ bars, barClassName, max, startLabel, endLabel }: BarChartProps) {
+  const scale = max ?? Math.max(1, ...bars.map(bar => bar.value ?? 0));
+
+  return (
+    <div>
+      <div className="flex items-end gap-px h-32" role="img" aria-label={bars.map(bar => bar.title).join(', ')}>
+        {bars.map(bar => (
+          <div key={bar.key} title={bar.title} className="flex-1 h-full flex items-end">
+            <div
+              className={`w-full rounded-t-sm ${bar.value ? barClassName : ''}`}
+              style={{ height: `${((bar.value ?? 0) / scale) * 100}%` }}
+            />
+          </div>
+        ))}
+      </div>
+      {(startLabel || endLabel) && (
+        <div className="flex justify-between text-xs text-primary/50 mt-1">
+          <span>{startLabel}</span>
+          <span>{endLabel}</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+/**
+ * Cards per phase as horizontal bars, plus verses still waiting in the learning queue
+ */
+import type { PhaseCounts } from '../../../utils/reviewStats';
+
+const PHASE_ROWS: { key: keyof PhaseCounts; label: string; barClassName: string }[] = [
+  { key: 'daily', label: 'Daily', barClassName: 'bg-red-400' },
+  { key: 'weekly', label: 'Weekly', barClassName: 'bg-amber-400' },
+  { key: 'biweekly', label: 'Biweekly', barClassName: 'bg-blue-400' },
+  { key: 'monthly', label: 'Monthly', barClassName: 'bg-green-500' },
+  { key: 'queued', label: 'Queued', barClassName: 'bg-primary/30' }
+];
+
+interface PhaseBreakdownProps {
+  counts: PhaseCounts;
+}
+
+export function PhaseBreakdown({ counts }: PhaseBreakdownProps) {
+  const max = Math.max(1, ...PHASE_ROWS.map(row => counts[row.key]));
+
+  return (
+    <div className="space-y-2">
+      {PHASE_ROWS.map(row => (
+        <div key={row.key} className="flex items-center gap-3">
+          <span className="w-20 text-sm text-primary/70">{row.label}</span>
+          <div className="flex-1 bg-primary/5 rounded-full h-3">
+            <div
+              className={`${row.barClassName} h-3 rounded-full`}
+              style={{ width: `${(counts[row.key] / max) * 100}%` }}
+            />
+          </div>
+          <span className="w-8 text-right text-sm font-medium text-primary">{counts[row.key]}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
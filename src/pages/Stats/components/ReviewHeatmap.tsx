@@ -0,0 +1,46 @@
+/**
+ * GitHub-style calendar heatmap of review activity - one column per week, Sunday at the top
+ */
+import type { HeatmapCell } from '../../../utils/reviewStats';
+
+const LEVEL_CLASSES: Record<HeatmapCell['level'], string> = {
+  0: 'bg-primary/5',
+  1: 'bg-green-200',
+  2: 'bg-green-300',
+  3: 'bg-green-500',
+  4: 'bg-green-700'
+};
+
+interface ReviewHeatmapProps {
+  weeks: (HeatmapCell | null)[][];
+  formatDate: (date: string) => string;
+}
+
+export function ReviewHeatmap({ weeks, formatDate }: ReviewHeatmapProps) {
+  return (
+    <div>
+      <div className="flex gap-0.5 overflow-x-auto">
+        {weeks.map((week, weekIndex) => (
+          <div key={weekIndex} className="flex flex-col gap-0.5">
+            {week.map((cell, dayIndex) => cell ? (
+              <div
+                key={cell.date}
+                title={`${formatDate(cell.date)}: ${cell.count} ${cell.count === 1 ? 'review' : 'reviews'}`}
+                className={`w-3 h-3 rounded-sm ${LEVEL_CLASSES[cell.level]}`}
+              />
+            ) : (
+              <div key={`blank-${dayIndex}`} className="w-3 h-3" />
+            ))}
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center justify-end gap-1 text-xs text-primary/50 mt-2">
+        <span>Less</span>
+        {Object.values(LEVEL_CLASSES).map(className => (
+          <div key={className} className={`w-3 h-3 rounded-sm ${className}`} />
+        ))}
+        <span>More</span>
+      </div>
+    </div>
+  );
+}
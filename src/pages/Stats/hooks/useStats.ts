@@ -0,0 +1,119 @@
+/**
+ * useStats Hook
+ *
+ * Loads review history and verse cards from the local database and derives the
+ * stats dashboard data in the user's timezone. Reads only from Dexie so it works offline.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../../../contexts/AuthContext';
+import { useTimezone } from '../../../contexts/TimezoneContext';
+import { localDb } from '../../../services/localDb';
+import { getUserTodayStringInTimezone } from '../../../utils/dateUtils';
+import { getScheduler } from '../../../utils/spacedRepetition';
+import type { ReviewPhaseCard } from '../../../utils/assignmentLogic';
+import {
+  buildReviewHeatmap,
+  countCardsByPhase,
+  forecastDueCards,
+  getReviewTotals,
+  summarizeReviewsByDay,
+  HEATMAP_WEEKS,
+  STATS_HISTORY_DAYS,
+  type DailyReviewStats,
+  type DueForecastDay,
+  type HeatmapCell,
+  type PhaseCounts,
+  type ReviewTotals
+} from '../../../utils/reviewStats';
+
+export interface ReviewStats {
+  recentDays: DailyReviewStats[];       // Last STATS_HISTORY_DAYS days, oldest first
+  recentTotals: ReviewTotals;
+  heatmap: (HeatmapCell | null)[][];    // HEATMAP_WEEKS of activity
+  phaseCounts: PhaseCounts;
+  forecast: DueForecastDay[];
+}
+
+interface UseStatsReturn {
+  stats: ReviewStats | null;
+  loading: boolean;
+  error: string | null;
+  refreshStats: () => Promise<void>;
+}
+
+export function useStats(): UseStatsReturn {
+  const { getCurrentUserId } = useAuth();
+  const { timezone } = useTimezone();
+  const [stats, setStats] = useState<ReviewStats | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Recomputes all stats from local storage
+   */
+  const refreshStats = useCallback(async () => {
+    const userId = getCurrentUserId();
+    if (!userId) {
+      setStats(null);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      // The heatmap covers whole weeks, so this also includes the recent-days window
+      const heatmapDays = HEATMAP_WEEKS * 7;
+      const [logs, cards, userProfile] = await Promise.all([
+        localDb.reviewLogs.getStats(userId, heatmapDays),
+        localDb.verseCards.getByUser(userId),
+        localDb.userProfiles.findByUserId(userId)
+      ]);
+
+      const scheduler = getScheduler(userProfile?.scheduler).type;
+      const phaseCards: ReviewPhaseCard[] = cards.map(card => ({
+        id: card.id!,
+        currentPhase: card.current_phase,
+        archived: card.archived,
+        assignedDayOfWeek: card.assigned_day_of_week,
+        assignedWeekParity: card.assigned_week_parity,
+        assignedDayOfMonth: card.assigned_day_of_month,
+        nextDueDate: card.next_due_date,
+        lastReviewedAt: card.last_reviewed_at,
+        scheduler,
+        queued: !card.introduced_at
+      }));
+
+      const today = getUserTodayStringInTimezone(timezone);
+      const history = summarizeReviewsByDay(logs, timezone, today, heatmapDays);
+      const recentDays = history.slice(-STATS_HISTORY_DAYS);
+
+      setStats({
+        recentDays,
+        recentTotals: getReviewTotals(recentDays),
+        heatmap: buildReviewHeatmap(history),
+        phaseCounts: countCardsByPhase(phaseCards),
+        forecast: forecastDueCards(phaseCards, timezone, undefined, userProfile)
+      });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load stats';
+      setError(errorMessage);
+      console.error('Stats load error:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [getCurrentUserId, timezone]);
+
+  useEffect(() => {
+    refreshStats();
+  }, [refreshStats]);
+
+  return {
+    stats,
+    loading,
+    error,
+    refreshStats
+  };
+}
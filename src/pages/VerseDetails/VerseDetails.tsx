@@ -5,6 +5,7 @@
  * 2. Check local verses cache  
  * 3. Check cloud verses cache
  * 4. Call ESV API as last resort
+ * Verses can be compared across translations, and cards switched to another one.
  */
 
 import { useParams, useNavigate } from 'react-router-dom';
@@ -19,10 +20,27 @@ import { useHybridLoading } from '../../hooks/useHybridLoading';
 import { AddToCollectionSkeleton } from '../../components/skeletons/AddToCollectionSkeleton';
 import { VerseDetailsSkeleton } from '../../components/skeletons/VerseDetailsSkeleton';
 import type { LocalDBSchema } from '../../services/localDb';
+import { getPreviousPhase, type ReviewPhase } from '../../utils/spacedRepetition';
+import { resolveTranslation } from '../../utils/translations';
+import { TranslationComparison } from './components/TranslationComparison';
+import { ReferenceRecall } from './components/ReferenceRecall';
+import { VerseText } from '../../components/shared/VerseText';
+import type { VerseSegment } from '../../utils/verseSegments';
+import { formatDuration, getAverageReviewTime } from '../../utils/sessionTiming';
 
 // Format day names for display
 const DAY_NAMES = ['', 'Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
 
+const PHASE_LABELS: Record<ReviewPhase, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  biweekly: 'Biweekly',
+  monthly: 'Monthly'
+};
+
+// Number of recent reviews listed in the Review History card
+const RECENT_REVIEW_COUNT = 10;
+
 
 // Page states
 type PageState = 
@@ -44,6 +62,8 @@ export function VerseDetails() {
   const [isChangingAssignment, setIsChangingAssignment] = useState(false);
   const [assignmentChangeError, setAssignmentChangeError] = useState<string | null>(null);
   const [expectUserVerse, setExpectUserVerse] = useState(false);
+  const [reviewLogs, setReviewLogs] = useState<LocalDBSchema['review_logs'][]>([]);
+  const [averageReviewTime, setAverageReviewTime] = useState<number | null>(null);
 
   // Decode reference from URL
   const reference = encodedReference ? decodeReference(encodedReference) : '';
@@ -73,6 +93,23 @@ export function VerseDetails() {
     checkUserVerse();
   }, [normalizedReference, getCurrentUserId]);
 
+  // Load recent review history (including demotions) for the user's card
+  const verseCardId = pageState.type === 'user_verse' ? pageState.verseCard.id : undefined;
+  useEffect(() => {
+    if (!verseCardId) {
+      setReviewLogs([]);
+      setAverageReviewTime(null);
+      return;
+    }
+
+    localDb.reviewLogs.getByVerseCard(verseCardId)
+      .then(logs => {
+        setReviewLogs(logs.slice(0, RECENT_REVIEW_COUNT));
+        setAverageReviewTime(getAverageReviewTime(logs));
+      })
+      .catch(error => console.error('Failed to load review history:', error));
+  }, [verseCardId]);
+
   // Load verse data using our lookup strategy
   useEffect(() => {
     if (!reference) {
@@ -123,8 +160,12 @@ export function VerseDetails() {
         }
       }
 
+      // Verses not in the collection yet are shown in the user's preferred translation
+      const profile = await localDb.userProfiles.findByUserId(userId);
+      const translation = resolveTranslation(profile?.preferred_translation);
+
       // 2. Check if verse exists in local verses table (exact reference) - should be instant
-      const localVerse = await localDb.verses.findByReferenceExact(normalizedReference);
+      const localVerse = await localDb.verses.findByReferenceExact(normalizedReference, translation);
       
       if (localVerse) {
         setPageState({ type: 'add_to_collection', verse: localVerse });
@@ -133,7 +174,7 @@ export function VerseDetails() {
       }
 
       // 2b. Check if verse exists via local alias - should be instant
-      if (aliasMatch && verse) {
+      if (aliasMatch && verse?.translation === translation) {
         setPageState({ type: 'add_to_collection', verse });
         setIsLoading(false); // Local lookup complete - won't show skeleton due to speed
         return;
@@ -146,7 +187,7 @@ export function VerseDetails() {
         .from('verses')
         .select('*')
         .eq('reference', normalizedReference)
-        .eq('translation', 'ESV')
+        .eq('translation', translation)
         .single();
 
       if (cloudVerse && !cloudError) {
@@ -155,6 +196,7 @@ export function VerseDetails() {
           reference: cloudVerse.reference,
           text: cloudVerse.text,
           translation: cloudVerse.translation,
+          segments: cloudVerse.segments as unknown as VerseSegment[] | null,
           is_verified: true
         });
         setPageState({ type: 'add_to_collection', verse: localVerseData });
@@ -167,6 +209,7 @@ export function VerseDetails() {
         .from('aliases')
         .select('verse_id, verses(*)')
         .eq('alias', normalizedReference)
+        .eq('translation', translation)
         .single();
 
       if (cloudAlias && !aliasError && cloudAlias.verses) {
@@ -175,6 +218,7 @@ export function VerseDetails() {
           reference: (cloudAlias.verses as any).reference,
           text: (cloudAlias.verses as any).text,
           translation: (cloudAlias.verses as any).translation,
+          segments: (cloudAlias.verses as unknown as { segments: VerseSegment[] | null }).segments,
           is_verified: true
         });
 
@@ -191,7 +235,7 @@ export function VerseDetails() {
       // 4. Finally, call ESV API as last resort
       console.log('🔍 Calling ESV API for reference:', normalizedReference);
       try {
-        const result = await dataService.lookupVerseReference(normalizedReference);
+        const result = await dataService.lookupVerseReference(normalizedReference, translation);
         console.log('📖 ESV API result:', result);
         if (result.success && result.verse) {
           console.log('✅ ESV API found verse, showing add to collection');
@@ -258,6 +302,8 @@ export function VerseDetails() {
     try {
       const userId = getCurrentUserId();
       await dataService.archiveVerse(verseCard.id!, userId);
+      // Its text → reference card goes with it
+      await dataService.setReferenceRecall(verseCard.id!, userId, false);
       navigate('/library');
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to delete verse';
@@ -295,6 +341,22 @@ export function VerseDetails() {
     }
   };
 
+  // Switch the card to memorizing another translation - progress stays on the card
+  const handleSwitchTranslation = async (verseCard: LocalDBSchema['verse_cards'], targetVerse: LocalDBSchema['verses']) => {
+    const userId = getCurrentUserId();
+    const accessToken = await getAccessToken();
+    const result = await dataService.switchVerseTranslation(verseCard.id!, targetVerse, userId, accessToken || undefined);
+
+    if (result.success && result.local) {
+      const switchedVerse = await localDb.verses.findById(result.local.verse_id);
+      setPageState({ type: 'user_verse', verseCard: result.local, verse: switchedVerse || targetVerse });
+    }
+
+    if (result.errors.remote) {
+      console.warn('Translation switch saved locally but failed remotely:', result.errors.remote);
+    }
+  };
+
   // Handle manual phase change
   const handlePhaseChange = async (verseCard: LocalDBSchema['verse_cards'], newPhase: 'daily' | 'weekly' | 'biweekly' | 'monthly') => {
     setIsChangingPhase(true);
@@ -511,7 +573,7 @@ export function VerseDetails() {
             <div className="bg-background border border-primary/10 rounded-xl p-6 shadow-sm mb-8">
               <div className="max-h-48 overflow-y-auto scrollbar-thin scrollbar-thumb-primary/20 scrollbar-track-transparent">
                 <p className="text-lg text-primary leading-relaxed" style={{ fontFamily: 'Crimson Text, serif' }}>
-                  {pageState.verse.text}
+                  <VerseText text={pageState.verse.text} segments={pageState.verse.segments} />
                 </p>
               </div>
               <p className="text-sm text-primary/60 mt-4">
@@ -519,6 +581,10 @@ export function VerseDetails() {
               </p>
             </div>
 
+            <div className="text-left">
+              <TranslationComparison verse={pageState.verse} />
+            </div>
+
             <p className="text-primary/70 mb-6">
               You don't seem to have this verse in your collection. Want to start memorizing it?
             </p>
@@ -595,7 +661,7 @@ export function VerseDetails() {
           <div className="bg-background border border-primary/10 rounded-xl p-6 shadow-sm">
             <div className="max-h-48 overflow-y-auto scrollbar-thin scrollbar-thumb-primary/20 scrollbar-track-transparent">
               <p className="text-lg text-primary leading-relaxed" style={{ fontFamily: 'Crimson Text, serif' }}>
-                {verse.text}
+                <VerseText text={verse.text} segments={verse.segments} />
               </p>
             </div>
             <p className="text-sm text-primary/60 mt-4">
@@ -604,6 +670,13 @@ export function VerseDetails() {
           </div>
         </div>
 
+        <TranslationComparison
+          verse={verse}
+          onSwitch={targetVerse => handleSwitchTranslation(verseCard, targetVerse)}
+        />
+
+        <ReferenceRecall verseCard={verseCard} />
+
         {/* Details Grid */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           {/* Phase Information */}
@@ -766,7 +839,44 @@ export function VerseDetails() {
                   {new Date(verseCard.created_at).toLocaleDateString()}
                 </span>
               </div>
+              {averageReviewTime !== null && (
+                <div className="flex justify-between items-center">
+                  <span className="text-primary/70">Average Time:</span>
+                  <span className="font-medium text-primary">
+                    {formatDuration(averageReviewTime)} per review
+                  </span>
+                </div>
+              )}
             </div>
+
+            {reviewLogs.length > 0 && (
+              <div className="mt-4 pt-4 border-t border-primary/10 space-y-2">
+                <h4 className="text-sm font-medium text-primary/70">Recent Reviews</h4>
+                {reviewLogs.map(log => (
+                  <div key={log.id} className="text-sm">
+                    <div className="flex justify-between items-center">
+                      <span className="text-primary/60">
+                        {new Date(log.created_at).toLocaleDateString()}
+                      </span>
+                      <span className={`font-medium ${log.was_successful ? 'text-green-600' : 'text-red-600'}`}>
+                        {log.grade
+                          ? log.grade.charAt(0).toUpperCase() + log.grade.slice(1)
+                          : log.was_successful ? 'Correct' : 'Incorrect'}
+                        {log.accuracy_percentage !== null && ` (${log.accuracy_percentage}%)`}
+                        {log.review_time_seconds !== null && (
+                          <span className="text-primary/50 font-normal"> · {formatDuration(log.review_time_seconds)}</span>
+                        )}
+                      </span>
+                    </div>
+                    {log.demoted_from_phase && (
+                      <p className="text-xs text-amber-700 mt-1">
+                        ⬇️ Demoted from {PHASE_LABELS[log.demoted_from_phase]} to {PHASE_LABELS[getPreviousPhase(log.demoted_from_phase)]} after repeated misses
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
 
           {/* Additional Week Parity for Biweekly */}
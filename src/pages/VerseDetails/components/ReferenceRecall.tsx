@@ -0,0 +1,75 @@
+/**
+ * Reference recall for a verse in the collection - turns its text → reference card on or
+ * off (see utils/referenceRecall) and shows that card's own progress.
+ */
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../../../contexts/AuthContext';
+import { localDb, type LocalDBSchema } from '../../../services/localDb';
+import { dataService } from '../../../services/dataService';
+
+interface ReferenceRecallProps {
+  verseCard: LocalDBSchema['verse_cards'];
+}
+
+export function ReferenceRecall({ verseCard }: ReferenceRecallProps) {
+  const { getCurrentUserId, getAccessToken } = useAuth();
+  const [reverseCard, setReverseCard] = useState<LocalDBSchema['verse_cards'] | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReverseCard = useCallback(async () => {
+    const card = await localDb.verseCards.findByUserAndVerse(verseCard.user_id, verseCard.verse_id, 'reverse');
+    setReverseCard(card ?? null);
+  }, [verseCard.user_id, verseCard.verse_id]);
+
+  useEffect(() => {
+    loadReverseCard().catch(loadError => console.error('Failed to load reference recall card:', loadError));
+  }, [loadReverseCard]);
+
+  const enabled = !!reverseCard && !reverseCard.archived;
+
+  const handleToggle = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const accessToken = await getAccessToken();
+      const result = await dataService.setReferenceRecall(verseCard.id!, getCurrentUserId(), !enabled, accessToken || undefined);
+      if (result.errors.remote) {
+        console.warn('Reference recall saved locally but failed remotely:', result.errors.remote);
+      }
+      await loadReverseCard();
+    } catch (toggleError) {
+      setError(toggleError instanceof Error ? toggleError.message : 'Failed to update reference recall');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="bg-background border border-primary/10 rounded-xl p-6 shadow-sm mb-6">
+      <label className="flex items-center justify-between gap-4 cursor-pointer">
+        <span>
+          <span className="block text-lg font-semibold text-primary">Reference recall</span>
+          <span className="block text-sm text-primary/60">
+            Also review this verse the other way: see the text, name the reference.
+          </span>
+        </span>
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={handleToggle}
+          disabled={busy}
+          className="h-5 w-5 accent-accent disabled:opacity-50"
+        />
+      </label>
+      {enabled && reverseCard && (
+        <p className="text-sm text-primary/70 mt-3">
+          {reverseCard.introduced_at
+            ? `Text → reference: ${reverseCard.current_phase} phase, next due ${new Date(reverseCard.next_due_date).toLocaleDateString()}`
+            : 'Text → reference: waiting in the learning queue'}
+        </p>
+      )}
+      {error && <p className="text-error text-sm mt-3">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+/**
+ * Side-by-side comparison of a verse across translations - cached copies from the
+ * local database and the cloud, plus any supported translation that can be loaded.
+ * For verses in the collection the card can switch to memorizing another translation.
+ */
+import { useState, useEffect, useCallback } from 'react';
+import { db, type LocalDBSchema } from '../../../services/localDb';
+import { supabaseClient } from '../../../services/supabase';
+import { dataService } from '../../../services/dataService';
+import { TRANSLATIONS, orderByTranslation } from '../../../utils/translations';
+
+interface TranslationComparisonProps {
+  verse: LocalDBSchema['verses'];
+  onSwitch?: (verse: LocalDBSchema['verses']) => Promise<void>;
+}
+
+export function TranslationComparison({ verse, onSwitch }: TranslationComparisonProps) {
+  const [verses, setVerses] = useState<LocalDBSchema['verses'][]>([verse]);
+  const [busyTranslation, setBusyTranslation] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTranslations = useCallback(async () => {
+    const localVerses = await db.verses.where('reference').equals(verse.reference).toArray();
+
+    let cloudVerses: LocalDBSchema['verses'][] = [];
+    try {
+      const { data } = await supabaseClient
+        .from('verses')
+        .select('*')
+        .eq('reference', verse.reference);
+      cloudVerses = (data || []).map(cloudVerse => ({
+        id: cloudVerse.id,
+        reference: cloudVerse.reference,
+        text: cloudVerse.text,
+        translation: cloudVerse.translation,
+        is_verified: true,
+        created_at: cloudVerse.created_at || new Date().toISOString(),
+        updated_at: cloudVerse.updated_at || new Date().toISOString()
+      }));
+    } catch (cloudError) {
+      console.warn('Could not load cloud translations (offline?):', cloudError);
+    }
+
+    // The card's own verse first, then local copies over cloud ones
+    setVerses(orderByTranslation([verse, ...localVerses, ...cloudVerses]));
+  }, [verse]);
+
+  useEffect(() => {
+    loadTranslations().catch(loadError => console.error('Failed to load translations:', loadError));
+  }, [loadTranslations]);
+
+  const missingTranslations = TRANSLATIONS.filter(
+    translation => !verses.some(cached => cached.translation === translation.code)
+  );
+
+  const run = async (translation: string, action: () => Promise<void>) => {
+    setBusyTranslation(translation);
+    setError(null);
+    try {
+      await action();
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : 'Something went wrong');
+    } finally {
+      setBusyTranslation(null);
+    }
+  };
+
+  const loadTranslation = (translation: string) => run(translation, async () => {
+    const result = await dataService.lookupVerseReference(verse.reference, translation);
+    if (!result.success) {
+      throw new Error(result.error || `${translation} text not available`);
+    }
+    await loadTranslations();
+  });
+
+  if (verses.length < 2 && missingTranslations.length === 0) return null;
+
+  return (
+    <div className="bg-background border border-primary/10 rounded-xl p-6 shadow-sm mb-8">
+      <h3 className="text-lg font-semibold text-primary mb-4">Compare Translations</h3>
+
+      {error && <p className="text-error text-sm mb-4">{error}</p>}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {verses.map(translationVerse => {
+          const isCurrent = translationVerse.translation === verse.translation;
+          return (
+            <div
+              key={translationVerse.translation}
+              className={`rounded-lg p-4 border ${isCurrent ? 'border-accent bg-accent/5' : 'border-primary/10'}`}
+            >
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-sm font-semibold text-primary">{translationVerse.translation}</span>
+                {isCurrent && onSwitch && (
+                  <span className="text-xs text-primary/60">Memorizing</span>
+                )}
+              </div>
+              <p className="text-primary leading-relaxed" style={{ fontFamily: 'Crimson Text, serif' }}>
+                {translationVerse.text}
+              </p>
+              {!isCurrent && onSwitch && (
+                <button
+                  onClick={() => run(translationVerse.translation, () => onSwitch(translationVerse))}
+                  disabled={busyTranslation !== null}
+                  className="mt-3 text-xs bg-blue-100 text-blue-700 px-3 py-1.5 rounded hover:bg-blue-200 transition-colors font-medium disabled:opacity-50"
+                >
+                  {busyTranslation === translationVerse.translation ? 'Switching...' : `Memorize in ${translationVerse.translation}`}
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {missingTranslations.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 mt-4">
+          <span className="text-xs text-primary/60">Load:</span>
+          {missingTranslations.map(translation => (
+            <button
+              key={translation.code}
+              onClick={() => loadTranslation(translation.code)}
+              disabled={busyTranslation !== null}
+              title={translation.name}
+              className="text-xs border border-primary/20 text-primary px-3 py-1 rounded hover:bg-primary/5 transition-colors disabled:opacity-50"
+            >
+              {busyTranslation === translation.code ? 'Loading...' : translation.code}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {onSwitch && (
+        <p className="text-xs text-primary/50 mt-4">
+          Switching translation keeps your phase, streaks and review history.
+        </p>
+      )}
+    </div>
+  );
+}
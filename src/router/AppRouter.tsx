@@ -7,6 +7,7 @@ import { Settings } from '../pages/Settings/Settings';
 import { Auth } from '../pages/Auth/Auth';
 import { NotFound } from '../pages/NotFound/NotFound';
 import { VerseDetails } from '../pages/VerseDetails/VerseDetails';
+import { Stats } from '../pages/Stats/Stats';
 import Spinner from '../components/Spinner/Spinner';
 import Layout from '../pages/Layout';
 
@@ -32,6 +33,7 @@ export function AppRouter() {
       <Route path="/library" element={<Layout title="Library"><Library /></Layout>} />
       <Route path="/library/:reference" element={<Layout title="Verse Details"><VerseDetails /></Layout>} />
       <Route path="/add" element={<Layout title="Add Verse"><AddVerse /></Layout>} />
+      <Route path="/stats" element={<Layout title="Stats"><Stats /></Layout>} />
       <Route path="/settings" element={<Layout title="Settings"><Settings /></Layout>} />
       <Route path="/auth" element={<Auth />} />
       <Route path="*" element={<NotFound />} />
@@ -1,8 +1,42 @@
-import { db, type LocalDBSchema } from './localDb';
+import { db, localDb, type LocalDBSchema } from './localDb';
 import { supabaseClient, db as supabaseDb } from './supabase';
 import { normalizeReferenceForLookup } from '../utils/referenceNormalizer';
-import { getTodayString, getUserTodayStringInTimezone } from '../utils/dateUtils';
+import { formatDateInTimezone, getTodayString, getUserTodayStringInTimezone } from '../utils/dateUtils';
 import { parseBatchVerseInput, preValidateBatch, type VerseCardRequest, type BatchParseResult } from '../utils/batchVerseParser';
+import {
+  DEFAULT_PHASE_INTERVALS,
+  SM2_DEFAULT_EASE,
+  getPhaseCardUpdate,
+  getPhaseSettings,
+  getScheduler,
+  phaseSettingsToProfileFields,
+  type ReviewGrade,
+  type ReviewPhase
+} from '../utils/spacedRepetition';
+import { DEFAULT_NEW_CARDS_PER_DAY, DEFAULT_OVERDUE_DAILY_CAP } from '../utils/assignmentLogic';
+import {
+  addDaysToDateString,
+  getExpiredPauseResumeDate,
+  getPauseResume,
+  isPausedOn,
+  shiftCardSchedule,
+  type PausePeriod
+} from '../utils/pauseSchedule';
+import {
+  calculateDailyStreak,
+  dailyStreakToProfileFields,
+  getStoredDailyStreak,
+  mergeDailyStreaks,
+  type DailyStreak
+} from '../utils/dailyStreak';
+import { DEFAULT_TRANSLATION, TRANSLATIONS, resolveTranslation } from '../utils/translations';
+import { datasetToChapters, resolvePassage, type BiblePackDataset } from '../utils/biblePack';
+import { PASSAGE_CHAIN_POSITION, splitPassage } from '../utils/passages';
+import { getProjectStepReferences, isProjectStepDue, parseChapterReference } from '../utils/chapterProjects';
+import type { VerseSegment } from '../utils/verseSegments';
+import { getCardDirection, type CardDirection } from '../utils/referenceRecall';
+import type { ReviewShortcuts } from '../utils/reviewShortcuts';
+import { getReviewOrder } from '../utils/reviewOrder';
 import { v4 as uuidv4 } from 'uuid';
 // import { BatchSyncService, shouldUseBatchSync } from './batchSyncService'; // Currently unused
 
@@ -19,6 +53,15 @@ export interface DualWriteResult<T> {
   existing?: T;
 }
 
+// Optional review log fields captured by specific review modes
+export interface ReviewLogDetails {
+  accuracyPercentage?: number | null; // Typed recall word accuracy (0-100)
+  grade?: ReviewGrade | null;         // again/hard/good/easy (null for binary swipes)
+  overdueDays?: number | null;        // Days past due when reviewed (see getOverdueDays)
+  id?: string;                        // Log id - a review already logged under it is not recorded again
+  reviewedAt?: string;                // ISO time of the review when logged later (defaults to now)
+}
+
 // Error types for better error handling
 export class DuplicateVerseError extends Error {
   constructor(reference: string, existing: { verse: LocalDBSchema['verses']; verseCard: LocalDBSchema['verse_cards'] }) {
@@ -124,7 +167,7 @@ export const batchConfig: BatchConfig = {
 };
 
 // Secure verse operations using edge functions
-async function secureVerseOperation(operation: 'lookup' | 'create', reference: string, normalizedRef: string, accessToken?: string): Promise<{
+async function secureVerseOperation(operation: 'lookup' | 'create', reference: string, normalizedRef: string, accessToken?: string, translation: string = DEFAULT_TRANSLATION): Promise<{
   verse: any | null;
   foundViaAlias: boolean;
   existingCard?: any | null;
@@ -149,7 +192,7 @@ async function secureVerseOperation(operation: 'lookup' | 'create', reference: s
       operation,
       reference,
       normalizedRef,
-      translation: 'ESV'
+      translation
       // NO userId in body - extracted from JWT token in edge function
       // NO userToken in body - security best practice
     };
@@ -264,10 +307,10 @@ async function secureVerseOperation(operation: 'lookup' | 'create', reference: s
 const lookupCache = new Map<string, { data: any; timestamp: number }>(); 
 const CACHE_TTL = 30 * 60 * 1000; // 30 minutes - verses don't change
 
-async function cachedVerseOperation(operation: 'lookup' | 'create', reference: string, normalizedRef: string, accessToken?: string) {
+async function cachedVerseOperation(operation: 'lookup' | 'create', reference: string, normalizedRef: string, accessToken?: string, translation: string = DEFAULT_TRANSLATION) {
   // Cache key now based on token (user is extracted from token in edge function)
   const tokenHash = accessToken ? accessToken.substring(0, 8) : 'anon';
-  const cacheKey = `${operation}:${reference}:${normalizedRef}:${tokenHash}`;
+  const cacheKey = `${operation}:${translation}:${reference}:${normalizedRef}:${tokenHash}`;
   const cached = lookupCache.get(cacheKey);
   
   // Only cache lookups, not creates
@@ -275,7 +318,7 @@ async function cachedVerseOperation(operation: 'lookup' | 'create', reference: s
     return cached.data;
   }
   
-  const result = await secureVerseOperation(operation, reference, normalizedRef, accessToken);
+  const result = await secureVerseOperation(operation, reference, normalizedRef, accessToken, translation);
   
   // Only cache lookups
   if (operation === 'lookup') {
@@ -323,6 +366,7 @@ export const dataService: any = {
     const userProfile = await db.user_profiles.where('user_id').equals(userId).first();
     const userTimezone = userProfile?.timezone || 'UTC';
     const nextDueDate = getUserTodayStringInTimezone(userTimezone);
+    const translation = resolveTranslation(userProfile?.preferred_translation);
 
     console.log('🔄 addVerse called with timezone information:', {
       reference,
@@ -331,6 +375,7 @@ export const dataService: any = {
       userId: userId ? `${userId.slice(0, 8)}...` : 'None',
       userTimezone,
       nextDueDate,
+      translation,
       browserTimezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
       utcToday: new Date().toISOString().split('T')[0],
       localToday: getTodayString(),
@@ -338,23 +383,38 @@ export const dataService: any = {
       hasManualText: !!manualText
     });
 
+    // Resolves the reference from a downloaded Bible pack and adds it through the local path below
+    const addFromOfflinePack = async () => {
+      let offlineVerse: LocalDBSchema['verses'] | null;
+      try {
+        offlineVerse = await this.lookupOfflineVerse(reference, translation);
+      } catch (error) {
+        throw new ValidationError((error as Error).message);
+      }
+      return offlineVerse ? this.addVerse(offlineVerse.reference, userId, undefined, undefined, normalizedInput) : null;
+    };
+
     try {
-      // STEP 1: Check Local Database (verses + aliases)
+      // STEP 1: Check Local Database (verses + aliases) in the preferred translation
       // First check direct reference match
       let localVerse = await db.verses
         .where('[reference+translation]')
-        .equals([reference, 'ESV'])
+        .equals([reference, translation])
         .first();
 
-      // If not found by reference, check aliases table
+      // If not found by reference, check aliases table (the same alias may point to each translation)
       if (!localVerse) {
-        const aliasRecord = await db.aliases
+        const aliasRecords = await db.aliases
           .where('alias')
           .equals(normalizedInput)
-          .first();
+          .toArray();
         
-        if (aliasRecord) {
-          localVerse = await db.verses.get(aliasRecord.verse_id);
+        for (const aliasRecord of aliasRecords) {
+          const aliasVerse = await db.verses.get(aliasRecord.verse_id);
+          if (aliasVerse?.translation === translation) {
+            localVerse = aliasVerse;
+            break;
+          }
         }
       }
 
@@ -363,6 +423,7 @@ export const dataService: any = {
         const existingCard = await db.verse_cards
           .where('[user_id+verse_id]')
           .equals([userId, localVerse.id!])
+          .filter(card => getCardDirection(card) === 'forward')
           .first();
 
         if (existingCard) {
@@ -408,6 +469,7 @@ export const dataService: any = {
         const existingAlias = await db.aliases
           .where('alias')
           .equals(normalizedInput)
+          .filter(alias => alias.verse_id === localVerse!.id)
           .first();
 
         if (!existingAlias) {
@@ -476,7 +538,7 @@ export const dataService: any = {
         });
         
         try {
-          const { verse: foundRemoteVerse, userCard: remoteUserCard } = await cachedVerseOperation('create', reference, normalizedInput, accessToken);
+          const { verse: foundRemoteVerse, userCard: remoteUserCard } = await cachedVerseOperation('create', reference, normalizedInput, accessToken, translation);
 
           if (foundRemoteVerse) {
             console.log('✅ Edge function returned verse:', {
@@ -515,7 +577,13 @@ export const dataService: any = {
           });
           
           // Re-throw network errors so the UI can handle them (switch to manual entry mode)
+          // unless a downloaded Bible pack has the verse
           if (error instanceof NetworkError) {
+            const offlineResult = await addFromOfflinePack();
+            if (offlineResult) {
+              console.log('📦 Added verse from offline Bible pack');
+              return offlineResult;
+            }
             console.log('🌐 Re-throwing NetworkError for manual entry mode');
             throw error;
           }
@@ -547,10 +615,14 @@ export const dataService: any = {
 
       // STEP 3: Manual verse creation (fallback when connection issues occur)
       if (!manualText || manualText.trim() === '') {
+        const offlineResult = await addFromOfflinePack();
+        if (offlineResult) {
+          return offlineResult;
+        }
         throw new NetworkError('Connection issue detected. Please enter the verse text manually to continue.');
       }
 
-      await this.createLocalOnlyVerse(reference, manualText.trim(), normalizedInput, userId, nextDueDate, result);
+      await this.createLocalOnlyVerse(reference, manualText.trim(), normalizedInput, userId, nextDueDate, result, translation);
       result.success = true;
       return result;
     } catch (error) {
@@ -602,6 +674,7 @@ export const dataService: any = {
         reference: remoteVerse.reference,
         text: remoteVerse.text,
         translation: remoteVerse.translation,
+        segments: remoteVerse.segments ?? null,
         is_verified: true, // Cloud verses are always ESV-verified
         created_at: remoteVerse.created_at || now,
         updated_at: remoteVerse.updated_at || now
@@ -609,7 +682,11 @@ export const dataService: any = {
       await tx.verses.add(localVerseData);
 
       // Create alias if it doesn't exist locally
-      const existingAlias = await tx.aliases.where('alias').equals(alias).first();
+      const existingAlias = await tx.aliases
+        .where('alias')
+        .equals(alias)
+        .filter(existing => existing.verse_id === localVerseData.id)
+        .first();
       if (!existingAlias) {
         await tx.aliases.add({
           id: uuidv4(),
@@ -634,6 +711,11 @@ export const dataService: any = {
         archived: remoteUserCard?.archived || false,
         current_streak: remoteUserCard?.current_streak || 0,
         best_streak: remoteUserCard?.best_streak || 0,
+        introduced_at: remoteUserCard?.introduced_at ?? null,
+        queue_position: remoteUserCard?.queue_position ?? null,
+        promoted_at: remoteUserCard?.promoted_at ?? null,
+        passage_id: remoteUserCard?.passage_id ?? null,
+        passage_position: remoteUserCard?.passage_position ?? null,
         created_at: remoteUserCard?.created_at || now,
         updated_at: remoteUserCard?.updated_at || now
       };
@@ -676,6 +758,7 @@ export const dataService: any = {
           reference: verse.reference,
           text: verse.text,
           translation: verse.translation,
+          segments: verse.segments ?? null,
           is_verified: true,
           created_at: verse.created_at || now,
           updated_at: verse.updated_at || now
@@ -683,7 +766,11 @@ export const dataService: any = {
       }
 
       // Add alias if it doesn't exist
-      const existingAlias = await tx.aliases.where('alias').equals(alias).first();
+      const existingAlias = await tx.aliases
+        .where('alias')
+        .equals(alias)
+        .filter(existing => existing.verse_id === verse.id)
+        .first();
       if (!existingAlias) {
         await tx.aliases.add({
           id: uuidv4(),
@@ -796,7 +883,7 @@ export const dataService: any = {
     await this.syncRemoteVerseToLocal(verse, alias, userId, nextDueDate, result);
   },
 
-  async createLocalOnlyVerse(reference: string, text: string, alias: string, userId: string, nextDueDate: string, result: any) {
+  async createLocalOnlyVerse(reference: string, text: string, alias: string, userId: string, nextDueDate: string, result: any, translation: string = DEFAULT_TRANSLATION) {
     await db.transaction('rw', db.verses, db.aliases, db.verse_cards, async (tx) => {
       const now = new Date().toISOString();
       
@@ -805,15 +892,19 @@ export const dataService: any = {
         id: uuidv4(),
         reference: reference,
         text: text,
-        translation: 'ESV',
-        is_verified: false, // Manual entry - needs ESV validation later
+        translation,
+        is_verified: false, // Manual entry - needs validation against the translation later
         created_at: now,
         updated_at: now
       };
       await tx.verses.add(localVerseData);
 
       // Create alias if it doesn't exist locally
-      const existingAlias = await tx.aliases.where('alias').equals(alias).first();
+      const existingAlias = await tx.aliases
+        .where('alias')
+        .equals(alias)
+        .filter(existing => existing.verse_id === localVerseData.id)
+        .first();
       if (!existingAlias) {
         await tx.aliases.add({
           id: uuidv4(),
@@ -873,7 +964,8 @@ export const dataService: any = {
     userId: string,
     wasSuccessful: boolean,
     reviewTimeSeconds?: number,
-    accessToken?: string
+    accessToken?: string,
+    details: ReviewLogDetails = {}
   ): Promise<DualWriteResult<LocalDBSchema['review_logs']>> {
     const result: DualWriteResult<LocalDBSchema['review_logs']> = {
       local: null,
@@ -885,13 +977,23 @@ export const dataService: any = {
     try {
       // Step 1: Create review log in transaction (no external calls)
       let localLog: LocalDBSchema['review_logs'];
+      let alreadyRecorded = false;
       
-      await db.transaction('rw', db.review_logs, async (tx) => {
-        // Create review log within transaction - allow multiple reviews per day
-        const now = new Date().toISOString();
+      await db.transaction('rw', [db.review_logs, db.verse_cards, db.user_profiles], async (tx) => {
+        // A resumed session may retry a review that was logged before the app closed
+        const existingLog = details.id ? await tx.review_logs.get(details.id) : undefined;
+        if (existingLog) {
+          localLog = existingLog;
+          alreadyRecorded = true;
+          return;
+        }
+
+        // Create review log within transaction - allow multiple reviews per day.
+        // A review logged after the fact (e.g. from a resumed session) keeps its own day
+        const now = details.reviewedAt ?? new Date().toISOString();
         const today = now.split('T')[0]; // Get date part (YYYY-MM-DD)
         
-        // Check if this is the first review today for this verse card
+        // Check if this is the first review that day for this verse card
         // Replicate the PostgreSQL trigger logic for local IndexedDB
         const existingTodayReviews = await tx.review_logs
           .where('[verse_card_id+created_at]')
@@ -899,25 +1001,39 @@ export const dataService: any = {
           .toArray();
         
         const isFirstReviewToday = existingTodayReviews.length === 0;
+
+        // Reviews while the schedule is paused are practice only - the card stays frozen
+        const userProfile = await tx.user_profiles.where('user_id').equals(userId).first();
+        const isPaused = isPausedOn(userProfile, formatDateInTimezone(new Date(now), userProfile?.timezone || 'UTC'));
         
         // Only successful first reviews of the day count toward progress
-        const countsTowardProgress = wasSuccessful && isFirstReviewToday;
+        const countsTowardProgress = wasSuccessful && isFirstReviewToday && !isPaused;
         
         console.log('Review progress logic:', {
           verseCardId: verseCardId.slice(0, 8) + '...',
           wasSuccessful,
           isFirstReviewToday,
           existingTodayReviewsCount: existingTodayReviews.length,
-          countsTowardProgress
+          countsTowardProgress,
+          isPaused
         });
+
+        // Mirror the trigger's scheduling so the card is up to date offline
+        const demotedFromPhase = isPaused
+          ? null
+          : await this.applyLocalScheduling(verseCardId, userId, wasSuccessful, isFirstReviewToday, details.grade ?? undefined);
         
         const logData: LocalDBSchema['review_logs'] = {
-          id: uuidv4(),
+          id: details.id ?? uuidv4(),
           user_id: userId,
           verse_card_id: verseCardId,
           was_successful: wasSuccessful,
           counted_toward_progress: countsTowardProgress,
           review_time_seconds: reviewTimeSeconds || null,
+          accuracy_percentage: details.accuracyPercentage ?? null,
+          grade: details.grade ?? null,
+          demoted_from_phase: demotedFromPhase,
+          overdue_days: details.overdueDays || null,
           created_at: now
         };
         await tx.review_logs.add(logData);
@@ -926,8 +1042,15 @@ export const dataService: any = {
 
       result.local = localLog!;
 
+      if (alreadyRecorded) {
+        console.log('Review already recorded:', details.id);
+        result.success = true;
+        return result;
+      }
+
       // Step 2: Database trigger will handle all verse card updates automatically
       // including: phase progression, due dates, streaks, timestamps, etc.
+      // (applyLocalScheduling has already mirrored the scheduling locally)
       console.log('Review recorded:', {
         verseCardId,
         wasSuccessful,
@@ -961,7 +1084,8 @@ export const dataService: any = {
                   .from('verse_cards')
                   .select('id')
                   .eq('user_id', userId)
-                  .eq('verse_id', remoteVerse.id);
+                  .eq('verse_id', remoteVerse.id)
+                  .eq('direction', getCardDirection(localCard));
 
                 if (cardSelectError) {
                   throw cardSelectError;
@@ -979,7 +1103,11 @@ export const dataService: any = {
                         verse_card_id: remoteCard.id,
                         was_successful: wasSuccessful,
                         counted_toward_progress: false, // Remote trigger will handle this
-                        review_time_seconds: reviewTimeSeconds || null
+                        review_time_seconds: reviewTimeSeconds || null,
+                        accuracy_percentage: details.accuracyPercentage ?? null,
+                        grade: details.grade ?? null,
+                        overdue_days: details.overdueDays || null,
+                        created_at: localLog!.created_at
                       });
 
                     if (reviewError) {
@@ -1050,7 +1178,8 @@ export const dataService: any = {
       const cardsWithUnverifiedVerses = [];
       for (const card of localCards) {
         const verse = await db.verses.get(card.verse_id);
-        if (verse && !verse.is_verified) {
+        // One entry per verse - its reverse card shares the verse
+        if (verse && !verse.is_verified && getCardDirection(card) === 'forward') {
           cardsWithUnverifiedVerses.push({ card, verse });
         }
       }
@@ -1099,6 +1228,13 @@ export const dataService: any = {
 
       console.log(`📊 User profile needs sync: ${!!profileNeedsSync}`);
 
+      // Get chapter projects that changed since last sync
+      const changedProjects = (await localDb.projects.getByUser(userId)).filter(project =>
+        !lastSyncTimestamp || new Date(project.updated_at) > new Date(lastSyncTimestamp)
+      );
+
+      console.log(`📊 Changed chapter projects to sync: ${changedProjects.length}`);
+
       // Get access token for authenticated operations (skip if anonymous/offline)
       const { data: { session } } = await supabaseClient.auth.getSession();
       const accessToken = session?.access_token;
@@ -1141,7 +1277,8 @@ export const dataService: any = {
             .from('verse_cards')
             .select('id')
             .eq('user_id', userId)
-            .eq('verse_id', verse.id);
+            .eq('verse_id', verse.id)
+            .eq('direction', getCardDirection(localCard));
 
           const remoteCard = remoteCards?.[0];
           if (!remoteCard?.id) continue;
@@ -1175,6 +1312,9 @@ export const dataService: any = {
               was_successful: localLog.was_successful,
               counted_toward_progress: localLog.counted_toward_progress,
               review_time_seconds: localLog.review_time_seconds,
+              accuracy_percentage: localLog.accuracy_percentage ?? null,
+              grade: localLog.grade ?? null,
+              overdue_days: localLog.overdue_days ?? null,
               created_at: localLog.created_at
             });
 
@@ -1203,11 +1343,25 @@ export const dataService: any = {
         }
       }
 
+      // Sync changed chapter projects
+      for (const project of changedProjects) {
+        try {
+          console.log(`🔄 Syncing chapter project: ${project.reference}`);
+          await this.upsertProjectRemote(project);
+          result.synced++;
+        } catch (error) {
+          console.error(`❌ Failed to sync chapter project ${project.id}:`, error);
+          result.failed++;
+          result.errors.push(error as Error);
+        }
+      }
+
       console.log(`📊 Comprehensive sync summary: 
         - ${finalCardsToSync.length} unverified verses to sync
         - ${changedCards.length} changed verse cards synced
         - ${newReviewLogs.length} review logs synced
-        - ${profileNeedsSync ? 1 : 0} profile updates synced`);
+        - ${profileNeedsSync ? 1 : 0} profile updates synced
+        - ${changedProjects.length} chapter projects synced`);
 
       for (const { card: _localCard, verse: localVerse } of finalCardsToSync) {
         try {
@@ -1225,7 +1379,8 @@ export const dataService: any = {
               'create', 
               localVerse.reference, 
               localVerse.reference, 
-              session.access_token
+              session.access_token,
+              localVerse.translation
             );
             
             if (verseOperationResult.verse) {
@@ -1233,6 +1388,7 @@ export const dataService: any = {
               await db.verses.update(localVerse.id!, {
                 reference: verseOperationResult.verse.reference, // Use canonical ESV reference
                 text: verseOperationResult.verse.text, // Use correct ESV text
+                segments: verseOperationResult.verse.segments ?? null,
                 is_verified: true, // Mark as verified
                 updated_at: new Date().toISOString()
               });
@@ -1359,6 +1515,7 @@ export const dataService: any = {
                 reference: remoteVerse.reference,
                 text: remoteVerse.text,
                 translation: remoteVerse.translation,
+                segments: (remoteVerse.segments as unknown as VerseSegment[] | null) ?? null,
                 is_verified: true, // Remote verses are always ESV-verified
                 created_at: now,
                 updated_at: now
@@ -1366,12 +1523,19 @@ export const dataService: any = {
               await tx.verses.add(verseData);
               localVerse = verseData;
             });
+          } else if (!localVerse.segments && remoteVerse.segments) {
+            // Segments added remotely after the verse was cached (see verse-operations)
+            const segments = remoteVerse.segments as unknown as VerseSegment[];
+            await db.verses.update(localVerse.id!, { segments });
+            localVerse = { ...localVerse, segments };
           }
 
           // Step 2: Check if verse card exists locally
+          const remoteDirection = getCardDirection({ direction: remoteCard.direction as CardDirection | null });
           const localCard = await db.verse_cards
             .where('[user_id+verse_id]')
             .equals([userId, localVerse!.id!])
+            .filter(card => getCardDirection(card) === remoteDirection)
             .first();
 
           if (!localCard) {
@@ -1392,6 +1556,16 @@ export const dataService: any = {
                 archived: remoteCard.archived,
                 current_streak: remoteCard.current_streak,
                 best_streak: remoteCard.best_streak || 0,
+                consecutive_failures: remoteCard.consecutive_failures ?? 0,
+                ease_factor: remoteCard.ease_factor ?? SM2_DEFAULT_EASE,
+                interval_days: remoteCard.interval_days ?? 0,
+                repetitions: remoteCard.repetitions ?? 0,
+                introduced_at: remoteCard.introduced_at,
+                queue_position: remoteCard.queue_position,
+                promoted_at: remoteCard.promoted_at,
+                passage_id: remoteCard.passage_id,
+                passage_position: remoteCard.passage_position,
+                direction: remoteDirection,
                 created_at: now,
                 updated_at: now
               };
@@ -1429,6 +1603,43 @@ export const dataService: any = {
         }
       }
 
+      // Chapter projects - the one further through the chapter wins, then the newer
+      let projectQuery = supabaseClient
+        .from('projects')
+        .select('*')
+        .eq('user_id', userId);
+
+      if (lastSyncTimestamp) {
+        projectQuery = projectQuery.gt('updated_at', lastSyncTimestamp);
+      }
+
+      const { data: remoteProjects, error: projectsError } = await projectQuery;
+      if (projectsError) {
+        throw projectsError;
+      }
+
+      for (const remoteProject of remoteProjects || []) {
+        try {
+          const localProject = await localDb.projects.get(remoteProject.id);
+          const remoteAhead = !localProject ||
+            remoteProject.introduced_count > localProject.introduced_count ||
+            (remoteProject.introduced_count === localProject.introduced_count &&
+              new Date(remoteProject.updated_at || 0) > new Date(localProject.updated_at));
+
+          if (remoteAhead) {
+            await localDb.projects.put({
+              ...remoteProject,
+              created_at: remoteProject.created_at || new Date().toISOString(),
+              updated_at: remoteProject.updated_at || new Date().toISOString()
+            });
+            result.synced++;
+          }
+        } catch (error) {
+          result.failed++;
+          result.errors.push(error as Error);
+        }
+      }
+
       return result;
     } catch (error) {
       result.errors.push(error as Error);
@@ -1539,12 +1750,46 @@ export const dataService: any = {
           timezone: remoteProfile.timezone || 'UTC',
           preferred_translation: remoteProfile.preferred_translation || 'ESV',
           reference_display_mode: remoteProfile.reference_display_mode || 'first',
+          ...phaseSettingsToProfileFields(getPhaseSettings(remoteProfile)),
+          scheduler: getScheduler(remoteProfile.scheduler).type,
+          overdue_daily_cap: remoteProfile.overdue_daily_cap ?? DEFAULT_OVERDUE_DAILY_CAP,
+          new_cards_per_day: remoteProfile.new_cards_per_day ?? DEFAULT_NEW_CARDS_PER_DAY,
+          paused_from: remoteProfile.paused_from ?? null,
+          paused_until: remoteProfile.paused_until ?? null,
+          pause_history: (remoteProfile.pause_history as unknown as PausePeriod[] | null) ?? [],
+          review_shortcuts: (remoteProfile.review_shortcuts as Partial<ReviewShortcuts> | null) ?? null,
+          review_order: getReviewOrder(remoteProfile.review_order),
           pending_email_verification: null, // Local-only field
           email_verification_sent_at: null, // Local-only field
           created_at: remoteProfile.created_at || new Date().toISOString(),
           updated_at: remoteProfile.updated_at || new Date().toISOString()
         };
 
+        // A pause that already ended offline - finish it remotely instead of pulling it back,
+        // otherwise the local cards would be shifted a second time
+        const resumedLocally = existingProfile?.pause_history?.find(period => period.start === remoteProfile.paused_from);
+        if (resumedLocally) {
+          const { error: resumeError } = await supabaseClient.rpc('resume_user_schedule', {
+            p_resume_date: addDaysToDateString(resumedLocally.end, 1)
+          });
+          if (resumeError) {
+            console.warn('⚠️ Failed to resume remote schedule:', resumeError.message);
+          }
+          profileData.paused_from = existingProfile!.paused_from ?? null;
+          profileData.paused_until = existingProfile!.paused_until ?? null;
+          profileData.pause_history = existingProfile!.pause_history ?? [];
+        }
+
+        // Streak days may have been recorded on this device since the remote was updated
+        if (existingProfile) {
+          const today = getUserTodayStringInTimezone(profileData.timezone);
+          const mergedStreak = mergeDailyStreaks(
+            getStoredDailyStreak(remoteProfile, today, profileData, profileData.pause_history),
+            getStoredDailyStreak(existingProfile, today, profileData, profileData.pause_history)
+          );
+          Object.assign(profileData, dailyStreakToProfileFields(mergedStreak));
+        }
+
         if (existingProfile) {
           // Update existing profile
           await db.user_profiles.update(existingProfile.id!, profileData);
@@ -1564,6 +1809,131 @@ export const dataService: any = {
     }
   },
 
+  /**
+   * Introduces a queued card today, ahead of the daily new-card limit.
+   * The card is marked as promoted so it doesn't take one of the day's new-card slots
+   */
+  async promoteQueuedCard(
+    verseCardId: string,
+    userId: string,
+    accessToken?: string
+  ): Promise<DualWriteResult<LocalDBSchema['verse_cards']>> {
+    const result: DualWriteResult<LocalDBSchema['verse_cards']> = {
+      local: null,
+      remote: null,
+      errors: {},
+      success: false
+    };
+
+    try {
+      let promotedCard: LocalDBSchema['verse_cards'];
+
+      // Get user profile for timezone BEFORE transaction
+      const userProfile = await db.user_profiles.where('user_id').equals(userId).first();
+      const today = getUserTodayStringInTimezone(userProfile?.timezone || 'UTC');
+
+      await db.transaction('rw', db.verse_cards, async (tx) => {
+        const card = await tx.verse_cards.get(verseCardId);
+        if (!card || card.user_id !== userId) {
+          throw new Error('Verse card not found');
+        }
+
+        const now = new Date().toISOString();
+        const updateData = {
+          introduced_at: card.introduced_at ?? now,
+          promoted_at: card.promoted_at ?? (card.introduced_at ? null : now),
+          queue_position: null,
+          next_due_date: today, // Due today as a fresh daily card
+          updated_at: now
+        };
+
+        await tx.verse_cards.update(verseCardId, updateData);
+        promotedCard = { ...card, ...updateData };
+      });
+
+      result.local = promotedCard!;
+      console.log('⏫ Promoted queued card:', verseCardId.slice(0, 8) + '...');
+
+      // Step 2: Sync to remote (graceful degradation)
+      if (accessToken) {
+        try {
+          await this.updateVerseCardRemote(verseCardId, {
+            introduced_at: promotedCard!.introduced_at,
+            promoted_at: promotedCard!.promoted_at,
+            queue_position: null,
+            next_due_date: promotedCard!.next_due_date
+          }, userId, accessToken);
+        } catch (error) {
+          result.errors.remote = new NetworkError(
+            'Failed to sync promoted card to remote - changes saved locally',
+            error as Error
+          );
+        }
+      }
+
+      result.success = true;
+      return result;
+    } catch (error) {
+      result.errors.local = error as Error;
+      throw error;
+    }
+  },
+
+  /**
+   * Saves a new order for the learning queue - cardIds lists queued cards first to last
+   */
+  async reorderLearningQueue(
+    userId: string,
+    cardIds: string[],
+    accessToken?: string
+  ): Promise<DualWriteResult<LocalDBSchema['verse_cards'][]>> {
+    const result: DualWriteResult<LocalDBSchema['verse_cards'][]> = {
+      local: null,
+      remote: null,
+      errors: {},
+      success: false
+    };
+
+    try {
+      const reordered: LocalDBSchema['verse_cards'][] = [];
+
+      await db.transaction('rw', db.verse_cards, async (tx) => {
+        const now = new Date().toISOString();
+        for (const [position, cardId] of cardIds.entries()) {
+          const card = await tx.verse_cards.get(cardId);
+          // Only cards still waiting in this user's queue can be reordered
+          if (!card || card.user_id !== userId || card.introduced_at) continue;
+
+          const updateData = { queue_position: position, updated_at: now };
+          await tx.verse_cards.update(cardId, updateData);
+          reordered.push({ ...card, ...updateData });
+        }
+      });
+
+      result.local = reordered;
+
+      // Step 2: Sync to remote (graceful degradation)
+      if (accessToken) {
+        try {
+          for (const card of reordered) {
+            await this.updateVerseCardRemote(card.id!, { queue_position: card.queue_position }, userId, accessToken);
+          }
+        } catch (error) {
+          result.errors.remote = new NetworkError(
+            'Failed to sync queue order to remote - changes saved locally',
+            error as Error
+          );
+        }
+      }
+
+      result.success = true;
+      return result;
+    } catch (error) {
+      result.errors.local = error as Error;
+      throw error;
+    }
+  },
+
   /**
    * Archives a verse card (soft delete) with dual-write strategy
    */
@@ -1629,7 +1999,8 @@ export const dataService: any = {
                 .from('verse_cards')
                 .select('id')
                 .eq('user_id', userId)
-                .eq('verse_id', remoteVerse.id);
+                .eq('verse_id', remoteVerse.id)
+                .eq('direction', getCardDirection(localCard));
 
               if (cardSelectError) {
                 throw cardSelectError;
@@ -1674,74 +2045,304 @@ export const dataService: any = {
   },
 
   /**
-   * Intelligent sync that decides between individual and batch operations
-   * Based on queue size and network quality
+   * Switches the text a card is memorized in to another translation of the verse.
+   * Only the card's verse changes - phase, streaks, schedule and review history are kept.
    */
-  async intelligentSync(
-    userId: string, 
-    lastSyncTimestamp?: string
-  ): Promise<BatchDualWriteResult | ReturnType<typeof dataService.sync>> {
-    try {
-      // Import BatchSyncService dynamically to avoid circular imports
-      const { BatchSyncService, shouldUseBatchSync } = await import('./batchSyncService');
-      
-      // Check current queue status
-      const queueStatus = BatchSyncService.getQueueStatus();
-      const userOperations = queueStatus.operations.filter(op => op.userId === userId);
-      
-      console.log(`🧠 Intelligent sync: ${userOperations.length} queued operations for user`);
-      
-      // Decide whether to use batch or individual sync
-      const useBatch = await shouldUseBatchSync(userOperations.length);
-      
-      if (useBatch && userOperations.length > 0) {
-        try {
-          console.log(`🚀 Using batch sync for ${userOperations.length} operations`);
-          const batchResult = await BatchSyncService.processBatchQueue();
-          
-          // Also run individual sync to catch any non-queued changes
-          if (lastSyncTimestamp) {
-            const individualResult = await this.sync(userId, lastSyncTimestamp);
-            console.log(`📊 Individual sync completed: ${individualResult.toRemote.synced + individualResult.fromRemote.synced} records`);
+  async switchVerseTranslation(
+    verseCardId: string,
+    targetVerse: LocalDBSchema['verses'],
+    userId: string,
+    accessToken?: string
+  ): Promise<DualWriteResult<LocalDBSchema['verse_cards']>> {
+    const result: DualWriteResult<LocalDBSchema['verse_cards']> = {
+      local: null,
+      remote: null,
+      errors: {},
+      success: false
+    };
+
+    let switchedCard: LocalDBSchema['verse_cards'];
+    let previousVerse: LocalDBSchema['verses'] | undefined;
+
+    // Step 1: Point the card at the new verse locally (caching the verse if it came from the cloud)
+    await db.transaction('rw', db.verses, db.verse_cards, async (tx) => {
+      const card = await tx.verse_cards.get(verseCardId);
+      if (!card || card.user_id !== userId) {
+        throw new Error('Verse card not found');
+      }
+
+      if (card.verse_id === targetVerse.id) {
+        switchedCard = card;
+        return;
+      }
+
+      const existingCard = await tx.verse_cards
+        .where('[user_id+verse_id]')
+        .equals([userId, targetVerse.id!])
+        .first();
+      if (existingCard) {
+        throw new ValidationError(
+          `${targetVerse.reference} (${targetVerse.translation}) is already in your collection${existingCard.archived ? ' as a deleted verse' : ''}`
+        );
+      }
+
+      previousVerse = await tx.verses.get(card.verse_id);
+      if (!(await tx.verses.get(targetVerse.id!))) {
+        await tx.verses.add(targetVerse);
+      }
+
+      const updateData = {
+        verse_id: targetVerse.id!,
+        updated_at: new Date().toISOString()
+      };
+      await tx.verse_cards.update(verseCardId, updateData);
+      switchedCard = { ...card, ...updateData };
+
+      // The verse's card in the other direction follows (the remote update below moves both)
+      const partnerCards = await tx.verse_cards
+        .where('[user_id+verse_id]')
+        .equals([userId, card.verse_id])
+        .filter(other => other.id !== verseCardId)
+        .toArray();
+      for (const partner of partnerCards) {
+        await tx.verse_cards.update(partner.id!, updateData);
+      }
+    });
+
+    result.local = switchedCard!;
+    console.log('🔁 Switched verse card translation:', {
+      cardId: verseCardId.slice(0, 8) + '...',
+      from: previousVerse?.translation,
+      to: targetVerse.translation
+    });
+
+    // Step 2: Sync to remote (graceful degradation on failure)
+    if (accessToken && previousVerse) {
+      try {
+        const findRemoteVerseId = async (verse: LocalDBSchema['verses']) => {
+          const { data, error } = await supabaseClient
+            .from('verses')
+            .select('id')
+            .eq('reference', verse.reference)
+            .eq('translation', verse.translation)
+            .maybeSingle();
+          if (error) throw error;
+          return data?.id ?? null;
+        };
+
+        const [remotePreviousId, remoteTargetId] = await Promise.all([
+          findRemoteVerseId(previousVerse),
+          findRemoteVerseId(targetVerse)
+        ]);
+
+        if (!remotePreviousId || !remoteTargetId) {
+          // Unverified verses are validated and synced by syncToRemote
+          console.warn('⚠️ Verse not in the cloud yet - translation switch saved locally only');
+        } else {
+          const { error: updateError } = await supabaseClient
+            .from('verse_cards')
+            .update({
+              verse_id: remoteTargetId,
+              updated_at: new Date().toISOString()
+            })
+            .eq('user_id', userId)
+            .eq('verse_id', remotePreviousId);
+
+          if (updateError) {
+            throw updateError;
           }
-          
-          return batchResult;
-        } catch (error) {
-          console.warn('Batch sync failed, falling back to individual sync:', error);
-          return await this.sync(userId, lastSyncTimestamp);
         }
-      } else {
-        console.log(`📱 Using individual sync (queue size: ${userOperations.length})`);
-        return await this.sync(userId, lastSyncTimestamp);
+      } catch (error) {
+        result.errors.remote = new NetworkError(
+          'Failed to sync translation switch to remote - changes saved locally',
+          error as Error
+        );
       }
-    } catch (error) {
-      console.warn('BatchSyncService not available, using individual sync:', error);
-      return await this.sync(userId, lastSyncTimestamp);
     }
-  },
 
-  /**
-   * Queues an operation for batch processing instead of immediate sync
-   */
-  async queueSyncOperation(
-    type: QueuedSyncOperation['type'],
-    data: any,
-    localRef: string,
-    userId: string
-  ): Promise<void> {
-    try {
-      const { BatchSyncService } = await import('./batchSyncService');
-      return await BatchSyncService.queueOperation(type, data, localRef, userId);
-    } catch (error) {
-      console.warn('BatchSyncService not available, skipping queue operation:', error);
-    }
+    result.success = true;
+    return result;
   },
 
   /**
-   * Forces immediate processing of the sync queue
+   * Turns reference recall (text → reference review) on or off for a verse. Turning it on
+   * adds a reverse card for the verse - or restores the one archived earlier, keeping its
+   * progress - which joins the learning queue like any new card. Turning it off archives it.
    */
-  async flushSyncQueue(): Promise<BatchDualWriteResult> {
-    try {
+  async setReferenceRecall(
+    verseCardId: string,
+    userId: string,
+    enabled: boolean,
+    accessToken?: string
+  ): Promise<DualWriteResult<LocalDBSchema['verse_cards'] | null>> {
+    const result: DualWriteResult<LocalDBSchema['verse_cards'] | null> = {
+      local: null,
+      remote: null,
+      errors: {},
+      success: false
+    };
+
+    const card = await db.verse_cards.get(verseCardId);
+    if (!card || card.user_id !== userId) {
+      throw new Error('Verse card not found');
+    }
+    if (getCardDirection(card) !== 'forward') {
+      throw new ValidationError('Reference recall is turned on from the verse\'s own card');
+    }
+
+    const verse = await db.verses.get(card.verse_id);
+    const reverseCard = await db.verse_cards
+      .where('[user_id+verse_id]')
+      .equals([userId, card.verse_id])
+      .filter(other => getCardDirection(other) === 'reverse')
+      .first();
+
+    if (!enabled) {
+      if (reverseCard && !reverseCard.archived) {
+        const archived = await this.archiveVerse(reverseCard.id!, userId);
+        result.errors.remote = archived.errors.remote;
+      }
+      result.success = true;
+      return result;
+    }
+
+    const now = new Date().toISOString();
+    let created = false;
+    let updatedCard: LocalDBSchema['verse_cards'];
+
+    await db.transaction('rw', db.verse_cards, async (tx) => {
+      if (reverseCard) {
+        updatedCard = { ...reverseCard, archived: false, updated_at: now };
+        await tx.verse_cards.update(reverseCard.id!, { archived: false, updated_at: now });
+        return;
+      }
+
+      const userProfile = await db.user_profiles.where('user_id').equals(userId).first();
+      updatedCard = {
+        id: uuidv4(),
+        user_id: userId,
+        verse_id: card.verse_id,
+        current_phase: 'daily',
+        phase_progress_count: 0,
+        last_reviewed_at: null,
+        next_due_date: getUserTodayStringInTimezone(userProfile?.timezone || 'UTC'),
+        assigned_day_of_week: null,
+        assigned_week_parity: null,
+        assigned_day_of_month: null,
+        archived: false,
+        current_streak: 0,
+        best_streak: 0,
+        direction: 'reverse',
+        created_at: now,
+        updated_at: now
+      };
+      await tx.verse_cards.add(updatedCard);
+      created = true;
+    });
+
+    result.local = updatedCard!;
+    console.log('🔁 Reference recall turned on:', { reference: verse?.reference, created });
+
+    // Sync to remote (graceful degradation) - unverified verses aren't in the cloud yet
+    if (accessToken && verse?.is_verified) {
+      try {
+        if (created) {
+          const { error: cardError } = await supabaseDb.verseCards.create({
+            user_id: userId,
+            verse_id: card.verse_id,
+            current_phase: 'daily',
+            phase_progress_count: 0,
+            next_due_date: updatedCard!.next_due_date,
+            archived: false,
+            current_streak: 0,
+            best_streak: 0,
+            direction: 'reverse'
+          });
+          if (cardError) throw cardError;
+        } else {
+          await this.updateVerseCardRemote(updatedCard!.id!, { archived: false }, userId, accessToken);
+        }
+      } catch (error) {
+        result.errors.remote = new NetworkError(
+          'Failed to sync reference recall to remote - changes saved locally',
+          error as Error
+        );
+      }
+    }
+
+    result.success = true;
+    return result;
+  },
+
+  /**
+   * Intelligent sync that decides between individual and batch operations
+   * Based on queue size and network quality
+   */
+  async intelligentSync(
+    userId: string, 
+    lastSyncTimestamp?: string
+  ): Promise<BatchDualWriteResult | ReturnType<typeof dataService.sync>> {
+    try {
+      // Import BatchSyncService dynamically to avoid circular imports
+      const { BatchSyncService, shouldUseBatchSync } = await import('./batchSyncService');
+      
+      // Check current queue status
+      const queueStatus = BatchSyncService.getQueueStatus();
+      const userOperations = queueStatus.operations.filter(op => op.userId === userId);
+      
+      console.log(`🧠 Intelligent sync: ${userOperations.length} queued operations for user`);
+      
+      // Decide whether to use batch or individual sync
+      const useBatch = await shouldUseBatchSync(userOperations.length);
+      
+      if (useBatch && userOperations.length > 0) {
+        try {
+          console.log(`🚀 Using batch sync for ${userOperations.length} operations`);
+          const batchResult = await BatchSyncService.processBatchQueue();
+          
+          // Also run individual sync to catch any non-queued changes
+          if (lastSyncTimestamp) {
+            const individualResult = await this.sync(userId, lastSyncTimestamp);
+            console.log(`📊 Individual sync completed: ${individualResult.toRemote.synced + individualResult.fromRemote.synced} records`);
+          }
+          
+          return batchResult;
+        } catch (error) {
+          console.warn('Batch sync failed, falling back to individual sync:', error);
+          return await this.sync(userId, lastSyncTimestamp);
+        }
+      } else {
+        console.log(`📱 Using individual sync (queue size: ${userOperations.length})`);
+        return await this.sync(userId, lastSyncTimestamp);
+      }
+    } catch (error) {
+      console.warn('BatchSyncService not available, using individual sync:', error);
+      return await this.sync(userId, lastSyncTimestamp);
+    }
+  },
+
+  /**
+   * Queues an operation for batch processing instead of immediate sync
+   */
+  async queueSyncOperation(
+    type: QueuedSyncOperation['type'],
+    data: any,
+    localRef: string,
+    userId: string
+  ): Promise<void> {
+    try {
+      const { BatchSyncService } = await import('./batchSyncService');
+      return await BatchSyncService.queueOperation(type, data, localRef, userId);
+    } catch (error) {
+      console.warn('BatchSyncService not available, skipping queue operation:', error);
+    }
+  },
+
+  /**
+   * Forces immediate processing of the sync queue
+   */
+  async flushSyncQueue(): Promise<BatchDualWriteResult> {
+    try {
       const { BatchSyncService } = await import('./batchSyncService');
       return await BatchSyncService.flushQueue();
     } catch (error) {
@@ -1807,8 +2408,10 @@ export const dataService: any = {
       // Step 2: Sync to remote (graceful degradation)
       if (accessToken) {
         try {
-          // Filter out local-only fields from remote sync
-          const { pending_email_verification, email_verification_sent_at, ...remoteUpdates } = updates;
+          // Filter out local-only fields from remote sync (pause_history is recorded by resume_user_schedule)
+          const localOnlyFields = ['pending_email_verification', 'email_verification_sent_at', 'pause_history'];
+          const remoteUpdates: Omit<typeof updates, 'pending_email_verification' | 'email_verification_sent_at' | 'pause_history'> =
+            Object.fromEntries(Object.entries(updates).filter(([field]) => !localOnlyFields.includes(field)));
           
           const { data: remoteProfile, error: remoteError } = await supabaseClient
             .from('user_profiles')
@@ -1838,11 +2441,147 @@ export const dataService: any = {
     }
   },
 
+  /**
+   * Pauses the user's schedule for a date range (vacation mode)
+   * Nothing is due and reviews don't move cards until the pause ends - see pauseSchedule.ts
+   */
+  async pauseSchedule(
+    userId: string,
+    pausedFrom: string,
+    pausedUntil: string,
+    accessToken?: string
+  ): Promise<DualWriteResult<LocalDBSchema['user_profiles']>> {
+    console.log(`⏸️ Pausing schedule from ${pausedFrom} to ${pausedUntil}`);
+    return this.updateUserProfile(userId, { paused_from: pausedFrom, paused_until: pausedUntil }, accessToken);
+  },
+
+  /**
+   * Ends the user's pause - early (resumeDate = today) or once it has run its course.
+   * Shifts every card's due date and assignment forward by the paused days and records
+   * the pause in pause_history. Remote cards are shifted by resume_user_schedule(), which
+   * is a no-op if the remote pause was already ended.
+   */
+  async resumeSchedule(
+    userId: string,
+    resumeDate: string,
+    accessToken?: string
+  ): Promise<DualWriteResult<LocalDBSchema['user_profiles']>> {
+    const result: DualWriteResult<LocalDBSchema['user_profiles']> = {
+      local: null,
+      remote: null,
+      errors: {},
+      success: false
+    };
+
+    try {
+      // Step 1: Shift local cards and clear the pause in one transaction so it only happens once
+      await db.transaction('rw', [db.user_profiles, db.verse_cards], async (tx) => {
+        const profile = await tx.user_profiles.where('user_id').equals(userId).first();
+        if (!profile?.paused_from) {
+          return; // Already resumed
+        }
+
+        const { period, shiftDays } = getPauseResume(profile, resumeDate);
+        if (shiftDays > 0) {
+          const cards = await tx.verse_cards.where('user_id').equals(userId).toArray();
+          for (const card of cards) {
+            await tx.verse_cards.update(card.id!, shiftCardSchedule(card, shiftDays));
+          }
+          console.log(`▶️ Resumed schedule - ${cards.length} cards shifted ${shiftDays} days`);
+        }
+
+        const updates = {
+          paused_from: null,
+          paused_until: null,
+          pause_history: period ? [...(profile.pause_history ?? []), period] : profile.pause_history ?? [],
+          updated_at: new Date().toISOString()
+        };
+        await tx.user_profiles.update(profile.id!, updates);
+        result.local = { ...profile, ...updates };
+      });
+
+      // Step 2: Same shift remotely (graceful degradation)
+      if (accessToken) {
+        const { error: remoteError } = await supabaseClient.rpc('resume_user_schedule', {
+          p_resume_date: resumeDate
+        });
+        if (remoteError) {
+          result.errors.remote = new NetworkError(
+            'Failed to resume remote schedule - changes saved locally',
+            remoteError as unknown as Error
+          );
+        }
+      }
+
+      result.success = true;
+      return result;
+    } catch (error) {
+      result.errors.local = error as Error;
+      throw error;
+    }
+  },
+
+  /**
+   * Resumes the schedule if the user's pause has run its course.
+   * Called before building the due list so cards are shifted before anything is due.
+   */
+  async resumeExpiredPause(userId: string, accessToken?: string): Promise<void> {
+    const profile = await db.user_profiles.where('user_id').equals(userId).first();
+    const resumeDate = getExpiredPauseResumeDate(profile, getUserTodayStringInTimezone(profile?.timezone || 'UTC'));
+    if (resumeDate) {
+      await this.resumeSchedule(userId, resumeDate, accessToken);
+    }
+  },
+
+  /**
+   * Brings the user's daily streak up to date from local review logs.
+   * Continues the stored streak (which may include reviews from other devices)
+   * with any newer review days, and saves it if it changed.
+   */
+  async refreshDailyStreak(userId: string, accessToken?: string): Promise<DailyStreak> {
+    const profile = await db.user_profiles.where('user_id').equals(userId).first();
+    const timezone = profile?.timezone || 'UTC';
+    const today = getUserTodayStringInTimezone(timezone);
+    const history = profile?.pause_history ?? [];
+
+    const logs = await db.review_logs.where('user_id').equals(userId).toArray();
+    const activeDates = logs.map(log => formatDateInTimezone(new Date(log.created_at), timezone));
+
+    const stored = {
+      current: profile?.current_daily_streak ?? 0,
+      best: profile?.best_daily_streak ?? 0,
+      lastActiveDate: profile?.last_streak_date ?? null
+    };
+    const streak = calculateDailyStreak(activeDates, today, profile, history, stored);
+
+    const changed = streak.current !== stored.current ||
+      streak.best !== stored.best ||
+      streak.lastActiveDate !== stored.lastActiveDate;
+    if (profile && changed) {
+      console.log(`🔥 Daily streak: ${streak.current} (best ${streak.best})`);
+      await this.updateUserProfile(userId, dailyStreakToProfileFields(streak), accessToken);
+    }
+
+    return streak;
+  },
+
   /**
    * Lookup a verse reference using ESV API (for VerseDetails page)
    * Returns verse data without adding to user's collection
    */
-  async lookupVerseReference(reference: string): Promise<{ success: boolean; verse?: LocalDBSchema['verses']; error?: string }> {
+  async lookupVerseReference(reference: string, translation: string = DEFAULT_TRANSLATION): Promise<{ success: boolean; verse?: LocalDBSchema['verses']; error?: string }> {
+    // Offline: resolve from a downloaded Bible pack instead
+    if (!navigator.onLine) {
+      try {
+        const offlineVerse = await this.lookupOfflineVerse(reference, translation);
+        if (offlineVerse) {
+          return { success: true, verse: offlineVerse };
+        }
+      } catch (error) {
+        return { success: false, error: (error as Error).message };
+      }
+    }
+
     try {
       const supabaseUrl = process.env.NODE_ENV === 'test' 
         ? process.env.VITE_SUPABASE_URL 
@@ -1867,7 +2606,7 @@ export const dataService: any = {
           operation: 'create', // Use create to force ESV API call and get proper error messages
           reference,
           normalizedRef: reference,
-          translation: 'ESV'
+          translation
         })
       });
 
@@ -1903,7 +2642,8 @@ export const dataService: any = {
           id: uuidv4(),
           reference: result.verse.reference,
           text: result.verse.text,
-          translation: 'ESV',
+          translation: result.verse.translation || translation,
+          segments: result.verse.segments ?? null,
           is_verified: true,
           created_at: now,
           updated_at: now
@@ -1919,10 +2659,194 @@ export const dataService: any = {
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
       console.error('ESV lookup error:', errorMessage);
+
+      // Connection problems: a downloaded Bible pack may still have the verse
+      const offlineVerse = await this.lookupOfflineVerse(reference, translation).catch(() => null);
+      if (offlineVerse) {
+        return { success: true, verse: offlineVerse };
+      }
       return { success: false, error: errorMessage };
     }
   },
 
+  /**
+   * Resolves a reference from a downloaded Bible pack and caches the verse locally.
+   * Returns null when no pack is downloaded for the translation; throws for invalid references.
+   * The verse is unverified until syncToRemote links it to the cloud copy (same text).
+   */
+  async lookupOfflineVerse(reference: string, translation: string): Promise<LocalDBSchema['verses'] | null> {
+    const pack = await localDb.biblePacks.get(translation);
+    if (!pack) {
+      return null;
+    }
+
+    const passage = await resolvePassage(reference, translation, key => localDb.biblePacks.getChapterVerses(key));
+
+    const existingVerse = await db.verses
+      .where('[reference+translation]')
+      .equals([passage.reference, translation])
+      .first();
+    if (existingVerse) {
+      return existingVerse;
+    }
+
+    const now = new Date().toISOString();
+    const localVerseData: LocalDBSchema['verses'] = {
+      id: uuidv4(),
+      reference: passage.reference,
+      text: passage.text,
+      translation,
+      is_verified: false, // Linked to the cloud verse on the next sync
+      created_at: now,
+      updated_at: now
+    };
+    await db.verses.add(localVerseData);
+
+    console.log(`📦 Resolved ${passage.reference} from offline ${translation} pack`);
+    return localVerseData;
+  },
+
+  /**
+   * Downloads a public-domain Bible for offline lookup (replacing any earlier download)
+   */
+  async downloadBiblePack(translation: string): Promise<LocalDBSchema['bible_packs']> {
+    if (!TRANSLATIONS.some(candidate => candidate.code === translation && candidate.publicDomain)) {
+      throw new ValidationError(`${translation} is not available for offline use`);
+    }
+
+    const supabaseUrl = process.env.NODE_ENV === 'test'
+      ? process.env.VITE_SUPABASE_URL
+      : import.meta.env.VITE_SUPABASE_URL;
+
+    const { data: { session } } = await supabaseClient.auth.getSession();
+    if (!session?.access_token) {
+      throw new Error('User not authenticated');
+    }
+
+    let json: string;
+    try {
+      const response = await fetch(`${supabaseUrl}/functions/v1/bible-pack`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`
+        },
+        body: JSON.stringify({ translation })
+      });
+
+      if (!response.ok) {
+        throw new Error(`Server error ${response.status}`);
+      }
+      json = await response.text();
+    } catch (error) {
+      throw new NetworkError(`Failed to download the ${translation} Bible`, error as Error);
+    }
+
+    const dataset = JSON.parse(json) as BiblePackDataset;
+    const chapters = datasetToChapters(dataset);
+    const pack: LocalDBSchema['bible_packs'] = {
+      translation: dataset.translation,
+      name: dataset.name,
+      size_bytes: new Blob([json]).size,
+      chapter_count: chapters.length,
+      downloaded_at: new Date().toISOString()
+    };
+
+    await localDb.biblePacks.save(pack, chapters);
+    console.log(`📦 Downloaded ${translation} Bible pack:`, { chapters: chapters.length, bytes: pack.size_bytes });
+    return pack;
+  },
+
+  async deleteBiblePack(translation: string): Promise<void> {
+    await localDb.biblePacks.delete(translation);
+    console.log(`🗑️ Deleted ${translation} Bible pack`);
+  },
+
+  /**
+   * Mirrors process_review_comprehensive() locally so the card looks right before the next sync.
+   * SM-2 cards get their new interval and due date; phase cards get their new phase, progress,
+   * consecutive failures and next due date, with a fresh assignment when they change phase.
+   * Runs inside recordReview's transaction.
+   * Returns the phase the card was demoted from, or null.
+   */
+  async applyLocalScheduling(
+    verseCardId: string,
+    userId: string,
+    wasSuccessful: boolean,
+    isFirstReviewToday: boolean,
+    grade?: ReviewGrade
+  ): Promise<ReviewPhase | null> {
+    const card = await db.verse_cards.get(verseCardId);
+    if (!card) return null;
+
+    // Like the trigger, every review stamps the card - this clears its overdue state
+    // and takes a queued card out of the learning queue
+    const now = new Date().toISOString();
+    const reviewStamp = {
+      last_reviewed_at: now,
+      introduced_at: card.introduced_at ?? now
+    };
+
+    const userProfile = await db.user_profiles.where('user_id').equals(userId).first();
+    const settings = getPhaseSettings(userProfile);
+    const scheduler = getScheduler(userProfile?.scheduler);
+    const outcome = scheduler.review(
+      {
+        current_phase: card.current_phase,
+        phase_progress_count: card.phase_progress_count,
+        consecutive_failures: card.consecutive_failures ?? 0,
+        ease_factor: card.ease_factor ?? SM2_DEFAULT_EASE,
+        interval_days: card.interval_days ?? 0,
+        repetitions: card.repetitions ?? 0,
+        next_due_date: card.next_due_date
+      },
+      { wasSuccessful, countsTowardProgress: isFirstReviewToday, grade },
+      settings
+    );
+
+    if (scheduler.dueBy === 'date') {
+      if (isFirstReviewToday) {
+        await db.verse_cards.update(verseCardId, {
+          ...reviewStamp,
+          ease_factor: outcome.ease_factor,
+          interval_days: outcome.interval_days,
+          repetitions: outcome.repetitions,
+          next_due_date: outcome.next_due_date
+        });
+      } else {
+        await db.verse_cards.update(verseCardId, reviewStamp);
+      }
+      return null;
+    }
+
+    // A promoted or demoted card gets a fresh assignment (same balancing as get_optimal_assignment)
+    const newPhase = outcome.current_phase;
+    const newAssignment = newPhase !== card.current_phase && newPhase !== 'daily'
+      ? await this.calculateSmartAssignment(userId, newPhase)
+      : undefined;
+    const update = getPhaseCardUpdate(card, outcome, newAssignment);
+
+    // The due date lands on the assigned slot like calculate_next_assigned_date,
+    // rather than the plain interval processReview counts from today
+    const assignment = {
+      day_of_week: update.assigned_day_of_week,
+      week_parity: update.assigned_week_parity,
+      day_of_month: update.assigned_day_of_month
+    };
+    await db.verse_cards.update(verseCardId, {
+      ...reviewStamp,
+      ...update,
+      next_due_date: this.calculateNextDueDate(newPhase, assignment, userProfile?.timezone || 'UTC', settings.intervals)
+    });
+
+    if (outcome.demoted_from_phase) {
+      console.log(`⬇️ Card demoted from ${outcome.demoted_from_phase} to ${newPhase} after repeated failures`);
+    } else if (newPhase !== card.current_phase) {
+      console.log(`⬆️ Card promoted from ${card.current_phase} to ${newPhase}`);
+    }
+    return outcome.demoted_from_phase;
+  },
+
   /**
    * Manual phase change with smart assignment recalculation
    * Handles phase progression with automatic due date and assignment updates
@@ -1953,7 +2877,7 @@ export const dataService: any = {
         ? { day_of_week: null, week_parity: null, day_of_month: null }
         : await this.calculateSmartAssignment(userId, newPhase);
       
-      const nextDueDate = this.calculateNextDueDate(newPhase, assignment, userTimezone);
+      const nextDueDate = this.calculateNextDueDate(newPhase, assignment, userTimezone, getPhaseSettings(userProfile).intervals);
       
       // Step 1: Update locally with smart assignment
       await db.transaction('rw', [db.verse_cards], async (tx) => {
@@ -1988,7 +2912,8 @@ export const dataService: any = {
             .from('verse_cards')
             .select('id')
             .eq('user_id', userId)
-            .eq('verse_id', updatedCard!.verse_id);
+            .eq('verse_id', updatedCard!.verse_id)
+            .eq('direction', getCardDirection(updatedCard!));
 
           if (findError) throw findError;
 
@@ -2136,35 +3061,39 @@ export const dataService: any = {
 
   /**
    * Calculate next due date based on phase and assignment
-   * Replicates database logic locally for immediate UI updates
+   * Replicates database logic locally for immediate UI updates.
+   * Custom intervals push the earliest allowed slot out (interval - slot period + 1 days),
+   * so the default intervals keep the original "next assigned slot after today" behavior.
    */
   calculateNextDueDate(
     phase: 'daily' | 'weekly' | 'biweekly' | 'monthly',
     assignment: { day_of_week: number | null; week_parity: number | null; day_of_month: number | null },
-    _userTimezone: string = 'UTC'
+    _userTimezone: string = 'UTC',
+    intervals: Record<ReviewPhase, number> = DEFAULT_PHASE_INTERVALS
   ): string {
     const today = new Date();
     
     if (phase === 'daily') {
-      const tomorrow = new Date(today);
-      tomorrow.setDate(tomorrow.getDate() + 1);
-      return tomorrow.toISOString().split('T')[0];
+      const nextDate = new Date(today);
+      nextDate.setDate(nextDate.getDate() + intervals.daily);
+      return nextDate.toISOString().split('T')[0];
     }
 
     if (phase === 'weekly' && assignment.day_of_week) {
-      const currentDow = today.getDay() || 7; // Convert Sunday=0 to Sunday=7
+      const earliest = new Date(today);
+      earliest.setDate(earliest.getDate() + Math.max(1, intervals.weekly - 6));
+      const earliestDow = earliest.getDay() || 7; // Convert Sunday=0 to Sunday=7
       const targetDow = assignment.day_of_week;
-      let daysAhead = (targetDow - currentDow + 7) % 7;
-      if (daysAhead === 0) daysAhead = 7; // If today, schedule for next week
+      const daysAhead = (targetDow - earliestDow + 7) % 7;
       
-      const nextDate = new Date(today);
+      const nextDate = new Date(earliest);
       nextDate.setDate(nextDate.getDate() + daysAhead);
       return nextDate.toISOString().split('T')[0];
     }
 
     if (phase === 'biweekly' && assignment.day_of_week && assignment.week_parity !== null) {
       let nextDate = new Date(today);
-      nextDate.setDate(nextDate.getDate() + 1);
+      nextDate.setDate(nextDate.getDate() + Math.max(1, intervals.biweekly - 13));
       
       // Find next occurrence of weekday + week parity
       for (let i = 0; i < 14; i++) {
@@ -2180,8 +3109,10 @@ export const dataService: any = {
     }
 
     if (phase === 'monthly' && assignment.day_of_month) {
-      const nextMonth = new Date(today.getFullYear(), today.getMonth(), assignment.day_of_month);
-      if (nextMonth <= today) {
+      const earliest = new Date(today);
+      earliest.setDate(earliest.getDate() + Math.max(1, intervals.monthly - 29));
+      const nextMonth = new Date(earliest.getFullYear(), earliest.getMonth(), assignment.day_of_month);
+      if (nextMonth < earliest) {
         nextMonth.setMonth(nextMonth.getMonth() + 1);
       }
       return nextMonth.toISOString().split('T')[0];
@@ -2220,7 +3151,8 @@ export const dataService: any = {
         .from('verse_cards')
         .select('id')
         .eq('user_id', userId)
-        .eq('verse_id', localCard.verse_id);
+        .eq('verse_id', localCard.verse_id)
+        .eq('direction', getCardDirection(localCard));
 
       if (findError) {
         throw findError;
@@ -2357,7 +3289,53 @@ export const dataService: any = {
       }
     }
 
-    // RULE 7: Archive Status - Take the most recent
+    // RULE 7: Consecutive Failures - Take the more recent count (the trigger resets it on demotion)
+    const localFailures = localCard.consecutive_failures ?? 0;
+    const remoteFailures = remoteCard.consecutive_failures ?? 0;
+    if (localFailures !== remoteFailures && remoteUpdated > localUpdated) {
+      mergedData.consecutive_failures = remoteFailures;
+      hasChanges = true;
+    }
+
+    // RULE 8: SM-2 State - Take the more recent values together (they only make sense as a set)
+    if (remoteUpdated > localUpdated && (
+      (localCard.ease_factor ?? SM2_DEFAULT_EASE) !== (remoteCard.ease_factor ?? SM2_DEFAULT_EASE) ||
+      (localCard.interval_days ?? 0) !== (remoteCard.interval_days ?? 0) ||
+      (localCard.repetitions ?? 0) !== (remoteCard.repetitions ?? 0)
+    )) {
+      mergedData.ease_factor = remoteCard.ease_factor ?? SM2_DEFAULT_EASE;
+      mergedData.interval_days = remoteCard.interval_days ?? 0;
+      mergedData.repetitions = remoteCard.repetitions ?? 0;
+      hasChanges = true;
+    }
+
+    // RULE 9: Learning Queue - Once introduced anywhere a card stays introduced (earliest wins),
+    // a promotion is kept wherever it happened; manual queue order takes the more recent value
+    const introducedAt = [localCard.introduced_at, remoteCard.introduced_at]
+      .filter((date): date is string => !!date)
+      .sort()[0] ?? null;
+    if ((localCard.introduced_at ?? null) !== introducedAt) {
+      mergedData.introduced_at = introducedAt;
+      hasChanges = true;
+    }
+    if (!localCard.promoted_at && remoteCard.promoted_at) {
+      mergedData.promoted_at = remoteCard.promoted_at;
+      hasChanges = true;
+    }
+    if ((localCard.queue_position ?? null) !== (remoteCard.queue_position ?? null) && remoteUpdated > localUpdated) {
+      mergedData.queue_position = remoteCard.queue_position ?? null;
+      hasChanges = true;
+    }
+
+    // RULE 10: Passage Membership - Take the more recent grouping
+    if (((localCard.passage_id ?? null) !== (remoteCard.passage_id ?? null) ||
+      (localCard.passage_position ?? null) !== (remoteCard.passage_position ?? null)) && remoteUpdated > localUpdated) {
+      mergedData.passage_id = remoteCard.passage_id ?? null;
+      mergedData.passage_position = remoteCard.passage_position ?? null;
+      hasChanges = true;
+    }
+
+    // RULE 11: Archive Status - Take the most recent
     if (localCard.archived !== remoteCard.archived) {
       if (remoteUpdated > localUpdated) {
         mergedData.archived = remoteCard.archived;
@@ -2445,6 +3423,308 @@ export const dataService: any = {
     }
   },
 
+  /**
+   * Adds a range as a passage: a card per chunk of chunkSize verses plus a chain card for
+   * the whole range, grouped by a new passage_id. Verses already in the collection (and not
+   * in another passage) join the passage instead of failing as duplicates.
+   */
+  async addPassage(
+    reference: string,
+    userId: string,
+    chunkSize: number,
+    accessToken?: string
+  ): Promise<DualWriteResult<{ chain: LocalDBSchema['verse_cards']; chunks: LocalDBSchema['verse_cards'][]; verse: LocalDBSchema['verses'] }>> {
+    const result: DualWriteResult<{ chain: LocalDBSchema['verse_cards']; chunks: LocalDBSchema['verse_cards'][]; verse: LocalDBSchema['verses'] }> = {
+      local: null,
+      remote: null,
+      errors: {},
+      success: false
+    };
+
+    let split;
+    try {
+      split = splitPassage(reference, chunkSize);
+    } catch (error) {
+      throw new ValidationError((error as Error).message);
+    }
+
+    console.log('📖 Adding passage:', { reference: split.reference, chunks: split.chunks });
+
+    // Chunks first so they enter the learning queue in order, then the chain card
+    const added: Array<{ verse: LocalDBSchema['verses']; verseCard: LocalDBSchema['verse_cards'] }> = [];
+    for (const chunkReference of [...split.chunks, split.reference]) {
+      try {
+        const verseResult = await this.addVerse(chunkReference, userId, accessToken);
+        added.push(verseResult.local!);
+        if (verseResult.errors.remote) {
+          result.errors.remote = verseResult.errors.remote;
+        }
+      } catch (error) {
+        if (error instanceof DuplicateVerseError && !error.existing.verseCard.passage_id) {
+          added.push(error.existing);
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    // Group the cards - chunk positions follow split.chunks, the chain card is last in `added`
+    const passageId = uuidv4();
+    const now = new Date().toISOString();
+    const grouped: LocalDBSchema['verse_cards'][] = [];
+    await db.transaction('rw', db.verse_cards, async (tx) => {
+      for (const [index, { verseCard }] of added.entries()) {
+        const updateData = {
+          passage_id: passageId,
+          passage_position: index === split.chunks.length ? PASSAGE_CHAIN_POSITION : index + 1,
+          updated_at: now
+        };
+        await tx.verse_cards.update(verseCard.id!, updateData);
+        grouped.push({ ...verseCard, ...updateData });
+      }
+    });
+
+    const chain = grouped[grouped.length - 1];
+    result.local = {
+      chain,
+      chunks: grouped.slice(0, -1),
+      verse: added[added.length - 1].verse
+    };
+
+    // Sync grouping to remote (graceful degradation)
+    if (accessToken) {
+      try {
+        for (const card of grouped) {
+          await this.updateVerseCardRemote(card.id!, {
+            passage_id: card.passage_id,
+            passage_position: card.passage_position
+          }, userId, accessToken);
+        }
+      } catch (error) {
+        result.errors.remote = new NetworkError(
+          'Failed to sync passage to remote - changes saved locally',
+          error as Error
+        );
+      }
+    }
+
+    result.success = true;
+    return result;
+  },
+
+  /**
+   * Starts a whole-chapter project and introduces its first verse right away.
+   * Later verses are introduced by advanceChapterProjects every verse_interval_days.
+   */
+  async addChapterProject(
+    reference: string,
+    userId: string,
+    verseIntervalDays: number,
+    accessToken?: string
+  ): Promise<DualWriteResult<{ project: LocalDBSchema['projects']; verse: LocalDBSchema['verses']; verseCard: LocalDBSchema['verse_cards'] }>> {
+    const chapter = parseChapterReference(reference);
+    if (!chapter) {
+      throw new ValidationError('Enter a whole chapter (e.g., "Psalm 23") to start a chapter project');
+    }
+
+    const existing = await localDb.projects.findByChapter(userId, chapter.book, chapter.chapter);
+    if (existing && !existing.archived) {
+      throw new ValidationError(`${chapter.reference} is already a chapter project`);
+    }
+
+    console.log('📖 Starting chapter project:', chapter.reference);
+
+    // A previously archived project starts over with the same id
+    const projectData: Omit<LocalDBSchema['projects'], 'id' | 'created_at' | 'updated_at'> = {
+      user_id: userId,
+      reference: chapter.reference,
+      book: chapter.book,
+      chapter: chapter.chapter,
+      verse_count: chapter.verseCount,
+      verse_interval_days: verseIntervalDays,
+      introduced_count: 0,
+      last_introduced_on: null,
+      chain_verse_id: null,
+      archived: false
+    };
+    const project = existing
+      ? (await localDb.projects.update(existing.id!, projectData))!
+      : await localDb.projects.create(projectData);
+
+    return this.advanceChapterProject(project.id!, userId, accessToken);
+  },
+
+  /**
+   * Introduces the next verse of a chapter project along with the chain from verse 1,
+   * archiving the previous chain. Both cards skip the learning queue - the project sets the pace.
+   */
+  async advanceChapterProject(
+    projectId: string,
+    userId: string,
+    accessToken?: string
+  ): Promise<DualWriteResult<{ project: LocalDBSchema['projects']; verse: LocalDBSchema['verses']; verseCard: LocalDBSchema['verse_cards'] }>> {
+    const result: DualWriteResult<{ project: LocalDBSchema['projects']; verse: LocalDBSchema['verses']; verseCard: LocalDBSchema['verse_cards'] }> = {
+      local: null,
+      remote: null,
+      errors: {},
+      success: false
+    };
+
+    const project = await localDb.projects.get(projectId);
+    if (!project || project.user_id !== userId) {
+      throw new Error('Chapter project not found');
+    }
+    if (project.introduced_count >= project.verse_count) {
+      throw new ValidationError(`${project.reference} is already complete`);
+    }
+
+    // Get user profile for timezone BEFORE transaction
+    const userProfile = await db.user_profiles.where('user_id').equals(userId).first();
+    const today = getUserTodayStringInTimezone(userProfile?.timezone || 'UTC');
+
+    const verseNumber = project.introduced_count + 1;
+    const references = getProjectStepReferences(project, verseNumber);
+    console.log('📖 Advancing chapter project:', references);
+
+    const added: Array<{ verse: LocalDBSchema['verses']; verseCard: LocalDBSchema['verse_cards'] }> = [];
+    for (const stepReference of [references.verse, references.chain]) {
+      if (!stepReference) continue;
+      try {
+        const verseResult = await this.addVerse(stepReference, userId, accessToken);
+        added.push(verseResult.local!);
+        if (verseResult.errors.remote) {
+          result.errors.remote = verseResult.errors.remote;
+        }
+      } catch (error) {
+        if (error instanceof DuplicateVerseError) {
+          added.push(error.existing);
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    const chainVerseId = references.chain ? added[added.length - 1].verse.id! : null;
+    const changedCards: LocalDBSchema['verse_cards'][] = [];
+    let updatedProject: LocalDBSchema['projects'];
+
+    await db.transaction('rw', db.verse_cards, db.projects, async (tx) => {
+      const now = new Date().toISOString();
+
+      for (const { verseCard } of added) {
+        const card = await tx.verse_cards.get(verseCard.id!);
+        if (!card || card.introduced_at) continue;
+        const updateData = {
+          introduced_at: now,
+          queue_position: null,
+          next_due_date: today,
+          updated_at: now
+        };
+        await tx.verse_cards.update(card.id!, updateData);
+        changedCards.push({ ...card, ...updateData });
+      }
+
+      // The new chain replaces the previous one
+      if (project.chain_verse_id && project.chain_verse_id !== chainVerseId) {
+        const previousChain = await tx.verse_cards
+          .where('[user_id+verse_id]')
+          .equals([userId, project.chain_verse_id])
+          .filter(card => getCardDirection(card) === 'forward')
+          .first();
+        if (previousChain && !previousChain.archived) {
+          await tx.verse_cards.update(previousChain.id!, { archived: true, updated_at: now });
+          changedCards.push({ ...previousChain, archived: true, updated_at: now });
+        }
+      }
+
+      const projectUpdates = {
+        introduced_count: verseNumber,
+        last_introduced_on: today,
+        chain_verse_id: chainVerseId,
+        updated_at: now
+      };
+      await tx.projects.update(project.id!, projectUpdates);
+      updatedProject = { ...project, ...projectUpdates };
+    });
+
+    result.local = {
+      project: updatedProject!,
+      verse: added[0].verse,
+      verseCard: added[0].verseCard
+    };
+
+    // Step 2: Sync to remote (graceful degradation)
+    if (accessToken) {
+      try {
+        for (const card of changedCards) {
+          await this.updateVerseCardRemote(card.id!, {
+            introduced_at: card.introduced_at,
+            queue_position: card.queue_position,
+            next_due_date: card.next_due_date,
+            archived: card.archived
+          }, userId, accessToken);
+        }
+        result.remote = await this.upsertProjectRemote(updatedProject!);
+      } catch (error) {
+        result.errors.remote = new NetworkError(
+          'Failed to sync chapter project to remote - changes saved locally',
+          error as Error
+        );
+      }
+    }
+
+    result.success = true;
+    return result;
+  },
+
+  /**
+   * Introduces today's verse for every chapter project that is due. Projects that can't
+   * advance (e.g. offline without a Bible pack) are retried on the next call.
+   */
+  async advanceChapterProjects(userId: string, accessToken?: string): Promise<number> {
+    const userProfile = await db.user_profiles.where('user_id').equals(userId).first();
+    const today = getUserTodayStringInTimezone(userProfile?.timezone || 'UTC');
+    const dueProjects = (await localDb.projects.getByUser(userId))
+      .filter(project => isProjectStepDue(project, today, userProfile));
+
+    let advanced = 0;
+    for (const project of dueProjects) {
+      try {
+        await this.advanceChapterProject(project.id!, userId, accessToken);
+        advanced++;
+      } catch (error) {
+        console.warn(`⚠️ Failed to advance chapter project ${project.reference}:`, error);
+      }
+    }
+    return advanced;
+  },
+
+  /**
+   * Writes a chapter project to remote, keeping the locally generated id
+   */
+  async upsertProjectRemote(project: LocalDBSchema['projects']): Promise<LocalDBSchema['projects']> {
+    const { data, error } = await supabaseClient
+      .from('projects')
+      .upsert({
+        id: project.id,
+        user_id: project.user_id,
+        reference: project.reference,
+        book: project.book,
+        chapter: project.chapter,
+        verse_count: project.verse_count,
+        verse_interval_days: project.verse_interval_days,
+        introduced_count: project.introduced_count,
+        last_introduced_on: project.last_introduced_on,
+        chain_verse_id: project.chain_verse_id,
+        archived: project.archived
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as LocalDBSchema['projects'];
+  },
+
   /**
    * Batch verse creation using the parser
    * Parses user input into individual verse card requests and processes them
@@ -2497,7 +3777,7 @@ export const dataService: any = {
         id: card.id,
         reference: card.reference,
         normalizedReference: card.normalizedReference,
-        reason: 'Invalid reference format or contains unsupported characters'
+        reason: card.rangeError ?? 'Invalid reference format or contains unsupported characters'
       })),
       summary: {
         total: parseResult.cards.length,
@@ -2611,6 +3891,11 @@ export const dataService: any = {
 
     // Step 2: Look up each individual reference
     for (const card of parseResult.cards) {
+      if (card.rangeError) {
+        errors.push(card.rangeError);
+        continue;
+      }
+
       try {
         const lookupResult = await this.lookupVerseReference(card.reference);
         
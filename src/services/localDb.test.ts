@@ -1,4 +1,4 @@
-import { db } from './localDb';
+import { db, localDb } from './localDb';
 
 describe('localDb', () => {
   beforeEach(async () => {
@@ -85,6 +85,38 @@ describe('localDb', () => {
     });
   });
 
+  describe('countIntroducedToday', () => {
+    const addCard = (id: string, fields: { introduced_at: string | null; promoted_at?: string | null }) =>
+      db.verse_cards.add({
+        id,
+        user_id: 'user-123',
+        verse_id: `verse-${id}`,
+        current_phase: 'daily',
+        current_streak: 0,
+        best_streak: 0,
+        phase_progress_count: 0,
+        assigned_day_of_week: null,
+        assigned_week_parity: null,
+        assigned_day_of_month: null,
+        last_reviewed_at: null,
+        next_due_date: '2024-01-15',
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+        archived: false,
+        ...fields
+      });
+
+    test('leaves promoted cards out of the daily new-card count', async () => {
+      const now = new Date().toISOString();
+      await addCard('introduced', { introduced_at: now });
+      await addCard('promoted', { introduced_at: now, promoted_at: now });
+      await addCard('queued', { introduced_at: null });
+      await addCard('yesterday', { introduced_at: new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString() });
+
+      expect(await localDb.verseCards.countIntroducedToday('user-123')).toBe(1);
+    });
+  });
+
   describe('user_profiles table', () => {
     test('can create and update user profile', async () => {
       const profile = {
@@ -128,4 +160,37 @@ describe('localDb', () => {
       expect(retrieved?.status).toBe('pending');
     });
   });
+
+  describe('bible packs', () => {
+    const pack = {
+      translation: 'KJV',
+      name: 'King James Version',
+      size_bytes: 100,
+      chapter_count: 1,
+      downloaded_at: new Date().toISOString()
+    };
+    const chapter = (chapterNumber: number) => ({
+      id: `KJV:John:${chapterNumber}`,
+      translation: 'KJV',
+      book: 'John',
+      chapter: chapterNumber,
+      verses: ['In the beginning was the Word']
+    });
+
+    test('replaces a pack\'s chapters when it is downloaded again', async () => {
+      await localDb.biblePacks.save(pack, [chapter(1), chapter(2)]);
+      await localDb.biblePacks.save(pack, [chapter(1)]);
+
+      expect(await db.bible_chapters.count()).toBe(1);
+      expect(await localDb.biblePacks.getChapterVerses('KJV:John:1')).toEqual(['In the beginning was the Word']);
+    });
+
+    test('deletes the pack with its chapters', async () => {
+      await localDb.biblePacks.save(pack, [chapter(1)]);
+      await localDb.biblePacks.delete('KJV');
+
+      expect(await localDb.biblePacks.get('KJV')).toBeUndefined();
+      expect(await db.bible_chapters.count()).toBe(0);
+    });
+  });
 });
\ No newline at end of file
@@ -1,6 +1,25 @@
 import { Dexie, type EntityTable } from 'dexie';
 import { v4 as uuidv4 } from 'uuid';
 import type { QueuedSyncOperation } from './dataService';
+import {
+  DEFAULT_DEMOTION_THRESHOLD,
+  DEFAULT_PHASE_SETTINGS,
+  DEFAULT_SCHEDULER,
+  SM2_DEFAULT_EASE,
+  getPhaseSettings,
+  phaseSettingsToProfileFields,
+  type ReviewGrade,
+  type ReviewPhase,
+  type SchedulerType
+} from '../utils/spacedRepetition';
+import { DEFAULT_NEW_CARDS_PER_DAY, DEFAULT_OVERDUE_DAILY_CAP } from '../utils/assignmentLogic';
+import type { PausePeriod } from '../utils/pauseSchedule';
+import type { BibleChapter } from '../utils/biblePack';
+import type { VerseSegment } from '../utils/verseSegments';
+import { getCardDirection, type CardDirection } from '../utils/referenceRecall';
+import type { ReviewShortcuts } from '../utils/reviewShortcuts';
+import { DEFAULT_REVIEW_ORDER, type ReviewOrder } from '../utils/reviewOrder';
+import type { ReviewSession } from '../utils/reviewSession';
 
 // Local database schema with UUID string IDs
 export interface LocalDBSchema {
@@ -11,9 +30,31 @@ export interface LocalDBSchema {
     full_name: string | null;
     timezone: string;              // User's timezone for assignment calculations
     preferred_translation: string; // Default 'ESV'
-    reference_display_mode: string; // 'full' | 'first' | 'blank'
+    reference_display_mode: string; // 'full' | 'first' | 'blank' | 'cloze'
     pending_email_verification: string | null; // Email address pending verification
     email_verification_sent_at: string | null; // When verification email was sent
+    // Phase settings (see getPhaseSettings) - optional for profiles created before version 18
+    daily_phase_requirement?: number;    // Default 14
+    weekly_phase_requirement?: number;   // Default 4
+    biweekly_phase_requirement?: number; // Default 4
+    daily_interval_days?: number;        // Default 1
+    weekly_interval_days?: number;       // Default 7
+    biweekly_interval_days?: number;     // Default 14
+    monthly_interval_days?: number;      // Default 30
+    demotion_failure_threshold?: number; // Default 3 (0 disables demotion)
+    scheduler?: SchedulerType;           // Default 'phase' - see getScheduler
+    overdue_daily_cap?: number;          // Default 20 overdue cards per day (0 = no cap)
+    new_cards_per_day?: number;          // Default 5 queued cards introduced per day (0 = no limit)
+    // Vacation / pause mode (see pauseSchedule.ts) - dates are YYYY-MM-DD in the user's timezone
+    paused_from?: string | null;         // First paused day (null when not paused)
+    paused_until?: string | null;        // Last paused day
+    pause_history?: PausePeriod[];       // Completed pauses, oldest first
+    // Daily streak across the whole deck (see dailyStreak.ts)
+    current_daily_streak?: number;       // Days in a row with a review session
+    best_daily_streak?: number;
+    last_streak_date?: string | null;    // Last day that counted (YYYY-MM-DD, user's timezone)
+    review_shortcuts?: Partial<ReviewShortcuts> | null; // Keyboard shortcuts for review (null = defaults, see getReviewShortcuts)
+    review_order?: ReviewOrder;          // Default 'scheduled' - how sessions order due cards (see orderDueCards)
     created_at: string;
     updated_at: string;
   };
@@ -23,6 +64,7 @@ export interface LocalDBSchema {
     reference: string;    // "John 3:16" (canonical ESV format)
     text: string;         // ESV verse text
     translation: string;  // "ESV"
+    segments?: VerseSegment[] | null; // Verse numbers, headings and poetry lines for display (see utils/verseSegments)
     is_verified: boolean; // false for manually entered verses that need ESV validation
     validation_error?: string; // ESV validation error message (if any)
     created_at: string;   // ISO timestamp
@@ -52,6 +94,19 @@ export interface LocalDBSchema {
     updated_at: string;
     current_streak: number;        // Default 0
     best_streak: number;           // Default 0
+    consecutive_failures?: number; // Default 0 - failed reviews in a row (optional for cards created before version 19)
+    // SM-2 scheduler state (optional for cards created before version 20)
+    ease_factor?: number;          // Default 2.5
+    interval_days?: number;        // Default 0 - no SM-2 history yet
+    repetitions?: number;          // Default 0
+    // Learning queue (optional for cards created before version 23)
+    introduced_at?: string | null; // Null while the card waits in the learning queue
+    queue_position?: number | null; // Manual queue order (null = by created_at)
+    promoted_at?: string | null;    // Set when the user promoted it out of the queue (not a daily new card)
+    // Passages (optional for cards created before version 26) - see src/utils/passages.ts
+    passage_id?: string | null;       // Shared by a passage's chain card and chunk cards
+    passage_position?: number | null; // 0 = chain card for the whole range, 1..n = chunks in order
+    direction?: CardDirection;        // 'reverse' = text → reference card (see src/utils/referenceRecall.ts)
   };
 
   review_logs: {
@@ -61,11 +116,50 @@ export interface LocalDBSchema {
     was_successful: boolean;       // Whether the review was successful
     counted_toward_progress: boolean; // Whether this review counts toward progress
     review_time_seconds: number | null; // Time taken for review
+    accuracy_percentage: number | null; // 0-100 word accuracy for typed recall (null for swipe reviews)
+    grade: ReviewGrade | null;     // 'again' | 'hard' | 'good' | 'easy' (null for legacy binary reviews)
+    demoted_from_phase: ReviewPhase | null; // Phase the card dropped back from after repeated failures
+    overdue_days: number | null;   // Days past due when reviewed (null when on time)
     created_at: string;            // ISO timestamp
   };
 
   sync_queue: QueuedSyncOperation; // Persistent queue for batch operations
 
+  // Whole-chapter memorization projects - see src/utils/chapterProjects.ts
+  projects: {
+    id?: string;                   // UUID generated locally and kept remotely
+    user_id: string;               // Foreign key to auth.users
+    reference: string;             // "Psalm 23"
+    book: string;
+    chapter: number;
+    verse_count: number;           // Verses in the chapter
+    verse_interval_days: number;   // A new verse every N days
+    introduced_count: number;      // Verses introduced so far (1..n in order)
+    last_introduced_on: string | null; // YYYY-MM-DD the latest verse was introduced
+    chain_verse_id: string | null; // Verse of the current cumulative chain card ("Psalm 23:1-4")
+    archived: boolean;
+    created_at: string;            // ISO timestamp
+    updated_at: string;            // ISO timestamp
+  };
+
+  // Downloaded public-domain Bibles for offline lookup (not user data - kept on sign out)
+  bible_packs: {
+    translation: string;           // Primary key - 'KJV' | 'WEB'
+    name: string;                  // "King James Version"
+    size_bytes: number;            // Size of the downloaded dataset
+    chapter_count: number;
+    downloaded_at: string;         // ISO timestamp
+  };
+
+  bible_chapters: BibleChapter;    // One row per chapter of a downloaded pack
+
+  // The review session in progress, saved after every action (local only - see utils/reviewSession)
+  review_sessions: {
+    user_id: string;               // Primary key - one session per user
+    session: ReviewSession;
+    updated_at: string;            // ISO timestamp
+  };
+
 }
 
 // Typed Dexie database with EntityTable
@@ -76,6 +170,10 @@ const db = new Dexie('VersesDB') as Dexie & {
   verse_cards: EntityTable<LocalDBSchema['verse_cards'], 'id'>;
   review_logs: EntityTable<LocalDBSchema['review_logs'], 'id'>;
   syncQueue: EntityTable<LocalDBSchema['sync_queue'], 'id'>;
+  bible_packs: EntityTable<LocalDBSchema['bible_packs'], 'translation'>;
+  bible_chapters: EntityTable<LocalDBSchema['bible_chapters'], 'id'>;
+  projects: EntityTable<LocalDBSchema['projects'], 'id'>;
+  review_sessions: EntityTable<LocalDBSchema['review_sessions'], 'user_id'>;
 };
 
 
@@ -139,6 +237,209 @@ db.version(15).stores({
   syncQueue: 'id, userId, type, status, queuedAt, [userId+type], [status]'
 })
 
+// Version 16: Add accuracy_percentage to review_logs for typed recall
+db.version(16).stores({
+  user_profiles: 'id, user_id, timezone, pending_email_verification, email_verification_sent_at, [user_id]',
+  verse_cards: 'id, user_id, verse_id, next_due_date, current_phase, archived, assigned_day_of_week, assigned_week_parity, assigned_day_of_month, [user_id+verse_id]',
+  verses: 'id, reference, translation, is_verified, [reference+translation]',
+  aliases: 'id, alias, verse_id, [alias], [verse_id]',
+  review_logs: 'id, user_id, verse_card_id, was_successful, created_at, [verse_card_id+user_id], [user_id+verse_card_id], [verse_card_id+created_at]',
+  syncQueue: 'id, userId, type, status, queuedAt, [userId+type], [status]'
+}).upgrade(tx => {
+  // Existing reviews were swipe reviews - no accuracy recorded
+  return tx.table('review_logs').toCollection().modify(log => {
+    log.accuracy_percentage = null;
+  });
+})
+
+// Version 17: Add grade to review_logs for graded review outcomes
+db.version(17).stores({
+  user_profiles: 'id, user_id, timezone, pending_email_verification, email_verification_sent_at, [user_id]',
+  verse_cards: 'id, user_id, verse_id, next_due_date, current_phase, archived, assigned_day_of_week, assigned_week_parity, assigned_day_of_month, [user_id+verse_id]',
+  verses: 'id, reference, translation, is_verified, [reference+translation]',
+  aliases: 'id, alias, verse_id, [alias], [verse_id]',
+  review_logs: 'id, user_id, verse_card_id, was_successful, created_at, [verse_card_id+user_id], [user_id+verse_card_id], [verse_card_id+created_at]',
+  syncQueue: 'id, userId, type, status, queuedAt, [userId+type], [status]'
+}).upgrade(tx => {
+  // Existing reviews were binary pass/fail - no grade recorded
+  return tx.table('review_logs').toCollection().modify(log => {
+    log.grade = null;
+  });
+})
+
+// Version 18: Add per-user phase requirements and intervals to user_profiles
+db.version(18).stores({
+  user_profiles: 'id, user_id, timezone, pending_email_verification, email_verification_sent_at, [user_id]',
+  verse_cards: 'id, user_id, verse_id, next_due_date, current_phase, archived, assigned_day_of_week, assigned_week_parity, assigned_day_of_month, [user_id+verse_id]',
+  verses: 'id, reference, translation, is_verified, [reference+translation]',
+  aliases: 'id, alias, verse_id, [alias], [verse_id]',
+  review_logs: 'id, user_id, verse_card_id, was_successful, created_at, [verse_card_id+user_id], [user_id+verse_card_id], [verse_card_id+created_at]',
+  syncQueue: 'id, userId, type, status, queuedAt, [userId+type], [status]'
+}).upgrade(tx => {
+  // Existing users keep the original 14/4/4 ladder
+  const defaults = phaseSettingsToProfileFields(DEFAULT_PHASE_SETTINGS);
+  return tx.table('user_profiles').toCollection().modify(profile => {
+    Object.assign(profile, defaults);
+  });
+})
+
+// Version 19: Track consecutive failures on verse_cards and demotions on review_logs
+db.version(19).stores({
+  user_profiles: 'id, user_id, timezone, pending_email_verification, email_verification_sent_at, [user_id]',
+  verse_cards: 'id, user_id, verse_id, next_due_date, current_phase, archived, assigned_day_of_week, assigned_week_parity, assigned_day_of_month, [user_id+verse_id]',
+  verses: 'id, reference, translation, is_verified, [reference+translation]',
+  aliases: 'id, alias, verse_id, [alias], [verse_id]',
+  review_logs: 'id, user_id, verse_card_id, was_successful, created_at, [verse_card_id+user_id], [user_id+verse_card_id], [verse_card_id+created_at]',
+  syncQueue: 'id, userId, type, status, queuedAt, [userId+type], [status]'
+}).upgrade(async tx => {
+  await tx.table('verse_cards').toCollection().modify(card => {
+    card.consecutive_failures = card.consecutive_failures ?? 0;
+  });
+  await tx.table('review_logs').toCollection().modify(log => {
+    log.demoted_from_phase = log.demoted_from_phase ?? null;
+  });
+  await tx.table('user_profiles').toCollection().modify(profile => {
+    profile.demotion_failure_threshold = profile.demotion_failure_threshold ?? DEFAULT_DEMOTION_THRESHOLD;
+  });
+})
+
+// Version 20: Add scheduler choice to user_profiles and SM-2 state to verse_cards
+db.version(20).stores({
+  user_profiles: 'id, user_id, timezone, pending_email_verification, email_verification_sent_at, [user_id]',
+  verse_cards: 'id, user_id, verse_id, next_due_date, current_phase, archived, assigned_day_of_week, assigned_week_parity, assigned_day_of_month, [user_id+verse_id]',
+  verses: 'id, reference, translation, is_verified, [reference+translation]',
+  aliases: 'id, alias, verse_id, [alias], [verse_id]',
+  review_logs: 'id, user_id, verse_card_id, was_successful, created_at, [verse_card_id+user_id], [user_id+verse_card_id], [verse_card_id+created_at]',
+  syncQueue: 'id, userId, type, status, queuedAt, [userId+type], [status]'
+}).upgrade(async tx => {
+  await tx.table('verse_cards').toCollection().modify(card => {
+    card.ease_factor = card.ease_factor ?? SM2_DEFAULT_EASE;
+    card.interval_days = card.interval_days ?? 0;
+    card.repetitions = card.repetitions ?? 0;
+  });
+  await tx.table('user_profiles').toCollection().modify(profile => {
+    profile.scheduler = profile.scheduler ?? DEFAULT_SCHEDULER;
+  });
+})
+
+// Version 21: Add overdue catch-up cap to user_profiles and overdue days to review_logs
+db.version(21).stores({
+  user_profiles: 'id, user_id, timezone, pending_email_verification, email_verification_sent_at, [user_id]',
+  verse_cards: 'id, user_id, verse_id, next_due_date, current_phase, archived, assigned_day_of_week, assigned_week_parity, assigned_day_of_month, [user_id+verse_id]',
+  verses: 'id, reference, translation, is_verified, [reference+translation]',
+  aliases: 'id, alias, verse_id, [alias], [verse_id]',
+  review_logs: 'id, user_id, verse_card_id, was_successful, created_at, [verse_card_id+user_id], [user_id+verse_card_id], [verse_card_id+created_at]',
+  syncQueue: 'id, userId, type, status, queuedAt, [userId+type], [status]'
+}).upgrade(async tx => {
+  await tx.table('review_logs').toCollection().modify(log => {
+    log.overdue_days = log.overdue_days ?? null;
+  });
+  await tx.table('user_profiles').toCollection().modify(profile => {
+    profile.overdue_daily_cap = profile.overdue_daily_cap ?? DEFAULT_OVERDUE_DAILY_CAP;
+  });
+})
+
+// Version 22: Add vacation / pause mode to user_profiles
+db.version(22).stores({
+  user_profiles: 'id, user_id, timezone, pending_email_verification, email_verification_sent_at, [user_id]',
+  verse_cards: 'id, user_id, verse_id, next_due_date, current_phase, archived, assigned_day_of_week, assigned_week_parity, assigned_day_of_month, [user_id+verse_id]',
+  verses: 'id, reference, translation, is_verified, [reference+translation]',
+  aliases: 'id, alias, verse_id, [alias], [verse_id]',
+  review_logs: 'id, user_id, verse_card_id, was_successful, created_at, [verse_card_id+user_id], [user_id+verse_card_id], [verse_card_id+created_at]',
+  syncQueue: 'id, userId, type, status, queuedAt, [userId+type], [status]'
+}).upgrade(async tx => {
+  await tx.table('user_profiles').toCollection().modify(profile => {
+    profile.paused_from = profile.paused_from ?? null;
+    profile.paused_until = profile.paused_until ?? null;
+    profile.pause_history = profile.pause_history ?? [];
+  });
+})
+
+// Version 23: Add the learning queue - existing cards count as already introduced
+db.version(23).stores({
+  user_profiles: 'id, user_id, timezone, pending_email_verification, email_verification_sent_at, [user_id]',
+  verse_cards: 'id, user_id, verse_id, next_due_date, current_phase, archived, assigned_day_of_week, assigned_week_parity, assigned_day_of_month, [user_id+verse_id]',
+  verses: 'id, reference, translation, is_verified, [reference+translation]',
+  aliases: 'id, alias, verse_id, [alias], [verse_id]',
+  review_logs: 'id, user_id, verse_card_id, was_successful, created_at, [verse_card_id+user_id], [user_id+verse_card_id], [verse_card_id+created_at]',
+  syncQueue: 'id, userId, type, status, queuedAt, [userId+type], [status]'
+}).upgrade(async tx => {
+  await tx.table('verse_cards').toCollection().modify(card => {
+    card.introduced_at = card.introduced_at ?? card.last_reviewed_at ?? card.created_at;
+    card.queue_position = card.queue_position ?? null;
+  });
+  await tx.table('user_profiles').toCollection().modify(profile => {
+    profile.new_cards_per_day = profile.new_cards_per_day ?? DEFAULT_NEW_CARDS_PER_DAY;
+  });
+})
+
+// Version 24: Add the user-level daily streak - recalculated from review_logs on the next session
+db.version(24).stores({
+  user_profiles: 'id, user_id, timezone, pending_email_verification, email_verification_sent_at, [user_id]',
+  verse_cards: 'id, user_id, verse_id, next_due_date, current_phase, archived, assigned_day_of_week, assigned_week_parity, assigned_day_of_month, [user_id+verse_id]',
+  verses: 'id, reference, translation, is_verified, [reference+translation]',
+  aliases: 'id, alias, verse_id, [alias], [verse_id]',
+  review_logs: 'id, user_id, verse_card_id, was_successful, created_at, [verse_card_id+user_id], [user_id+verse_card_id], [verse_card_id+created_at]',
+  syncQueue: 'id, userId, type, status, queuedAt, [userId+type], [status]'
+}).upgrade(async tx => {
+  await tx.table('user_profiles').toCollection().modify(profile => {
+    profile.current_daily_streak = profile.current_daily_streak ?? 0;
+    profile.best_daily_streak = profile.best_daily_streak ?? 0;
+    profile.last_streak_date = profile.last_streak_date ?? null;
+  });
+})
+
+// Version 25: Add downloadable offline Bible packs
+db.version(25).stores({
+  user_profiles: 'id, user_id, timezone, pending_email_verification, email_verification_sent_at, [user_id]',
+  verse_cards: 'id, user_id, verse_id, next_due_date, current_phase, archived, assigned_day_of_week, assigned_week_parity, assigned_day_of_month, [user_id+verse_id]',
+  verses: 'id, reference, translation, is_verified, [reference+translation]',
+  aliases: 'id, alias, verse_id, [alias], [verse_id]',
+  review_logs: 'id, user_id, verse_card_id, was_successful, created_at, [verse_card_id+user_id], [user_id+verse_card_id], [verse_card_id+created_at]',
+  syncQueue: 'id, userId, type, status, queuedAt, [userId+type], [status]',
+  bible_packs: 'translation',
+  bible_chapters: 'id, translation'
+})
+
+// Version 26: Add passages - chunk cards and a chain card grouped by passage_id
+db.version(26).stores({
+  user_profiles: 'id, user_id, timezone, pending_email_verification, email_verification_sent_at, [user_id]',
+  verse_cards: 'id, user_id, verse_id, next_due_date, current_phase, archived, assigned_day_of_week, assigned_week_parity, assigned_day_of_month, passage_id, [user_id+verse_id]',
+  verses: 'id, reference, translation, is_verified, [reference+translation]',
+  aliases: 'id, alias, verse_id, [alias], [verse_id]',
+  review_logs: 'id, user_id, verse_card_id, was_successful, created_at, [verse_card_id+user_id], [user_id+verse_card_id], [verse_card_id+created_at]',
+  syncQueue: 'id, userId, type, status, queuedAt, [userId+type], [status]',
+  bible_packs: 'translation',
+  bible_chapters: 'id, translation'
+})
+
+// Version 27: Add projects table for whole-chapter memorization
+db.version(27).stores({
+  user_profiles: 'id, user_id, timezone, pending_email_verification, email_verification_sent_at, [user_id]',
+  verse_cards: 'id, user_id, verse_id, next_due_date, current_phase, archived, assigned_day_of_week, assigned_week_parity, assigned_day_of_month, passage_id, [user_id+verse_id]',
+  verses: 'id, reference, translation, is_verified, [reference+translation]',
+  aliases: 'id, alias, verse_id, [alias], [verse_id]',
+  review_logs: 'id, user_id, verse_card_id, was_successful, created_at, [verse_card_id+user_id], [user_id+verse_card_id], [verse_card_id+created_at]',
+  syncQueue: 'id, userId, type, status, queuedAt, [userId+type], [status]',
+  bible_packs: 'translation',
+  bible_chapters: 'id, translation',
+  projects: 'id, user_id, [user_id+book+chapter]'
+})
+
+// Version 28: Add review_sessions so an in-progress session survives the app closing
+db.version(28).stores({
+  user_profiles: 'id, user_id, timezone, pending_email_verification, email_verification_sent_at, [user_id]',
+  verse_cards: 'id, user_id, verse_id, next_due_date, current_phase, archived, assigned_day_of_week, assigned_week_parity, assigned_day_of_month, passage_id, [user_id+verse_id]',
+  verses: 'id, reference, translation, is_verified, [reference+translation]',
+  aliases: 'id, alias, verse_id, [alias], [verse_id]',
+  review_logs: 'id, user_id, verse_card_id, was_successful, created_at, [verse_card_id+user_id], [user_id+verse_card_id], [verse_card_id+created_at]',
+  syncQueue: 'id, userId, type, status, queuedAt, [userId+type], [status]',
+  bible_packs: 'translation',
+  bible_chapters: 'id, translation',
+  projects: 'id, user_id, [user_id+book+chapter]',
+  review_sessions: 'user_id'
+})
+
 // Database hooks for auto-timestamps, UUIDs, and validation
 db.verses.hook('creating', function (_primKey, obj, _trans) {
   const now = new Date().toISOString();
@@ -172,6 +473,18 @@ db.verse_cards.hook('creating', function (_primKey, obj, _trans) {
   obj.archived = obj.archived ?? false;
   obj.current_streak = obj.current_streak ?? 0;
   obj.best_streak = obj.best_streak ?? 0;
+  obj.consecutive_failures = obj.consecutive_failures ?? 0;
+  obj.ease_factor = obj.ease_factor ?? SM2_DEFAULT_EASE;
+  obj.interval_days = obj.interval_days ?? 0;
+  obj.repetitions = obj.repetitions ?? 0;
+
+  // New cards start in the learning queue
+  obj.introduced_at = obj.introduced_at ?? null;
+  obj.queue_position = obj.queue_position ?? null;
+  obj.promoted_at = obj.promoted_at ?? null;
+  obj.passage_id = obj.passage_id ?? null;
+  obj.passage_position = obj.passage_position ?? null;
+  obj.direction = obj.direction ?? 'forward';
 
   // Set assignment field defaults
   obj.assigned_day_of_week = obj.assigned_day_of_week ?? null;
@@ -194,6 +507,10 @@ db.review_logs.hook('creating', function (_primKey, obj, _trans) {
   const now = new Date().toISOString();
   obj.id = obj.id || uuidv4();
   obj.created_at = now;
+  obj.accuracy_percentage = obj.accuracy_percentage ?? null;
+  obj.grade = obj.grade ?? null;
+  obj.demoted_from_phase = obj.demoted_from_phase ?? null;
+  obj.overdue_days = obj.overdue_days ?? null;
 });
 
 db.user_profiles.hook('creating', function (_primKey, obj, _trans) {
@@ -206,6 +523,20 @@ db.user_profiles.hook('creating', function (_primKey, obj, _trans) {
   obj.preferred_translation = obj.preferred_translation || 'ESV';
   obj.reference_display_mode = obj.reference_display_mode || 'full';
   obj.timezone = obj.timezone || 'UTC';
+  obj.scheduler = obj.scheduler || DEFAULT_SCHEDULER;
+  obj.overdue_daily_cap = obj.overdue_daily_cap ?? DEFAULT_OVERDUE_DAILY_CAP;
+  obj.new_cards_per_day = obj.new_cards_per_day ?? DEFAULT_NEW_CARDS_PER_DAY;
+  obj.paused_from = obj.paused_from ?? null;
+  obj.paused_until = obj.paused_until ?? null;
+  obj.pause_history = obj.pause_history ?? [];
+  obj.current_daily_streak = obj.current_daily_streak ?? 0;
+  obj.best_daily_streak = obj.best_daily_streak ?? 0;
+  obj.last_streak_date = obj.last_streak_date ?? null;
+  obj.review_shortcuts = obj.review_shortcuts ?? null;
+  obj.review_order = obj.review_order || DEFAULT_REVIEW_ORDER;
+
+  // Phase settings default to the standard ladder
+  Object.assign(obj, phaseSettingsToProfileFields(getPhaseSettings(obj)));
 });
 
 db.user_profiles.hook('updating', function (modifications, _primKey, _obj, _trans) {
@@ -213,6 +544,25 @@ db.user_profiles.hook('updating', function (modifications, _primKey, _obj, _tran
   (modifications as any).updated_at = new Date().toISOString();
 });
 
+db.projects.hook('creating', function (_primKey, obj, _trans) {
+  const now = new Date().toISOString();
+  obj.id = obj.id || uuidv4();
+  obj.created_at = obj.created_at || now;
+  obj.updated_at = obj.updated_at || now;
+  obj.introduced_count = obj.introduced_count ?? 0;
+  obj.last_introduced_on = obj.last_introduced_on ?? null;
+  obj.chain_verse_id = obj.chain_verse_id ?? null;
+  obj.archived = obj.archived ?? false;
+});
+
+db.projects.hook('updating', function (modifications, _primKey, _obj, _trans) {
+  // Keep the remote timestamp when merging a synced project
+  if (!('updated_at' in modifications)) {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (modifications as any).updated_at = new Date().toISOString();
+  }
+});
+
 db.syncQueue.hook('creating', function (_primKey, obj, _trans) {
   obj.id = obj.id || uuidv4();
   obj.queuedAt = obj.queuedAt || new Date().toISOString();
@@ -308,10 +658,11 @@ export const localDb = {
 
   // Verse cards operations
   verseCards: {
-    async findByUserAndVerse(userId: string, verseId: string) {
+    async findByUserAndVerse(userId: string, verseId: string, direction: CardDirection = 'forward') {
       return db.verse_cards
         .where('[user_id+verse_id]')
         .equals([userId, verseId])
+        .filter(card => getCardDirection(card) === direction)
         .first();
     },
 
@@ -336,6 +687,17 @@ export const localDb = {
       return createdCard!;
     },
 
+    // New cards introduced today (UTC day, same as first-review detection) - counts against the daily limit.
+    // Cards the user promoted from the Library were extra, so they leave the day's slots alone
+    async countIntroducedToday(userId: string) {
+      const today = new Date().toISOString().split('T')[0];
+      return db.verse_cards
+        .where('user_id')
+        .equals(userId)
+        .filter(card => !!card.introduced_at && card.introduced_at.startsWith(today) && !card.promoted_at)
+        .count();
+    },
+
     async getByUser(userId: string) {
       const cards = await db.verse_cards
         .where('user_id')
@@ -372,7 +734,7 @@ export const localDb = {
       return db.verse_cards.get(id);
     },
 
-    async findByUserAndReference(userId: string, reference: string, translation: string = 'ESV'): Promise<LocalDBSchema['verse_cards'] | undefined> {
+    async findByUserAndReference(userId: string, reference: string, translation: string = 'ESV', direction: CardDirection = 'forward'): Promise<LocalDBSchema['verse_cards'] | undefined> {
       // First find the verse by reference
       const verse = await db.verses
         .where('[reference+translation]')
@@ -381,11 +743,8 @@ export const localDb = {
       
       if (!verse) return undefined;
       
-      // Then find the user's card for this verse
-      return db.verse_cards
-        .where('[user_id+verse_id]')
-        .equals([userId, verse.id!])
-        .first();
+      // Then find the user's card for this verse (reference → text unless asked otherwise)
+      return this.findByUserAndVerse(userId, verse.id!, direction);
     },
 
     async getReviewedToday(userId: string) {
@@ -415,10 +774,14 @@ export const localDb = {
 
   // Review logs operations
   reviewLogs: {
-    async create(log: Omit<LocalDBSchema['review_logs'], 'id' | 'created_at'>) {
+    async create(log: Omit<LocalDBSchema['review_logs'], 'id' | 'created_at' | 'accuracy_percentage' | 'grade' | 'demoted_from_phase' | 'overdue_days'> & Partial<Pick<LocalDBSchema['review_logs'], 'accuracy_percentage' | 'grade' | 'demoted_from_phase' | 'overdue_days'>>) {
       const now = new Date().toISOString();
       const logData: LocalDBSchema['review_logs'] = {
         ...log,
+        accuracy_percentage: log.accuracy_percentage ?? null,
+        grade: log.grade ?? null,
+        demoted_from_phase: log.demoted_from_phase ?? null,
+        overdue_days: log.overdue_days ?? null,
         created_at: now,
         id: uuidv4() // Always generate locally
       };
@@ -458,6 +821,18 @@ export const localDb = {
         .equals(userId)
         .filter(log => log.created_at >= startDateString)
         .toArray();
+    },
+
+    // Overdue cards caught up today (UTC day, same as first-review detection) - counts against the daily cap
+    async countOverdueToday(userId: string) {
+      const today = new Date().toISOString().split('T')[0];
+      const logs = await db.review_logs
+        .where('user_id')
+        .equals(userId)
+        .filter(log => log.created_at.startsWith(today) && (log.overdue_days ?? 0) > 0)
+        .toArray();
+      // One card can be reviewed several times a day
+      return new Set(logs.map(log => log.verse_card_id)).size;
     }
   },
 
@@ -478,6 +853,7 @@ export const localDb = {
         preferred_translation: profile.preferred_translation || 'ESV',
         reference_display_mode: profile.reference_display_mode || 'full',
         timezone: profile.timezone || 'UTC',
+        ...phaseSettingsToProfileFields(getPhaseSettings(profile)),
         created_at: now,
         updated_at: now,
         id: uuidv4() // Always generate locally
@@ -551,6 +927,88 @@ export const localDb = {
     }
   },
 
+  // Offline Bible pack operations
+  biblePacks: {
+    async getAll() {
+      return db.bible_packs.toArray();
+    },
+
+    async get(translation: string) {
+      return db.bible_packs.get(translation);
+    },
+
+    async save(pack: LocalDBSchema['bible_packs'], chapters: LocalDBSchema['bible_chapters'][]) {
+      await db.transaction('rw', db.bible_packs, db.bible_chapters, async (tx) => {
+        await tx.bible_chapters.where('translation').equals(pack.translation).delete();
+        await tx.bible_chapters.bulkAdd(chapters);
+        await tx.bible_packs.put(pack);
+      });
+    },
+
+    async delete(translation: string) {
+      await db.transaction('rw', db.bible_packs, db.bible_chapters, async (tx) => {
+        await tx.bible_chapters.where('translation').equals(translation).delete();
+        await tx.bible_packs.delete(translation);
+      });
+    },
+
+    async getChapterVerses(key: string) {
+      return (await db.bible_chapters.get(key))?.verses;
+    }
+  },
+
+  // Chapter project operations
+  projects: {
+    async getByUser(userId: string) {
+      return db.projects.where('user_id').equals(userId).toArray();
+    },
+
+    async findByChapter(userId: string, book: string, chapter: number) {
+      return db.projects
+        .where('[user_id+book+chapter]')
+        .equals([userId, book, chapter])
+        .first();
+    },
+
+    async get(id: string) {
+      return db.projects.get(id);
+    },
+
+    async create(project: Omit<LocalDBSchema['projects'], 'id' | 'created_at' | 'updated_at'>) {
+      const id = await db.projects.add(project as LocalDBSchema['projects']);
+      return (await db.projects.get(id))!;
+    },
+
+    async update(id: string, updates: Partial<Omit<LocalDBSchema['projects'], 'id' | 'user_id' | 'created_at'>>) {
+      await db.projects.update(id, updates);
+      return db.projects.get(id);
+    },
+
+    async put(project: LocalDBSchema['projects']) {
+      await db.projects.put(project);
+    }
+  },
+
+  // In-progress review session operations
+  reviewSessions: {
+    async get(userId: string) {
+      return (await db.review_sessions.get(userId))?.session;
+    },
+
+    async save(userId: string, session: ReviewSession) {
+      const now = new Date();
+      await db.review_sessions.put({
+        user_id: userId,
+        session: { ...session, savedAt: now.getTime() },
+        updated_at: now.toISOString()
+      });
+    },
+
+    async clear(userId: string) {
+      await db.review_sessions.delete(userId);
+    }
+  },
+
   // Batch helper functions
   batch: {
     async getUnverifiedVersesByUser(userId: string, limit = 50): Promise<LocalDBSchema['verses'][]> {
@@ -606,13 +1064,15 @@ export const localDb = {
 
   // Utility functions
   async clear() {
-    await db.transaction('rw', [db.user_profiles, db.verses, db.aliases, db.verse_cards, db.review_logs, db.syncQueue], async () => {
+    await db.transaction('rw', [db.user_profiles, db.verses, db.aliases, db.verse_cards, db.review_logs, db.syncQueue, db.projects, db.review_sessions], async () => {
       await db.user_profiles.clear();
       await db.verses.clear();
       await db.aliases.clear();
       await db.verse_cards.clear();
       await db.review_logs.clear();
       await db.syncQueue.clear();
+      await db.projects.clear();
+      await db.review_sessions.clear();
     });
   },
 
@@ -43,19 +43,31 @@ export type Database = {
         Row: {
           alias: string
           created_at: string | null
+          created_by: string | null
           id: string
+          last_used_at: string | null
+          translation: string
+          use_count: number
           verse_id: string
         }
         Insert: {
           alias: string
           created_at?: string | null
+          created_by?: string | null
           id?: string
+          last_used_at?: string | null
+          translation?: string
+          use_count?: number
           verse_id: string
         }
         Update: {
           alias?: string
           created_at?: string | null
+          created_by?: string | null
           id?: string
+          last_used_at?: string | null
+          translation?: string
+          use_count?: number
           verse_id?: string
         }
         Relationships: [
@@ -68,29 +80,89 @@ export type Database = {
           },
         ]
       }
+      projects: {
+        Row: {
+          archived: boolean
+          book: string
+          chain_verse_id: string | null
+          chapter: number
+          created_at: string | null
+          id: string
+          introduced_count: number
+          last_introduced_on: string | null
+          reference: string
+          updated_at: string | null
+          user_id: string
+          verse_count: number
+          verse_interval_days: number
+        }
+        Insert: {
+          archived?: boolean
+          book: string
+          chain_verse_id?: string | null
+          chapter: number
+          created_at?: string | null
+          id?: string
+          introduced_count?: number
+          last_introduced_on?: string | null
+          reference: string
+          updated_at?: string | null
+          user_id: string
+          verse_count: number
+          verse_interval_days?: number
+        }
+        Update: {
+          archived?: boolean
+          book?: string
+          chain_verse_id?: string | null
+          chapter?: number
+          created_at?: string | null
+          id?: string
+          introduced_count?: number
+          last_introduced_on?: string | null
+          reference?: string
+          updated_at?: string | null
+          user_id?: string
+          verse_count?: number
+          verse_interval_days?: number
+        }
+        Relationships: []
+      }
       review_logs: {
         Row: {
+          accuracy_percentage: number | null
           counted_toward_progress: boolean
           created_at: string | null
+          demoted_from_phase: string | null
+          grade: string | null
           id: string
+          overdue_days: number | null
           review_time_seconds: number | null
           user_id: string
           verse_card_id: string
           was_successful: boolean
         }
         Insert: {
+          accuracy_percentage?: number | null
           counted_toward_progress: boolean
           created_at?: string | null
+          demoted_from_phase?: string | null
+          grade?: string | null
           id?: string
+          overdue_days?: number | null
           review_time_seconds?: number | null
           user_id: string
           verse_card_id: string
           was_successful: boolean
         }
         Update: {
+          accuracy_percentage?: number | null
           counted_toward_progress?: boolean
           created_at?: string | null
+          demoted_from_phase?: string | null
+          grade?: string | null
           id?: string
+          overdue_days?: number | null
           review_time_seconds?: number | null
           user_id?: string
           verse_card_id?: string
@@ -108,37 +180,94 @@ export type Database = {
       }
       user_profiles: {
         Row: {
+          best_daily_streak: number
+          biweekly_interval_days: number
+          biweekly_phase_requirement: number
           created_at: string | null
+          current_daily_streak: number
+          daily_interval_days: number
+          daily_phase_requirement: number
+          demotion_failure_threshold: number
           email: string | null
           full_name: string | null
           id: string
+          last_streak_date: string | null
+          monthly_interval_days: number
+          new_cards_per_day: number
+          overdue_daily_cap: number
+          pause_history: Json
+          paused_from: string | null
+          paused_until: string | null
           preferred_translation: string | null
           reference_display_mode: string | null
+          review_order: string
+          review_shortcuts: Json | null
+          scheduler: string
           timezone: string | null
           updated_at: string | null
           user_id: string
+          weekly_interval_days: number
+          weekly_phase_requirement: number
         }
         Insert: {
+          best_daily_streak?: number
+          biweekly_interval_days?: number
+          biweekly_phase_requirement?: number
           created_at?: string | null
+          current_daily_streak?: number
+          daily_interval_days?: number
+          daily_phase_requirement?: number
+          demotion_failure_threshold?: number
           email?: string | null
           full_name?: string | null
           id?: string
+          last_streak_date?: string | null
+          monthly_interval_days?: number
+          new_cards_per_day?: number
+          overdue_daily_cap?: number
+          pause_history?: Json
+          paused_from?: string | null
+          paused_until?: string | null
           preferred_translation?: string | null
           reference_display_mode?: string | null
+          review_order?: string
+          review_shortcuts?: Json | null
+          scheduler?: string
           timezone?: string | null
           updated_at?: string | null
           user_id: string
+          weekly_interval_days?: number
+          weekly_phase_requirement?: number
         }
         Update: {
+          best_daily_streak?: number
+          biweekly_interval_days?: number
+          biweekly_phase_requirement?: number
           created_at?: string | null
+          current_daily_streak?: number
+          daily_interval_days?: number
+          daily_phase_requirement?: number
+          demotion_failure_threshold?: number
           email?: string | null
           full_name?: string | null
           id?: string
+          last_streak_date?: string | null
+          monthly_interval_days?: number
+          new_cards_per_day?: number
+          overdue_daily_cap?: number
+          pause_history?: Json
+          paused_from?: string | null
+          paused_until?: string | null
           preferred_translation?: string | null
           reference_display_mode?: string | null
+          review_order?: string
+          review_shortcuts?: Json | null
+          scheduler?: string
           timezone?: string | null
           updated_at?: string | null
           user_id?: string
+          weekly_interval_days?: number
+          weekly_phase_requirement?: number
         }
         Relationships: []
       }
@@ -149,13 +278,23 @@ export type Database = {
           assigned_day_of_week: number | null
           assigned_week_parity: number | null
           best_streak: number | null
+          consecutive_failures: number
           created_at: string | null
           current_phase: string
           current_streak: number
+          direction: string
+          ease_factor: number
           id: string
+          interval_days: number
+          introduced_at: string | null
           last_reviewed_at: string | null
           next_due_date: string
+          passage_id: string | null
+          passage_position: number | null
           phase_progress_count: number
+          promoted_at: string | null
+          queue_position: number | null
+          repetitions: number
           updated_at: string | null
           user_id: string
           verse_id: string
@@ -166,13 +305,23 @@ export type Database = {
           assigned_day_of_week?: number | null
           assigned_week_parity?: number | null
           best_streak?: number | null
+          consecutive_failures?: number
           created_at?: string | null
           current_phase?: string
           current_streak?: number
+          direction?: string
+          ease_factor?: number
           id?: string
+          interval_days?: number
+          introduced_at?: string | null
           last_reviewed_at?: string | null
           next_due_date?: string
+          passage_id?: string | null
+          passage_position?: number | null
           phase_progress_count?: number
+          promoted_at?: string | null
+          queue_position?: number | null
+          repetitions?: number
           updated_at?: string | null
           user_id: string
           verse_id: string
@@ -183,13 +332,23 @@ export type Database = {
           assigned_day_of_week?: number | null
           assigned_week_parity?: number | null
           best_streak?: number | null
+          consecutive_failures?: number
           created_at?: string | null
           current_phase?: string
           current_streak?: number
+          direction?: string
+          ease_factor?: number
           id?: string
+          interval_days?: number
+          introduced_at?: string | null
           last_reviewed_at?: string | null
           next_due_date?: string
+          passage_id?: string | null
+          passage_position?: number | null
           phase_progress_count?: number
+          promoted_at?: string | null
+          queue_position?: number | null
+          repetitions?: number
           updated_at?: string | null
           user_id?: string
           verse_id?: string
@@ -209,6 +368,7 @@ export type Database = {
           created_at: string | null
           id: string
           reference: string
+          segments: Json | null
           text: string
           translation: string
           updated_at: string | null
@@ -217,6 +377,7 @@ export type Database = {
           created_at?: string | null
           id?: string
           reference: string
+          segments?: Json | null
           text: string
           translation?: string
           updated_at?: string | null
@@ -225,6 +386,7 @@ export type Database = {
           created_at?: string | null
           id?: string
           reference?: string
+          segments?: Json | null
           text?: string
           translation?: string
           updated_at?: string | null
@@ -243,6 +405,7 @@ export type Database = {
           week_parity_param: number
           day_of_month_param: number
           user_timezone: string
+          interval_days?: number
         }
         Returns: string
       }
@@ -254,8 +417,16 @@ export type Database = {
           day_of_month: number
         }[]
       }
+      prune_unused_aliases: {
+        Args: { p_min_age?: unknown }
+        Returns: number
+      }
+      resume_user_schedule: {
+        Args: { p_resume_date: string }
+        Returns: Json
+      }
       rpc_create_alias: {
-        Args: { p_alias: string; p_verse_id: string }
+        Args: { p_alias: string; p_verse_id: string; p_user_id?: string }
         Returns: Json
       }
       rpc_create_verse: {
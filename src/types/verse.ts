@@ -4,7 +4,7 @@
  */
 
 // Reference display modes for memorization hints
-export type ReferenceDisplayMode = 'full' | 'first' | 'blank';
+export type ReferenceDisplayMode = 'full' | 'first' | 'blank' | 'cloze';
 
 // Session completion summary
 export interface SessionSummary {
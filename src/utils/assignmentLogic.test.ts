@@ -5,7 +5,10 @@
 
 // Mock the dateUtils module before importing the assignment logic
 jest.mock('./dateUtils', () => ({
+  formatDateToYYYYMMDD: jest.requireActual('./dateUtils').formatDateToYYYYMMDD,
+  formatDateInTimezone: jest.requireActual('./dateUtils').formatDateInTimezone,
   calculateUserDateValues: jest.fn(() => ({
+    timezone: 'UTC',
     userToday: new Date('2024-01-15'),
     userDayOfWeek: 1, // Sunday
     userWeekParity: 0,
@@ -17,6 +20,7 @@ import {
   isDueBasedOnAssignment, 
   filterDueCards, 
   countDueCards,
+  getOverdueDays,
   validateCardAssignments,
   explainCardDueStatus,
   type LibraryVerseCard,
@@ -37,7 +41,7 @@ const createMockCard = (
   assignedDayOfWeek,
   assignedWeekParity,
   assignedDayOfMonth,
-  nextDueDate: '2024-01-01',
+  nextDueDate: '2024-01-15', // Today - not overdue
   verse: {
     id: 'test-verse-1',
     reference: 'John 3:16',
@@ -50,8 +54,10 @@ const createMockCard = (
 const createMockUserCalculation = (
   dayOfWeek = 1, // Sunday
   weekParity = 0,
-  dayOfMonth = 15
+  dayOfMonth = 15,
+  timezone = 'UTC'
 ): AssignmentCalculation => ({
+  timezone,
   userToday: new Date('2024-01-15'), // Sunday
   userDayOfWeek: dayOfWeek,
   userWeekParity: weekParity,
@@ -130,6 +136,111 @@ describe('isDueBasedOnAssignment', () => {
   });
 });
 
+describe('isDueBasedOnAssignment with custom phase intervals', () => {
+  const on = (date: string) => ({ ...createMockUserCalculation(1), userToday: new Date(date) });
+
+  test('daily cards with a 3-day interval wait for their due date', () => {
+    // Reviewed 2024-01-13 with daily_interval_days = 3
+    const card = { ...createMockCard('daily'), nextDueDate: '2024-01-16' };
+    expect(isDueBasedOnAssignment(card, on('2024-01-14'))).toBe(false);
+    expect(isDueBasedOnAssignment(card, on('2024-01-15'))).toBe(false);
+    expect(isDueBasedOnAssignment(card, on('2024-01-16'))).toBe(true);
+  });
+
+  test('weekly cards with a 10-day interval skip a slot that comes too soon', () => {
+    // Reviewed 2024-01-12 with weekly_interval_days = 10 - no sooner than 2024-01-16,
+    // so the Monday slot of 2024-01-15 is skipped for 2024-01-22
+    const card = { ...createMockCard('weekly', false, 1), nextDueDate: '2024-01-22' };
+    expect(isDueBasedOnAssignment(card, on('2024-01-15'))).toBe(false);
+    expect(isDueBasedOnAssignment(card, on('2024-01-22'))).toBe(true);
+  });
+});
+
+describe('isDueBasedOnAssignment with SM-2 cards', () => {
+  const createSm2Card = (nextDueDate: string): LibraryVerseCard => ({
+    ...createMockCard('weekly', false, 2), // Assigned to Monday - ignored by SM-2
+    nextDueDate,
+    scheduler: 'sm2'
+  });
+
+  test('SM-2 card is due once its due date arrives', () => {
+    const userCalc = createMockUserCalculation(1);
+    expect(isDueBasedOnAssignment(createSm2Card('2024-01-10'), userCalc)).toBe(true);
+  });
+
+  test('SM-2 card is not due before its due date', () => {
+    const userCalc = createMockUserCalculation(2); // Monday - the assigned day
+    expect(isDueBasedOnAssignment(createSm2Card('2024-01-20'), userCalc)).toBe(false);
+  });
+
+  test('archived SM-2 card is not due', () => {
+    const card = { ...createSm2Card('2024-01-10'), archived: true };
+    expect(isDueBasedOnAssignment(card, createMockUserCalculation())).toBe(false);
+  });
+});
+
+describe('getOverdueDays', () => {
+  test('counts days since a missed due date', () => {
+    const card = { ...createMockCard('weekly', false, 2), nextDueDate: '2024-01-09' };
+    expect(getOverdueDays(card, createMockUserCalculation())).toBe(6);
+  });
+
+  test('is 0 when the card is not yet due', () => {
+    const card = { ...createMockCard('weekly', false, 2), nextDueDate: '2024-01-16' };
+    expect(getOverdueDays(card, createMockUserCalculation())).toBe(0);
+  });
+
+  test('is 0 when the card was reviewed since its due date', () => {
+    const card = {
+      ...createMockCard('weekly', false, 2),
+      nextDueDate: '2024-01-09',
+      lastReviewedAt: '2024-01-09T18:00:00Z'
+    };
+    expect(getOverdueDays(card, createMockUserCalculation())).toBe(0);
+  });
+
+  test('reads the last review date in the user\'s timezone', () => {
+    // 03:00 UTC on the due date is still the evening before in New York
+    const card = {
+      ...createMockCard('weekly', false, 2),
+      nextDueDate: '2024-01-09',
+      lastReviewedAt: '2024-01-09T03:00:00Z'
+    };
+    expect(getOverdueDays(card, createMockUserCalculation(1, 0, 15, 'UTC'))).toBe(0);
+    expect(getOverdueDays(card, createMockUserCalculation(1, 0, 15, 'America/New_York'))).toBe(6);
+
+    // 23:30 UTC the day before is already the due date in Tokyo
+    const reviewedLate = { ...card, lastReviewedAt: '2024-01-08T23:30:00Z' };
+    expect(getOverdueDays(reviewedLate, createMockUserCalculation(1, 0, 15, 'UTC'))).toBe(6);
+    expect(getOverdueDays(reviewedLate, createMockUserCalculation(1, 0, 15, 'Asia/Tokyo'))).toBe(0);
+  });
+
+  test('is 0 for archived cards', () => {
+    const card = { ...createMockCard('weekly', true, 2), nextDueDate: '2024-01-09' };
+    expect(getOverdueDays(card, createMockUserCalculation())).toBe(0);
+  });
+});
+
+describe('isDueBasedOnAssignment with overdue cards', () => {
+  test('missed weekly card stays due after its assigned day', () => {
+    const card = {
+      ...createMockCard('weekly', false, 2), // Monday - not today
+      nextDueDate: '2024-01-08',
+      lastReviewedAt: '2024-01-01T12:00:00Z'
+    };
+    expect(isDueBasedOnAssignment(card, createMockUserCalculation(1))).toBe(true);
+  });
+
+  test('reviewed card waits for its next slot', () => {
+    const card = {
+      ...createMockCard('weekly', false, 2),
+      nextDueDate: '2024-01-08',
+      lastReviewedAt: '2024-01-08T12:00:00Z'
+    };
+    expect(isDueBasedOnAssignment(card, createMockUserCalculation(1))).toBe(false);
+  });
+});
+
 describe('filterDueCards', () => {
   test('filters cards correctly based on assignment logic', () => {
     const cards = [
@@ -147,6 +258,128 @@ describe('filterDueCards', () => {
     expect(dueCards[0].currentPhase).toBe('daily');
     expect(dueCards[1].currentPhase).toBe('weekly');
   });
+
+  test('respects each card\'s scheduler', () => {
+    const cards = [
+      createMockCard('weekly', false, 2), // Phase ladder, not due (Monday)
+      { ...createMockCard('weekly', false, 2), scheduler: 'sm2' as const, nextDueDate: '2024-01-15' }, // SM-2, due today
+      { ...createMockCard('daily'), scheduler: 'sm2' as const, nextDueDate: '2024-01-16' } // SM-2, due tomorrow
+    ];
+
+    const dueCards = filterDueCards(cards, 'America/New_York');
+
+    expect(dueCards).toHaveLength(1);
+    expect(dueCards[0].scheduler).toBe('sm2');
+  });
+});
+
+describe('filterDueCards with an overdue cap', () => {
+  const createOverdueCard = (id: string, nextDueDate: string): LibraryVerseCard => ({
+    ...createMockCard('weekly', false, 2), // Monday - not today
+    id,
+    nextDueDate
+  });
+
+  const cards = [
+    createMockCard('daily'), // On schedule - never capped
+    createOverdueCard('overdue-2', '2024-01-13'),
+    createOverdueCard('overdue-10', '2024-01-05'),
+    createOverdueCard('overdue-5', '2024-01-10')
+  ];
+
+  test('includes every overdue card without a cap', () => {
+    expect(filterDueCards(cards, 'America/New_York')).toHaveLength(4);
+  });
+
+  test('keeps the most overdue cards up to the cap', () => {
+    const dueIds = filterDueCards(cards, 'America/New_York', { dailyCap: 2 }).map(card => card.id);
+    expect(dueIds).toEqual(['test-card-1', 'overdue-10', 'overdue-5']);
+  });
+
+  test('overdue cards already reviewed today count against the cap', () => {
+    const dueIds = filterDueCards(cards, 'America/New_York', { dailyCap: 2, reviewedToday: 1 }).map(card => card.id);
+    expect(dueIds).toEqual(['test-card-1', 'overdue-10']);
+  });
+
+  test('on-schedule cards are kept once the cap is used up', () => {
+    const dueCards = filterDueCards(cards, 'America/New_York', { dailyCap: 2, reviewedToday: 5 });
+    expect(dueCards).toHaveLength(1);
+    expect(dueCards[0].currentPhase).toBe('daily');
+  });
+
+  test('countDueCards applies the cap', () => {
+    expect(countDueCards(cards, 'America/New_York', { dailyCap: 1 })).toBe(2);
+  });
+});
+
+describe('filterDueCards while paused', () => {
+  const cards = [createMockCard('daily'), createMockCard('weekly', false, 1)];
+
+  test('returns nothing during a pause', () => {
+    const pause = { paused_from: '2024-01-10', paused_until: '2024-01-20' };
+    expect(filterDueCards(cards, 'America/New_York', { pause })).toEqual([]);
+  });
+
+  test('ignores a pause that has not started', () => {
+    const pause = { paused_from: '2024-01-16', paused_until: '2024-01-20' };
+    expect(filterDueCards(cards, 'America/New_York', { pause })).toHaveLength(2);
+  });
+});
+
+describe('filterDueCards with a learning queue', () => {
+  const createQueuedCard = (id: string, queuePosition: number | null, createdAt: string): LibraryVerseCard => ({
+    ...createMockCard('daily'),
+    id,
+    queued: true,
+    queuePosition,
+    createdAt
+  });
+
+  const cards = [
+    createMockCard('daily'), // Already learning
+    createQueuedCard('new-oldest', null, '2024-01-01T00:00:00Z'),
+    createQueuedCard('new-newest', null, '2024-01-03T00:00:00Z'),
+    createQueuedCard('new-moved-up', 0, '2024-01-05T00:00:00Z')
+  ];
+
+  test('queued cards are not due by assignment', () => {
+    expect(isDueBasedOnAssignment(cards[1], createMockUserCalculation())).toBe(false);
+  });
+
+  test('introduces every queued card without a limit', () => {
+    expect(filterDueCards(cards, 'America/New_York')).toHaveLength(4);
+  });
+
+  test('introduces queued cards in queue order up to the limit', () => {
+    const dueIds = filterDueCards(cards, 'America/New_York', { newCardsPerDay: 2 }).map(card => card.id);
+    expect(dueIds).toEqual(['test-card-1', 'new-moved-up', 'new-oldest']);
+  });
+
+  test('cards introduced today count against the limit', () => {
+    const dueIds = filterDueCards(cards, 'America/New_York', { newCardsPerDay: 2, introducedToday: 2 }).map(card => card.id);
+    expect(dueIds).toEqual(['test-card-1']);
+  });
+
+  test('explains queued cards', () => {
+    expect(explainCardDueStatus(cards[1], 'America/New_York')).toBe('Card is in the learning queue');
+  });
+});
+
+describe('filterDueCards with a locked passage chain', () => {
+  const lockedChain: LibraryVerseCard = { ...createMockCard('daily'), id: 'chain', queued: true, locked: true };
+
+  test('locked chain cards are neither due nor introduced from the queue', () => {
+    expect(isDueBasedOnAssignment({ ...lockedChain, queued: false }, createMockUserCalculation())).toBe(false);
+    expect(filterDueCards([lockedChain], 'America/New_York')).toHaveLength(0);
+  });
+
+  test('an unlocked chain card is introduced like any queued card', () => {
+    expect(filterDueCards([{ ...lockedChain, locked: false }], 'America/New_York')).toHaveLength(1);
+  });
+
+  test('explains locked chain cards', () => {
+    expect(explainCardDueStatus(lockedChain, 'America/New_York')).toBe('Passage is waiting for its chunks to reach weekly');
+  });
 });
 
 describe('countDueCards', () => {
@@ -262,4 +495,12 @@ describe('explainCardDueStatus', () => {
     expect(explanation).toContain('weekly');
     expect(explanation).toContain('assigned DOW 1');
   });
+
+  test('explains overdue cards', () => {
+    const card = { ...createMockCard('weekly', false, 2), nextDueDate: '2024-01-08' };
+
+    const explanation = explainCardDueStatus(card, 'America/New_York');
+
+    expect(explanation).toContain('Due (overdue by 7 days)');
+  });
 });
\ No newline at end of file
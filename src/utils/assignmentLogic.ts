@@ -6,10 +6,13 @@
  * comparison with phase-aware scheduling based on user timezone.
  */
 
-import { calculateUserDateValues } from './dateUtils';
+import { calculateUserDateValues, formatDateInTimezone, formatDateToYYYYMMDD } from './dateUtils';
+import { getScheduler, type SchedulerType } from './spacedRepetition';
+import { isPausedOn, type PauseState } from './pauseSchedule';
 
 // Types for assignment-based scheduling
 export interface AssignmentCalculation {
+  timezone: string; // The user's timezone - userToday and the values below are in it
   userToday: Date;
   userDayOfWeek: number;
   userWeekParity: number;
@@ -24,6 +27,12 @@ export interface LibraryVerseCard {
   assignedWeekParity: number | null;
   assignedDayOfMonth: number | null;
   nextDueDate: string;
+  lastReviewedAt?: string | null;
+  scheduler?: SchedulerType; // Defaults to the phase ladder
+  queued?: boolean;          // New card waiting in the learning queue
+  queuePosition?: number | null;
+  createdAt?: string;        // Queue tie-breaker
+  locked?: boolean;          // Passage chain card waiting for its chunks (see passages.ts)
   verse: {
     id: string;
     reference: string;
@@ -39,29 +48,100 @@ export interface ReviewPhaseCard {
   assignedDayOfWeek?: number | null;
   assignedWeekParity?: number | null;
   assignedDayOfMonth?: number | null;
+  nextDueDate?: string;
+  lastReviewedAt?: string | null;
+  scheduler?: SchedulerType; // Defaults to the phase ladder
+  queued?: boolean;          // New card waiting in the learning queue
+  queuePosition?: number | null;
+  createdAt?: string;        // Queue tie-breaker
+  locked?: boolean;          // Passage chain card waiting for its chunks (see passages.ts)
 }
 
+// Per-user options for building today's due list
+export interface DueCardOptions {
+  dailyCap?: number;            // Max overdue cards per day (0 or undefined = no cap)
+  reviewedToday?: number;       // Overdue cards already caught up today - counts against the cap
+  pause?: PauseState | null;    // Nothing is due while the user's schedule is paused
+  newCardsPerDay?: number;      // Queued cards introduced per day (0 or undefined = no limit)
+  introducedToday?: number;     // New cards already introduced today - counts against the limit
+}
+
+// Default per-user catch-up cap (user_profiles.overdue_daily_cap)
+export const DEFAULT_OVERDUE_DAILY_CAP = 20;
+export const OVERDUE_DAILY_CAP_LIMITS = { min: 0, max: 200 } as const;
+
+// Default per-user learning queue limit (user_profiles.new_cards_per_day)
+export const DEFAULT_NEW_CARDS_PER_DAY = 5;
+export const NEW_CARDS_PER_DAY_LIMITS = { min: 0, max: 50 } as const;
+
+const MS_PER_DAY = 86400000;
+
 /**
- * Determines if a card is due based on assignment logic (mirrors SQL due_cards_view)
+ * Days a card is overdue - its due date passed without a review since.
+ * Returns 0 for cards that are not overdue.
+ */
+export function getOverdueDays(
+  card: LibraryVerseCard | ReviewPhaseCard,
+  userCalculation: AssignmentCalculation
+): number {
+  if (card.archived || card.queued || card.locked || !card.nextDueDate) {
+    return 0;
+  }
+
+  const today = formatDateToYYYYMMDD(userCalculation.userToday);
+  if (card.nextDueDate >= today) {
+    return 0;
+  }
+
+  // Reviewed on or after the due date - waiting for the next slot, not overdue.
+  // Due dates are the user's calendar days, so the review time is read in their timezone
+  const lastReviewedDate = card.lastReviewedAt
+    ? formatDateInTimezone(new Date(card.lastReviewedAt), userCalculation.timezone)
+    : null;
+  if (lastReviewedDate && lastReviewedDate >= card.nextDueDate) {
+    return 0;
+  }
+
+  const [year, month, day] = card.nextDueDate.split('-').map(Number);
+  const dueDate = Date.UTC(year, month - 1, day);
+  const todayDate = Date.UTC(
+    userCalculation.userToday.getFullYear(),
+    userCalculation.userToday.getMonth(),
+    userCalculation.userToday.getDate()
+  );
+  return Math.round((todayDate - dueDate) / MS_PER_DAY);
+}
+
+/**
+ * Determines if a card is on the schedule for the calculation's day (mirrors SQL due_cards_view)
  * 
  * This function implements the exact same logic as the SQL migration:
- * - Daily cards are always due
+ * - Cards on a date-based scheduler (SM-2) are due once next_due_date arrives
+ * - Phase cards are never due before next_due_date - it carries the user's phase
+ *   interval, so a longer interval skips slots (see calculate_next_assigned_date)
+ * - Daily cards are due every day from then on
  * - Weekly cards due on assigned weekday
  * - Biweekly cards due on assigned weekday + week parity
  * - Monthly cards due on assigned day of month (1-28 only)
  */
-export function isDueBasedOnAssignment(
+export function isScheduledToday(
   card: LibraryVerseCard | ReviewPhaseCard,
   userCalculation: AssignmentCalculation
 ): boolean {
-  // Archived cards are never due
-  if (card.archived) {
+  const today = formatDateToYYYYMMDD(userCalculation.userToday);
+
+  // Date-based schedulers ignore phase assignments
+  if (getScheduler(card.scheduler).dueBy === 'date') {
+    return card.nextDueDate === today;
+  }
+
+  if (card.nextDueDate && card.nextDueDate > today) {
     return false;
   }
 
   switch (card.currentPhase) {
     case 'daily':
-      // Daily cards are always due
+      // Daily cards are due whenever their interval has passed
       return true;
 
     case 'weekly':
@@ -89,17 +169,77 @@ export function isDueBasedOnAssignment(
 }
 
 /**
- * Filters an array of cards to return only those that are due based on assignments
+ * Determines if a card is due: on today's schedule, or overdue from a missed slot
+ */
+export function isDueBasedOnAssignment(
+  card: LibraryVerseCard | ReviewPhaseCard,
+  userCalculation: AssignmentCalculation
+): boolean {
+  // Archived and locked cards are never due; queued cards are introduced by filterDueCards
+  if (card.archived || card.queued || card.locked) {
+    return false;
+  }
+
+  return isScheduledToday(card, userCalculation) || getOverdueDays(card, userCalculation) > 0;
+}
+
+/**
+ * Orders queued cards for introduction - explicit queue position first, then oldest first
+ */
+export function sortLearningQueue<T extends LibraryVerseCard | ReviewPhaseCard>(cards: T[]): T[] {
+  return [...cards].sort((a, b) => {
+    const positionA = a.queuePosition ?? Number.MAX_SAFE_INTEGER;
+    const positionB = b.queuePosition ?? Number.MAX_SAFE_INTEGER;
+    if (positionA !== positionB) {
+      return positionA - positionB;
+    }
+    return (a.createdAt ?? '').localeCompare(b.createdAt ?? '');
+  });
+}
+
+/**
+ * Filters an array of cards to return only those that are due based on assignments.
+ * Cards on today's schedule are always included; overdue cards are added most overdue
+ * first up to the daily cap, so a large backlog is spread over the following days.
+ * New cards wait in the learning queue and are introduced a few per day; a passage's chain
+ * card joins the queue once all its chunks are learned.
+ * Returns nothing while the user's schedule is paused.
  */
 export function filterDueCards(
   cards: LibraryVerseCard[] | ReviewPhaseCard[],
-  timezone: string
+  timezone: string,
+  options: DueCardOptions = {}
 ): (LibraryVerseCard | ReviewPhaseCard)[] {
   const userCalculation = calculateUserDateValues(timezone);
+
+  if (isPausedOn(options.pause, formatDateToYYYYMMDD(userCalculation.userToday))) {
+    return [];
+  }
   
-  return cards.filter(card => 
+  const dueCards = cards.filter(card => 
     isDueBasedOnAssignment(card, userCalculation)
   );
+
+  // Next cards from the learning queue, up to today's remaining allowance
+  const queuedCards = sortLearningQueue(
+    (cards as (LibraryVerseCard | ReviewPhaseCard)[]).filter(card => card.queued && !card.archived && !card.locked)
+  );
+  const newCards = options.newCardsPerDay
+    ? queuedCards.slice(0, Math.max(0, options.newCardsPerDay - (options.introducedToday ?? 0)))
+    : queuedCards;
+
+  if (!options.dailyCap) {
+    return [...dueCards, ...newCards];
+  }
+
+  // Cards due only because they are overdue share today's catch-up allowance
+  const catchUpCards = dueCards
+    .filter(card => !isScheduledToday(card, userCalculation))
+    .sort((a, b) => getOverdueDays(b, userCalculation) - getOverdueDays(a, userCalculation));
+  const allowance = Math.max(0, options.dailyCap - (options.reviewedToday ?? 0));
+  const deferred = new Set(catchUpCards.slice(allowance));
+
+  return [...dueCards.filter(card => !deferred.has(card)), ...newCards];
 }
 
 /**
@@ -107,9 +247,10 @@ export function filterDueCards(
  */
 export function countDueCards(
   cards: LibraryVerseCard[] | ReviewPhaseCard[],
-  timezone: string
+  timezone: string,
+  options: DueCardOptions = {}
 ): number {
-  return filterDueCards(cards, timezone).length;
+  return filterDueCards(cards, timezone, options).length;
 }
 
 /**
@@ -239,8 +380,17 @@ export function explainCardDueStatus(
     return 'Card is archived';
   }
 
+  if (card.locked) {
+    return 'Passage is waiting for its chunks to reach weekly';
+  }
+
+  if (card.queued) {
+    return 'Card is in the learning queue';
+  }
+
   const userCalculation = calculateUserDateValues(timezone);
   const isDue = isDueBasedOnAssignment(card, userCalculation);
+  const overdueDays = getOverdueDays(card, userCalculation);
 
   const debugInfo = [
     `Phase: ${card.currentPhase}`,
@@ -250,8 +400,17 @@ export function explainCardDueStatus(
     `Assigned DOW: ${card.assignedDayOfWeek}`,
     `Assigned Week Parity: ${card.assignedWeekParity}`,
     `Assigned DOM: ${card.assignedDayOfMonth}`,
+    `Next Due: ${card.nextDueDate}`,
   ].join(', ');
 
+  if (overdueDays > 0 && !isScheduledToday(card, userCalculation)) {
+    return `Due (overdue by ${overdueDays} day${overdueDays === 1 ? '' : 's'}). ${debugInfo}`;
+  }
+
+  if (!isDue && card.nextDueDate && card.nextDueDate > formatDateToYYYYMMDD(userCalculation.userToday)) {
+    return `Not due (waiting for next due date ${card.nextDueDate}). ${debugInfo}`;
+  }
+
   switch (card.currentPhase) {
     case 'daily':
       return `Due (daily always due). ${debugInfo}`;
@@ -3,7 +3,7 @@
  * Handles parsing user input into individual verse card requests
  */
 
-import { parseBatchVerseInput, type BatchParseResult, type VerseCardRequest } from './batchVerseParser';
+import { parseBatchVerseInput, preValidateBatch, type BatchParseResult, type VerseCardRequest } from './batchVerseParser';
 
 describe('batchVerseParser', () => {
   describe('Single verse parsing', () => {
@@ -160,6 +160,25 @@ describe('batchVerseParser', () => {
     });
   });
 
+  describe('Out-of-range references', () => {
+    it('should flag chapters and verses that do not exist', () => {
+      const result = parseBatchVerseInput('John 3:99; Romans 8:28; Psalm 151');
+
+      expect(result.cards.map(card => card.rangeError)).toEqual([
+        'Verse number too high: John 3 only has 36 verses',
+        undefined,
+        'Psalm only has 150 chapters'
+      ]);
+    });
+
+    it('should treat flagged cards as invalid', () => {
+      const { likelyValid, likelyInvalid } = preValidateBatch(parseBatchVerseInput('John 3:99; Romans 8:28').cards);
+
+      expect(likelyValid.map(card => card.reference)).toEqual(['Romans 8:28']);
+      expect(likelyInvalid.map(card => card.reference)).toEqual(['John 3:99']);
+    });
+  });
+
   describe('Normalization for aliases', () => {
     it('should normalize references for alias creation', () => {
       const input = 'Jn 3:16; Rom 8:28';
@@ -8,6 +8,7 @@
  */
 
 import { normalizeReferenceForLookup } from './referenceNormalizer';
+import { findReferenceRangeError } from './bibleRefParser';
 
 export interface VerseCardRequest {
   id: string;
@@ -15,6 +16,7 @@ export interface VerseCardRequest {
   originalReference: string; // Original user input (e.g., "eph 4:1,2,3")
   normalizedReference: string;
   originalNormalizedReference: string; // Normalized original input (e.g., "eph41,2,3")
+  rangeError?: string; // Set when a chapter or verse doesn't exist (e.g., "John 3 only has 36 verses")
 }
 
 export interface BatchParseResult {
@@ -215,7 +217,8 @@ export function parseBatchVerseInput(input: string): BatchParseResult {
       reference: optimizedRef,
       originalReference: originalRef,
       normalizedReference: normalizedOptimizedRef,
-      originalNormalizedReference: normalizeReferenceForLookup(originalRef)
+      originalNormalizedReference: normalizeReferenceForLookup(originalRef),
+      rangeError: findReferenceRangeError(optimizedRef) ?? undefined
     };
   });
   
@@ -224,7 +227,7 @@ export function parseBatchVerseInput(input: string): BatchParseResult {
 
 /**
  * Simple pre-validation to filter out obviously invalid input
- * Lets ESV API handle all real Bible reference validation
+ * Lets ESV API handle all real Bible reference validation beyond chapter/verse ranges
  */
 export function isLikelyValidReference(reference: string): boolean {
   return looksLikeVerseReference(reference);
@@ -241,7 +244,7 @@ export function preValidateBatch(cards: VerseCardRequest[]): {
   const likelyInvalid: VerseCardRequest[] = [];
   
   for (const card of cards) {
-    if (isLikelyValidReference(card.reference)) {
+    if (!card.rangeError && isLikelyValidReference(card.reference)) {
       likelyValid.push(card);
     } else {
       likelyInvalid.push(card);
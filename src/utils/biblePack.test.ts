@@ -0,0 +1,104 @@
+// Tests for offline Bible pack lookup
+import { BIBLE_BOOKS } from './bibleRefParser';
+import {
+  chapterKey,
+  datasetToChapters,
+  formatPassageReference,
+  parsePassageReference,
+  resolvePassage,
+  type BiblePackDataset
+} from './biblePack';
+
+// A tiny pack: every chapter has three verses "<Book> <chapter>:<verse>"
+const createDataset = (): BiblePackDataset => ({
+  translation: 'KJV',
+  name: 'King James Version',
+  books: BIBLE_BOOKS.map(book =>
+    Array.from({ length: 3 }, (_, chapter) =>
+      Array.from({ length: 3 }, (_, verse) => `${book} ${chapter + 1}:${verse + 1}`)
+    )
+  )
+});
+
+const chapters = new Map(datasetToChapters(createDataset()).map(row => [row.id, row.verses]));
+const loadChapter = async (key: string) => chapters.get(key);
+
+describe('parsePassageReference', () => {
+  test('parses single verses, ranges and abbreviations', () => {
+    expect(parsePassageReference('jn 3:2-3')).toEqual([
+      { book: 'John', startChapter: 3, startVerse: 2, endChapter: 3, endVerse: 3 }
+    ]);
+    expect(parsePassageReference('1 Cor 13.4')).toEqual([
+      { book: '1 Corinthians', startChapter: 13, startVerse: 4, endChapter: 13, endVerse: 4 }
+    ]);
+  });
+
+  test('parses whole chapters and cross-chapter ranges', () => {
+    expect(parsePassageReference('Psalm 23')[0]).toMatchObject({ startChapter: 23, startVerse: null, endVerse: null });
+    expect(parsePassageReference('Romans 8:28-9:1')[0]).toMatchObject({ startChapter: 8, startVerse: 28, endChapter: 9, endVerse: 1 });
+  });
+
+  test('continues the previous book and chapter after commas', () => {
+    expect(parsePassageReference('Matt 5:3-7, 10; John 1:1').map(formatPassageReference)).toEqual([
+      'Matthew 5:3–7',
+      'Matthew 5:10',
+      'John 1:1'
+    ]);
+  });
+
+  test('treats numbers in single-chapter books as verses', () => {
+    expect(parsePassageReference('Jude 3')[0]).toMatchObject({ startChapter: 1, startVerse: 3, endVerse: 3 });
+  });
+
+  test('rejects unknown books', () => {
+    expect(() => parsePassageReference('Hezekiah 1:1')).toThrow('Invalid book name');
+  });
+});
+
+describe('formatPassageReference', () => {
+  test('matches the canonical reference style', () => {
+    const format = (reference: string) => parsePassageReference(reference).map(formatPassageReference).join('; ');
+    expect(format('ps 23')).toBe('Psalm 23');
+    expect(format('Psalms 23-24')).toBe('Psalms 23–24');
+    expect(format('Jude 1:3')).toBe('Jude 3');
+    expect(format('rom 8:28-9:1')).toBe('Romans 8:28–9:1');
+  });
+});
+
+describe('datasetToChapters', () => {
+  test('stores one row per chapter keyed by translation, book and chapter', () => {
+    const rows = datasetToChapters(createDataset());
+    expect(rows).toHaveLength(BIBLE_BOOKS.length * 3);
+    expect(rows[0]).toEqual({
+      id: chapterKey('KJV', 'Genesis', 1),
+      translation: 'KJV',
+      book: 'Genesis',
+      chapter: 1,
+      verses: ['Genesis 1:1', 'Genesis 1:2', 'Genesis 1:3']
+    });
+  });
+
+  test('rejects incomplete packs', () => {
+    expect(() => datasetToChapters({ ...createDataset(), books: [] })).toThrow('expected 66 books');
+  });
+});
+
+describe('resolvePassage', () => {
+  test('joins verses within a passage and separates passages', async () => {
+    const passage = await resolvePassage('John 1:2-3; Jude 1', 'KJV', loadChapter);
+    expect(passage).toEqual({
+      reference: 'John 1:2–3; Jude 1',
+      text: 'John 1:2 John 1:3\n\nJude 1:1'
+    });
+  });
+
+  test('reads across chapters', async () => {
+    const passage = await resolvePassage('Romans 1:3-2:1', 'KJV', loadChapter);
+    expect(passage.text).toBe('Romans 1:3 Romans 2:1');
+  });
+
+  test('reports verses that are out of range', async () => {
+    await expect(resolvePassage('John 1:4', 'KJV', loadChapter)).rejects.toThrow('John 1 has 3 verses');
+    await expect(resolvePassage('John 9:1', 'KJV', loadChapter)).rejects.toThrow('no chapter 9');
+  });
+});
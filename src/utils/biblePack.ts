@@ -0,0 +1,206 @@
+/**
+ * Offline Bible packs
+ *
+ * A downloaded public-domain translation is stored one chapter per row so a reference can
+ * be resolved without a network connection. References are read with bibleRefParser;
+ * passage splitting and formatting mirror supabase/functions/_shared/bibleBooks.ts and the
+ * bundled provider in bibleProviders.ts, so a verse resolved offline has the same canonical
+ * reference and text as one created by the verse-operations edge function.
+ */
+
+import { BIBLE_BOOKS, getChapterCount, normalizeBookName, parseBibleReference } from './bibleRefParser';
+
+// Dataset served by the bible-pack edge function: verse text by [book][chapter][verse]
+export interface BiblePackDataset {
+  translation: string;
+  name: string;
+  books: string[][][];
+}
+
+// One stored chapter of a pack
+export interface BibleChapter {
+  id: string;          // See chapterKey
+  translation: string;
+  book: string;        // Canonical book name
+  chapter: number;
+  verses: string[];
+}
+
+// One contiguous passage - verses are null for whole chapters
+export interface PassageRange {
+  book: string;
+  startChapter: number;
+  startVerse: number | null;
+  endChapter: number;
+  endVerse: number | null;
+}
+
+export interface ResolvedPassage {
+  reference: string; // Canonical reference
+  text: string;
+}
+
+export function chapterKey(translation: string, book: string, chapter: number): string {
+  return `${translation}:${book}:${chapter}`;
+}
+
+/**
+ * Splits a downloaded dataset into chapter rows
+ */
+export function datasetToChapters(dataset: BiblePackDataset): BibleChapter[] {
+  if (dataset.books.length !== BIBLE_BOOKS.length) {
+    throw new Error(`Invalid Bible pack: expected ${BIBLE_BOOKS.length} books, found ${dataset.books.length}`);
+  }
+
+  return dataset.books.flatMap((chapters, bookIndex) =>
+    chapters.map((verses, chapterIndex) => ({
+      id: chapterKey(dataset.translation, BIBLE_BOOKS[bookIndex], chapterIndex + 1),
+      translation: dataset.translation,
+      book: BIBLE_BOOKS[bookIndex],
+      chapter: chapterIndex + 1,
+      verses
+    }))
+  );
+}
+
+function isSingleChapterBook(book: string): boolean {
+  return getChapterCount(book) === 1;
+}
+
+/**
+ * Reads one reference with parseBibleReference, which validates it against the
+ * versification table
+ */
+function parseRange(reference: string): PassageRange {
+  const parsed = parseBibleReference(reference);
+  const book = parsed.book === 'Psalm' ? 'Psalms' : parsed.book;
+
+  if (parsed.startChapter !== undefined && parsed.endChapter !== undefined) {
+    return {
+      book,
+      startChapter: parsed.startChapter,
+      startVerse: parsed.startVerse ?? null,
+      endChapter: parsed.endChapter,
+      endVerse: parsed.endVerse ?? null
+    };
+  }
+  const chapter = parsed.chapter!;
+  const startVerse = parsed.startVerse ?? null;
+  return { book, startChapter: chapter, startVerse, endChapter: chapter, endVerse: parsed.endVerse ?? startVerse };
+}
+
+/**
+ * Parses a reference such as "John 3:16", "Ps 23", "Rom 8:28-9:1" or
+ * "Matt 5:3-7, 10; John 1:1" into contiguous passages
+ */
+export function parsePassageReference(reference: string): PassageRange[] {
+  const passages: PassageRange[] = [];
+
+  for (const part of reference.split(';')) {
+    let book: string | null = null;
+    let chapter: number | null = null;
+
+    for (const piece of part.split(',')) {
+      const text = piece.trim().replace(/[–—]/g, '-').replace(/\s*([:.-])\s*/g, '$1');
+      if (!text) continue;
+
+      const match = text.match(/^(?:((?:[1-3]\s*)?[a-z][a-z .]*?)\s*)?(\d[\d:.-]*)$/i);
+      if (!match) {
+        throw new Error(`Invalid Bible reference: "${reference}"`);
+      }
+
+      const [, bookPart, numbers] = match;
+      if (bookPart) {
+        book = normalizeBookName(bookPart);
+        chapter = null;
+      }
+      if (!book) {
+        throw new Error(`Invalid Bible reference: "${reference}"`);
+      }
+
+      const location = numbers.replace(/\./g, ':');
+      let range: PassageRange;
+
+      if (isSingleChapterBook(book) && bookPart && !location.includes(':')) {
+        // "Jude 3" / "Jude 3-5" refer to verses
+        range = parseRange(`${book} 1:${location}`);
+      } else if (!bookPart && chapter !== null && !location.includes(':')) {
+        // "..., 10" / "..., 10-12" continue the previous chapter
+        range = parseRange(`${book} ${chapter}:${location}`);
+      } else if (!location.includes(':')) {
+        // Whole chapters: "Psalm 23" / "Psalm 23-24"
+        const [startChapter, endChapter = startChapter] = location.split('-');
+        range = { ...parseRange(`${book} ${startChapter}`), endChapter: parseRange(`${book} ${endChapter}`).endChapter };
+      } else {
+        range = parseRange(`${book} ${location}`);
+      }
+
+      passages.push(range);
+      chapter = range.endChapter;
+    }
+  }
+
+  if (passages.length === 0) {
+    throw new Error(`Invalid Bible reference: "${reference}"`);
+  }
+  return passages;
+}
+
+/**
+ * Formats a passage the way the ESV API's canonical references read ("Psalm 23", "John 3:16–18", "Jude 3")
+ */
+export function formatPassageReference(range: PassageRange): string {
+  const { book, startChapter, startVerse, endChapter, endVerse } = range;
+  const singleChapter = startChapter === endChapter;
+  const name = book === 'Psalms' && singleChapter ? 'Psalm' : book;
+
+  if (startVerse === null || endVerse === null) {
+    return singleChapter ? `${name} ${startChapter}` : `${name} ${startChapter}–${endChapter}`;
+  }
+  if (isSingleChapterBook(book)) {
+    return startVerse === endVerse ? `${name} ${startVerse}` : `${name} ${startVerse}–${endVerse}`;
+  }
+  if (!singleChapter) {
+    return `${name} ${startChapter}:${startVerse}–${endChapter}:${endVerse}`;
+  }
+  return startVerse === endVerse
+    ? `${name} ${startChapter}:${startVerse}`
+    : `${name} ${startChapter}:${startVerse}–${endVerse}`;
+}
+
+/**
+ * Resolves a reference against a stored pack. `loadChapter` returns a chapter's verses,
+ * or undefined if the chapter doesn't exist.
+ */
+export async function resolvePassage(
+  reference: string,
+  translation: string,
+  loadChapter: (key: string) => Promise<string[] | undefined>
+): Promise<ResolvedPassage> {
+  const sanitizedReference = reference.replace(/\s+/g, ' ').trim();
+  const ranges = parsePassageReference(sanitizedReference);
+  const passages: string[] = [];
+
+  for (const range of ranges) {
+    const verses: string[] = [];
+    for (let chapter = range.startChapter; chapter <= range.endChapter; chapter++) {
+      const chapterVerses = await loadChapter(chapterKey(translation, range.book, chapter));
+      if (!chapterVerses) {
+        throw new Error(`Invalid Bible reference: "${sanitizedReference}". ${range.book} has no chapter ${chapter}.`);
+      }
+
+      const first = chapter === range.startChapter && range.startVerse !== null ? range.startVerse : 1;
+      const last = chapter === range.endChapter && range.endVerse !== null ? range.endVerse : chapterVerses.length;
+      if (first < 1 || last > chapterVerses.length || first > last) {
+        throw new Error(`Invalid Bible reference: "${sanitizedReference}". ${range.book} ${chapter} has ${chapterVerses.length} verses.`);
+      }
+      verses.push(...chapterVerses.slice(first - 1, last));
+    }
+    passages.push(verses.map(verse => verse.trim()).join(' '));
+  }
+
+  return {
+    reference: ranges.map(formatPassageReference).join('; '),
+    text: passages.join('\n\n')
+  };
+}
@@ -3,8 +3,16 @@ import {
   parseBibleReference, 
   parseMultipleReferences, 
   validateBibleReference,
-  normalizeBookName
+  normalizeBookName,
+  getVerseCount,
+  findReferenceRangeError,
+  BIBLE_BOOKS,
+  BOOK_VERSE_COUNTS
 } from './bibleRefParser';
+import {
+  BIBLE_BOOKS as EDGE_BIBLE_BOOKS,
+  VERSE_COUNTS as EDGE_VERSE_COUNTS
+} from '../../supabase/functions/_shared/bibleBooks';
 
 describe('Bible Reference Parser (TDD)', () => {
   // These functions don't exist yet - this should fail!
@@ -176,6 +184,36 @@ describe('Bible Reference Parser (TDD)', () => {
     });
   });
 
+  describe('Versification', () => {
+    test('should know the verse count of each chapter', () => {
+      expect(getVerseCount('John', 3)).toBe(36);
+      expect(getVerseCount('Psalm', 119)).toBe(176);
+      expect(getVerseCount('3 John', 1)).toBe(15);
+      expect(getVerseCount('John', 22)).toBeNull();
+    });
+
+    test('should reject verses beyond the end of the chapter', () => {
+      expect(() => parseBibleReference('John 3:99')).toThrow('John 3 only has 36 verses');
+      expect(() => parseBibleReference('John 3:36')).not.toThrow();
+      expect(() => parseBibleReference('Matthew 5:3-7, 10-49')).toThrow('Matthew 5 only has 48 verses');
+      expect(() => parseBibleReference('Romans 8:28-9:40')).toThrow('Romans 9 only has 33 verses');
+      expect(validateBibleReference('John 3:99')).toBe(false);
+    });
+
+    test('should find range errors in verse lists and single-chapter books', () => {
+      expect(findReferenceRangeError('John 3:16')).toBeNull();
+      expect(findReferenceRangeError('John 5:1,5,99')).toBe('Verse number too high: John 5 only has 47 verses');
+      expect(findReferenceRangeError('jn 22:1')).toBe('John only has 21 chapters');
+      expect(findReferenceRangeError('Jude 3')).toBeNull();
+      expect(findReferenceRangeError('Jude 30')).toBe('Verse number too high: Jude 1 only has 25 verses');
+    });
+
+    test('should leave unreadable references to the ESV API', () => {
+      expect(findReferenceRangeError('Fake 1:99')).toBeNull();
+      expect(findReferenceRangeError('John 3:16a')).toBeNull();
+    });
+  });
+
   describe('Edge Cases', () => {
     test('should handle extra whitespace', () => {
       const result = parseBibleReference('  John   3 : 16  ');
@@ -215,6 +253,17 @@ describe('Bible Reference Parser (TDD)', () => {
     });
   });
 
+  describe('Edge function copy', () => {
+    // The edge runtime can't import from src, so supabase/functions/_shared/bibleBooks.ts keeps its own copy
+    test('has the same books in the same order', () => {
+      expect(EDGE_BIBLE_BOOKS).toEqual(BIBLE_BOOKS);
+    });
+
+    test('has the same verse counts', () => {
+      expect(EDGE_VERSE_COUNTS).toEqual(BOOK_VERSE_COUNTS);
+    });
+  });
+
   describe('Performance and Security', () => {
     test('should handle reasonably long input without crashing', () => {
       const longRef = 'A'.repeat(1000);
@@ -0,0 +1,66 @@
+// Tests for whole-chapter memorization projects
+import {
+  getNextIntroductionDate,
+  getProjectProgress,
+  getProjectStepReferences,
+  isProjectStepDue,
+  parseChapterReference,
+  type ChapterProjectState
+} from './chapterProjects';
+
+const createProject = (overrides: Partial<ChapterProjectState> = {}): ChapterProjectState => ({
+  book: 'Psalm',
+  chapter: 23,
+  verse_count: 6,
+  verse_interval_days: 2,
+  introduced_count: 0,
+  last_introduced_on: null,
+  archived: false,
+  ...overrides
+});
+
+describe('parseChapterReference', () => {
+  test('parses chapter-only references with their verse count', () => {
+    expect(parseChapterReference('Psalm 23')).toEqual({ reference: 'Psalm 23', book: 'Psalm', chapter: 23, verseCount: 6 });
+    expect(parseChapterReference('ps 23')?.reference).toBe('Psalm 23');
+    expect(parseChapterReference('rom 8')).toEqual({ reference: 'Romans 8', book: 'Romans', chapter: 8, verseCount: 39 });
+  });
+
+  test('rejects verses, ranges and chapters that do not exist', () => {
+    expect(parseChapterReference('John 3:16')).toBeNull();
+    expect(parseChapterReference('Romans 8:28-9:1')).toBeNull();
+    expect(parseChapterReference('Jude 2')).toBeNull();
+    expect(parseChapterReference('not a chapter')).toBeNull();
+  });
+});
+
+describe('getProjectStepReferences', () => {
+  test('introduces the new verse with a chain from verse 1', () => {
+    expect(getProjectStepReferences(createProject(), 1)).toEqual({ verse: 'Psalm 23:1', chain: null });
+    expect(getProjectStepReferences(createProject(), 4)).toEqual({ verse: 'Psalm 23:4', chain: 'Psalm 23:1-4' });
+  });
+});
+
+describe('isProjectStepDue', () => {
+  test('starts right away and then waits the interval', () => {
+    expect(isProjectStepDue(createProject(), '2024-03-01')).toBe(true);
+
+    const started = createProject({ introduced_count: 1, last_introduced_on: '2024-03-01' });
+    expect(getNextIntroductionDate(started, '2024-03-02')).toBe('2024-03-03');
+    expect(isProjectStepDue(started, '2024-03-02')).toBe(false);
+    expect(isProjectStepDue(started, '2024-03-03')).toBe(true);
+    expect(isProjectStepDue(started, '2024-03-10')).toBe(true);
+  });
+
+  test('stops once the chapter is complete, archived or paused', () => {
+    expect(isProjectStepDue(createProject({ introduced_count: 6, last_introduced_on: '2024-03-01' }), '2024-04-01')).toBe(false);
+    expect(isProjectStepDue(createProject({ archived: true }), '2024-03-01')).toBe(false);
+    expect(isProjectStepDue(createProject(), '2024-03-01', { paused_from: '2024-02-28', paused_until: '2024-03-05' })).toBe(false);
+  });
+});
+
+describe('getProjectProgress', () => {
+  test('reports introduced verses as a percentage', () => {
+    expect(getProjectProgress(createProject({ introduced_count: 3 }))).toEqual({ introduced: 3, total: 6, percent: 50 });
+  });
+});
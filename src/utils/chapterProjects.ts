@@ -0,0 +1,103 @@
+/**
+ * Chapter projects
+ *
+ * A whole chapter ("Psalm 23") can be memorized as a project: one new verse is introduced
+ * every N days, and alongside it a cumulative chain card from verse 1 up to the newest
+ * verse ("Psalm 23:1-4"). Each new chain replaces the previous one, so the chapter is
+ * always reviewed "from the top" as it grows.
+ */
+
+import { getVerseCount, parseBibleReference } from './bibleRefParser';
+import { addDaysToDateString, daysBetween, isPausedOn, type PauseState } from './pauseSchedule';
+
+export const PROJECT_INTERVAL_OPTIONS = [1, 2, 3, 7] as const;
+export const DEFAULT_PROJECT_INTERVAL_DAYS = 1;
+
+export interface ChapterReference {
+  reference: string; // "Psalm 23"
+  book: string;
+  chapter: number;
+  verseCount: number;
+}
+
+// Project fields the helpers read (the projects table has them)
+export interface ChapterProjectState {
+  book: string;
+  chapter: number;
+  verse_count: number;
+  verse_interval_days: number;
+  introduced_count: number;        // Verses introduced so far (1..n in order)
+  last_introduced_on: string | null; // YYYY-MM-DD the latest verse was introduced
+  archived: boolean;
+}
+
+/**
+ * Parses a chapter-only reference ("Psalm 23", "rom 8"), or returns null for anything else
+ */
+export function parseChapterReference(reference: string): ChapterReference | null {
+  try {
+    const parsed = parseBibleReference(reference);
+    if (!parsed.chapter || parsed.startVerse || parsed.verses || parsed.endChapter) {
+      return null;
+    }
+
+    const book = parsed.book === 'Psalms' ? 'Psalm' : parsed.book;
+    const verseCount = getVerseCount(book, parsed.chapter);
+    if (!verseCount) {
+      return null;
+    }
+    return { reference: `${book} ${parsed.chapter}`, book, chapter: parsed.chapter, verseCount };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * References introduced at a step: the new verse and the chain from verse 1 (none for verse 1)
+ */
+export function getProjectStepReferences(
+  project: Pick<ChapterProjectState, 'book' | 'chapter'>,
+  verse: number
+): { verse: string; chain: string | null } {
+  const prefix = `${project.book} ${project.chapter}`;
+  return {
+    verse: `${prefix}:${verse}`,
+    chain: verse > 1 ? `${prefix}:1-${verse}` : null
+  };
+}
+
+/**
+ * Date the next verse is introduced, or null once every verse has been
+ */
+export function getNextIntroductionDate(project: ChapterProjectState, today: string): string | null {
+  if (project.introduced_count >= project.verse_count) {
+    return null;
+  }
+  if (!project.last_introduced_on) {
+    return today;
+  }
+  return addDaysToDateString(project.last_introduced_on, project.verse_interval_days);
+}
+
+/**
+ * Whether the next verse should be introduced today - never while archived or paused
+ */
+export function isProjectStepDue(project: ChapterProjectState, today: string, pause?: PauseState | null): boolean {
+  if (project.archived || isPausedOn(pause, today)) {
+    return false;
+  }
+  const next = getNextIntroductionDate(project, today);
+  return next !== null && daysBetween(next, today) >= 0;
+}
+
+/**
+ * Introduced and total verses, with the completed percentage for the progress bar
+ */
+export function getProjectProgress(project: ChapterProjectState): { introduced: number; total: number; percent: number } {
+  const introduced = Math.min(project.introduced_count, project.verse_count);
+  return {
+    introduced,
+    total: project.verse_count,
+    percent: project.verse_count > 0 ? Math.round((introduced / project.verse_count) * 100) : 0
+  };
+}
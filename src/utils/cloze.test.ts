@@ -0,0 +1,57 @@
+// Tests for cloze review
+import { getClozeRatio, isClozeGuessCorrect, maskClozeWord, selectClozeIndices } from './cloze';
+
+const words = 'For God so loved the world, that he gave his only Son,'.split(' ');
+
+describe('getClozeRatio', () => {
+  test('grows through each phase and across phases', () => {
+    expect(getClozeRatio('daily', 0)).toBeCloseTo(0.15);
+    expect(getClozeRatio('daily', 7)).toBeCloseTo(0.25);
+    expect(getClozeRatio('daily', 14)).toBeCloseTo(0.35);
+    expect(getClozeRatio('weekly', 0)).toBeCloseTo(0.35);
+    expect(getClozeRatio('biweekly', 2)).toBeCloseTo(0.65);
+    expect(getClozeRatio('monthly', 100)).toBeCloseTo(0.9);
+  });
+
+  test('follows custom phase requirements', () => {
+    expect(getClozeRatio('daily', 2, { daily: 4, weekly: 4, biweekly: 4 })).toBeCloseTo(0.25);
+  });
+});
+
+describe('selectClozeIndices', () => {
+  test('hides the requested share of words', () => {
+    expect(selectClozeIndices(words, 0.25, 'card-1')).toHaveLength(3);
+    expect(selectClozeIndices(words, 0, 'card-1')).toHaveLength(1);
+    expect(selectClozeIndices(words, 1, 'card-1')).toHaveLength(words.length);
+  });
+
+  test('is stable for a seed and grows as a superset', () => {
+    const fewer = selectClozeIndices(words, 0.2, 'card-1');
+    const more = selectClozeIndices(words, 0.6, 'card-1');
+    expect(selectClozeIndices(words, 0.2, 'card-1')).toEqual(fewer);
+    expect(more).toEqual(expect.arrayContaining(fewer));
+    expect([...more].sort((a, b) => a - b)).toEqual(more);
+  });
+
+  test('never hides words without letters', () => {
+    expect(selectClozeIndices(['In', '—', 'him'], 1, 'card-1')).toEqual([0, 2]);
+    expect(selectClozeIndices(['—'], 1, 'card-1')).toEqual([]);
+  });
+});
+
+describe('isClozeGuessCorrect', () => {
+  test('ignores case and punctuation', () => {
+    expect(isClozeGuessCorrect('world', 'world,')).toBe(true);
+    expect(isClozeGuessCorrect('  LORD ', 'Lord;')).toBe(true);
+    expect(isClozeGuessCorrect('word', 'world,')).toBe(false);
+    expect(isClozeGuessCorrect('', 'world,')).toBe(false);
+  });
+});
+
+describe('maskClozeWord', () => {
+  test('blanks letters and keeps punctuation', () => {
+    expect(maskClozeWord('world,')).toBe('_____,');
+    expect(maskClozeWord('"Son."')).toBe('"___."');
+    expect(maskClozeWord('a')).toBe('__');
+  });
+});
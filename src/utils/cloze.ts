@@ -0,0 +1,89 @@
+/**
+ * Cloze review
+ *
+ * Hides a subset of a verse's words for the user to fill in - tapping a blank reveals it,
+ * typing the word fills it. The share hidden grows with the card's maturity: each phase
+ * covers a range, and the card moves through that range as its phase progress builds.
+ * Longer words are more likely to be hidden than short ones ("and", "the").
+ */
+
+import { tokenizeForRecall } from './recallScoring';
+import { DEFAULT_PHASE_REQUIREMENTS, type AdvancingPhase, type ReviewPhase } from './spacedRepetition';
+
+// Share of words hidden at the start and end of each phase
+export const CLOZE_RATIO_RANGES: Record<ReviewPhase, { start: number; end: number }> = {
+  daily: { start: 0.15, end: 0.35 },
+  weekly: { start: 0.35, end: 0.55 },
+  biweekly: { start: 0.55, end: 0.75 },
+  monthly: { start: 0.75, end: 0.9 }
+};
+
+// Monthly never advances - it reaches its end ratio after this many successful reviews
+const MONTHLY_RAMP_REVIEWS = 6;
+
+/**
+ * Share of words to hide (0-1) for a card's phase and progress through it
+ */
+export function getClozeRatio(
+  phase: ReviewPhase,
+  phaseProgressCount: number,
+  requirements: Record<AdvancingPhase, number> = DEFAULT_PHASE_REQUIREMENTS
+): number {
+  const { start, end } = CLOZE_RATIO_RANGES[phase];
+  const required = phase === 'monthly' ? MONTHLY_RAMP_REVIEWS : requirements[phase];
+  const through = required > 0 ? Math.min(1, Math.max(0, phaseProgressCount) / required) : 1;
+  return start + (end - start) * through;
+}
+
+// Small seeded generator so a card's blanks stay put while it's on screen
+function seededRandom(seed: string): () => number {
+  let state = 0;
+  for (let i = 0; i < seed.length; i++) {
+    state = (Math.imul(state, 31) + seed.charCodeAt(i)) | 0;
+  }
+  return () => {
+    state = (state + 0x6D2B79F5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Picks which words to hide - indexes into `words` in ascending order. Words without letters
+ * are never hidden and at least one word always is. Selection is weighted by word length, and
+ * for the same seed a higher ratio hides a superset of a lower one.
+ */
+export function selectClozeIndices(words: string[], ratio: number, seed: string): number[] {
+  const random = seededRandom(seed);
+  const candidates = words
+    .map((word, index) => ({ index, weight: word.replace(/[^\p{L}]/gu, '').length }))
+    .filter(candidate => candidate.weight > 0)
+    // Weighted sampling without replacement: keep the largest random^(1/weight) keys
+    .map(candidate => ({ ...candidate, key: Math.pow(random(), 1 / candidate.weight) }))
+    .sort((a, b) => b.key - a.key);
+
+  if (candidates.length === 0) return [];
+
+  const count = Math.min(candidates.length, Math.max(1, Math.round(candidates.length * ratio)));
+  return candidates.slice(0, count).map(candidate => candidate.index).sort((a, b) => a - b);
+}
+
+/**
+ * Whether a typed word fills a blank - case and punctuation are ignored
+ */
+export function isClozeGuessCorrect(guess: string, word: string): boolean {
+  const [typed] = tokenizeForRecall(guess);
+  const expected = tokenizeForRecall(word).map(token => token.normalized).join('');
+  return !!typed && typed.normalized === expected;
+}
+
+/**
+ * A hidden word as shown on the card - its letters blanked, punctuation kept
+ */
+export function maskClozeWord(word: string): string {
+  const match = word.match(/^([^\p{L}]*)(.*?)([^\p{L}]*)$/u);
+  if (!match) return word;
+  const [, leading, core, trailing] = match;
+  return leading + '_'.repeat(Math.max(2, core.length)) + trailing;
+}
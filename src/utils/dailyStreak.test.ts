@@ -0,0 +1,128 @@
+// Tests for the user-level daily streak
+import {
+  calculateDailyStreak,
+  isStreakAlive,
+  getStoredDailyStreak,
+  mergeDailyStreaks,
+  extendDailyStreak,
+  dailyStreakToProfileFields,
+  EMPTY_DAILY_STREAK
+} from './dailyStreak';
+
+const TODAY = '2024-01-15';
+
+describe('calculateDailyStreak', () => {
+  test('counts consecutive days ending today', () => {
+    expect(calculateDailyStreak(['2024-01-13', '2024-01-14', '2024-01-15'], TODAY)).toEqual({
+      current: 3,
+      best: 3,
+      lastActiveDate: '2024-01-15'
+    });
+  });
+
+  test('today without reviews yet does not break the streak', () => {
+    expect(calculateDailyStreak(['2024-01-13', '2024-01-14'], TODAY).current).toBe(2);
+  });
+
+  test('a missed day resets the current streak but keeps the best', () => {
+    const streak = calculateDailyStreak(['2024-01-10', '2024-01-11', '2024-01-12', '2024-01-15'], TODAY);
+    expect(streak.current).toBe(1);
+    expect(streak.best).toBe(3);
+  });
+
+  test('is zero once yesterday was missed', () => {
+    expect(calculateDailyStreak(['2024-01-12', '2024-01-13'], TODAY).current).toBe(0);
+  });
+
+  test('ignores duplicate and unordered dates', () => {
+    expect(calculateDailyStreak(['2024-01-15', '2024-01-14', '2024-01-15'], TODAY).current).toBe(2);
+  });
+
+  test('returns an empty streak without reviews', () => {
+    expect(calculateDailyStreak([], TODAY)).toEqual(EMPTY_DAILY_STREAK);
+  });
+
+  test('completed pauses bridge the gap without counting', () => {
+    const history = [{ start: '2024-01-11', end: '2024-01-13' }];
+    expect(calculateDailyStreak(['2024-01-10', '2024-01-14'], TODAY, null, history).current).toBe(2);
+  });
+
+  test('a running pause keeps the streak alive', () => {
+    const pause = { paused_from: '2024-01-13', paused_until: '2024-01-20' };
+    expect(calculateDailyStreak(['2024-01-11', '2024-01-12'], TODAY, pause).current).toBe(2);
+  });
+
+  test('continues a stored streak with newer days only', () => {
+    const since = { current: 5, best: 8, lastActiveDate: '2024-01-13' };
+    expect(calculateDailyStreak(['2024-01-12', '2024-01-14', '2024-01-15'], TODAY, null, [], since)).toEqual({
+      current: 7,
+      best: 8,
+      lastActiveDate: '2024-01-15'
+    });
+  });
+
+  test('restarts after a stored streak that had lapsed', () => {
+    const since = { current: 5, best: 5, lastActiveDate: '2024-01-10' };
+    expect(calculateDailyStreak(['2024-01-14'], TODAY, null, [], since)).toEqual({
+      current: 1,
+      best: 5,
+      lastActiveDate: '2024-01-14'
+    });
+  });
+});
+
+describe('isStreakAlive', () => {
+  test('is alive when the last active day was today or yesterday', () => {
+    expect(isStreakAlive(TODAY, TODAY)).toBe(true);
+    expect(isStreakAlive('2024-01-14', TODAY)).toBe(true);
+  });
+
+  test('lapses after a missed day', () => {
+    expect(isStreakAlive('2024-01-13', TODAY)).toBe(false);
+    expect(isStreakAlive(null, TODAY)).toBe(false);
+  });
+});
+
+describe('getStoredDailyStreak', () => {
+  test('reads the profile fields', () => {
+    const profile = { current_daily_streak: 4, best_daily_streak: 9, last_streak_date: '2024-01-14' };
+    expect(getStoredDailyStreak(profile, TODAY)).toEqual({ current: 4, best: 9, lastActiveDate: '2024-01-14' });
+  });
+
+  test('drops a lapsed current streak', () => {
+    const profile = { current_daily_streak: 4, best_daily_streak: 9, last_streak_date: '2024-01-10' };
+    expect(getStoredDailyStreak(profile, TODAY).current).toBe(0);
+  });
+});
+
+describe('mergeDailyStreaks', () => {
+  test('prefers the more recent streak and keeps the highest best', () => {
+    const local = { current: 2, best: 3, lastActiveDate: '2024-01-15' };
+    const remote = { current: 5, best: 12, lastActiveDate: '2024-01-14' };
+    expect(mergeDailyStreaks(local, remote)).toEqual({ current: 2, best: 12, lastActiveDate: '2024-01-15' });
+  });
+
+  test('prefers the longer streak on the same day', () => {
+    const a = { current: 2, best: 2, lastActiveDate: TODAY };
+    const b = { current: 6, best: 6, lastActiveDate: TODAY };
+    expect(mergeDailyStreaks(a, b).current).toBe(6);
+  });
+});
+
+describe('extendDailyStreak', () => {
+  test('adds today once', () => {
+    const extended = extendDailyStreak({ current: 3, best: 3, lastActiveDate: '2024-01-14' }, TODAY);
+    expect(extended).toEqual({ current: 4, best: 4, lastActiveDate: TODAY });
+    expect(extendDailyStreak(extended, TODAY)).toBe(extended);
+  });
+});
+
+describe('dailyStreakToProfileFields', () => {
+  test('maps to user_profiles columns', () => {
+    expect(dailyStreakToProfileFields({ current: 1, best: 2, lastActiveDate: TODAY })).toEqual({
+      current_daily_streak: 1,
+      best_daily_streak: 2,
+      last_streak_date: TODAY
+    });
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Daily streak
+ *
+ * User-level streak of days in a row with a review session, across the whole deck
+ * (verse cards keep their own current_streak/best_streak). A day counts once it has
+ * a review log; today without reviews yet doesn't break the streak, and neither do
+ * paused days (see pauseSchedule.ts).
+ *
+ * All dates are YYYY-MM-DD strings in the user's timezone.
+ */
+
+import { addDaysToDateString, isPausedOn, type PausePeriod, type PauseState } from './pauseSchedule';
+
+export interface DailyStreak {
+  current: number;
+  best: number;
+  lastActiveDate: string | null; // Last day that counted
+}
+
+// Daily streak fields on user_profiles
+export interface DailyStreakProfileFields {
+  current_daily_streak?: number;
+  best_daily_streak?: number;
+  last_streak_date?: string | null;
+}
+
+export const EMPTY_DAILY_STREAK: DailyStreak = { current: 0, best: 0, lastActiveDate: null };
+
+/**
+ * Whether a day falls in the current/scheduled pause or a completed one
+ */
+export function isPauseDay(date: string, pause: PauseState | null | undefined, history: PausePeriod[] = []): boolean {
+  return isPausedOn(pause, date) || history.some(period => period.start <= date && date <= period.end);
+}
+
+/**
+ * Whether every day strictly between two dates is a pause day
+ */
+function isBridgedByPauses(from: string, to: string, pause: PauseState | null | undefined, history: PausePeriod[]): boolean {
+  for (let date = addDaysToDateString(from, 1); date < to; date = addDaysToDateString(date, 1)) {
+    if (!isPauseDay(date, pause, history)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Whether a streak last extended on `lastActiveDate` is still alive today -
+ * only today and pause days may have passed without a review
+ */
+export function isStreakAlive(
+  lastActiveDate: string | null,
+  today: string,
+  pause?: PauseState | null,
+  history: PausePeriod[] = []
+): boolean {
+  if (!lastActiveDate || lastActiveDate > today) {
+    return false;
+  }
+  return isBridgedByPauses(lastActiveDate, today, pause, history);
+}
+
+/**
+ * Calculates the streak from the days the user reviewed on (any order, duplicates allowed).
+ * Pass a previously stored streak as `since` to continue it - only days after its last
+ * active day are added, so history that isn't available locally still counts.
+ */
+export function calculateDailyStreak(
+  activeDates: string[],
+  today: string,
+  pause?: PauseState | null,
+  history: PausePeriod[] = [],
+  since: DailyStreak = EMPTY_DAILY_STREAK
+): DailyStreak {
+  const dates = [...new Set(activeDates)]
+    .filter(date => date <= today && (!since.lastActiveDate || date > since.lastActiveDate))
+    .sort();
+
+  let run = since.current;
+  let best = since.best;
+  let previous = since.lastActiveDate;
+  for (const date of dates) {
+    run = previous && isBridgedByPauses(previous, date, pause, history) ? run + 1 : 1;
+    best = Math.max(best, run);
+    previous = date;
+  }
+
+  return {
+    current: isStreakAlive(previous, today, pause, history) ? run : 0,
+    best,
+    lastActiveDate: previous
+  };
+}
+
+/**
+ * Reads the stored streak from a profile, dropping the current run if it has since lapsed
+ */
+export function getStoredDailyStreak(
+  profile: DailyStreakProfileFields | null | undefined,
+  today: string,
+  pause?: PauseState | null,
+  history: PausePeriod[] = []
+): DailyStreak {
+  const lastActiveDate = profile?.last_streak_date ?? null;
+  return {
+    current: isStreakAlive(lastActiveDate, today, pause, history) ? profile?.current_daily_streak ?? 0 : 0,
+    best: profile?.best_daily_streak ?? 0,
+    lastActiveDate
+  };
+}
+
+/**
+ * Combines two views of the same streak (e.g. local and remote) - the more recent one
+ * wins, the longer one on a tie, and the best streak is never lowered
+ */
+export function mergeDailyStreaks(a: DailyStreak, b: DailyStreak): DailyStreak {
+  const aDate = a.lastActiveDate ?? '';
+  const bDate = b.lastActiveDate ?? '';
+  const latest = aDate > bDate || (aDate === bDate && a.current >= b.current) ? a : b;
+  return {
+    ...latest,
+    best: Math.max(a.best, b.best, latest.current)
+  };
+}
+
+/**
+ * The streak as it will be once today's reviews are recorded
+ * (expects a current streak that is still alive, as returned above)
+ */
+export function extendDailyStreak(streak: DailyStreak, today: string): DailyStreak {
+  if (streak.lastActiveDate === today) {
+    return streak;
+  }
+  const current = streak.current + 1;
+  return { current, best: Math.max(streak.best, current), lastActiveDate: today };
+}
+
+export function dailyStreakToProfileFields(streak: DailyStreak): Required<DailyStreakProfileFields> {
+  return {
+    current_daily_streak: streak.current,
+    best_daily_streak: streak.best,
+    last_streak_date: streak.lastActiveDate
+  };
+}
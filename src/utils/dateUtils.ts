@@ -127,6 +127,7 @@ export function formatDateInTimezone(date: Date, timezone: string): string {
  * This is the main function used by assignment logic
  */
 export interface UserDateCalculation {
+  timezone: string;
   userToday: Date;
   userDayOfWeek: number;
   userWeekParity: number;
@@ -138,6 +139,7 @@ export function calculateUserDateValues(timezone: string, date?: Date): UserDate
   const userToday = convertDateToTimezone(targetDate, timezone);
   
   return {
+    timezone,
     userToday,
     userDayOfWeek: getDayOfWeek(userToday),
     userWeekParity: getWeekParityFromDate(userToday),
@@ -0,0 +1,81 @@
+// Tests for passages split into chunk cards
+import {
+  applyPassageLocks,
+  canSplitPassage,
+  getPassageProgress,
+  splitPassage,
+  type PassageMemberCard
+} from './passages';
+
+describe('splitPassage', () => {
+  test('splits a range into chunks of the chosen size', () => {
+    expect(splitPassage('Romans 8:28-39', 3)).toEqual({
+      reference: 'Romans 8:28-39',
+      chunks: ['Romans 8:28-30', 'Romans 8:31-33', 'Romans 8:34-36', 'Romans 8:37-39']
+    });
+    expect(splitPassage('Romans 8:28-33', 2).chunks).toEqual(['Romans 8:28-29', 'Romans 8:30-31', 'Romans 8:32-33']);
+  });
+
+  test('adds a single leftover verse to the last chunk', () => {
+    expect(splitPassage('Psalm 1:1-4', 3).chunks).toEqual(['Psalm 1:1-4']);
+    expect(splitPassage('John 1:1-7', 3).chunks).toEqual(['John 1:1-3', 'John 1:4-7']);
+  });
+
+  test('splits whole chapters and cross-chapter ranges', () => {
+    expect(splitPassage('Psalm 23', 3)).toEqual({
+      reference: 'Psalm 23:1-6',
+      chunks: ['Psalm 23:1-3', 'Psalm 23:4-6']
+    });
+    expect(splitPassage('Romans 8:38-9:2', 2).chunks).toEqual(['Romans 8:38-39', 'Romans 9:1-2']);
+    expect(splitPassage('Romans 8:37-9:1', 2).chunks).toEqual(['Romans 8:37-38', 'Romans 8:39-9:1']);
+  });
+
+  test('rejects short ranges and lists with gaps', () => {
+    expect(() => splitPassage('John 3:16-18')).toThrow('at least 4 verses');
+    expect(() => splitPassage('Matthew 5:3-7, 10-12')).toThrow('one continuous range');
+  });
+});
+
+describe('canSplitPassage', () => {
+  test('only offers ranges of four verses or more', () => {
+    expect(canSplitPassage('Romans 8:28-39')).toBe(true);
+    expect(canSplitPassage('John 3:16')).toBe(false);
+    expect(canSplitPassage('John 3:16-18')).toBe(false);
+    expect(canSplitPassage('not a reference')).toBe(false);
+  });
+});
+
+describe('passage locks', () => {
+  const card = (position: number, currentPhase: PassageMemberCard['currentPhase'], extra: Partial<PassageMemberCard> = {}): PassageMemberCard => ({
+    passageId: 'p1',
+    passagePosition: position,
+    currentPhase,
+    archived: false,
+    ...extra
+  });
+
+  test('counts learned chunks, ignoring archived ones', () => {
+    expect(getPassageProgress([card(1, 'weekly'), card(2, 'daily'), card(3, 'daily', { archived: true })])).toEqual({
+      learned: 1,
+      total: 2
+    });
+  });
+
+  test('locks the chain until every chunk reaches weekly', () => {
+    const [chain] = applyPassageLocks([card(0, 'daily'), card(1, 'weekly'), card(2, 'daily')]);
+    expect(chain.locked).toBe(true);
+
+    const [unlocked] = applyPassageLocks([card(0, 'daily'), card(1, 'weekly'), card(2, 'monthly')]);
+    expect(unlocked.locked).toBe(false);
+  });
+
+  test('treats SM-2 chunks with a week-long interval as learned', () => {
+    const [chain] = applyPassageLocks([card(0, 'daily'), card(1, 'daily', { intervalDays: 8 })]);
+    expect(chain.locked).toBe(false);
+  });
+
+  test('leaves cards outside passages alone', () => {
+    const single: PassageMemberCard = { currentPhase: 'daily', archived: false };
+    expect(applyPassageLocks([single])[0]).toBe(single);
+  });
+});
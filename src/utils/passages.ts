@@ -0,0 +1,159 @@
+/**
+ * Passages
+ *
+ * A long range ("Romans 8:28-39") can be memorized as a passage: ordered chunk cards of a
+ * few verses each plus one chain card for the whole range, all sharing a passage_id.
+ * Chunks are reviewed on their own; the chain card stays locked until every chunk has
+ * reached the weekly phase, then joins the learning queue to be reviewed as a whole.
+ */
+
+import { getVerseCount, parseBibleReference } from './bibleRefParser';
+
+export const PASSAGE_CHUNK_SIZES = [2, 3] as const;
+export const DEFAULT_PASSAGE_CHUNK_SIZE = 3;
+export const MIN_PASSAGE_VERSES = 4; // Shorter ranges stay a single card
+
+// passage_position of the chain card - chunks are numbered from 1
+export const PASSAGE_CHAIN_POSITION = 0;
+
+// Interval (days) at which an SM-2 chunk counts as learned - SM-2 cards stay in the daily phase
+const SM2_LEARNED_INTERVAL_DAYS = 7;
+
+export interface PassageSplit {
+  reference: string; // The whole range
+  chunks: string[];  // Chunk references in order
+}
+
+// Card fields the passage helpers read (LibraryVerseCard and review cards both have them)
+export interface PassageMemberCard {
+  passageId?: string | null;
+  passagePosition?: number | null;
+  currentPhase: 'daily' | 'weekly' | 'biweekly' | 'monthly';
+  intervalDays?: number;
+  archived: boolean;
+  locked?: boolean;
+}
+
+interface VersePoint {
+  chapter: number;
+  verse: number;
+}
+
+/**
+ * Lists every verse in a continuous range (single verse, verse range, whole chapter or
+ * cross-chapter range). Throws for lists with gaps and references that don't parse.
+ */
+function getRangeVerses(reference: string): { book: string; verses: VersePoint[] } {
+  const parsed = parseBibleReference(reference);
+  if (parsed.verses) {
+    throw new Error('A passage must be one continuous range of verses');
+  }
+
+  const book = parsed.book;
+  const startChapter = parsed.startChapter ?? parsed.chapter!;
+  const endChapter = parsed.endChapter ?? parsed.chapter!;
+  const startVerse = parsed.startVerse ?? 1;
+  const endVerse = parsed.endVerse ?? parsed.startVerse ?? getVerseCount(book, endChapter)!;
+
+  const verses: VersePoint[] = [];
+  for (let chapter = startChapter; chapter <= endChapter; chapter++) {
+    const first = chapter === startChapter ? startVerse : 1;
+    const last = chapter === endChapter ? endVerse : getVerseCount(book, chapter)!;
+    for (let verse = first; verse <= last; verse++) {
+      verses.push({ chapter, verse });
+    }
+  }
+  return { book, verses };
+}
+
+function formatRange(book: string, first: VersePoint, last: VersePoint): string {
+  if (first.chapter !== last.chapter) {
+    return `${book} ${first.chapter}:${first.verse}-${last.chapter}:${last.verse}`;
+  }
+  if (first.verse === last.verse) {
+    return `${book} ${first.chapter}:${first.verse}`;
+  }
+  return `${book} ${first.chapter}:${first.verse}-${last.verse}`;
+}
+
+/**
+ * Whether a reference is a continuous range long enough to split into a passage
+ */
+export function canSplitPassage(reference: string): boolean {
+  try {
+    return getRangeVerses(reference).verses.length >= MIN_PASSAGE_VERSES;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Splits a range into consecutive chunks of chunkSize verses. A single verse left over
+ * at the end joins the last chunk rather than becoming a card on its own.
+ */
+export function splitPassage(reference: string, chunkSize: number = DEFAULT_PASSAGE_CHUNK_SIZE): PassageSplit {
+  const { book, verses } = getRangeVerses(reference);
+  if (verses.length < MIN_PASSAGE_VERSES) {
+    throw new Error(`A passage needs at least ${MIN_PASSAGE_VERSES} verses`);
+  }
+
+  const groups: VersePoint[][] = [];
+  for (let index = 0; index < verses.length; index += chunkSize) {
+    groups.push(verses.slice(index, index + chunkSize));
+  }
+  if (groups.length > 1 && groups[groups.length - 1].length === 1) {
+    const [leftover] = groups.pop()!;
+    groups[groups.length - 1].push(leftover);
+  }
+
+  return {
+    reference: formatRange(book, verses[0], verses[verses.length - 1]),
+    chunks: groups.map(group => formatRange(book, group[0], group[group.length - 1]))
+  };
+}
+
+export function isPassageChain(card: PassageMemberCard): boolean {
+  return !!card.passageId && card.passagePosition === PASSAGE_CHAIN_POSITION;
+}
+
+export function isPassageChunk(card: PassageMemberCard): boolean {
+  return !!card.passageId && (card.passagePosition ?? PASSAGE_CHAIN_POSITION) > PASSAGE_CHAIN_POSITION;
+}
+
+/**
+ * A chunk is learned once it has reached the weekly phase (or an SM-2 interval of a week)
+ */
+export function isChunkLearned(card: PassageMemberCard): boolean {
+  return card.currentPhase !== 'daily' || (card.intervalDays ?? 0) >= SM2_LEARNED_INTERVAL_DAYS;
+}
+
+/**
+ * Learned and total chunks of a passage - archived chunks don't count
+ */
+export function getPassageProgress(chunks: PassageMemberCard[]): { learned: number; total: number } {
+  const active = chunks.filter(card => !card.archived);
+  return {
+    learned: active.filter(isChunkLearned).length,
+    total: active.length
+  };
+}
+
+/**
+ * Sets `locked` on each chain card whose passage still has chunks to learn
+ */
+export function applyPassageLocks<T extends PassageMemberCard>(cards: T[]): T[] {
+  const chunksByPassage = new Map<string, T[]>();
+  for (const card of cards) {
+    if (isPassageChunk(card)) {
+      chunksByPassage.set(card.passageId!, [...(chunksByPassage.get(card.passageId!) ?? []), card]);
+    }
+  }
+
+  return cards.map(card => {
+    if (!isPassageChain(card)) {
+      return card;
+    }
+    const { learned, total } = getPassageProgress(chunksByPassage.get(card.passageId!) ?? []);
+    return { ...card, locked: learned < total };
+  });
+}
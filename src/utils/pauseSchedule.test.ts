@@ -0,0 +1,142 @@
+// Tests for vacation / pause mode
+import {
+  addDaysToDateString,
+  daysBetween,
+  isPausedOn,
+  validatePause,
+  getPauseResume,
+  getExpiredPauseResumeDate,
+  shiftCardSchedule,
+  MAX_PAUSE_DAYS,
+  type PausableCard
+} from './pauseSchedule';
+
+const PAUSE = { paused_from: '2024-01-10', paused_until: '2024-01-19' };
+
+describe('date helpers', () => {
+  test('adds days across month boundaries', () => {
+    expect(addDaysToDateString('2024-01-30', 3)).toBe('2024-02-02');
+    expect(addDaysToDateString('2024-03-01', -1)).toBe('2024-02-29');
+  });
+
+  test('counts days between dates', () => {
+    expect(daysBetween('2024-01-10', '2024-01-19')).toBe(9);
+    expect(daysBetween('2024-01-19', '2024-01-10')).toBe(-9);
+  });
+});
+
+describe('isPausedOn', () => {
+  test('is inclusive of both ends', () => {
+    expect(isPausedOn(PAUSE, '2024-01-10')).toBe(true);
+    expect(isPausedOn(PAUSE, '2024-01-19')).toBe(true);
+  });
+
+  test('is false outside the range', () => {
+    expect(isPausedOn(PAUSE, '2024-01-09')).toBe(false);
+    expect(isPausedOn(PAUSE, '2024-01-20')).toBe(false);
+  });
+
+  test('is false without a pause', () => {
+    expect(isPausedOn(null, '2024-01-10')).toBe(false);
+    expect(isPausedOn({ paused_from: null, paused_until: null }, '2024-01-10')).toBe(false);
+  });
+});
+
+describe('validatePause', () => {
+  test('accepts a range starting today', () => {
+    expect(validatePause('2024-01-10', '2024-01-19', '2024-01-10')).toBeNull();
+  });
+
+  test('rejects a start in the past', () => {
+    expect(validatePause('2024-01-09', '2024-01-19', '2024-01-10')).toMatch(/past/);
+  });
+
+  test('rejects an end before the start', () => {
+    expect(validatePause('2024-01-19', '2024-01-10', '2024-01-10')).toMatch(/on or after/);
+  });
+
+  test('rejects pauses longer than the maximum', () => {
+    const until = addDaysToDateString('2024-01-10', MAX_PAUSE_DAYS);
+    expect(validatePause('2024-01-10', until, '2024-01-10')).toMatch(/at most/);
+  });
+});
+
+describe('getPauseResume', () => {
+  test('shifts by the full pause once it has run its course', () => {
+    expect(getPauseResume(PAUSE, '2024-01-20')).toEqual({
+      period: { start: '2024-01-10', end: '2024-01-19' },
+      shiftDays: 10
+    });
+  });
+
+  test('shifts only by the days actually paused when resuming early', () => {
+    expect(getPauseResume(PAUSE, '2024-01-13')).toEqual({
+      period: { start: '2024-01-10', end: '2024-01-12' },
+      shiftDays: 3
+    });
+  });
+
+  test('does nothing when cancelled before the pause began', () => {
+    expect(getPauseResume(PAUSE, '2024-01-10')).toEqual({ period: null, shiftDays: 0 });
+  });
+});
+
+describe('getExpiredPauseResumeDate', () => {
+  test('returns the day after the pause once it is over', () => {
+    expect(getExpiredPauseResumeDate(PAUSE, '2024-01-25')).toBe('2024-01-20');
+  });
+
+  test('returns null while the pause is running', () => {
+    expect(getExpiredPauseResumeDate(PAUSE, '2024-01-19')).toBeNull();
+  });
+
+  test('returns null without a pause', () => {
+    expect(getExpiredPauseResumeDate(undefined, '2024-01-19')).toBeNull();
+  });
+});
+
+describe('shiftCardSchedule', () => {
+  const createCard = (overrides: Partial<PausableCard>): PausableCard => ({
+    current_phase: 'daily',
+    next_due_date: '2024-01-15', // Monday
+    assigned_day_of_week: null,
+    assigned_week_parity: null,
+    assigned_day_of_month: null,
+    ...overrides
+  });
+
+  test('daily cards only move their due date', () => {
+    expect(shiftCardSchedule(createCard({}), 10)).toEqual({
+      next_due_date: '2024-01-25',
+      assigned_day_of_week: null,
+      assigned_week_parity: null,
+      assigned_day_of_month: null
+    });
+  });
+
+  test('weekly cards move to the weekday of the new due date', () => {
+    const shifted = shiftCardSchedule(createCard({ current_phase: 'weekly', assigned_day_of_week: 2 }), 3);
+    expect(shifted.next_due_date).toBe('2024-01-18');
+    expect(shifted.assigned_day_of_week).toBe(5); // Thursday
+  });
+
+  test('biweekly cards also move their week parity', () => {
+    const card = createCard({ current_phase: 'biweekly', assigned_day_of_week: 2, assigned_week_parity: 1 });
+    const shifted = shiftCardSchedule(card, 3);
+    expect(shifted.assigned_day_of_week).toBe(5);
+    expect(shifted.assigned_week_parity).toBe(0);
+  });
+
+  test('whole-week shifts keep the weekday', () => {
+    const card = createCard({ current_phase: 'biweekly', assigned_day_of_week: 2, assigned_week_parity: 1 });
+    const shifted = shiftCardSchedule(card, 14);
+    expect(shifted.assigned_day_of_week).toBe(2);
+    expect(shifted.assigned_week_parity).toBe(1);
+  });
+
+  test('monthly cards move their day of month, capped at 28', () => {
+    const card = createCard({ current_phase: 'monthly', assigned_day_of_month: 15 });
+    expect(shiftCardSchedule(card, 5).assigned_day_of_month).toBe(20);
+    expect(shiftCardSchedule(card, 15).assigned_day_of_month).toBe(28);
+  });
+});
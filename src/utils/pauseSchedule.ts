@@ -0,0 +1,153 @@
+/**
+ * Vacation / pause mode
+ *
+ * While a user's schedule is paused nothing is due and reviews don't move cards (or break
+ * streaks). On resume every card's due date and assignment shifts forward by the paused
+ * duration so the schedule picks up where it left off. Mirrors the pause handling in
+ * process_review_comprehensive() and resume_user_schedule().
+ *
+ * All dates are YYYY-MM-DD strings in the user's timezone.
+ */
+
+import type { ReviewPhase } from './spacedRepetition';
+
+// A completed pause - start and end are both paused days (inclusive)
+export interface PausePeriod {
+  start: string;
+  end: string;
+}
+
+// Pause fields on user_profiles
+export interface PauseState {
+  paused_from?: string | null;
+  paused_until?: string | null;
+}
+
+// Verse card fields moved by a resume
+export interface PausableCard {
+  current_phase: ReviewPhase;
+  next_due_date: string;
+  assigned_day_of_week: number | null;
+  assigned_week_parity: number | null;
+  assigned_day_of_month: number | null;
+}
+
+export type ShiftedSchedule = Pick<
+  PausableCard,
+  'next_due_date' | 'assigned_day_of_week' | 'assigned_week_parity' | 'assigned_day_of_month'
+>;
+
+export interface PauseResume {
+  period: PausePeriod | null; // Recorded in pause_history (null if the pause never started)
+  shiftDays: number;          // Days to push every card forward
+}
+
+export const MAX_PAUSE_DAYS = 365;
+
+const MS_PER_DAY = 86400000;
+
+function toUtcDate(date: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Adds days to a YYYY-MM-DD date
+ */
+export function addDaysToDateString(date: string, days: number): string {
+  return toDateString(new Date(toUtcDate(date).getTime() + days * MS_PER_DAY));
+}
+
+/**
+ * Whole days from one YYYY-MM-DD date to another (negative if `to` is earlier)
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((toUtcDate(to).getTime() - toUtcDate(from).getTime()) / MS_PER_DAY);
+}
+
+/**
+ * Whether the schedule is paused on the given day
+ */
+export function isPausedOn(pause: PauseState | null | undefined, date: string): boolean {
+  if (!pause?.paused_from || !pause.paused_until) {
+    return false;
+  }
+  return pause.paused_from <= date && date <= pause.paused_until;
+}
+
+/**
+ * Validates a requested pause range - returns an error message or null
+ */
+export function validatePause(from: string, until: string, today: string): string | null {
+  if (!from || !until) {
+    return 'Choose a start and end date';
+  }
+  if (from < today) {
+    return 'A pause cannot start in the past';
+  }
+  if (until < from) {
+    return 'The pause must end on or after its start date';
+  }
+  if (daysBetween(from, until) + 1 > MAX_PAUSE_DAYS) {
+    return `A pause can last at most ${MAX_PAUSE_DAYS} days`;
+  }
+  return null;
+}
+
+/**
+ * Works out how far to shift cards when a pause ends.
+ * `resumeDate` is the first active day - today when resuming early,
+ * or the day after paused_until once the pause has run its course.
+ */
+export function getPauseResume(pause: PauseState, resumeDate: string): PauseResume {
+  if (!pause.paused_from || !pause.paused_until || resumeDate <= pause.paused_from) {
+    // Cancelled before it began - nothing to shift
+    return { period: null, shiftDays: 0 };
+  }
+
+  const lastPausedDay = addDaysToDateString(resumeDate, -1);
+  const end = lastPausedDay < pause.paused_until ? lastPausedDay : pause.paused_until;
+
+  return {
+    period: { start: pause.paused_from, end },
+    shiftDays: daysBetween(pause.paused_from, end) + 1
+  };
+}
+
+/**
+ * Returns the resume date for a pause that has run its course, or null if it hasn't
+ */
+export function getExpiredPauseResumeDate(pause: PauseState | null | undefined, today: string): string | null {
+  if (!pause?.paused_from || !pause.paused_until || pause.paused_until >= today) {
+    return null;
+  }
+  return addDaysToDateString(pause.paused_until, 1);
+}
+
+/**
+ * Shifts a card's due date forward and re-derives its assignment from the new date,
+ * so a weekly card due Monday that is pushed 3 days becomes a Thursday card.
+ * Monthly assignments are capped at 28 like get_optimal_assignment.
+ */
+export function shiftCardSchedule(card: PausableCard, days: number): ShiftedSchedule {
+  const nextDueDate = addDaysToDateString(card.next_due_date, days);
+  const shifted = toUtcDate(nextDueDate);
+  const shiftWeekday = card.current_phase === 'weekly' || card.current_phase === 'biweekly';
+
+  return {
+    next_due_date: nextDueDate,
+    assigned_day_of_week: shiftWeekday && card.assigned_day_of_week !== null
+      ? shifted.getUTCDay() + 1 // 1-7, Sunday=1
+      : card.assigned_day_of_week,
+    assigned_week_parity: card.current_phase === 'biweekly' && card.assigned_week_parity !== null
+      ? Math.floor(shifted.getTime() / MS_PER_DAY / 7) % 2 // Same epoch weeks as getWeekParityFromDate
+      : card.assigned_week_parity,
+    assigned_day_of_month: card.current_phase === 'monthly' && card.assigned_day_of_month !== null
+      ? Math.min(shifted.getUTCDate(), 28)
+      : card.assigned_day_of_month
+  };
+}
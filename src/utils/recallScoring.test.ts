@@ -0,0 +1,108 @@
+// Tests for typed recall scoring
+import {
+  tokenizeForRecall,
+  diffRecall,
+  calculateRecallAccuracy,
+  gradeTypedRecall,
+  TYPED_RECALL_PASS_THRESHOLD
+} from './recallScoring';
+
+const JOHN_3_16 = 'For God so loved the world, that he gave his only Son, that whoever believes in him should not perish but have eternal life.';
+
+describe('tokenizeForRecall', () => {
+  test('ignores punctuation and case', () => {
+    const words = tokenizeForRecall('"For God so loved the world,"');
+    expect(words.map(w => w.normalized)).toEqual(['for', 'god', 'so', 'loved', 'the', 'world']);
+  });
+
+  test('keeps the original word for display', () => {
+    const words = tokenizeForRecall('world, that');
+    expect(words[0].original).toBe('world,');
+  });
+
+  test('splits on em-dashes', () => {
+    const words = tokenizeForRecall('Lord—who');
+    expect(words.map(w => w.normalized)).toEqual(['lord', 'who']);
+  });
+
+  test('returns empty array for empty input', () => {
+    expect(tokenizeForRecall('')).toEqual([]);
+    expect(tokenizeForRecall('  ...  ')).toEqual([]);
+  });
+});
+
+describe('diffRecall', () => {
+  test('marks every word correct for a perfect answer', () => {
+    const tokens = diffRecall(JOHN_3_16, JOHN_3_16.toLowerCase().replace(/[,.]/g, ''));
+    expect(tokens.every(t => t.status === 'correct')).toBe(true);
+  });
+
+  test('marks a skipped word as missed without cascading', () => {
+    const tokens = diffRecall('For God so loved the world', 'For God loved the world');
+    expect(tokens.map(t => t.status)).toEqual(['correct', 'correct', 'missed', 'correct', 'correct', 'correct']);
+    expect(tokens[2].expected).toBe('so');
+  });
+
+  test('marks an added word as extra', () => {
+    const tokens = diffRecall('For God so loved', 'For God so very loved');
+    expect(tokens.map(t => t.status)).toEqual(['correct', 'correct', 'correct', 'extra', 'correct']);
+    expect(tokens[3].typed).toBe('very');
+  });
+
+  test('marks a close spelling as misspelled', () => {
+    const tokens = diffRecall('whoever believes in him', 'whoever beleives in him');
+    expect(tokens[1]).toEqual({ status: 'misspelled', expected: 'believes', typed: 'beleives' });
+  });
+
+  test('treats an unrelated word as missed plus extra', () => {
+    const tokens = diffRecall('eternal life', 'eternal glory');
+    const statuses = tokens.map(t => t.status);
+    expect(statuses).toContain('missed');
+    expect(statuses).toContain('extra');
+    expect(statuses).not.toContain('misspelled');
+  });
+
+  test('marks everything missed when nothing is typed', () => {
+    const tokens = diffRecall('For God so loved', '');
+    expect(tokens.every(t => t.status === 'missed')).toBe(true);
+    expect(tokens).toHaveLength(4);
+  });
+});
+
+describe('calculateRecallAccuracy', () => {
+  test('returns 100 for all correct words', () => {
+    expect(calculateRecallAccuracy(diffRecall('a b c d', 'a b c d'))).toBe(100);
+  });
+
+  test('gives half credit for misspelled words', () => {
+    expect(calculateRecallAccuracy(diffRecall('loved world', 'loved wrold'))).toBe(75);
+  });
+
+  test('penalizes extra words', () => {
+    expect(calculateRecallAccuracy(diffRecall('God so loved', 'God so loved us'))).toBe(75);
+  });
+
+  test('returns 0 for no tokens', () => {
+    expect(calculateRecallAccuracy([])).toBe(0);
+  });
+});
+
+describe('gradeTypedRecall', () => {
+  test('passes at or above the threshold', () => {
+    const grade = gradeTypedRecall(JOHN_3_16, JOHN_3_16);
+    expect(grade.accuracyPercentage).toBe(100);
+    expect(grade.wasSuccessful).toBe(true);
+  });
+
+  test('fails below the threshold', () => {
+    const grade = gradeTypedRecall(JOHN_3_16, 'For God so loved the world');
+    expect(grade.accuracyPercentage).toBeLessThan(TYPED_RECALL_PASS_THRESHOLD);
+    expect(grade.wasSuccessful).toBe(false);
+  });
+
+  test('respects a custom threshold', () => {
+    const grade = gradeTypedRecall('For God so loved', 'For God loved', 70);
+    expect(grade.accuracyPercentage).toBe(75);
+    expect(grade.wasSuccessful).toBe(true);
+  });
+});
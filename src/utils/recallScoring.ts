@@ -0,0 +1,176 @@
+// Typed Recall Scoring - word-level diff of a typed answer against verse text
+
+export type RecallTokenStatus = 'correct' | 'missed' | 'extra' | 'misspelled';
+
+export interface RecallToken {
+  status: RecallTokenStatus;
+  expected: string | null; // Word from the verse text (null for extra words)
+  typed: string | null;    // Word the user typed (null for missed words)
+}
+
+export interface RecallGrade {
+  tokens: RecallToken[];
+  accuracyPercentage: number; // 0-100, rounded to a whole number
+  wasSuccessful: boolean;
+}
+
+// Minimum accuracy (percent) for a typed recall to count as a successful review
+export const TYPED_RECALL_PASS_THRESHOLD = 90;
+
+// Misspelled words earn partial credit - the word was recalled, just not spelled right
+const MISSPELLED_WORD_CREDIT = 0.5;
+
+interface RecallWord {
+  original: string;   // As written, for display
+  normalized: string; // Lowercase, punctuation stripped, for comparison
+}
+
+/**
+ * Splits text into comparable words, ignoring punctuation and case.
+ * Dashes are treated as word separators since the ESV joins clauses with em-dashes.
+ */
+export function tokenizeForRecall(text: string): RecallWord[] {
+  if (!text) return [];
+
+  return text
+    .split(/[\s—–-]+/)
+    .map(word => ({
+      original: word,
+      normalized: word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '')
+    }))
+    .filter(word => word.normalized.length > 0);
+}
+
+/**
+ * Edit distance between two strings where swapping two adjacent letters
+ * counts as a single edit (the most common typing mistake).
+ */
+function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+/**
+ * Two different words are a misspelling of each other when they are close in spelling.
+ * Allows one edit for short words and roughly one edit per three letters beyond that.
+ */
+function isMisspelling(expected: string, typed: string): boolean {
+  const allowedEdits = Math.max(1, Math.floor(Math.max(expected.length, typed.length) / 3));
+  return editDistance(expected, typed) <= allowedEdits;
+}
+
+/**
+ * Aligns the typed answer with the verse text word-by-word.
+ * Uses an edit-distance alignment so a single skipped word doesn't cascade into
+ * every following word being marked wrong.
+ */
+export function diffRecall(expectedText: string, typedText: string): RecallToken[] {
+  const expected = tokenizeForRecall(expectedText);
+  const typed = tokenizeForRecall(typedText);
+  const n = expected.length;
+  const m = typed.length;
+
+  // cost[i][j] = cost of aligning expected[i..] with typed[j..]
+  const cost: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+  for (let i = n; i >= 0; i--) {
+    for (let j = m; j >= 0; j--) {
+      if (i === n) {
+        cost[i][j] = m - j;
+      } else if (j === m) {
+        cost[i][j] = n - i;
+      } else {
+        const a = expected[i].normalized;
+        const b = typed[j].normalized;
+        // Substituting an unrelated word costs the same as a miss plus an extra
+        const pairCost = a === b ? 0 : isMisspelling(a, b) ? 1 : 2;
+        cost[i][j] = Math.min(
+          pairCost + cost[i + 1][j + 1],
+          1 + cost[i + 1][j],
+          1 + cost[i][j + 1]
+        );
+      }
+    }
+  }
+
+  // Walk the cheapest path, preferring paired words over misses/extras
+  const tokens: RecallToken[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m) {
+      const a = expected[i].normalized;
+      const b = typed[j].normalized;
+      if (a === b && cost[i][j] === cost[i + 1][j + 1]) {
+        tokens.push({ status: 'correct', expected: expected[i].original, typed: typed[j].original });
+        i++;
+        j++;
+        continue;
+      }
+      if (a !== b && isMisspelling(a, b) && cost[i][j] === 1 + cost[i + 1][j + 1]) {
+        tokens.push({ status: 'misspelled', expected: expected[i].original, typed: typed[j].original });
+        i++;
+        j++;
+        continue;
+      }
+    }
+
+    if (i < n && (j === m || cost[i][j] === 1 + cost[i + 1][j])) {
+      tokens.push({ status: 'missed', expected: expected[i].original, typed: null });
+      i++;
+    } else {
+      tokens.push({ status: 'extra', expected: null, typed: typed[j].original });
+      j++;
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Calculates accuracy from a diff. Extra words count against the answer so
+ * typing the whole chapter can't game the score.
+ */
+export function calculateRecallAccuracy(tokens: RecallToken[]): number {
+  if (tokens.length === 0) return 0;
+
+  let credit = 0;
+  for (const token of tokens) {
+    if (token.status === 'correct') credit += 1;
+    if (token.status === 'misspelled') credit += MISSPELLED_WORD_CREDIT;
+  }
+
+  return Math.round((credit / tokens.length) * 100);
+}
+
+/**
+ * Grades a typed recall attempt against the verse text.
+ */
+export function gradeTypedRecall(
+  expectedText: string,
+  typedText: string,
+  threshold: number = TYPED_RECALL_PASS_THRESHOLD
+): RecallGrade {
+  const tokens = diffRecall(expectedText, typedText);
+  const accuracyPercentage = calculateRecallAccuracy(tokens);
+
+  return {
+    tokens,
+    accuracyPercentage,
+    wasSuccessful: accuracyPercentage >= threshold
+  };
+}
@@ -0,0 +1,33 @@
+// Tests for reference recall (text → reference) cards
+import { getCardDirection, isReferenceRecallCorrect } from './referenceRecall';
+
+describe('getCardDirection', () => {
+  test('treats cards without a direction as forward', () => {
+    expect(getCardDirection({})).toBe('forward');
+    expect(getCardDirection({ direction: null })).toBe('forward');
+    expect(getCardDirection({ direction: 'reverse' })).toBe('reverse');
+  });
+});
+
+describe('isReferenceRecallCorrect', () => {
+  test('accepts abbreviations, case and punctuation styles', () => {
+    expect(isReferenceRecallCorrect('Jn 3:16', 'John 3:16')).toBe(true);
+    expect(isReferenceRecallCorrect('john 3.16', 'John 3:16')).toBe(true);
+    expect(isReferenceRecallCorrect('1 cor 13:4', '1 Corinthians 13:4')).toBe(true);
+    expect(isReferenceRecallCorrect('ps 23:1-3', 'Psalm 23:1-3')).toBe(true);
+    expect(isReferenceRecallCorrect('rom 8:28-9:1', 'Romans 8:28-9:1')).toBe(true);
+  });
+
+  test('requires the same chapter and verses', () => {
+    expect(isReferenceRecallCorrect('John 3:17', 'John 3:16')).toBe(false);
+    expect(isReferenceRecallCorrect('John 3:16', 'John 3:16-17')).toBe(false);
+    expect(isReferenceRecallCorrect('1 John 3:16', 'John 3:16')).toBe(false);
+    expect(isReferenceRecallCorrect('John 4:16', 'John 3:16')).toBe(false);
+  });
+
+  test('rejects empty and unparseable answers', () => {
+    expect(isReferenceRecallCorrect('', 'John 3:16')).toBe(false);
+    expect(isReferenceRecallCorrect('   ', 'John 3:16')).toBe(false);
+    expect(isReferenceRecallCorrect('no idea', 'John 3:16')).toBe(false);
+  });
+});
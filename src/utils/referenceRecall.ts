@@ -0,0 +1,64 @@
+/**
+ * Reference recall
+ *
+ * Cards normally run reference → text: the reference is shown and the verse is recalled.
+ * A verse can also get a reverse card (text → reference) that shows the verse and asks for
+ * its reference. The reverse card is a separate verse_card with direction 'reverse', so each
+ * direction keeps its own phase, schedule and streak.
+ */
+
+import { parseBibleReference } from './bibleRefParser';
+import { normalizeReferenceForLookup } from './referenceNormalizer';
+
+export type CardDirection = 'forward' | 'reverse';
+
+export const CARD_DIRECTIONS: readonly CardDirection[] = ['forward', 'reverse'];
+
+/**
+ * A card's direction - cards created before reverse cards existed are forward
+ */
+export function getCardDirection(card: { direction?: CardDirection | null }): CardDirection {
+  return card.direction ?? 'forward';
+}
+
+// One spelling per passage, so "Jn 3:16", "john 3.16" and "John 3:16" compare equal
+function canonicalReference(reference: string): string | null {
+  try {
+    const parsed = parseBibleReference(reference);
+    const book = parsed.book === 'Psalms' ? 'Psalm' : parsed.book;
+
+    let passage: string;
+    if (parsed.startChapter && parsed.endChapter) {
+      passage = `${parsed.startChapter}:${parsed.startVerse}-${parsed.endChapter}:${parsed.endVerse}`;
+    } else if (parsed.verses?.length) {
+      passage = `${parsed.chapter}:${parsed.verses.map(({ start, end }) => start === end ? start : `${start}-${end}`).join(',')}`;
+    } else if (parsed.startVerse) {
+      passage = parsed.endVerse && parsed.endVerse !== parsed.startVerse
+        ? `${parsed.chapter}:${parsed.startVerse}-${parsed.endVerse}`
+        : `${parsed.chapter}:${parsed.startVerse}`;
+    } else {
+      passage = `${parsed.chapter}`;
+    }
+
+    return normalizeReferenceForLookup(`${book} ${passage}`);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a typed reference names the card's reference. Book abbreviations, case and
+ * punctuation style don't matter; the chapter and verses must match exactly.
+ */
+export function isReferenceRecallCorrect(typed: string, expected: string): boolean {
+  if (!typed.trim()) return false;
+
+  const typedReference = canonicalReference(typed);
+  const expectedReference = canonicalReference(expected);
+  if (typedReference && expectedReference) {
+    return typedReference === expectedReference;
+  }
+
+  // Fall back to plain normalization for references the parser doesn't handle
+  return normalizeReferenceForLookup(typed) === normalizeReferenceForLookup(expected);
+}
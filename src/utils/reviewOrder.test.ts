@@ -0,0 +1,69 @@
+// Tests for due queue ordering strategies
+import { getCanonicalPosition, getReviewOrder, orderDueCards } from './reviewOrder';
+import type { ReviewPhase } from './spacedRepetition';
+
+const card = (
+  reference: string,
+  { currentPhase = 'daily' as ReviewPhase, currentStreak = 0, nextDueDate = '2025-01-10', recentFailures = 0 } = {}
+) => ({
+  verse: { reference },
+  currentPhase,
+  currentStreak,
+  nextDueDate,
+  recentFailures
+});
+
+const references = (cards: { verse: { reference: string } }[]) => cards.map(c => c.verse.reference);
+
+describe('orderDueCards', () => {
+  const cards = [
+    card('Romans 8:28', { currentStreak: 5, nextDueDate: '2025-01-08' }),
+    card('John 3:16', { currentStreak: 2, nextDueDate: '2025-01-10', recentFailures: 1 }),
+    card('Genesis 1:1', { currentPhase: 'monthly', nextDueDate: '2025-01-02' }),
+    card('John 1:1', { currentStreak: 2, nextDueDate: '2025-01-09', recentFailures: 3 })
+  ];
+
+  test('keeps the scheduled order', () => {
+    expect(references(orderDueCards(cards, 'scheduled'))).toEqual(references(cards));
+  });
+
+  test('puts recent failures and short streaks first for weakest', () => {
+    expect(references(orderDueCards(cards, 'weakest'))).toEqual(['John 1:1', 'John 3:16', 'Genesis 1:1', 'Romans 8:28']);
+  });
+
+  test('puts the earliest due date first for oldest due', () => {
+    expect(references(orderDueCards(cards, 'oldest_due'))).toEqual(['Genesis 1:1', 'Romans 8:28', 'John 1:1', 'John 3:16']);
+  });
+
+  test('follows book, chapter and verse for canonical', () => {
+    expect(references(orderDueCards(cards, 'canonical'))).toEqual(['Genesis 1:1', 'John 1:1', 'John 3:16', 'Romans 8:28']);
+  });
+
+  test('shuffles every card exactly once', () => {
+    const shuffled = orderDueCards(cards, 'shuffled', () => 0);
+    expect(references(shuffled)).toEqual(['John 3:16', 'Genesis 1:1', 'John 1:1', 'Romans 8:28']);
+    expect(references(shuffled).sort()).toEqual(references(cards).sort());
+  });
+
+  test('does not modify the input', () => {
+    const input = [...cards];
+    orderDueCards(input, 'canonical');
+    expect(input).toEqual(cards);
+  });
+});
+
+describe('getCanonicalPosition', () => {
+  test('handles psalms, ranges and unknown books', () => {
+    expect(getCanonicalPosition('Psalm 23:1')).toEqual([18, 23, 1]);
+    expect(getCanonicalPosition('Romans 8:28-9:1')).toEqual([44, 8, 28]);
+    expect(getCanonicalPosition('Not a book 1:1')).toEqual([66, 0, 0]);
+  });
+});
+
+describe('getReviewOrder', () => {
+  test('falls back to the scheduled order', () => {
+    expect(getReviewOrder('canonical')).toBe('canonical');
+    expect(getReviewOrder(null)).toBe('scheduled');
+    expect(getReviewOrder('alphabetical')).toBe('scheduled');
+  });
+});
@@ -0,0 +1,98 @@
+// Review Order - how due cards are ordered when a session starts (user_profiles.review_order)
+
+import { BIBLE_BOOKS, parseBibleReference } from './bibleRefParser';
+import { PHASE_ORDER, type ReviewPhase } from './spacedRepetition';
+
+export type ReviewOrder = 'scheduled' | 'weakest' | 'oldest_due' | 'canonical' | 'shuffled';
+
+export const REVIEW_ORDERS: ReviewOrder[] = ['scheduled', 'weakest', 'oldest_due', 'canonical', 'shuffled'];
+
+export const DEFAULT_REVIEW_ORDER: ReviewOrder = 'scheduled';
+
+export const REVIEW_ORDER_LABELS: Record<ReviewOrder, string> = {
+  scheduled: 'As scheduled',
+  weakest: 'Weakest first',
+  oldest_due: 'Oldest due first',
+  canonical: 'Bible order',
+  shuffled: 'Shuffled'
+};
+
+// Failed reviews within this many days count toward a card's weakness
+export const RECENT_FAILURE_DAYS = 30;
+
+interface OrderableCard {
+  verse: { reference: string };
+  currentPhase: ReviewPhase;
+  currentStreak: number;
+  nextDueDate: string;
+  recentFailures?: number; // Failed reviews in the last RECENT_FAILURE_DAYS
+}
+
+/**
+ * Reads a stored order, falling back to the default for unknown values
+ */
+export function getReviewOrder(order: string | null | undefined): ReviewOrder {
+  return REVIEW_ORDERS.includes(order as ReviewOrder) ? order as ReviewOrder : DEFAULT_REVIEW_ORDER;
+}
+
+/**
+ * Position of a reference in the Bible - [book, chapter, verse], with unparseable
+ * references after every book
+ */
+export function getCanonicalPosition(reference: string): [number, number, number] {
+  try {
+    const parsed = parseBibleReference(reference);
+    const bookIndex = BIBLE_BOOKS.indexOf(parsed.book === 'Psalm' ? 'Psalms' : parsed.book);
+    return [
+      bookIndex === -1 ? BIBLE_BOOKS.length : bookIndex,
+      parsed.chapter ?? parsed.startChapter ?? 0,
+      parsed.startVerse ?? parsed.verses?.[0]?.start ?? 0
+    ];
+  } catch {
+    return [BIBLE_BOOKS.length, 0, 0];
+  }
+}
+
+function compareCanonical(a: OrderableCard, b: OrderableCard): number {
+  const positionA = getCanonicalPosition(a.verse.reference);
+  const positionB = getCanonicalPosition(b.verse.reference);
+  return positionA[0] - positionB[0] || positionA[1] - positionB[1] || positionA[2] - positionB[2];
+}
+
+/**
+ * Orders due cards for a session. 'scheduled' keeps the order filterDueCards returned;
+ * the sorts are stable, so ties keep it too.
+ * - weakest: most recent failures, then shortest streak, then earliest phase
+ * - oldest_due: earliest due date first
+ * - canonical: Bible book, chapter and verse order
+ * - shuffled: random order (random is injectable for tests)
+ */
+export function orderDueCards<T extends OrderableCard>(
+  cards: T[],
+  order: ReviewOrder,
+  random: () => number = Math.random
+): T[] {
+  const ordered = [...cards];
+
+  switch (order) {
+    case 'weakest':
+      return ordered.sort((a, b) =>
+        (b.recentFailures ?? 0) - (a.recentFailures ?? 0) ||
+        a.currentStreak - b.currentStreak ||
+        PHASE_ORDER[a.currentPhase] - PHASE_ORDER[b.currentPhase]
+      );
+    case 'oldest_due':
+      return ordered.sort((a, b) => a.nextDueDate.localeCompare(b.nextDueDate));
+    case 'canonical':
+      return ordered.sort(compareCanonical);
+    case 'shuffled':
+      // Fisher-Yates
+      for (let i = ordered.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [ordered[i], ordered[j]] = [ordered[j], ordered[i]];
+      }
+      return ordered;
+    default:
+      return ordered;
+  }
+}
@@ -0,0 +1,105 @@
+// Tests for in-progress review sessions and their undo window
+import type { LibraryVerseCard } from '../pages/Library/hooks/useLibrary';
+import {
+  advanceSession,
+  canUndoLastAction,
+  createSession,
+  endSession,
+  getActionsToRecord,
+  isSessionResumable,
+  markActionsRecorded,
+  restoreSession,
+  type ReviewAction,
+  type ReviewSession
+} from './reviewSession';
+
+const MINUTE = 60 * 1000;
+
+const cards = (count: number) =>
+  Array.from({ length: count }, (_, i) => ({ id: `card-${i}` })) as LibraryVerseCard[];
+
+const action = (id: string, timestamp = 0): ReviewAction => ({
+  id,
+  cardId: `card-${id}`,
+  wasSuccessful: true,
+  timestamp
+});
+
+const sessionWith = (cardCount: number, actionCount: number): ReviewSession => {
+  let session = { ...createSession(cards(cardCount)), startTime: 0 };
+  for (let i = 0; i < actionCount; i++) {
+    session = advanceSession(session, action(`a${i}`));
+  }
+  return session;
+};
+
+const ids = (actions: ReviewAction[]) => actions.map(a => a.id);
+
+describe('advanceSession', () => {
+  test('moves to the next card', () => {
+    const session = advanceSession(sessionWith(3, 0), action('a0', 5000));
+    expect(session.currentCardIndex).toBe(1);
+    expect(session.cardShownAt).toBe(5000);
+    expect(ids(session.actions)).toEqual(['a0']);
+  });
+
+  test('drops the remaining cards once the time budget runs out', () => {
+    const session = advanceSession({ ...sessionWith(5, 1), timeBudgetMinutes: 5 }, action('a1', 6 * MINUTE));
+    expect(session.cards).toHaveLength(2);
+    expect(session.cardsLeftAtTimeUp).toBe(3);
+  });
+});
+
+describe('getActionsToRecord', () => {
+  test('keeps the undo window pending', () => {
+    expect(ids(getActionsToRecord(sessionWith(10, 2)))).toEqual([]);
+    expect(ids(getActionsToRecord(sessionWith(10, 5)))).toEqual(['a0', 'a1']);
+  });
+
+  test('skips actions already recorded', () => {
+    const session = markActionsRecorded(sessionWith(10, 5), ['a0']);
+    expect(ids(getActionsToRecord(session))).toEqual(['a1']);
+  });
+
+  test('records everything once the session is finished', () => {
+    expect(ids(getActionsToRecord(sessionWith(3, 3)))).toEqual(['a0', 'a1', 'a2']);
+    expect(ids(getActionsToRecord(sessionWith(10, 2), 0))).toEqual(['a0', 'a1']);
+  });
+});
+
+describe('canUndoLastAction', () => {
+  test('only undoes actions not yet recorded', () => {
+    const session = sessionWith(10, 2);
+    expect(canUndoLastAction(session)).toBe(true);
+    expect(canUndoLastAction(markActionsRecorded(session, ['a1']))).toBe(false);
+    expect(canUndoLastAction(sessionWith(10, 0))).toBe(false);
+    expect(canUndoLastAction(null)).toBe(false);
+  });
+});
+
+describe('endSession', () => {
+  test('finishes the session with its reviews still to record', () => {
+    const ended = endSession(sessionWith(10, 2));
+    expect(ended.cards).toHaveLength(2);
+    expect(ids(getActionsToRecord(ended))).toEqual(['a0', 'a1']);
+    expect(isSessionResumable({ ...ended, startTime: new Date('2025-01-10T12:00:00Z').getTime() }, '2025-01-10', 'UTC')).toBe(false);
+  });
+});
+
+describe('isSessionResumable', () => {
+  test('resumes unfinished sessions started today', () => {
+    const session = { ...sessionWith(3, 1), startTime: new Date('2025-01-10T12:00:00Z').getTime() };
+    expect(isSessionResumable(session, '2025-01-10', 'UTC')).toBe(true);
+    expect(isSessionResumable(session, '2025-01-11', 'UTC')).toBe(false);
+    expect(isSessionResumable({ ...session, currentCardIndex: 3 }, '2025-01-10', 'UTC')).toBe(false);
+  });
+});
+
+describe('restoreSession', () => {
+  test('does not count time away against the session', () => {
+    const session = { ...sessionWith(3, 1), startTime: 0, savedAt: 4 * MINUTE };
+    const restored = restoreSession(session, 60 * MINUTE);
+    expect(restored.startTime).toBe(56 * MINUTE);
+    expect(restored.cardShownAt).toBe(60 * MINUTE);
+  });
+});
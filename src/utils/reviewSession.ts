@@ -0,0 +1,132 @@
+/**
+ * Review Sessions - the in-progress session and its undo window
+ *
+ * A session is saved locally after every action so it survives the app being closed
+ * (see localDb review_sessions). Each action's review log is written once the action can
+ * no longer be undone - the last few stay pending so undo doesn't have to unwind a log.
+ */
+
+import type { LibraryVerseCard } from '../pages/Library/hooks/useLibrary';
+import { formatDateInTimezone } from './dateUtils';
+import { isTimeBudgetExhausted } from './sessionTiming';
+import type { ReviewGrade } from './spacedRepetition';
+
+// How many of the latest actions can be undone - older ones are logged as the session goes
+export const UNDOABLE_ACTIONS = 3;
+
+export interface ReviewAction {
+  id: string;                  // Also the review log id, so a retried action is logged once
+  cardId: string;
+  wasSuccessful: boolean;
+  grade?: ReviewGrade;
+  timestamp: number;
+  wordRevealProgress?: number; // For progressive word reveal
+  accuracyPercentage?: number; // Typed and spoken recall only - word accuracy 0-100
+  overdueDays?: number;        // Days past due when reviewed
+  reviewTimeSeconds?: number;  // Time from card display to grade
+  recorded?: boolean;          // Review log written - no longer undoable
+}
+
+export interface ReviewSession {
+  cards: LibraryVerseCard[];
+  actions: ReviewAction[];
+  currentCardIndex: number;
+  wordRevealIndex: number;   // For progressive word reveal
+  startTime: number;
+  cardShownAt: number;       // When the current card was displayed - for per-card timing
+  timeBudgetMinutes: number; // Session time budget (0 = no limit)
+  cardsLeftAtTimeUp: number; // Cards dropped when the time budget ran out (0 = it didn't)
+  savedAt?: number;          // Last saved locally (see restoreSession)
+}
+
+export function createSession(cards: LibraryVerseCard[], timeBudgetMinutes: number = 0): ReviewSession {
+  const now = Date.now();
+  return {
+    cards,
+    actions: [],
+    currentCardIndex: 0,
+    wordRevealIndex: 0,
+    startTime: now,
+    cardShownAt: now,
+    timeBudgetMinutes,
+    cardsLeftAtTimeUp: 0
+  };
+}
+
+export function isSessionFinished(session: ReviewSession): boolean {
+  return session.currentCardIndex >= session.cards.length;
+}
+
+/**
+ * Moves the session past the current card. Once the time budget has run out the session
+ * ends here - the cards not yet reviewed are dropped and stay due.
+ */
+export function advanceSession(session: ReviewSession, action: ReviewAction): ReviewSession {
+  const nextIndex = session.currentCardIndex + 1;
+  const timeUp = nextIndex < session.cards.length &&
+    isTimeBudgetExhausted(session.startTime, session.timeBudgetMinutes, action.timestamp);
+
+  return {
+    ...session,
+    cards: timeUp ? session.cards.slice(0, nextIndex) : session.cards,
+    actions: [...session.actions, action],
+    currentCardIndex: nextIndex,
+    wordRevealIndex: 0, // Reset for next card
+    cardShownAt: action.timestamp,
+    cardsLeftAtTimeUp: timeUp ? session.cards.length - nextIndex : session.cardsLeftAtTimeUp
+  };
+}
+
+/**
+ * Ends a session where it stands - the cards not yet reached are dropped, so a saved copy
+ * isn't offered for resuming and only its unlogged reviews are picked up again
+ */
+export function endSession(session: ReviewSession): ReviewSession {
+  return { ...session, cards: session.cards.slice(0, session.currentCardIndex) };
+}
+
+/**
+ * Actions whose review logs are due to be written - everything outside the undo window,
+ * or every pending action once the session is finished
+ */
+export function getActionsToRecord(session: ReviewSession, undoable: number = UNDOABLE_ACTIONS): ReviewAction[] {
+  const keep = isSessionFinished(session) ? 0 : undoable;
+  return session.actions
+    .slice(0, Math.max(0, session.actions.length - keep))
+    .filter(action => !action.recorded);
+}
+
+export function markActionsRecorded(session: ReviewSession, actionIds: string[]): ReviewSession {
+  if (actionIds.length === 0) return session;
+  const ids = new Set(actionIds);
+  return {
+    ...session,
+    actions: session.actions.map(action => (ids.has(action.id) ? { ...action, recorded: true } : action))
+  };
+}
+
+export function canUndoLastAction(session: ReviewSession | null): boolean {
+  const lastAction = session?.actions[session.actions.length - 1];
+  return !!lastAction && !lastAction.recorded;
+}
+
+/**
+ * Whether a saved session can be picked up again - it has cards left and was started
+ * today, since yesterday's due cards may no longer be due
+ */
+export function isSessionResumable(session: ReviewSession, today: string, timezone: string): boolean {
+  return !isSessionFinished(session) && formatDateInTimezone(new Date(session.startTime), timezone) === today;
+}
+
+/**
+ * Picks a saved session up again - time away doesn't count against its time budget or
+ * the current card's review time
+ */
+export function restoreSession(session: ReviewSession, now: number): ReviewSession {
+  const elapsed = (session.savedAt ?? now) - session.startTime;
+  return {
+    ...session,
+    startTime: now - elapsed,
+    cardShownAt: now
+  };
+}
@@ -0,0 +1,76 @@
+// Tests for review keyboard shortcuts
+import {
+  DEFAULT_REVIEW_SHORTCUTS,
+  formatShortcutKey,
+  getReviewShortcuts,
+  matchReviewShortcut,
+  validateReviewShortcuts
+} from './reviewShortcuts';
+
+const press = (key: string, modifiers: { ctrlKey?: boolean; altKey?: boolean; metaKey?: boolean } = {}) => ({
+  key,
+  ctrlKey: false,
+  altKey: false,
+  metaKey: false,
+  ...modifiers
+});
+
+describe('matchReviewShortcut', () => {
+  test('maps the default keys to review actions', () => {
+    expect(matchReviewShortcut(DEFAULT_REVIEW_SHORTCUTS, press(' '))).toBe('revealNext');
+    expect(matchReviewShortcut(DEFAULT_REVIEW_SHORTCUTS, press('Enter'))).toBe('revealAll');
+    expect(matchReviewShortcut(DEFAULT_REVIEW_SHORTCUTS, press('ArrowRight'))).toBe('correct');
+    expect(matchReviewShortcut(DEFAULT_REVIEW_SHORTCUTS, press('ArrowLeft'))).toBe('incorrect');
+    expect(matchReviewShortcut(DEFAULT_REVIEW_SHORTCUTS, press('?'))).toBe('help');
+  });
+
+  test('ignores letter case and unbound keys', () => {
+    expect(matchReviewShortcut(DEFAULT_REVIEW_SHORTCUTS, press('U'))).toBe('undo');
+    expect(matchReviewShortcut(DEFAULT_REVIEW_SHORTCUTS, press('x'))).toBeNull();
+  });
+
+  test('leaves browser shortcuts alone', () => {
+    expect(matchReviewShortcut(DEFAULT_REVIEW_SHORTCUTS, press('u', { ctrlKey: true }))).toBeNull();
+    expect(matchReviewShortcut(DEFAULT_REVIEW_SHORTCUTS, press('ArrowLeft', { metaKey: true }))).toBeNull();
+  });
+});
+
+describe('validateReviewShortcuts', () => {
+  test('accepts the defaults', () => {
+    expect(validateReviewShortcuts(DEFAULT_REVIEW_SHORTCUTS)).toBeNull();
+  });
+
+  test('rejects a key bound twice', () => {
+    expect(validateReviewShortcuts({ ...DEFAULT_REVIEW_SHORTCUTS, undo: 'Enter' }))
+      .toBe('Enter is used for both Reveal whole verse and Undo last card');
+  });
+
+  test('rejects reserved and empty keys', () => {
+    expect(validateReviewShortcuts({ ...DEFAULT_REVIEW_SHORTCUTS, help: 'Escape' })).not.toBeNull();
+    expect(validateReviewShortcuts({ ...DEFAULT_REVIEW_SHORTCUTS, undo: '' })).not.toBeNull();
+  });
+});
+
+describe('getReviewShortcuts', () => {
+  test('fills unset actions with defaults', () => {
+    const shortcuts = getReviewShortcuts({ review_shortcuts: { correct: 'K', incorrect: 'j' } });
+    expect(shortcuts.correct).toBe('k');
+    expect(shortcuts.incorrect).toBe('j');
+    expect(shortcuts.undo).toBe('u');
+  });
+
+  test('falls back to defaults for missing or conflicting bindings', () => {
+    expect(getReviewShortcuts(null)).toEqual(DEFAULT_REVIEW_SHORTCUTS);
+    expect(getReviewShortcuts({ review_shortcuts: null })).toEqual(DEFAULT_REVIEW_SHORTCUTS);
+    expect(getReviewShortcuts({ review_shortcuts: { correct: 'u' } })).toEqual(DEFAULT_REVIEW_SHORTCUTS);
+  });
+});
+
+describe('formatShortcutKey', () => {
+  test('names keys for display', () => {
+    expect(formatShortcutKey(' ')).toBe('Space');
+    expect(formatShortcutKey('ArrowRight')).toBe('→');
+    expect(formatShortcutKey('u')).toBe('U');
+    expect(formatShortcutKey('Enter')).toBe('Enter');
+  });
+});
@@ -0,0 +1,124 @@
+// Review Keyboard Shortcuts - desktop key bindings for the review session (user_profiles.review_shortcuts)
+
+export type ReviewShortcutAction =
+  | 'revealNext'
+  | 'revealAll'
+  | 'correct'
+  | 'incorrect'
+  | 'hard'
+  | 'easy'
+  | 'undo'
+  | 'help';
+
+// KeyboardEvent.key values - single characters are stored lowercase
+export type ReviewShortcuts = Record<ReviewShortcutAction, string>;
+
+export const REVIEW_SHORTCUT_ACTIONS: ReviewShortcutAction[] = [
+  'revealNext', 'revealAll', 'correct', 'incorrect', 'hard', 'easy', 'undo', 'help'
+];
+
+// Arrows follow the swipe directions: left = again, down = hard, right = good, up = easy
+export const DEFAULT_REVIEW_SHORTCUTS: ReviewShortcuts = {
+  revealNext: ' ',
+  revealAll: 'Enter',
+  correct: 'ArrowRight',
+  incorrect: 'ArrowLeft',
+  hard: 'ArrowDown',
+  easy: 'ArrowUp',
+  undo: 'u',
+  help: '?'
+};
+
+export const REVIEW_SHORTCUT_LABELS: Record<ReviewShortcutAction, string> = {
+  revealNext: 'Reveal next word',
+  revealAll: 'Reveal whole verse',
+  correct: 'Correct',
+  incorrect: 'Incorrect (again)',
+  hard: 'Hard',
+  easy: 'Easy',
+  undo: 'Undo last card',
+  help: 'Show shortcuts'
+};
+
+// Escape closes the help overlay and Tab moves focus, so neither can be bound
+const RESERVED_KEYS = ['Escape', 'Tab'];
+const MODIFIER_KEYS = ['Shift', 'Control', 'Alt', 'Meta', 'CapsLock', 'Fn'];
+
+const KEY_NAMES: Record<string, string> = {
+  ' ': 'Space',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓'
+};
+
+/**
+ * Normalizes a KeyboardEvent.key for storage and matching - letters are case-insensitive
+ */
+export function normalizeShortcutKey(key: string): string {
+  return key.length === 1 ? key.toLowerCase() : key;
+}
+
+/**
+ * Display name for a key ("Space", "→", "U")
+ */
+export function formatShortcutKey(key: string): string {
+  return KEY_NAMES[key] ?? (key.length === 1 ? key.toUpperCase() : key);
+}
+
+/**
+ * Checks a set of bindings - returns an error message, or null when valid
+ */
+export function validateReviewShortcuts(shortcuts: ReviewShortcuts): string | null {
+  const seen = new Map<string, ReviewShortcutAction>();
+
+  for (const action of REVIEW_SHORTCUT_ACTIONS) {
+    const key = normalizeShortcutKey(shortcuts[action] ?? '');
+    if (!key) {
+      return `${REVIEW_SHORTCUT_LABELS[action]} needs a key`;
+    }
+    if (RESERVED_KEYS.includes(key) || MODIFIER_KEYS.includes(key)) {
+      return `${formatShortcutKey(key)} can't be used as a shortcut`;
+    }
+    const other = seen.get(key);
+    if (other) {
+      return `${formatShortcutKey(key)} is used for both ${REVIEW_SHORTCUT_LABELS[other]} and ${REVIEW_SHORTCUT_LABELS[action]}`;
+    }
+    seen.set(key, action);
+  }
+
+  return null;
+}
+
+/**
+ * Resolves a profile's bindings - unset actions use the defaults, and a stored set that
+ * is no longer valid falls back to the defaults entirely
+ */
+export function getReviewShortcuts(profile?: { review_shortcuts?: unknown } | null): ReviewShortcuts {
+  const stored = profile?.review_shortcuts;
+  if (!stored || typeof stored !== 'object') return { ...DEFAULT_REVIEW_SHORTCUTS };
+
+  const shortcuts = { ...DEFAULT_REVIEW_SHORTCUTS };
+  for (const action of REVIEW_SHORTCUT_ACTIONS) {
+    const key = (stored as Partial<Record<ReviewShortcutAction, unknown>>)[action];
+    if (typeof key === 'string' && key) {
+      shortcuts[action] = normalizeShortcutKey(key);
+    }
+  }
+
+  return validateReviewShortcuts(shortcuts) ? { ...DEFAULT_REVIEW_SHORTCUTS } : shortcuts;
+}
+
+/**
+ * Finds the action bound to a key press. Presses with Ctrl, Alt or Meta are left to the
+ * browser; Shift is allowed since some keys ("?") need it.
+ */
+export function matchReviewShortcut(
+  shortcuts: ReviewShortcuts,
+  event: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'altKey' | 'metaKey'>
+): ReviewShortcutAction | null {
+  if (event.ctrlKey || event.altKey || event.metaKey) return null;
+
+  const key = normalizeShortcutKey(event.key);
+  return REVIEW_SHORTCUT_ACTIONS.find(action => shortcuts[action] === key) ?? null;
+}
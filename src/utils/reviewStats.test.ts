@@ -0,0 +1,145 @@
+// Tests for the stats dashboard helpers
+import {
+  summarizeReviewsByDay,
+  getReviewTotals,
+  countCardsByPhase,
+  buildReviewHeatmap,
+  forecastDueCards,
+  type DailyReviewStats
+} from './reviewStats';
+import type { ReviewPhaseCard } from './assignmentLogic';
+
+const NOW = new Date('2024-01-15T12:00:00Z'); // Monday
+
+const createCard = (overrides: Partial<ReviewPhaseCard>): ReviewPhaseCard => ({
+  id: 'card-1',
+  currentPhase: 'daily',
+  archived: false,
+  assignedDayOfWeek: null,
+  assignedWeekParity: null,
+  assignedDayOfMonth: null,
+  nextDueDate: '2024-01-15',
+  ...overrides
+});
+
+const createDay = (date: string, reviews: number): DailyReviewStats => ({
+  date,
+  reviews,
+  successful: reviews,
+  successRate: reviews > 0 ? 100 : null
+});
+
+describe('summarizeReviewsByDay', () => {
+  const logs = [
+    { created_at: '2024-01-15T09:00:00Z', was_successful: true },
+    { created_at: '2024-01-15T10:00:00Z', was_successful: false },
+    { created_at: '2024-01-13T10:00:00Z', was_successful: true },
+    { created_at: '2023-12-01T10:00:00Z', was_successful: true } // Outside the range
+  ];
+
+  test('buckets reviews per day, oldest first, including empty days', () => {
+    const days = summarizeReviewsByDay(logs, 'UTC', '2024-01-15', 3);
+    expect(days).toEqual([
+      { date: '2024-01-13', reviews: 1, successful: 1, successRate: 100 },
+      { date: '2024-01-14', reviews: 0, successful: 0, successRate: null },
+      { date: '2024-01-15', reviews: 2, successful: 1, successRate: 50 }
+    ]);
+  });
+
+  test('uses the user timezone to pick the day', () => {
+    const lateNight = [{ created_at: '2024-01-15T03:00:00Z', was_successful: true }];
+    const days = summarizeReviewsByDay(lateNight, 'America/New_York', '2024-01-15', 2);
+    expect(days.map(day => day.reviews)).toEqual([1, 0]);
+  });
+
+  test('totals the range', () => {
+    const days = summarizeReviewsByDay(logs, 'UTC', '2024-01-15', 3);
+    expect(getReviewTotals(days)).toEqual({ reviews: 3, successful: 2, successRate: 67, activeDays: 2 });
+  });
+});
+
+describe('countCardsByPhase', () => {
+  test('counts active cards per phase and queued cards separately', () => {
+    const counts = countCardsByPhase([
+      createCard({ currentPhase: 'daily' }),
+      createCard({ currentPhase: 'weekly' }),
+      createCard({ currentPhase: 'weekly' }),
+      createCard({ currentPhase: 'monthly', archived: true }),
+      createCard({ currentPhase: 'daily', queued: true })
+    ]);
+    expect(counts).toEqual({ daily: 1, weekly: 2, biweekly: 0, monthly: 0, queued: 1 });
+  });
+});
+
+describe('buildReviewHeatmap', () => {
+  test('starts the first week on Sunday', () => {
+    const weeks = buildReviewHeatmap([createDay('2024-01-16', 1), createDay('2024-01-17', 0)]); // Tue, Wed
+    expect(weeks).toHaveLength(1);
+    expect(weeks[0].slice(0, 2)).toEqual([null, null]);
+    expect(weeks[0][2]?.date).toBe('2024-01-16');
+    expect(weeks[0].slice(4)).toEqual([null, null, null]);
+  });
+
+  test('scales levels to the busiest day', () => {
+    const weeks = buildReviewHeatmap([
+      createDay('2024-01-14', 0),
+      createDay('2024-01-15', 1),
+      createDay('2024-01-16', 4),
+      createDay('2024-01-17', 8)
+    ]);
+    expect(weeks[0].slice(0, 4).map(cell => cell?.level)).toEqual([0, 1, 2, 4]);
+  });
+
+  test('returns no weeks without data', () => {
+    expect(buildReviewHeatmap([])).toEqual([]);
+  });
+});
+
+describe('forecastDueCards', () => {
+  const countOn = (cards: ReviewPhaseCard[], date: string) =>
+    forecastDueCards(cards, 'UTC', 30, null, NOW).find(day => day.date === date)?.count;
+
+  test('covers the requested number of days starting today', () => {
+    const forecast = forecastDueCards([], 'UTC', 30, null, NOW);
+    expect(forecast).toHaveLength(30);
+    expect(forecast[0].date).toBe('2024-01-15');
+    expect(forecast[29].date).toBe('2024-02-13');
+  });
+
+  test('daily cards reviewed today are due again from tomorrow', () => {
+    const cards = [createCard({ nextDueDate: '2024-01-16' })];
+    expect(countOn(cards, '2024-01-15')).toBe(0);
+    expect(countOn(cards, '2024-01-16')).toBe(1);
+    expect(countOn(cards, '2024-01-30')).toBe(1);
+  });
+
+  test('weekly cards are due on their assigned weekday', () => {
+    const cards = [createCard({ currentPhase: 'weekly', assignedDayOfWeek: 2, nextDueDate: '2024-01-22' })];
+    expect(countOn(cards, '2024-01-15')).toBe(0); // Already reviewed this Monday
+    expect(countOn(cards, '2024-01-22')).toBe(1);
+    expect(countOn(cards, '2024-01-23')).toBe(0);
+  });
+
+  test('SM-2 cards are due on their due date only', () => {
+    const cards = [createCard({ scheduler: 'sm2', nextDueDate: '2024-01-20' })];
+    expect(countOn(cards, '2024-01-20')).toBe(1);
+    expect(countOn(cards, '2024-01-21')).toBe(0);
+  });
+
+  test('overdue cards count toward today', () => {
+    const cards = [createCard({ currentPhase: 'weekly', assignedDayOfWeek: 4, nextDueDate: '2024-01-10' })];
+    expect(countOn(cards, '2024-01-15')).toBe(1);
+    expect(countOn(cards, '2024-01-17')).toBe(1);
+  });
+
+  test('skips archived and queued cards', () => {
+    const cards = [createCard({ archived: true }), createCard({ queued: true })];
+    expect(countOn(cards, '2024-01-15')).toBe(0);
+  });
+
+  test('nothing is due on paused days', () => {
+    const cards = [createCard({})];
+    const forecast = forecastDueCards(cards, 'UTC', 5, { paused_from: '2024-01-16', paused_until: '2024-01-17' }, NOW);
+    expect(forecast.map(day => day.count)).toEqual([1, 0, 0, 1, 1]);
+  });
+});
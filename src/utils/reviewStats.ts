@@ -0,0 +1,183 @@
+/**
+ * Review Statistics
+ *
+ * Pure helpers behind the stats dashboard: daily review counts and success rates,
+ * cards per phase, the activity heatmap and the due-card forecast. Everything is
+ * computed from local data (review_logs / verse_cards) so the dashboard works offline.
+ *
+ * Days are YYYY-MM-DD strings in the user's timezone.
+ */
+
+import { calculateUserDateValues, formatDateInTimezone, formatDateToYYYYMMDD } from './dateUtils';
+import { getOverdueDays, isScheduledToday, type ReviewPhaseCard } from './assignmentLogic';
+import { addDaysToDateString, isPausedOn, type PauseState } from './pauseSchedule';
+import type { ReviewPhase } from './spacedRepetition';
+
+// Review log fields the stats need
+export interface ReviewLogEntry {
+  created_at: string;       // ISO timestamp
+  was_successful: boolean;
+}
+
+export interface DailyReviewStats {
+  date: string;
+  reviews: number;
+  successful: number;
+  successRate: number | null; // 0-100, null on days without reviews
+}
+
+export interface ReviewTotals {
+  reviews: number;
+  successful: number;
+  successRate: number | null;
+  activeDays: number;
+}
+
+export type PhaseCounts = Record<ReviewPhase, number> & { queued: number };
+
+export interface HeatmapCell {
+  date: string;
+  count: number;
+  level: 0 | 1 | 2 | 3 | 4; // Colour intensity, 0 = no reviews
+}
+
+export interface DueForecastDay {
+  date: string;
+  count: number;
+}
+
+export const STATS_HISTORY_DAYS = 30;
+export const HEATMAP_WEEKS = 26;
+export const FORECAST_DAYS = 30;
+
+const MS_PER_DAY = 86400000;
+
+function toSuccessRate(successful: number, reviews: number): number | null {
+  return reviews > 0 ? Math.round((successful / reviews) * 100) : null;
+}
+
+/**
+ * Buckets review logs into the `days` days ending today (oldest first),
+ * including days without reviews
+ */
+export function summarizeReviewsByDay(
+  logs: ReviewLogEntry[],
+  timezone: string,
+  today: string,
+  days: number = STATS_HISTORY_DAYS
+): DailyReviewStats[] {
+  const buckets = new Map<string, { reviews: number; successful: number }>();
+  for (let offset = days - 1; offset >= 0; offset--) {
+    buckets.set(addDaysToDateString(today, -offset), { reviews: 0, successful: 0 });
+  }
+
+  for (const log of logs) {
+    const bucket = buckets.get(formatDateInTimezone(new Date(log.created_at), timezone));
+    if (!bucket) continue;
+    bucket.reviews++;
+    if (log.was_successful) bucket.successful++;
+  }
+
+  return Array.from(buckets, ([date, { reviews, successful }]) => ({
+    date,
+    reviews,
+    successful,
+    successRate: toSuccessRate(successful, reviews)
+  }));
+}
+
+/**
+ * Totals across a range of days
+ */
+export function getReviewTotals(days: DailyReviewStats[]): ReviewTotals {
+  const reviews = days.reduce((sum, day) => sum + day.reviews, 0);
+  const successful = days.reduce((sum, day) => sum + day.successful, 0);
+  return {
+    reviews,
+    successful,
+    successRate: toSuccessRate(successful, reviews),
+    activeDays: days.filter(day => day.reviews > 0).length
+  };
+}
+
+/**
+ * Counts active cards per phase - queued cards are counted separately, archived cards not at all
+ */
+export function countCardsByPhase(cards: ReviewPhaseCard[]): PhaseCounts {
+  const counts: PhaseCounts = { daily: 0, weekly: 0, biweekly: 0, monthly: 0, queued: 0 };
+  for (const card of cards) {
+    if (card.archived) continue;
+    if (card.queued) {
+      counts.queued++;
+    } else {
+      counts[card.currentPhase]++;
+    }
+  }
+  return counts;
+}
+
+/**
+ * Lays daily stats out as a GitHub-style calendar: one column per week, Sunday first.
+ * Days before the first date are null so every column has 7 cells.
+ */
+export function buildReviewHeatmap(days: DailyReviewStats[]): (HeatmapCell | null)[][] {
+  if (days.length === 0) {
+    return [];
+  }
+
+  const max = Math.max(...days.map(day => day.reviews));
+  const [year, month, date] = days[0].date.split('-').map(Number);
+  const leadingBlanks = new Date(Date.UTC(year, month - 1, date)).getUTCDay();
+
+  const cells: (HeatmapCell | null)[] = [
+    ...Array<null>(leadingBlanks).fill(null),
+    ...days.map(day => ({
+      date: day.date,
+      count: day.reviews,
+      level: (max > 0 ? Math.ceil((day.reviews / max) * 4) : 0) as HeatmapCell['level']
+    }))
+  ];
+
+  const weeks: (HeatmapCell | null)[][] = [];
+  for (let start = 0; start < cells.length; start += 7) {
+    const week = cells.slice(start, start + 7);
+    weeks.push([...week, ...Array<null>(7 - week.length).fill(null)]);
+  }
+  return weeks;
+}
+
+/**
+ * Forecasts how many cards come due on each of the next `days` days (today first)
+ * from their assignments, assuming every due card is reviewed on its day.
+ * Overdue cards count toward today; paused days have nothing due.
+ * Queued cards are not forecast since their introduction depends on the daily limit.
+ */
+export function forecastDueCards(
+  cards: ReviewPhaseCard[],
+  timezone: string,
+  days: number = FORECAST_DAYS,
+  pause?: PauseState | null,
+  now: Date = new Date()
+): DueForecastDay[] {
+  const activeCards = cards.filter(card => !card.archived && !card.queued);
+  const forecast: DueForecastDay[] = [];
+
+  for (let offset = 0; offset < days; offset++) {
+    const userCalculation = calculateUserDateValues(timezone, new Date(now.getTime() + offset * MS_PER_DAY));
+    const date = formatDateToYYYYMMDD(userCalculation.userToday);
+
+    if (isPausedOn(pause, date)) {
+      forecast.push({ date, count: 0 });
+      continue;
+    }
+
+    const count = activeCards.filter(card =>
+      // Already reviewed for this slot if the next due date is still ahead
+      (isScheduledToday(card, userCalculation) && (card.nextDueDate ?? date) <= date) ||
+      (offset === 0 && getOverdueDays(card, userCalculation) > 0)
+    ).length;
+    forecast.push({ date, count });
+  }
+
+  return forecast;
+}
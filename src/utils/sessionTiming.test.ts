@@ -0,0 +1,76 @@
+// Tests for session timing and time budgets
+import {
+  MAX_REVIEW_TIME_SECONDS,
+  formatDuration,
+  getAverageReviewTime,
+  getReviewTimeSeconds,
+  isTimeBudgetExhausted,
+  sortByReviewPriority
+} from './sessionTiming';
+import type { ReviewPhase } from './spacedRepetition';
+
+const card = (id: string, currentPhase: ReviewPhase, overdueDays = 0, currentStreak = 0, queued = false) => ({
+  id,
+  currentPhase,
+  overdueDays,
+  currentStreak,
+  queued
+});
+
+describe('getReviewTimeSeconds', () => {
+  test('rounds to whole seconds, at least one', () => {
+    expect(getReviewTimeSeconds(0, 12400)).toBe(12);
+    expect(getReviewTimeSeconds(0, 200)).toBe(1);
+  });
+
+  test('caps time spent away from the card', () => {
+    expect(getReviewTimeSeconds(0, 60 * 60 * 1000)).toBe(MAX_REVIEW_TIME_SECONDS);
+  });
+});
+
+describe('getAverageReviewTime', () => {
+  test('averages logs that recorded a time', () => {
+    expect(getAverageReviewTime([
+      { review_time_seconds: 10 },
+      { review_time_seconds: null },
+      { review_time_seconds: 21 }
+    ])).toBe(16);
+  });
+
+  test('is null without timed reviews', () => {
+    expect(getAverageReviewTime([])).toBeNull();
+    expect(getAverageReviewTime([{ review_time_seconds: null }])).toBeNull();
+  });
+});
+
+describe('formatDuration', () => {
+  test('formats seconds and minutes', () => {
+    expect(formatDuration(45)).toBe('45s');
+    expect(formatDuration(80)).toBe('1m 20s');
+    expect(formatDuration(180)).toBe('3m');
+  });
+});
+
+describe('sortByReviewPriority', () => {
+  test('puts overdue and unsettled cards first and new cards last', () => {
+    const sorted = sortByReviewPriority([
+      card('new', 'daily', 0, 0, true),
+      card('monthly', 'monthly'),
+      card('daily-long-streak', 'daily', 0, 9),
+      card('overdue', 'weekly', 3),
+      card('daily', 'daily', 0, 1)
+    ]);
+    expect(sorted.map(c => c.id)).toEqual(['overdue', 'daily', 'daily-long-streak', 'monthly', 'new']);
+  });
+});
+
+describe('isTimeBudgetExhausted', () => {
+  test('runs out once the budget has passed', () => {
+    expect(isTimeBudgetExhausted(0, 10, 9 * 60 * 1000)).toBe(false);
+    expect(isTimeBudgetExhausted(0, 10, 10 * 60 * 1000)).toBe(true);
+  });
+
+  test('never runs out without a budget', () => {
+    expect(isTimeBudgetExhausted(0, 0, 24 * 60 * 60 * 1000)).toBe(false);
+  });
+});
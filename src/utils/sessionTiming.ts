@@ -0,0 +1,69 @@
+// Session Timing - per-card review time and optional session time budgets
+
+import { PHASE_ORDER, type ReviewPhase } from './spacedRepetition';
+
+// A card left on screen longer than this was set aside, not studied - cap its logged time
+export const MAX_REVIEW_TIME_SECONDS = 300;
+
+// Choices for "how long do I have today" (minutes, 0 = no limit)
+export const SESSION_TIME_BUDGET_OPTIONS = [0, 5, 10, 15, 20, 30] as const;
+
+interface PrioritizedCard {
+  currentPhase: ReviewPhase;
+  currentStreak: number;
+  overdueDays?: number;
+  queued?: boolean;
+}
+
+/**
+ * Seconds a card was on screen, from display to grade - whole seconds, at least 1,
+ * capped at MAX_REVIEW_TIME_SECONDS
+ */
+export function getReviewTimeSeconds(shownAt: number, gradedAt: number): number {
+  const seconds = Math.round((gradedAt - shownAt) / 1000);
+  return Math.min(MAX_REVIEW_TIME_SECONDS, Math.max(1, seconds));
+}
+
+/**
+ * Average review time across logs that recorded one - null when none did
+ */
+export function getAverageReviewTime(logs: { review_time_seconds: number | null }[]): number | null {
+  const times = logs
+    .map(log => log.review_time_seconds)
+    .filter((seconds): seconds is number => seconds !== null && seconds > 0);
+
+  if (times.length === 0) return null;
+  return Math.round(times.reduce((sum, seconds) => sum + seconds, 0) / times.length);
+}
+
+/**
+ * Short duration for display ("45s", "1m 20s", "3m")
+ */
+export function formatDuration(seconds: number): string {
+  const whole = Math.max(0, Math.round(seconds));
+  if (whole < 60) return `${whole}s`;
+  const minutes = Math.floor(whole / 60);
+  const rest = whole % 60;
+  return rest ? `${minutes}m ${rest}s` : `${minutes}m`;
+}
+
+/**
+ * Orders cards so a short session covers what matters most: the most overdue first,
+ * then the least settled (earlier phase, shorter streak), with new cards from the
+ * learning queue last. The sort is stable, so ties keep their due order.
+ */
+export function sortByReviewPriority<T extends PrioritizedCard>(cards: T[]): T[] {
+  return [...cards].sort((a, b) =>
+    Number(!!a.queued) - Number(!!b.queued) ||
+    (b.overdueDays ?? 0) - (a.overdueDays ?? 0) ||
+    PHASE_ORDER[a.currentPhase] - PHASE_ORDER[b.currentPhase] ||
+    a.currentStreak - b.currentStreak
+  );
+}
+
+/**
+ * Whether a session's time budget has run out (a budget of 0 never does)
+ */
+export function isTimeBudgetExhausted(startTime: number, budgetMinutes: number, now: number): boolean {
+  return budgetMinutes > 0 && now - startTime >= budgetMinutes * 60 * 1000;
+}
@@ -1,7 +1,20 @@
 // TDD Tests for spaced repetition logic
 import {
   processReview,
-  calculateNextDueDate
+  calculateNextDueDate,
+  isSuccessfulGrade,
+  getPhaseSettings,
+  validatePhaseSettings,
+  getPreviousPhase,
+  getScheduler,
+  getPhaseCardUpdate,
+  phaseScheduler,
+  sm2Scheduler,
+  DEFAULT_PHASE_SETTINGS,
+  SM2_DEFAULT_EASE,
+  SM2_MIN_EASE,
+  type PhaseCardFields,
+  type SchedulerCardState
 } from './spacedRepetition';
 
 describe('calculateNextDueDate', () => {
@@ -90,4 +103,296 @@ describe('processReview', () => {
     // Should be YYYY-MM-DD format
     expect(result.next_due_date).toMatch(/^\d{4}-\d{2}-\d{2}$/);
   });
-});
\ No newline at end of file
+});
+
+describe('processReview with grades', () => {
+  test('again resets progress within the current phase', () => {
+    const result = processReview('weekly', 3, false, true, 'again');
+
+    expect(result.current_phase).toBe('weekly');
+    expect(result.phase_progress_count).toBe(0);
+  });
+
+  test('hard holds progress', () => {
+    const result = processReview('daily', 5, true, true, 'hard');
+
+    expect(result.current_phase).toBe('daily');
+    expect(result.phase_progress_count).toBe(5);
+  });
+
+  test('good adds one progress', () => {
+    const result = processReview('daily', 5, true, true, 'good');
+
+    expect(result.phase_progress_count).toBe(6);
+  });
+
+  test('easy adds bonus progress', () => {
+    const result = processReview('daily', 5, true, true, 'easy');
+
+    expect(result.phase_progress_count).toBe(7);
+  });
+
+  test('easy bonus can advance to the next phase', () => {
+    const result = processReview('daily', 12, true, true, 'easy'); // 12 + 2 = 14
+
+    expect(result.current_phase).toBe('weekly');
+    expect(result.phase_progress_count).toBe(0);
+  });
+
+  test('grades do not change progress when review does not count', () => {
+    const result = processReview('daily', 5, false, false, 'again');
+
+    expect(result.phase_progress_count).toBe(5);
+    expect(result.countsTowardProgress).toBe(false);
+  });
+});
+
+describe('isSuccessfulGrade', () => {
+  test('only again is unsuccessful', () => {
+    expect(isSuccessfulGrade('again')).toBe(false);
+    expect(isSuccessfulGrade('hard')).toBe(true);
+    expect(isSuccessfulGrade('good')).toBe(true);
+    expect(isSuccessfulGrade('easy')).toBe(true);
+  });
+});
+
+describe('phase settings', () => {
+  test('getPhaseSettings falls back to defaults', () => {
+    expect(getPhaseSettings(null)).toEqual(DEFAULT_PHASE_SETTINGS);
+    expect(getPhaseSettings({ daily_phase_requirement: 7 }).requirements).toEqual({
+      daily: 7,
+      weekly: 4,
+      biweekly: 4
+    });
+  });
+
+  test('custom daily requirement advances sooner', () => {
+    const settings = getPhaseSettings({ daily_phase_requirement: 7 });
+    const result = processReview('daily', 6, true, true, undefined, settings);
+
+    expect(result.current_phase).toBe('weekly');
+    expect(result.phase_progress_count).toBe(0);
+  });
+
+  test('custom interval changes the next due date', () => {
+    const today = new Date('2024-01-01');
+    const intervals = getPhaseSettings({ daily_interval_days: 2 }).intervals;
+    const nextDate = calculateNextDueDate('daily', today, intervals);
+    expect(nextDate.toISOString().split('T')[0]).toBe('2024-01-03');
+  });
+
+  test('custom monthly interval shifts from the calendar month', () => {
+    const today = new Date('2024-01-01');
+    const intervals = getPhaseSettings({ monthly_interval_days: 45 }).intervals;
+    const nextDate = calculateNextDueDate('monthly', today, intervals);
+    expect(nextDate.toISOString().split('T')[0]).toBe('2024-02-16');
+  });
+
+  test('validatePhaseSettings accepts defaults', () => {
+    expect(validatePhaseSettings(DEFAULT_PHASE_SETTINGS)).toBeNull();
+  });
+
+  test('validatePhaseSettings rejects out-of-range values', () => {
+    expect(validatePhaseSettings(getPhaseSettings({ daily_phase_requirement: 0 }))).toMatch(/daily/);
+    expect(validatePhaseSettings(getPhaseSettings({ weekly_interval_days: 3 }))).toMatch(/weekly interval/);
+    expect(validatePhaseSettings(getPhaseSettings({ daily_phase_requirement: 2.5 }))).toMatch(/whole number/);
+  });
+});
+
+describe('failure-driven demotion', () => {
+  test('failures below the threshold count up without demoting', () => {
+    const result = processReview('weekly', 2, false, true, 'again', DEFAULT_PHASE_SETTINGS, 1);
+
+    expect(result.current_phase).toBe('weekly');
+    expect(result.consecutive_failures).toBe(2);
+    expect(result.demoted_from_phase).toBeNull();
+  });
+
+  test('reaching the threshold drops back one phase', () => {
+    const result = processReview('monthly', 3, false, true, 'again', DEFAULT_PHASE_SETTINGS, 2);
+
+    expect(result.current_phase).toBe('biweekly');
+    expect(result.phase_progress_count).toBe(0);
+    expect(result.consecutive_failures).toBe(0);
+    expect(result.demoted_from_phase).toBe('monthly');
+  });
+
+  test('ungraded failures also count toward demotion', () => {
+    const result = processReview('weekly', 2, false, true, undefined, DEFAULT_PHASE_SETTINGS, 2);
+
+    expect(result.current_phase).toBe('daily');
+    expect(result.demoted_from_phase).toBe('weekly');
+  });
+
+  test('daily cards are never demoted', () => {
+    const result = processReview('daily', 5, false, true, 'again', DEFAULT_PHASE_SETTINGS, 5);
+
+    expect(result.current_phase).toBe('daily');
+    expect(result.consecutive_failures).toBe(6);
+    expect(result.demoted_from_phase).toBeNull();
+  });
+
+  test('a successful review resets the failure count', () => {
+    const result = processReview('weekly', 1, true, true, 'hard', DEFAULT_PHASE_SETTINGS, 2);
+
+    expect(result.consecutive_failures).toBe(0);
+  });
+
+  test('repeat reviews on the same day do not count failures', () => {
+    const result = processReview('weekly', 1, false, false, 'again', DEFAULT_PHASE_SETTINGS, 2);
+
+    expect(result.current_phase).toBe('weekly');
+    expect(result.consecutive_failures).toBe(2);
+  });
+
+  test('a threshold of 0 disables demotion', () => {
+    const settings = getPhaseSettings({ demotion_failure_threshold: 0 });
+    const result = processReview('biweekly', 0, false, true, 'again', settings, 10);
+
+    expect(result.current_phase).toBe('biweekly');
+    expect(result.consecutive_failures).toBe(11);
+  });
+
+  test('getPreviousPhase steps down the ladder', () => {
+    expect(getPreviousPhase('monthly')).toBe('biweekly');
+    expect(getPreviousPhase('biweekly')).toBe('weekly');
+    expect(getPreviousPhase('weekly')).toBe('daily');
+    expect(getPreviousPhase('daily')).toBe('daily');
+  });
+
+  test('validatePhaseSettings rejects out-of-range thresholds', () => {
+    expect(validatePhaseSettings(getPhaseSettings({ demotion_failure_threshold: 21 }))).toMatch(/demotion/);
+    expect(validatePhaseSettings(getPhaseSettings({ demotion_failure_threshold: 0 }))).toBeNull();
+  });
+});
+
+describe('schedulers', () => {
+  const baseCard: SchedulerCardState = {
+    current_phase: 'daily',
+    phase_progress_count: 0,
+    consecutive_failures: 0,
+    ease_factor: SM2_DEFAULT_EASE,
+    interval_days: 0,
+    repetitions: 0,
+    next_due_date: '2024-01-01'
+  };
+
+  test('getScheduler falls back to the phase ladder', () => {
+    expect(getScheduler('sm2')).toBe(sm2Scheduler);
+    expect(getScheduler(null)).toBe(phaseScheduler);
+    expect(getScheduler('unknown')).toBe(phaseScheduler);
+  });
+
+  test('phase scheduler matches processReview', () => {
+    const outcome = phaseScheduler.review({ ...baseCard, phase_progress_count: 13 }, { wasSuccessful: true, countsTowardProgress: true });
+
+    expect(outcome.current_phase).toBe('weekly');
+    expect(outcome.phase_progress_count).toBe(0);
+    expect(outcome.repetitions).toBe(0);
+  });
+
+  test('sm2 grows the interval 1 → 6 → interval × ease', () => {
+    const first = sm2Scheduler.review(baseCard, { wasSuccessful: true, countsTowardProgress: true, grade: 'good' });
+    expect(first.interval_days).toBe(1);
+    expect(first.repetitions).toBe(1);
+
+    const second = sm2Scheduler.review(first, { wasSuccessful: true, countsTowardProgress: true, grade: 'good' });
+    expect(second.interval_days).toBe(6);
+
+    const third = sm2Scheduler.review(second, { wasSuccessful: true, countsTowardProgress: true, grade: 'good' });
+    expect(third.interval_days).toBe(15); // 6 × 2.5
+    expect(third.ease_factor).toBe(SM2_DEFAULT_EASE);
+  });
+
+  test('sm2 easy raises ease and hard lowers it', () => {
+    const easy = sm2Scheduler.review(baseCard, { wasSuccessful: true, countsTowardProgress: true, grade: 'easy' });
+    const hard = sm2Scheduler.review(baseCard, { wasSuccessful: true, countsTowardProgress: true, grade: 'hard' });
+
+    expect(easy.ease_factor).toBe(2.6);
+    expect(hard.ease_factor).toBe(2.36);
+  });
+
+  test('sm2 lapse restarts repetitions without changing ease or phase', () => {
+    const card = { ...baseCard, current_phase: 'weekly' as const, interval_days: 20, repetitions: 4, ease_factor: 2.2 };
+    const outcome = sm2Scheduler.review(card, { wasSuccessful: false, countsTowardProgress: true, grade: 'again' });
+
+    expect(outcome.interval_days).toBe(1);
+    expect(outcome.repetitions).toBe(0);
+    expect(outcome.ease_factor).toBe(2.2);
+    expect(outcome.current_phase).toBe('weekly');
+  });
+
+  test('sm2 ease never drops below the minimum', () => {
+    const card = { ...baseCard, ease_factor: SM2_MIN_EASE };
+    const outcome = sm2Scheduler.review(card, { wasSuccessful: true, countsTowardProgress: true, grade: 'hard' });
+
+    expect(outcome.ease_factor).toBe(SM2_MIN_EASE);
+  });
+
+  test('sm2 seeds cards coming off the phase ladder from their phase interval', () => {
+    const card = { ...baseCard, current_phase: 'biweekly' as const };
+    const outcome = sm2Scheduler.review(card, { wasSuccessful: true, countsTowardProgress: true, grade: 'good' });
+
+    expect(outcome.repetitions).toBe(3);
+    expect(outcome.interval_days).toBe(35); // 14 × 2.5
+  });
+
+  test('sm2 ignores repeat reviews on the same day', () => {
+    const card = { ...baseCard, interval_days: 6, repetitions: 2 };
+    const outcome = sm2Scheduler.review(card, { wasSuccessful: false, countsTowardProgress: false, grade: 'again' });
+
+    expect(outcome.interval_days).toBe(6);
+    expect(outcome.repetitions).toBe(2);
+    expect(outcome.next_due_date).toBe('2024-01-01');
+  });
+});
+
+describe('getPhaseCardUpdate', () => {
+  const card: PhaseCardFields = {
+    current_phase: 'weekly',
+    assigned_day_of_week: 3,
+    assigned_week_parity: null,
+    assigned_day_of_month: null
+  };
+  const state: SchedulerCardState = {
+    current_phase: 'weekly',
+    phase_progress_count: 2,
+    consecutive_failures: 0,
+    ease_factor: SM2_DEFAULT_EASE,
+    interval_days: 0,
+    repetitions: 0,
+    next_due_date: '2024-01-01'
+  };
+  const biweeklySlot = { day_of_week: 5, week_parity: 1, day_of_month: null };
+
+  test('writes progress and failures, keeping the assignment within a phase', () => {
+    const outcome = phaseScheduler.review(state, { wasSuccessful: true, countsTowardProgress: true });
+
+    expect(getPhaseCardUpdate(card, outcome, biweeklySlot)).toEqual({
+      ...card,
+      phase_progress_count: 3,
+      consecutive_failures: 0
+    });
+  });
+
+  test('takes the new assignment on promotion', () => {
+    const outcome = phaseScheduler.review({ ...state, phase_progress_count: 3 }, { wasSuccessful: true, countsTowardProgress: true });
+
+    expect(getPhaseCardUpdate(card, outcome, biweeklySlot)).toEqual({
+      current_phase: 'biweekly',
+      phase_progress_count: 0,
+      consecutive_failures: 0,
+      assigned_day_of_week: 5,
+      assigned_week_parity: 1,
+      assigned_day_of_month: null
+    });
+  });
+
+  test('clears the assignment when demoted to daily', () => {
+    const outcome = phaseScheduler.review({ ...state, consecutive_failures: 2 }, { wasSuccessful: false, countsTowardProgress: true });
+    const update = getPhaseCardUpdate(card, outcome);
+
+    expect(update.current_phase).toBe('daily');
+    expect(update.assigned_day_of_week).toBeNull();
+  });
+});
@@ -4,38 +4,167 @@ import { formatDateToYYYYMMDD } from './dateUtils';
 
 export type ReviewPhase = 'daily' | 'weekly' | 'biweekly' | 'monthly';
 
+// Rank of each phase, earliest first - for sorting cards by how settled they are
+export const PHASE_ORDER: Record<ReviewPhase, number> = {
+  daily: 0,
+  weekly: 1,
+  biweekly: 2,
+  monthly: 3
+};
+
+// Four-level review grade - mirrors the review_logs.grade column
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export const REVIEW_GRADES: readonly ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+
 export interface ReviewResult {
   current_phase: ReviewPhase;
   phase_progress_count: number;
   next_due_date: string; // YYYY-MM-DD format
   countsTowardProgress: boolean;
+  consecutive_failures: number;            // Failed first-reviews-of-the-day in a row
+  demoted_from_phase: ReviewPhase | null;  // Set when repeated failures dropped the card back a phase
+}
+
+// Phases that advance after a number of successful reviews (monthly continues indefinitely)
+export type AdvancingPhase = Exclude<ReviewPhase, 'monthly'>;
+
+// Per-user phase configuration - stored on user_profiles, honored by the database trigger
+export interface PhaseSettings {
+  requirements: Record<AdvancingPhase, number>; // Successful reviews needed to advance
+  intervals: Record<ReviewPhase, number>;       // Days between reviews
+  demotionThreshold: number;                    // Consecutive failures before dropping back a phase (0 disables)
 }
 
-// Phase progression requirements
-const PHASE_REQUIREMENTS = {
+// Default phase progression requirements
+export const DEFAULT_PHASE_REQUIREMENTS: Record<AdvancingPhase, number> = {
   daily: 14,    // 14 successful reviews to advance to weekly
   weekly: 4,    // 4 successful reviews to advance to biweekly
-  biweekly: 4,  // 4 successful reviews to advance to monthly
-  monthly: Infinity // Continue indefinitely
+  biweekly: 4   // 4 successful reviews to advance to monthly
+};
+
+// Progress earned per grade - 'again' resets progress instead (see processReview)
+const GRADE_PROGRESS = {
+  again: 0,  // Resets phase progress to 0
+  hard: 0,   // Holds progress - recalled, but with effort
+  good: 1,   // Standard progress
+  easy: 2    // Bonus progress for effortless recall
 } as const;
 
-// Phase intervals in days
-const PHASE_INTERVALS = {
+// Default phase intervals in days
+export const DEFAULT_PHASE_INTERVALS: Record<ReviewPhase, number> = {
   daily: 1,      // 1 day
   weekly: 7,     // 7 days (1 week)
   biweekly: 14,  // 14 days (2 weeks)
   monthly: 30    // 30 days (approximate month)
-} as const;
+};
+
+// Default number of consecutive failed reviews before a card drops back one phase
+export const DEFAULT_DEMOTION_THRESHOLD = 3;
+
+export const DEFAULT_PHASE_SETTINGS: PhaseSettings = {
+  requirements: DEFAULT_PHASE_REQUIREMENTS,
+  intervals: DEFAULT_PHASE_INTERVALS,
+  demotionThreshold: DEFAULT_DEMOTION_THRESHOLD
+};
+
+// Allowed ranges - keep phases ordered and match the CHECK constraints on user_profiles
+export const PHASE_REQUIREMENT_LIMITS = { min: 1, max: 100 } as const;
+export const PHASE_INTERVAL_LIMITS: Record<ReviewPhase, { min: number; max: number }> = {
+  daily: { min: 1, max: 6 },
+  weekly: { min: 7, max: 13 },
+  biweekly: { min: 14, max: 27 },
+  monthly: { min: 28, max: 90 }
+};
+export const DEMOTION_THRESHOLD_LIMITS = { min: 0, max: 20 } as const;
+
+// Phase settings columns on user_profiles (optional - older local profiles may not have them)
+export interface PhaseSettingsProfileFields {
+  daily_phase_requirement?: number | null;
+  weekly_phase_requirement?: number | null;
+  biweekly_phase_requirement?: number | null;
+  daily_interval_days?: number | null;
+  weekly_interval_days?: number | null;
+  biweekly_interval_days?: number | null;
+  monthly_interval_days?: number | null;
+  demotion_failure_threshold?: number | null;
+}
+
+/**
+ * Builds phase settings from a user profile, falling back to defaults for missing values.
+ */
+export function getPhaseSettings(profile?: PhaseSettingsProfileFields | null): PhaseSettings {
+  return {
+    requirements: {
+      daily: profile?.daily_phase_requirement ?? DEFAULT_PHASE_REQUIREMENTS.daily,
+      weekly: profile?.weekly_phase_requirement ?? DEFAULT_PHASE_REQUIREMENTS.weekly,
+      biweekly: profile?.biweekly_phase_requirement ?? DEFAULT_PHASE_REQUIREMENTS.biweekly
+    },
+    intervals: {
+      daily: profile?.daily_interval_days ?? DEFAULT_PHASE_INTERVALS.daily,
+      weekly: profile?.weekly_interval_days ?? DEFAULT_PHASE_INTERVALS.weekly,
+      biweekly: profile?.biweekly_interval_days ?? DEFAULT_PHASE_INTERVALS.biweekly,
+      monthly: profile?.monthly_interval_days ?? DEFAULT_PHASE_INTERVALS.monthly
+    },
+    demotionThreshold: profile?.demotion_failure_threshold ?? DEFAULT_DEMOTION_THRESHOLD
+  };
+}
+
+/**
+ * Converts phase settings to user_profiles column updates.
+ */
+export function phaseSettingsToProfileFields(settings: PhaseSettings): { [K in keyof PhaseSettingsProfileFields]-?: number } {
+  return {
+    daily_phase_requirement: settings.requirements.daily,
+    weekly_phase_requirement: settings.requirements.weekly,
+    biweekly_phase_requirement: settings.requirements.biweekly,
+    daily_interval_days: settings.intervals.daily,
+    weekly_interval_days: settings.intervals.weekly,
+    biweekly_interval_days: settings.intervals.biweekly,
+    monthly_interval_days: settings.intervals.monthly,
+    demotion_failure_threshold: settings.demotionThreshold
+  };
+}
+
+/**
+ * Validates phase settings against the allowed ranges.
+ * Returns an error message, or null when the settings are valid.
+ */
+export function validatePhaseSettings(settings: PhaseSettings): string | null {
+  for (const [phase, requirement] of Object.entries(settings.requirements)) {
+    if (!Number.isInteger(requirement) || requirement < PHASE_REQUIREMENT_LIMITS.min || requirement > PHASE_REQUIREMENT_LIMITS.max) {
+      return `${phase} reviews to advance must be a whole number between ${PHASE_REQUIREMENT_LIMITS.min} and ${PHASE_REQUIREMENT_LIMITS.max}`;
+    }
+  }
+
+  for (const [phase, interval] of Object.entries(settings.intervals) as [ReviewPhase, number][]) {
+    const { min, max } = PHASE_INTERVAL_LIMITS[phase];
+    if (!Number.isInteger(interval) || interval < min || interval > max) {
+      return `${phase} interval must be a whole number of days between ${min} and ${max}`;
+    }
+  }
+
+  const { demotionThreshold } = settings;
+  if (!Number.isInteger(demotionThreshold) || demotionThreshold < DEMOTION_THRESHOLD_LIMITS.min || demotionThreshold > DEMOTION_THRESHOLD_LIMITS.max) {
+    return `Failures before demotion must be a whole number between ${DEMOTION_THRESHOLD_LIMITS.min} and ${DEMOTION_THRESHOLD_LIMITS.max}`;
+  }
+
+  return null;
+}
 
 /**
  * Calculates the next due date based on the current phase.
  */
-export function calculateNextDueDate(phase: ReviewPhase, fromDate: Date = new Date()): Date {
+export function calculateNextDueDate(
+  phase: ReviewPhase,
+  fromDate: Date = new Date(),
+  intervals: Record<ReviewPhase, number> = DEFAULT_PHASE_INTERVALS
+): Date {
   if (!fromDate || !(fromDate instanceof Date) || isNaN(fromDate.getTime())) {
     throw new Error('Invalid date provided');
   }
 
-  if (!PHASE_INTERVALS[phase]) {
+  if (!intervals[phase]) {
     throw new Error(`Invalid review phase: ${phase}`);
   }
 
@@ -49,26 +178,46 @@ export function calculateNextDueDate(phase: ReviewPhase, fromDate: Date = new Da
     if (nextDate.getDate() !== fromDate.getDate()) {
       nextDate.setDate(0); // Go to last day of previous month
     }
+
+    // Custom monthly intervals shift from the calendar month by the difference
+    nextDate.setDate(nextDate.getDate() + (intervals.monthly - DEFAULT_PHASE_INTERVALS.monthly));
   } else {
     // For other phases, add the specified number of days
-    nextDate.setDate(nextDate.getDate() + PHASE_INTERVALS[phase]);
+    nextDate.setDate(nextDate.getDate() + intervals[phase]);
   }
 
   return nextDate;
 }
 
+/**
+ * Whether a grade counts as a successful review (everything except 'again').
+ */
+export function isSuccessfulGrade(grade: ReviewGrade): boolean {
+  return grade !== 'again';
+}
+
 /**
  * Processes a review and determines the new card state.
  * Takes current phase and progress, returns database update object.
+ * When a grade is given it takes precedence over wasSuccessful:
+ * 'again' resets progress, 'hard' holds it, 'good' adds one and 'easy' adds a bonus.
+ * Phase requirements and intervals come from the user's profile (see getPhaseSettings).
+ * After settings.demotionThreshold consecutive failures the card drops back one phase.
+ * Must stay in sync with process_review_comprehensive() in the database.
  */
 export function processReview(
   currentPhase: ReviewPhase,
   currentProgress: number,
   wasSuccessful: boolean, 
-  countsTowardProgress: boolean
+  countsTowardProgress: boolean,
+  grade?: ReviewGrade,
+  settings: PhaseSettings = DEFAULT_PHASE_SETTINGS,
+  consecutiveFailures: number = 0
 ): ReviewResult {
+  const { requirements, intervals, demotionThreshold } = settings;
+
   // Validate input
-  if (!PHASE_REQUIREMENTS[currentPhase] && currentPhase !== 'monthly') {
+  if (!intervals[currentPhase]) {
     throw new Error('Invalid phase or progress count');
   }
   
@@ -81,33 +230,53 @@ export function processReview(
     return {
       current_phase: currentPhase,
       phase_progress_count: currentProgress,
-      next_due_date: formatDateToYYYYMMDD(calculateNextDueDate(currentPhase)),
-      countsTowardProgress: false
+      next_due_date: formatDateToYYYYMMDD(calculateNextDueDate(currentPhase, new Date(), intervals)),
+      countsTowardProgress: false,
+      consecutive_failures: consecutiveFailures,
+      demoted_from_phase: null
     };
   }
 
-  // If review was unsuccessful, stay in same phase with no progress change
-  if (!wasSuccessful) {
+  if (grade === 'again' || (!grade && !wasSuccessful)) {
+    const failures = consecutiveFailures + 1;
+
+    // Too many failures in a row - drop back one phase and start it fresh
+    if (demotionThreshold > 0 && failures >= demotionThreshold && currentPhase !== 'daily') {
+      const previousPhase = getPreviousPhase(currentPhase);
+      return {
+        current_phase: previousPhase,
+        phase_progress_count: 0,
+        next_due_date: formatDateToYYYYMMDD(calculateNextDueDate(previousPhase, new Date(), intervals)),
+        countsTowardProgress: true,
+        consecutive_failures: 0,
+        demoted_from_phase: currentPhase
+      };
+    }
+
+    // 'again' starts the phase over; an ungraded failure leaves progress unchanged
     return {
       current_phase: currentPhase,
-      phase_progress_count: currentProgress,
-      next_due_date: formatDateToYYYYMMDD(calculateNextDueDate(currentPhase)),
-      countsTowardProgress: true
+      phase_progress_count: grade === 'again' ? 0 : currentProgress,
+      next_due_date: formatDateToYYYYMMDD(calculateNextDueDate(currentPhase, new Date(), intervals)),
+      countsTowardProgress: true,
+      consecutive_failures: failures,
+      demoted_from_phase: null
     };
   }
 
   // Review was successful and counts toward progress
-  const newProgress = currentProgress + 1;
-  const phaseRequirement = PHASE_REQUIREMENTS[currentPhase];
+  const newProgress = currentProgress + GRADE_PROGRESS[grade ?? 'good'];
 
   // Check if we should advance to the next phase
-  if (newProgress >= phaseRequirement && currentPhase !== 'monthly') {
+  if (currentPhase !== 'monthly' && newProgress >= requirements[currentPhase]) {
     const nextPhase = getNextPhase(currentPhase);
     return {
       current_phase: nextPhase,
       phase_progress_count: 0, // Reset progress for new phase
-      next_due_date: formatDateToYYYYMMDD(calculateNextDueDate(nextPhase)),
-      countsTowardProgress: true
+      next_due_date: formatDateToYYYYMMDD(calculateNextDueDate(nextPhase, new Date(), intervals)),
+      countsTowardProgress: true,
+      consecutive_failures: 0,
+      demoted_from_phase: null
     };
   }
 
@@ -115,8 +284,10 @@ export function processReview(
   return {
     current_phase: currentPhase,
     phase_progress_count: newProgress,
-    next_due_date: formatDateToYYYYMMDD(calculateNextDueDate(currentPhase)),
-    countsTowardProgress: true
+    next_due_date: formatDateToYYYYMMDD(calculateNextDueDate(currentPhase, new Date(), intervals)),
+    countsTowardProgress: true,
+    consecutive_failures: 0,
+    demoted_from_phase: null
   };
 }
 
@@ -134,3 +305,223 @@ function getNextPhase(currentPhase: ReviewPhase): ReviewPhase {
   return progression[currentPhase];
 }
 
+/**
+ * Gets the phase a card drops back to after repeated failures.
+ */
+export function getPreviousPhase(currentPhase: ReviewPhase): ReviewPhase {
+  const regression: Record<ReviewPhase, ReviewPhase> = {
+    daily: 'daily', // Daily is the floor
+    weekly: 'daily',
+    biweekly: 'weekly',
+    monthly: 'biweekly'
+  };
+
+  return regression[currentPhase];
+}
+
+/**
+ * PLUGGABLE SCHEDULERS
+ * The phase ladder above is one scheduler; SM-2 is the other. The user's choice is stored on
+ * user_profiles.scheduler, and process_review_comprehensive() runs the same logic on the server.
+ */
+
+export type SchedulerType = 'phase' | 'sm2';
+
+export const SCHEDULER_TYPES: readonly SchedulerType[] = ['phase', 'sm2'];
+
+export const DEFAULT_SCHEDULER: SchedulerType = 'phase';
+
+// Scheduling state on verse_cards - each scheduler reads and writes its own fields
+export interface SchedulerCardState {
+  current_phase: ReviewPhase;
+  phase_progress_count: number;
+  consecutive_failures: number;
+  ease_factor: number;   // SM-2 ease
+  interval_days: number; // SM-2 interval from the last review (0 = no SM-2 history)
+  repetitions: number;   // SM-2 successful reviews in a row
+  next_due_date: string; // YYYY-MM-DD format
+}
+
+export interface SchedulerReview {
+  wasSuccessful: boolean;
+  countsTowardProgress: boolean; // Only the first review of the day moves the schedule
+  grade?: ReviewGrade;
+}
+
+export interface SchedulerOutcome extends SchedulerCardState {
+  demoted_from_phase: ReviewPhase | null;
+}
+
+export interface Scheduler {
+  type: SchedulerType;
+  label: string;
+  description: string;
+  // 'assignment' cards are due on their assigned day slot, 'date' cards once next_due_date arrives
+  dueBy: 'assignment' | 'date';
+  review(card: SchedulerCardState, review: SchedulerReview, settings?: PhaseSettings): SchedulerOutcome;
+}
+
+// SM-2 constants
+export const SM2_DEFAULT_EASE = 2.5;
+export const SM2_MIN_EASE = 1.3;
+export const SM2_MAX_INTERVAL_DAYS = 365; // Every verse comes back at least once a year
+
+// SM-2 response quality (0-5) for each grade - below 3 is a lapse
+const SM2_GRADE_QUALITY: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5
+};
+
+/**
+ * Maps a review to an SM-2 quality score. Ungraded reviews count as 'good' or 'again'.
+ */
+export function getSm2Quality(wasSuccessful: boolean, grade?: ReviewGrade): number {
+  return SM2_GRADE_QUALITY[grade ?? (wasSuccessful ? 'good' : 'again')];
+}
+
+/**
+ * The fixed phase ladder (daily → weekly → biweekly → monthly). Wraps processReview.
+ */
+export const phaseScheduler: Scheduler = {
+  type: 'phase',
+  label: 'Phases',
+  description: 'Daily, weekly, biweekly, then monthly reviews on assigned days',
+  dueBy: 'assignment',
+  review(card, { wasSuccessful, countsTowardProgress, grade }, settings = DEFAULT_PHASE_SETTINGS) {
+    const result = processReview(
+      card.current_phase,
+      card.phase_progress_count,
+      wasSuccessful,
+      countsTowardProgress,
+      grade,
+      settings,
+      card.consecutive_failures
+    );
+
+    return {
+      ...card,
+      current_phase: result.current_phase,
+      phase_progress_count: result.phase_progress_count,
+      consecutive_failures: result.consecutive_failures,
+      next_due_date: result.next_due_date,
+      demoted_from_phase: result.demoted_from_phase
+    };
+  }
+};
+
+/**
+ * SM-2 - each verse gets its own ease and a growing interval. Phase fields are left
+ * untouched so switching back to the ladder resumes where the card left it.
+ */
+export const sm2Scheduler: Scheduler = {
+  type: 'sm2',
+  label: 'Adaptive (SM-2)',
+  description: 'Intervals grow per verse based on how easily you recall it',
+  dueBy: 'date',
+  review(card, { wasSuccessful, countsTowardProgress, grade }, settings = DEFAULT_PHASE_SETTINGS) {
+    // Repeat reviews on the same day leave the schedule alone
+    if (!countsTowardProgress) {
+      return { ...card, demoted_from_phase: null };
+    }
+
+    let { ease_factor, interval_days, repetitions } = card;
+
+    // Cards coming off the phase ladder start from their current phase interval
+    if (repetitions === 0 && interval_days === 0 && card.current_phase !== 'daily') {
+      interval_days = settings.intervals[card.current_phase];
+      repetitions = 2;
+    }
+
+    const quality = getSm2Quality(wasSuccessful, grade);
+
+    if (quality < 3) {
+      // Lapse - start the repetitions over, ease is unchanged
+      repetitions = 0;
+      interval_days = 1;
+    } else {
+      ease_factor = Math.max(
+        SM2_MIN_EASE,
+        ease_factor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+      );
+      ease_factor = Math.round(ease_factor * 100) / 100;
+      repetitions += 1;
+      interval_days = repetitions === 1 ? 1
+        : repetitions === 2 ? 6
+        : Math.min(SM2_MAX_INTERVAL_DAYS, Math.round(interval_days * ease_factor));
+    }
+
+    return {
+      ...card,
+      ease_factor,
+      interval_days,
+      repetitions,
+      next_due_date: formatDateToYYYYMMDD(addDays(new Date(), interval_days)),
+      demoted_from_phase: null
+    };
+  }
+};
+
+export const SCHEDULERS: Record<SchedulerType, Scheduler> = {
+  phase: phaseScheduler,
+  sm2: sm2Scheduler
+};
+
+/**
+ * Looks up a scheduler, falling back to the phase ladder for missing or unknown values.
+ */
+export function getScheduler(type?: string | null): Scheduler {
+  return SCHEDULERS[type as SchedulerType] ?? phaseScheduler;
+}
+
+// A phase card's review slot from get_optimal_assignment - daily cards have none
+export interface PhaseAssignment {
+  day_of_week: number | null;  // 1-7 (Sunday=1) for weekly/biweekly
+  week_parity: number | null;  // 0 or 1 for biweekly
+  day_of_month: number | null; // 1-28 for monthly
+}
+
+// Phase ladder fields on verse_cards
+export interface PhaseCardFields {
+  current_phase: ReviewPhase;
+  assigned_day_of_week: number | null;
+  assigned_week_parity: number | null;
+  assigned_day_of_month: number | null;
+}
+
+export interface PhaseCardUpdate extends PhaseCardFields {
+  phase_progress_count: number;
+  consecutive_failures: number;
+}
+
+/**
+ * The phase fields a phase-ladder review writes to verse_cards, as process_review_comprehensive() does.
+ * A card that moved up or down a phase takes newAssignment (none for daily); the rest keep theirs.
+ * next_due_date is left to the caller - it lands on the assigned slot (see calculate_next_assigned_date).
+ */
+export function getPhaseCardUpdate(
+  card: PhaseCardFields,
+  outcome: SchedulerOutcome,
+  newAssignment?: PhaseAssignment
+): PhaseCardUpdate {
+  const changedPhase = outcome.current_phase !== card.current_phase;
+  const assignment = changedPhase
+    ? newAssignment ?? { day_of_week: null, week_parity: null, day_of_month: null }
+    : null;
+
+  return {
+    current_phase: outcome.current_phase,
+    phase_progress_count: outcome.phase_progress_count,
+    consecutive_failures: outcome.consecutive_failures,
+    assigned_day_of_week: assignment ? assignment.day_of_week : card.assigned_day_of_week,
+    assigned_week_parity: assignment ? assignment.week_parity : card.assigned_week_parity,
+    assigned_day_of_month: assignment ? assignment.day_of_month : card.assigned_day_of_month
+  };
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
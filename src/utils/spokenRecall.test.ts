@@ -0,0 +1,77 @@
+// Tests for spoken recall scoring, using transcripts recorded from browser speech recognition
+import { gradeSpokenRecall, joinSplitWords, numberToWords, spellOutNumbers, SPOKEN_RECALL_PASS_THRESHOLD } from './spokenRecall';
+
+const JOHN_3_16 = 'For God so loved the world, that he gave his only Son, that whoever believes in him should not perish but have eternal life.';
+const GENESIS_7_4 = 'For in seven days I will send rain on the earth forty days and forty nights, and every living thing that I have made I will blot out from the face of the ground.';
+const REVELATION_7_4 = 'And I heard the number of the sealed, 144,000, sealed from every tribe of the sons of Israel:';
+
+// Recorded transcripts - recognizers drop punctuation and capitals and write numbers as digits
+const RECORDED = {
+  john316Clean: 'for God so loved the world that he gave his only son that whoever believes in him should not perish but have eternal life',
+  john316Misheard: 'for God so loved the world that he gave his only son that who ever believes in him should not perish but have a turtle life',
+  john316Partial: 'for God so loved the world that he gave his only son',
+  genesis74Digits: 'for in 7 days I will send rain on the Earth 40 days and 40 nights and every living thing that I have made I will blot out from the face of the ground',
+  revelation74Digits: 'and I heard the number of the sealed 144,000 sealed from every tribe of the sons of Israel'
+};
+
+describe('numberToWords', () => {
+  test('spells numbers the way verse text does', () => {
+    expect(numberToWords(7)).toBe('seven');
+    expect(numberToWords(40)).toBe('forty');
+    expect(numberToWords(24)).toBe('twenty-four');
+    expect(numberToWords(318)).toBe('three hundred eighteen');
+    expect(numberToWords(144000)).toBe('one hundred forty-four thousand');
+  });
+});
+
+describe('spellOutNumbers', () => {
+  test('spells out digits and ordinals', () => {
+    expect(spellOutNumbers('on the 3rd day')).toBe('on the third day');
+    expect(spellOutNumbers('the 40th year')).toBe('the fortieth year');
+    expect(spellOutNumbers('40 days & 40 nights')).toBe('forty days  and  forty nights');
+  });
+});
+
+describe('joinSplitWords', () => {
+  test('rejoins words split in two when the verse has the joined word', () => {
+    expect(joinSplitWords(JOHN_3_16, 'that who ever believes')).toBe('that whoever believes');
+    expect(joinSplitWords(JOHN_3_16, 'he gave his only son')).toBe('he gave his only son');
+  });
+});
+
+describe('gradeSpokenRecall', () => {
+  test('scores a clean recitation as perfect', () => {
+    const grade = gradeSpokenRecall(JOHN_3_16, RECORDED.john316Clean);
+    expect(grade.accuracyPercentage).toBe(100);
+    expect(grade.wasSuccessful).toBe(true);
+  });
+
+  test('matches spoken numbers written as digits', () => {
+    expect(gradeSpokenRecall(GENESIS_7_4, RECORDED.genesis74Digits).accuracyPercentage).toBe(100);
+    expect(gradeSpokenRecall(REVELATION_7_4, RECORDED.revelation74Digits).accuracyPercentage).toBe(100);
+  });
+
+  test('tolerates a few misheard words', () => {
+    const grade = gradeSpokenRecall(JOHN_3_16, RECORDED.john316Misheard);
+    expect(grade.accuracyPercentage).toBeLessThan(100);
+    expect(grade.accuracyPercentage).toBeGreaterThanOrEqual(SPOKEN_RECALL_PASS_THRESHOLD);
+    expect(grade.wasSuccessful).toBe(true);
+  });
+
+  test('fails a partial recitation', () => {
+    const grade = gradeSpokenRecall(JOHN_3_16, RECORDED.john316Partial);
+    expect(grade.wasSuccessful).toBe(false);
+    expect(grade.tokens.filter(token => token.status === 'missed').length).toBe(12);
+  });
+
+  test('keeps the best of several alternatives', () => {
+    const grade = gradeSpokenRecall(JOHN_3_16, [RECORDED.john316Partial, RECORDED.john316Clean]);
+    expect(grade.accuracyPercentage).toBe(100);
+  });
+
+  test('fails silence', () => {
+    const grade = gradeSpokenRecall(JOHN_3_16, ['', '  ']);
+    expect(grade.accuracyPercentage).toBe(0);
+    expect(grade.wasSuccessful).toBe(false);
+  });
+});
@@ -0,0 +1,93 @@
+// Spoken Recall Scoring - grades a speech recognition transcript against verse text
+
+import { gradeTypedRecall, tokenizeForRecall, type RecallGrade } from './recallScoring';
+
+// Speech recognition mishears some words, so spoken recall passes a little lower than typed
+export const SPOKEN_RECALL_PASS_THRESHOLD = 85;
+
+const ONES = [
+  'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+  'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen'
+];
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+
+// Ordinal endings for the last word of a number ("twenty-one" -> "twenty-first")
+const ORDINAL_WORDS: Record<string, string> = {
+  one: 'first', two: 'second', three: 'third', five: 'fifth', eight: 'eighth', nine: 'ninth', twelve: 'twelfth'
+};
+
+/**
+ * Spells out a whole number the way the ESV writes it ("forty", "twenty-four", "one hundred forty-four")
+ */
+export function numberToWords(value: number): string {
+  if (value < 20) return ONES[value];
+  if (value < 100) {
+    return TENS[Math.floor(value / 10)] + (value % 10 ? `-${ONES[value % 10]}` : '');
+  }
+  if (value < 1000) {
+    const rest = value % 100;
+    return `${ONES[Math.floor(value / 100)]} hundred${rest ? ` ${numberToWords(rest)}` : ''}`;
+  }
+  const rest = value % 1000;
+  return `${numberToWords(Math.floor(value / 1000))} thousand${rest ? ` ${numberToWords(rest)}` : ''}`;
+}
+
+function toOrdinal(words: string): string {
+  return words.replace(/(\w+)$/, last =>
+    ORDINAL_WORDS[last] ?? (last.endsWith('y') ? `${last.slice(0, -1)}ieth` : `${last}th`)
+  );
+}
+
+/**
+ * Spells out the digits speech recognition writes for spoken numbers ("40 days", "the 3rd day"),
+ * so they compare equal to the verse text. Numbers too large to be spoken verse text are kept.
+ */
+export function spellOutNumbers(text: string): string {
+  return text
+    .replace(/\b(\d{1,6})(st|nd|rd|th)\b/gi, (_, digits: string) => toOrdinal(numberToWords(Number(digits))))
+    .replace(/\b\d{1,3}(,\d{3})+\b|\b\d{1,6}\b/g, digits => numberToWords(Number(digits.replace(/,/g, ''))))
+    .replace(/&/g, ' and ');
+}
+
+/**
+ * Rejoins words the recognizer split in two ("who ever" for "whoever") when the joined
+ * word is in the verse.
+ */
+export function joinSplitWords(expectedText: string, transcript: string): string {
+  const expectedWords = new Set(tokenizeForRecall(expectedText).map(word => word.normalized));
+  const words = tokenizeForRecall(transcript).map(word => word.normalized);
+  const joined: string[] = [];
+
+  for (let i = 0; i < words.length; i++) {
+    const pair = words[i] + (words[i + 1] ?? '');
+    if (i + 1 < words.length && expectedWords.has(pair) && !expectedWords.has(words[i + 1])) {
+      joined.push(pair);
+      i++;
+    } else {
+      joined.push(words[i]);
+    }
+  }
+
+  return joined.join(' ');
+}
+
+/**
+ * Grades a recited verse. Recognizers offer several alternative transcripts for the same
+ * speech - each is graded and the best one counts.
+ */
+export function gradeSpokenRecall(
+  expectedText: string,
+  transcripts: string | string[],
+  threshold: number = SPOKEN_RECALL_PASS_THRESHOLD
+): RecallGrade {
+  const expected = spellOutNumbers(expectedText);
+  const alternatives = (Array.isArray(transcripts) ? transcripts : [transcripts]).filter(t => t.trim());
+
+  if (alternatives.length === 0) {
+    return gradeTypedRecall(expected, '', threshold);
+  }
+
+  return alternatives
+    .map(transcript => gradeTypedRecall(expected, joinSplitWords(expected, spellOutNumbers(transcript)), threshold))
+    .reduce((best, grade) => (grade.accuracyPercentage > best.accuracyPercentage ? grade : best));
+}
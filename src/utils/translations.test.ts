@@ -0,0 +1,42 @@
+// Tests for the supported Bible translations
+import { DEFAULT_TRANSLATION, isSupportedTranslation, orderByTranslation, resolveTranslation } from './translations';
+
+describe('isSupportedTranslation', () => {
+  test('accepts the ESV and the bundled public-domain translations', () => {
+    expect(isSupportedTranslation('ESV')).toBe(true);
+    expect(isSupportedTranslation('KJV')).toBe(true);
+    expect(isSupportedTranslation('WEB')).toBe(true);
+  });
+
+  test('rejects unknown or missing codes', () => {
+    expect(isSupportedTranslation('NIV')).toBe(false);
+    expect(isSupportedTranslation('kjv')).toBe(false);
+    expect(isSupportedTranslation(null)).toBe(false);
+  });
+});
+
+describe('resolveTranslation', () => {
+  test('uses the preferred translation when supported', () => {
+    expect(resolveTranslation('KJV')).toBe('KJV');
+  });
+
+  test('falls back to the default', () => {
+    expect(resolveTranslation(undefined)).toBe(DEFAULT_TRANSLATION);
+    expect(resolveTranslation('NIV')).toBe(DEFAULT_TRANSLATION);
+  });
+});
+
+describe('orderByTranslation', () => {
+  test('keeps the first copy of each translation', () => {
+    const verses = [
+      { id: 'local-kjv', translation: 'KJV' },
+      { id: 'cloud-kjv', translation: 'KJV' }
+    ];
+    expect(orderByTranslation(verses)).toEqual([{ id: 'local-kjv', translation: 'KJV' }]);
+  });
+
+  test('orders supported translations first, then others alphabetically', () => {
+    const verses = ['NIV', 'WEB', 'ASV', 'ESV', 'KJV'].map(translation => ({ translation }));
+    expect(orderByTranslation(verses).map(verse => verse.translation)).toEqual(['ESV', 'KJV', 'WEB', 'ASV', 'NIV']);
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Bible translations
+ *
+ * Translations verses can be added in. The ESV comes from the ESV API; the public-domain
+ * translations are served from bundled datasets by the verse-operations edge function.
+ * Mirrors SUPPORTED_TRANSLATIONS in supabase/functions/_shared/bibleProviders.ts.
+ */
+
+export interface Translation {
+  code: string;
+  name: string;
+  publicDomain: boolean;
+}
+
+export const TRANSLATIONS: Translation[] = [
+  { code: 'ESV', name: 'English Standard Version', publicDomain: false },
+  { code: 'KJV', name: 'King James Version', publicDomain: true },
+  { code: 'WEB', name: 'World English Bible', publicDomain: true }
+];
+
+export const DEFAULT_TRANSLATION = 'ESV';
+
+export function isSupportedTranslation(code: string | null | undefined): boolean {
+  return TRANSLATIONS.some(translation => translation.code === code);
+}
+
+/**
+ * The translation to add verses in - the user's preferred one if it's supported
+ */
+export function resolveTranslation(preferred: string | null | undefined): string {
+  return preferred && isSupportedTranslation(preferred) ? preferred : DEFAULT_TRANSLATION;
+}
+
+/**
+ * One entry per translation, in TRANSLATIONS order (others alphabetically after).
+ * The first entry for a translation wins, so pass preferred copies (e.g. local) first.
+ */
+export function orderByTranslation<T extends { translation: string }>(verses: T[]): T[] {
+  const rank = (code: string) => {
+    const index = TRANSLATIONS.findIndex(translation => translation.code === code);
+    return index === -1 ? TRANSLATIONS.length : index;
+  };
+
+  const unique = new Map<string, T>();
+  for (const verse of verses) {
+    if (!unique.has(verse.translation)) {
+      unique.set(verse.translation, verse);
+    }
+  }
+
+  return [...unique.values()].sort((a, b) =>
+    rank(a.translation) - rank(b.translation) || a.translation.localeCompare(b.translation)
+  );
+}
@@ -0,0 +1,58 @@
+// Tests for structured verse segments
+import { alignWordsToSegments, parseNumberedPassage } from './verseSegments';
+
+describe('parseNumberedPassage', () => {
+  test('splits prose into numbered verses', () => {
+    expect(parseNumberedPassage('  [16] For God so loved the world, [17] For God did not send', 3)).toEqual([
+      { chapter: 3, verse: 16, lines: ['For God so loved the world,'] },
+      { chapter: 3, verse: 17, lines: ['For God did not send'] }
+    ]);
+  });
+
+  test('keeps poetry line breaks and section headings', () => {
+    const passage = 'The Lord Is My Shepherd\n\n' +
+      '    [1] The LORD is my shepherd; I shall not want.\n' +
+      '    [2] He makes me lie down in green pastures.\n' +
+      '        He leads me beside still waters.';
+
+    expect(parseNumberedPassage(passage, 23)).toEqual([
+      { chapter: 23, verse: 1, heading: 'The Lord Is My Shepherd', lines: ['The LORD is my shepherd; I shall not want.'] },
+      { chapter: 23, verse: 2, lines: ['He makes me lie down in green pastures.', 'He leads me beside still waters.'] }
+    ]);
+  });
+
+  test('continues a verse across paragraphs and moves into the next chapter', () => {
+    const passage = '[38] For I am sure that neither death\n\nnor life, [39] nor height\n\n[1] I am speaking the truth';
+    expect(parseNumberedPassage(passage, 8)).toEqual([
+      { chapter: 8, verse: 38, lines: ['For I am sure that neither death', 'nor life,'] },
+      { chapter: 8, verse: 39, lines: ['nor height'] },
+      { chapter: 9, verse: 1, lines: ['I am speaking the truth'] }
+    ]);
+  });
+
+  test('reads chapter:verse markers', () => {
+    expect(parseNumberedPassage('[2:25] And the man [3:1] Now the serpent', 2).map(s => [s.chapter, s.verse])).toEqual([
+      [2, 25],
+      [3, 1]
+    ]);
+  });
+});
+
+describe('alignWordsToSegments', () => {
+  const segments = [
+    { chapter: 23, verse: 1, lines: ['The LORD is my shepherd;'] },
+    { chapter: 23, verse: 2, lines: ['He makes me lie down', 'in green pastures.'] }
+  ];
+
+  test('lays masked words over the verse lines', () => {
+    const words = 'T L i m s; H m m l d i g p.'.split(' ');
+    expect(alignWordsToSegments(segments, words)).toEqual([
+      { chapter: 23, verse: 1, lines: ['T L i m s;'] },
+      { chapter: 23, verse: 2, lines: ['H m m l d', 'i g p.'] }
+    ]);
+  });
+
+  test('gives up when the words do not match the segments', () => {
+    expect(alignWordsToSegments(segments, ['too', 'few'])).toBeNull();
+  });
+});
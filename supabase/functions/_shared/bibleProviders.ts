@@ -0,0 +1,292 @@
+// Bible text providers for the edge functions
+// ESV comes from the ESV API; public-domain translations are served from bundled datasets
+// (see bibles/README.md), so they need no API key or network access.
+import { BIBLE_BOOKS, formatPassageReference, parsePassageReference, type PassageRange } from './bibleBooks.ts';
+import { parseNumberedPassage, type VerseSegment } from './verseSegments.ts';
+
+// Same shape as the parts of the ESV API passage response we use
+export interface BiblePassageResponse {
+  query: string;
+  canonical: string;
+  passages: string[];
+}
+
+export interface BibleProvider {
+  translation: string;
+  getPassage(reference: string): Promise<BiblePassageResponse>;
+  // Verse numbers, headings and poetry lines for display - null when there is no single passage.
+  // The plain text from getPassage stays the verse text (it is what integrity checks compare).
+  getSegments(reference: string): Promise<VerseSegment[] | null>;
+}
+
+// Bundled dataset format: verse text by [book][chapter][verse], books in BIBLE_BOOKS order
+export interface BibleDataset {
+  translation: string;
+  name: string;
+  books: string[][][];
+}
+
+export const DEFAULT_TRANSLATION = 'ESV';
+export const SUPPORTED_TRANSLATIONS = ['ESV', 'KJV', 'WEB'];
+
+function sanitizeReference(reference: string): string {
+  const sanitizedReference = reference.replace(/\s+/g, ' ').trim();
+  if (!sanitizedReference || sanitizedReference.length > 200) {
+    console.error('❌ Invalid reference format:', { sanitizedReference, length: sanitizedReference?.length });
+    throw new Error('Invalid Bible reference format');
+  }
+  return sanitizedReference;
+}
+
+// Direct ESV API call - no intermediate edge function for better performance
+const esvProvider: BibleProvider = {
+  translation: 'ESV',
+
+  async getPassage(reference: string): Promise<BiblePassageResponse> {
+    console.log('📖 Calling ESV API for reference:', reference);
+
+    const esvApiKey = Deno.env.get('ESV_API_KEY');
+    const esvApiBaseUrl = Deno.env.get('ESV_API_BASE_URL') || 'https://api.esv.org/v3';
+
+    console.log('🔑 ESV API configuration:', {
+      hasApiKey: !!esvApiKey,
+      apiKeyLength: esvApiKey?.length || 0,
+      baseUrl: esvApiBaseUrl
+    });
+
+    if (!esvApiKey) {
+      console.error('❌ ESV API key not configured');
+      throw new Error('ESV API key not configured');
+    }
+
+    const sanitizedReference = sanitizeReference(reference);
+    console.log('🧹 Sanitized reference:', sanitizedReference);
+
+    const params = new URLSearchParams({
+      q: sanitizedReference,
+      'include-headings': 'false',
+      'include-footnotes': 'false',
+      'include-verse-numbers': 'false',
+      'include-short-copyright': 'false',
+      'include-passage-references': 'false'
+    });
+
+    const requestUrl = `${esvApiBaseUrl}/passage/text/?${params.toString()}`;
+    console.log('🌐 ESV API request:', { url: requestUrl });
+
+    try {
+      const response = await fetch(requestUrl, {
+        method: 'GET',
+        headers: {
+          'Authorization': `Token ${esvApiKey}`,
+          'Accept': 'application/json'
+        }
+      });
+
+      console.log('📡 ESV API response:', {
+        status: response.status,
+        statusText: response.statusText,
+        ok: response.ok,
+        headers: Object.fromEntries(response.headers.entries())
+      });
+
+      if (!response.ok) {
+        console.error(`❌ ESV API Error: ${response.status} ${response.statusText}`);
+        switch (response.status) {
+          case 400:
+            throw new Error('Invalid Bible reference. Please check the spelling and try again.');
+          case 401:
+            throw new Error('Unable to connect to Bible service.');
+          case 429:
+            throw new Error('Too many requests. Please wait a moment and try again.');
+          default:
+            throw new Error(`Unable to fetch verse. Server error ${response.status}`);
+        }
+      }
+
+      const data = await response.json();
+      console.log('✅ ESV API success:', {
+        hasQuery: !!data.query,
+        hasCanonical: !!data.canonical,
+        passageCount: data.passages?.length || 0,
+        canonical: data.canonical,
+        firstPassageLength: data.passages?.[0]?.length || 0
+      });
+
+      // Validate response structure
+      if (!data || typeof data !== 'object') {
+        console.error('❌ Invalid ESV API response structure:', data);
+        throw new Error('Invalid response from Bible service');
+      }
+
+      return data as BiblePassageResponse;
+    } catch (error) {
+      console.error('❌ ESV API call failed:', {
+        error,
+        errorName: error instanceof Error ? error.name : 'Unknown',
+        errorMessage: error instanceof Error ? error.message : 'Unknown',
+        reference: sanitizedReference
+      });
+      throw error;
+    }
+  },
+
+  async getSegments(reference: string): Promise<VerseSegment[] | null> {
+    const esvApiKey = Deno.env.get('ESV_API_KEY');
+    const esvApiBaseUrl = Deno.env.get('ESV_API_BASE_URL') || 'https://api.esv.org/v3';
+    if (!esvApiKey) {
+      return null;
+    }
+
+    const ranges = parsePassageReference(sanitizeReference(reference));
+    if (ranges.length !== 1) {
+      return null;
+    }
+
+    // Same passage with verse numbers, headings and poetry indentation kept
+    const params = new URLSearchParams({
+      q: sanitizeReference(reference),
+      'include-headings': 'true',
+      'include-footnotes': 'false',
+      'include-verse-numbers': 'true',
+      'include-first-verse-numbers': 'true',
+      'include-short-copyright': 'false',
+      'include-passage-references': 'false',
+      'include-passage-horizontal-lines': 'false',
+      'include-heading-horizontal-lines': 'false',
+      'indent-poetry': 'true',
+      'line-length': '0'
+    });
+
+    const response = await fetch(`${esvApiBaseUrl}/passage/text/?${params.toString()}`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Token ${esvApiKey}`,
+        'Accept': 'application/json'
+      }
+    });
+
+    if (!response.ok) {
+      console.warn(`⚠️ ESV segments request failed: ${response.status}`);
+      return null;
+    }
+
+    const data = await response.json() as BiblePassageResponse;
+    if (data.passages?.length !== 1) {
+      return null;
+    }
+    return parseNumberedPassage(data.passages[0], ranges[0].startChapter);
+  }
+};
+
+// Datasets are loaded on first use and kept for the lifetime of the function instance
+const datasetCache = new Map<string, Promise<BibleDataset>>();
+
+function loadDataset(translation: string): Promise<BibleDataset> {
+  let dataset = datasetCache.get(translation);
+  if (!dataset) {
+    const url = new URL(`./bibles/${translation.toLowerCase()}.json`, import.meta.url);
+    dataset = Deno.readTextFile(url)
+      .then(json => JSON.parse(json) as BibleDataset)
+      .catch(error => {
+        datasetCache.delete(translation);
+        console.error(`❌ Failed to load ${translation} dataset:`, error);
+        throw new Error(`${translation} text is not available on this server`);
+      });
+    datasetCache.set(translation, dataset);
+  }
+  return dataset;
+}
+
+function readPassage(dataset: BibleDataset, range: PassageRange, reference: string): string {
+  const chapters = dataset.books[BIBLE_BOOKS.indexOf(range.book)];
+  const verses: string[] = [];
+
+  for (let chapter = range.startChapter; chapter <= range.endChapter; chapter++) {
+    const chapterVerses = chapters?.[chapter - 1];
+    if (!chapterVerses) {
+      throw new Error(`Invalid Bible reference: "${reference}". ${range.book} has ${chapters?.length ?? 0} chapters.`);
+    }
+
+    const first = chapter === range.startChapter && range.startVerse !== null ? range.startVerse : 1;
+    const last = chapter === range.endChapter && range.endVerse !== null ? range.endVerse : chapterVerses.length;
+    if (first < 1 || last > chapterVerses.length || first > last) {
+      throw new Error(`Invalid Bible reference: "${reference}". ${range.book} ${chapter} has ${chapterVerses.length} verses.`);
+    }
+    verses.push(...chapterVerses.slice(first - 1, last));
+  }
+
+  return verses.map(verse => verse.trim()).join(' ');
+}
+
+// Bundled datasets are verse-by-verse prose - one line per verse, no headings
+function readSegments(dataset: BibleDataset, range: PassageRange): VerseSegment[] {
+  const chapters = dataset.books[BIBLE_BOOKS.indexOf(range.book)];
+  const segments: VerseSegment[] = [];
+
+  for (let chapter = range.startChapter; chapter <= range.endChapter; chapter++) {
+    const chapterVerses = chapters?.[chapter - 1] ?? [];
+    const first = chapter === range.startChapter && range.startVerse !== null ? range.startVerse : 1;
+    const last = chapter === range.endChapter && range.endVerse !== null ? range.endVerse : chapterVerses.length;
+    for (let verse = first; verse <= last && verse <= chapterVerses.length; verse++) {
+      segments.push({ chapter, verse, lines: [chapterVerses[verse - 1].trim()] });
+    }
+  }
+
+  return segments;
+}
+
+function createBundledProvider(translation: string): BibleProvider {
+  return {
+    translation,
+
+    async getPassage(reference: string): Promise<BiblePassageResponse> {
+      console.log(`📖 Reading ${translation} dataset for reference:`, reference);
+
+      const sanitizedReference = sanitizeReference(reference);
+      const dataset = await loadDataset(translation);
+      const ranges = parsePassageReference(sanitizedReference);
+
+      return {
+        query: sanitizedReference,
+        canonical: ranges.map(formatPassageReference).join('; '),
+        passages: ranges.map(range => readPassage(dataset, range, sanitizedReference))
+      };
+    },
+
+    async getSegments(reference: string): Promise<VerseSegment[] | null> {
+      const ranges = parsePassageReference(sanitizeReference(reference));
+      if (ranges.length !== 1) {
+        return null;
+      }
+      return readSegments(await loadDataset(translation), ranges[0]);
+    }
+  };
+}
+
+// Translations served from bundled datasets (the ones available as offline packs)
+const BUNDLED_TRANSLATIONS = ['KJV', 'WEB'];
+
+const providers: Record<string, BibleProvider> = {
+  ESV: esvProvider,
+  ...Object.fromEntries(BUNDLED_TRANSLATIONS.map(translation => [translation, createBundledProvider(translation)]))
+};
+
+/**
+ * The full bundled dataset for a translation, or null if it isn't bundled
+ */
+export function getBibleDataset(translation: string): Promise<BibleDataset | null> {
+  return BUNDLED_TRANSLATIONS.includes(translation) ? loadDataset(translation) : Promise.resolve(null);
+}
+
+export function isSupportedTranslation(translation: string): boolean {
+  return SUPPORTED_TRANSLATIONS.includes(translation);
+}
+
+export function getBibleProvider(translation: string): BibleProvider {
+  const provider = providers[translation];
+  if (!provider) {
+    throw new Error(`Unsupported translation: ${translation}`);
+  }
+  return provider;
+}
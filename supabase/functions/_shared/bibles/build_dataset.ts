@@ -0,0 +1,41 @@
+// Builds a bundled Bible dataset (see README.md) from a public-domain JSON source
+// Usage: deno run --allow-read --allow-write build_dataset.ts <TRANSLATION> "<Name>" <source.json>
+import { BIBLE_BOOKS } from '../bibleBooks.ts';
+import type { BibleDataset } from '../bibleProviders.ts';
+
+interface SourceBook {
+  chapters: string[][];
+}
+
+const [translation, name, sourcePath] = Deno.args;
+if (!translation || !name || !sourcePath) {
+  console.error('Usage: build_dataset.ts <TRANSLATION> "<Name>" <source.json>');
+  Deno.exit(1);
+}
+
+// Strip a UTF-8 BOM, which some of the source collections include
+const source = JSON.parse((await Deno.readTextFile(sourcePath)).replace(/^\uFEFF/, '')) as SourceBook[];
+
+if (!Array.isArray(source) || source.length !== BIBLE_BOOKS.length) {
+  console.error(`❌ Expected ${BIBLE_BOOKS.length} books, found ${Array.isArray(source) ? source.length : 'none'}`);
+  Deno.exit(1);
+}
+
+const dataset: BibleDataset = {
+  translation: translation.toUpperCase(),
+  name,
+  books: source.map((book, index) => {
+    if (!Array.isArray(book.chapters) || book.chapters.length === 0) {
+      console.error(`❌ ${BIBLE_BOOKS[index]} has no chapters`);
+      Deno.exit(1);
+    }
+    // Drop any inline markup (e.g. translator additions in braces)
+    return book.chapters.map(verses => verses.map(verse => verse.replace(/[{}]/g, '').replace(/\s+/g, ' ').trim()));
+  })
+};
+
+const outputUrl = new URL(`./${translation.toLowerCase()}.json`, import.meta.url);
+await Deno.writeTextFile(outputUrl, JSON.stringify(dataset));
+
+const verseCount = dataset.books.flat().reduce((sum, chapter) => sum + chapter.length, 0);
+console.log(`✅ Wrote ${outputUrl.pathname}: ${dataset.books.length} books, ${verseCount} verses`);
@@ -0,0 +1,68 @@
+// Structured verse text for display - one segment per verse with its number, heading and
+// poetry lines (mirrors src/utils/verseSegments.ts, which the edge runtime can't import)
+
+export interface VerseSegment {
+  chapter: number;
+  verse: number;
+  heading?: string; // Section heading printed before this verse
+  lines: string[];  // Poetry lines, or a single line of prose
+}
+
+// ESV verse numbers: "[16]", or "[3:1]" where a chapter starts
+const VERSE_MARKER = /\[(\d+)(?::(\d+))?\]/;
+const VERSE_MARKER_SPLIT = /\[(\d+)(?::(\d+))?\]/g;
+
+function splitLines(text: string): string[] {
+  return text.split('\n').map(line => line.replace(/\s+/g, ' ').trim()).filter(Boolean);
+}
+
+/**
+ * Parses passage text with bracketed verse numbers (ESV `include-verse-numbers`) into
+ * segments. A one-line block without verse numbers right before a numbered block is a
+ * heading; other unnumbered text continues the previous verse.
+ */
+export function parseNumberedPassage(passage: string, startChapter: number): VerseSegment[] {
+  const segments: VerseSegment[] = [];
+  const blocks = passage.split(/\n\s*\n/).filter(block => block.trim());
+  let chapter = startChapter;
+  let heading: string | undefined;
+
+  blocks.forEach((block, index) => {
+    if (!VERSE_MARKER.test(block)) {
+      const lines = splitLines(block);
+      const nextStartsWithVerse = /^\s*\[\d/.test(blocks[index + 1] ?? '');
+      if (lines.length === 1 && nextStartsWithVerse) {
+        heading = heading ? `${heading} ${lines[0]}` : lines[0];
+      } else if (segments.length > 0) {
+        segments[segments.length - 1].lines.push(...lines);
+      }
+      return;
+    }
+
+    // split() with capture groups: [before, number, verse?, text, number, verse?, text, ...]
+    const parts = block.split(VERSE_MARKER_SPLIT);
+    if (segments.length > 0) {
+      segments[segments.length - 1].lines.push(...splitLines(parts[0]));
+    }
+
+    for (let i = 1; i < parts.length; i += 3) {
+      let verse = Number(parts[i]);
+      if (parts[i + 1]) {
+        chapter = verse;
+        verse = Number(parts[i + 1]);
+      } else if (segments.length > 0 && verse <= segments[segments.length - 1].verse) {
+        chapter++; // Numbering restarted - a new chapter
+      }
+
+      segments.push({
+        chapter,
+        verse,
+        ...(heading ? { heading } : {}),
+        lines: splitLines(parts[i + 2] ?? '')
+      });
+      heading = undefined;
+    }
+  });
+
+  return segments;
+}
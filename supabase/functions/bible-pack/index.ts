@@ -0,0 +1,63 @@
+// Bible Pack Edge Function
+// Serves a bundled public-domain Bible dataset (see _shared/bibles/README.md) so the app
+// can store it for fully offline verse lookup
+import { corsHeaders } from '../_shared/cors.ts';
+import { getBibleDataset } from '../_shared/bibleProviders.ts';
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return new Response('Method Not Allowed', {
+      status: 405,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  }
+
+  // JWT is verified by the functions gateway - packs are only served to signed-in users
+  if (!req.headers.get('Authorization')) {
+    return new Response(JSON.stringify({
+      error: 'Authorization header required'
+    }), {
+      status: 401,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  }
+
+  try {
+    const { translation } = await req.json();
+    const dataset = await getBibleDataset(String(translation || ''));
+
+    if (!dataset) {
+      return new Response(JSON.stringify({
+        error: `No offline pack for translation: ${translation}`
+      }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    console.log(`📦 Serving ${dataset.translation} pack`);
+    return new Response(JSON.stringify(dataset), {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/json',
+        // Public-domain text never changes
+        'Cache-Control': 'public, max-age=604800'
+      }
+    });
+  } catch (error) {
+    console.error('Bible pack error:', error);
+
+    return new Response(JSON.stringify({
+      error: error instanceof Error ? error.message : 'An unknown error occurred'
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  }
+});
@@ -3,9 +3,20 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { corsHeaders } from '../_shared/cors.ts';
+import { DEFAULT_TRANSLATION, SUPPORTED_TRANSLATIONS, getBibleProvider, isSupportedTranslation } from '../_shared/bibleProviders.ts';
+import { findPassageRangeError, referencesMatch } from '../_shared/bibleBooks.ts';
+import type { VerseSegment } from '../_shared/verseSegments.ts';
 import { v4 as uuidv4 } from 'uuid'
 
 // Types
+// The verses columns ensureVerseSegments reads (lookup and create RPC results carry more)
+interface VerseRow {
+  id: string;
+  reference: string;
+  translation: string | null;
+  segments?: VerseSegment[] | null;
+}
+
 interface VerseOperationRequest {
   operation: 'lookup' | 'create' | 'batch';
   reference: string;
@@ -20,12 +31,6 @@ interface VerseOperationRequest {
   }>;
 }
 
-interface ESVPassageResponse {
-  query: string;
-  canonical: string;
-  passages: string[];
-}
-
 // Initialize Supabase client with service role key for server-side operations
 // For local development, use host.docker.internal to communicate between containers
 const supabaseUrl = Deno.env.get('SUPABASE_URL') || 'http://host.docker.internal:54321';
@@ -46,121 +51,71 @@ function normalizeReferenceForLookup(reference: string): string {
     .replace(/[^\w:.-]/g, '');
 }
 
-// Direct ESV API call - no intermediate edge function for better performance
-async function callESVAPI(reference: string): Promise<ESVPassageResponse> {
-  console.log('📖 Calling ESV API for reference:', reference);
+// Verifies stored verse data against the translation's source text - ensures data integrity
+async function verifyVerseWithProvider(reference: string, text: string, translation: string = DEFAULT_TRANSLATION): Promise<boolean> {
+  try {
+    const passageResponse = await getBibleProvider(translation).getPassage(reference);
 
-  const esvApiKey = Deno.env.get('ESV_API_KEY');
-  const esvApiBaseUrl = Deno.env.get('ESV_API_BASE_URL') || 'https://api.esv.org/v3';
+    if (!passageResponse.passages || passageResponse.passages.length === 0) {
+      return false;
+    }
 
-  console.log('🔑 ESV API configuration:', {
-    hasApiKey: !!esvApiKey,
-    apiKeyLength: esvApiKey?.length || 0,
-    baseUrl: esvApiBaseUrl
-  });
+    const canonicalRef = passageResponse.canonical;
+    // Combine all passages for multiple references (semicolon-separated)
+    const canonicalText = passageResponse.passages.map(passage => passage.trim()).join('\n\n');
 
-  if (!esvApiKey) {
-    console.error('❌ ESV API key not configured');
-    throw new Error('ESV API key not configured');
+    // Verse text is immutable - must match exactly
+    return canonicalRef === reference && canonicalText === text;
+  } catch (error) {
+    console.error(`${translation} verification failed:`, error);
+    return false;
   }
+}
 
-  // Sanitize reference
-  const sanitizedReference = reference.replace(/\s+/g, ' ').trim();
-  console.log('🧹 Sanitized reference:', sanitizedReference);
-
-  if (!sanitizedReference || sanitizedReference.length > 200) {
-    console.error('❌ Invalid reference format:', { sanitizedReference, length: sanitizedReference?.length });
-    throw new Error('Invalid Bible reference format');
+// Adds display segments (verse numbers, headings, poetry lines) to a verse that has none yet.
+// Best effort - a verse without segments is still shown as plain text
+async function ensureVerseSegments<T extends VerseRow>(verse: T): Promise<T> {
+  if (verse.segments) {
+    return verse;
   }
 
-  const params = new URLSearchParams({
-    q: sanitizedReference,
-    'include-headings': 'false',
-    'include-footnotes': 'false',
-    'include-verse-numbers': 'false',
-    'include-short-copyright': 'false',
-    'include-passage-references': 'false'
-  });
-
-  const requestUrl = `${esvApiBaseUrl}/passage/text/?${params.toString()}`;
-  console.log('🌐 ESV API request:', { url: requestUrl });
-
   try {
-    const response = await fetch(requestUrl, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Token ${esvApiKey}`,
-        'Accept': 'application/json'
-      }
-    });
-
-    console.log('📡 ESV API response:', {
-      status: response.status,
-      statusText: response.statusText,
-      ok: response.ok,
-      headers: Object.fromEntries(response.headers.entries())
-    });
-
-    if (!response.ok) {
-      console.error(`❌ ESV API Error: ${response.status} ${response.statusText}`);
-      switch (response.status) {
-        case 400:
-          throw new Error('Invalid Bible reference. Please check the spelling and try again.');
-        case 401:
-          throw new Error('Unable to connect to Bible service.');
-        case 429:
-          throw new Error('Too many requests. Please wait a moment and try again.');
-        default:
-          throw new Error(`Unable to fetch verse. Server error ${response.status}`);
-      }
+    const segments = await getBibleProvider(verse.translation || DEFAULT_TRANSLATION).getSegments(verse.reference);
+    if (!segments || segments.length === 0) {
+      return verse;
     }
 
-    const data = await response.json();
-    console.log('✅ ESV API success:', {
-      hasQuery: !!data.query,
-      hasCanonical: !!data.canonical,
-      passageCount: data.passages?.length || 0,
-      canonical: data.canonical,
-      firstPassageLength: data.passages?.[0]?.length || 0
-    });
-
-    // Validate response structure
-    if (!data || typeof data !== 'object') {
-      console.error('❌ Invalid ESV API response structure:', data);
-      throw new Error('Invalid response from Bible service');
+    const { error } = await supabase
+      .from('verses')
+      .update({ segments })
+      .eq('id', verse.id);
+    if (error) {
+      console.error('Failed to store verse segments:', error);
     }
-
-    return data as ESVPassageResponse;
+    return { ...verse, segments };
   } catch (error) {
-    console.error('❌ ESV API call failed:', {
-      error,
-      errorName: error instanceof Error ? error.name : 'Unknown',
-      errorMessage: error instanceof Error ? error.message : 'Unknown',
-      reference: sanitizedReference
-    });
-    throw error;
+    console.error('Failed to build verse segments:', error);
+    return verse;
   }
 }
 
-// ESV API verification function - ensures data integrity
-async function verifyVerseWithESV(reference: string, text: string, translation: string = 'ESV'): Promise<boolean> {
-  try {
-    const esvResponse = await callESVAPI(reference);
-
-    if (!esvResponse.passages || esvResponse.passages.length === 0) {
-      return false;
-    }
-
-    const canonicalRef = esvResponse.canonical;
-    // Combine all passages for multiple references (semicolon-separated)
-    const canonicalText = esvResponse.passages.map(passage => passage.trim()).join('\n\n');
+// The translation to use when the request doesn't name one - the user's preferred translation
+async function resolveTranslation(requested: string | undefined, userId: string): Promise<string> {
+  let translation = requested;
+
+  if (!translation) {
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('preferred_translation')
+      .eq('user_id', userId)
+      .maybeSingle();
+    translation = profile?.preferred_translation || DEFAULT_TRANSLATION;
+  }
 
-    // ESV verses are immutable - must match exactly
-    return canonicalRef === reference && canonicalText === text;
-  } catch (error) {
-    console.error('ESV verification failed:', error);
-    return false;
+  if (!isSupportedTranslation(translation)) {
+    throw new Error(`Unsupported translation: ${translation}`);
   }
+  return translation;
 }
 
 // Main verse lookup/creation function
@@ -173,7 +128,15 @@ async function handleVerseOperation(request: VerseOperationRequest, userId: stri
     hasUserToken: !!userToken
   });
 
-  const { operation, reference, normalizedRef, translation = 'ESV' } = request;
+  const { operation, reference, normalizedRef } = request;
+
+  // Reject chapters/verses that don't exist before any provider call or alias insert
+  const rangeError = findPassageRangeError(reference);
+  if (rangeError) {
+    throw new Error(rangeError);
+  }
+
+  const translation = await resolveTranslation(request.translation, userId);
 
   // Step 1: Always try lookup first (both operations need this)
   const normalizedInput = normalizedRef || normalizeReferenceForLookup(reference);
@@ -201,10 +164,10 @@ async function handleVerseOperation(request: VerseOperationRequest, userId: stri
     throw new Error(`Lookup failed: ${lookupError.message}`);
   }
 
-  // If verse found, verify it against ESV API for data integrity
+  // If verse found, verify it against its translation's source for data integrity
   if (lookupResult.verse) {
-    // CRITICAL: Verify existing verse data against ESV API
-    const isValid = await verifyVerseWithESV(
+    // CRITICAL: Verify existing verse data against the source text
+    const isValid = await verifyVerseWithProvider(
       lookupResult.verse.reference,
       lookupResult.verse.text,
       lookupResult.verse.translation
@@ -214,6 +177,9 @@ async function handleVerseOperation(request: VerseOperationRequest, userId: stri
       throw new Error(`Verse data integrity check failed for "${lookupResult.verse.reference}". This verse may have been corrupted.`);
     }
 
+    // Verses created before segments existed get them on their next lookup
+    lookupResult.verse = await ensureVerseSegments(lookupResult.verse);
+
     // If this is just a lookup, return verified verse
     if (operation === 'lookup') {
       return {
@@ -250,28 +216,28 @@ async function handleVerseOperation(request: VerseOperationRequest, userId: stri
     };
   }
 
-  // If operation is create and verse not found, fetch and verify from ESV API
+  // If operation is create and verse not found, fetch and verify from the translation's provider
   if (operation === 'create') {
-    const esvResponse = await callESVAPI(reference);
+    const passageResponse = await getBibleProvider(translation).getPassage(reference);
 
-    if (!esvResponse.passages || esvResponse.passages.length === 0) {
+    if (!passageResponse.passages || passageResponse.passages.length === 0) {
       throw new Error(`Invalid Bible reference: "${reference}". Please check the spelling and try again.`);
     }
 
-    const canonicalRef = esvResponse.canonical;
+    const canonicalRef = passageResponse.canonical;
     // Combine all passages for multiple references (semicolon-separated)
-    const verseText = esvResponse.passages.map(passage => passage.trim()).join('\n\n');
+    const verseText = passageResponse.passages.map(passage => passage.trim()).join('\n\n');
 
     // CRITICAL: Double-check that we get back exactly what we expect
     // This prevents any tampering or API inconsistencies
     if (!canonicalRef || !verseText) {
-      throw new Error(`Invalid response from ESV API for reference: "${reference}"`);
+      throw new Error(`Invalid ${translation} response for reference: "${reference}"`);
     }
 
     // Additional verification: re-verify the canonical data
-    const doubleCheck = await verifyVerseWithESV(canonicalRef, verseText, translation);
+    const doubleCheck = await verifyVerseWithProvider(canonicalRef, verseText, translation);
     if (!doubleCheck) {
-      throw new Error(`ESV API consistency check failed for "${canonicalRef}". Please try again.`);
+      throw new Error(`${translation} consistency check failed for "${canonicalRef}". Please try again.`);
     }
 
     // Create verse using secure function with verified data
@@ -290,26 +256,32 @@ async function handleVerseOperation(request: VerseOperationRequest, userId: stri
       throw new Error(createResult.error);
     }
 
-    // Create alias if input reference differs from canonical
+    // Create alias if input reference differs from canonical - only when the input names
+    // exactly the canonical passage, so loose matches by the provider don't become aliases
     if (normalizedInput !== normalizeReferenceForLookup(canonicalRef)) {
-      const { data: aliasResult, error: aliasError } = await supabase
-        .rpc('rpc_create_alias', {
-          p_alias: normalizedInput,
-          p_verse_id: createResult.id
-        });
-
-      if (aliasError) {
-        console.error('Failed to create alias:', aliasError);
-        // Don't throw - verse creation succeeded
+      if (!referencesMatch(normalizedInput, canonicalRef)) {
+        console.log('⏭️ Skipping alias - input does not parse to the canonical reference:', { normalizedInput, canonicalRef });
+      } else {
+        const { data: aliasResult, error: aliasError } = await supabase
+          .rpc('rpc_create_alias', {
+            p_alias: normalizedInput,
+            p_verse_id: createResult.id,
+            p_user_id: userId
+          });
+
+        if (aliasError || aliasResult?.error) {
+          console.error('Failed to create alias:', aliasError ?? aliasResult.error);
+          // Don't throw - verse creation succeeded
+        }
       }
     }
 
     // Return just the verse - client will create the verse card
     return {
-      verse: createResult,
+      verse: await ensureVerseSegments(createResult),
       foundViaAlias: false,
       userCard: null, // No card yet - client will create it
-      source: 'esv_api'
+      source: translation === 'ESV' ? 'esv_api' : 'bundled_dataset'
     };
   }
 
@@ -331,7 +303,7 @@ async function handleBatchOperations(operations: Array<{ id: string, type: 'look
         operation: op.type,
         reference: op.data.reference || '',
         normalizedRef: op.data.normalizedRef,
-        translation: op.data.translation || 'ESV'
+        translation: op.data.translation
       };
 
       // Process individual operation using existing handler
@@ -445,6 +417,27 @@ serve(async (req) => {
       });
     }
 
+    // Validate translation (defaults to the user's preferred translation when omitted)
+    if (requestData.translation && !isSupportedTranslation(requestData.translation)) {
+      return new Response(JSON.stringify({
+        error: `Translation must be one of: ${SUPPORTED_TRANSLATIONS.join(', ')}`
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Reject out-of-range references ("John 3:99") as bad requests
+    const rangeError = requestData.operation !== 'batch' ? findPassageRangeError(requestData.reference) : null;
+    if (rangeError) {
+      return new Response(JSON.stringify({
+        error: rangeError
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
     // Handle batch operations separately
     if (requestData.operation === 'batch') {
       if (!requestData.operations || !Array.isArray(requestData.operations)) {
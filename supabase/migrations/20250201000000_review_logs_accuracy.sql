@@ -0,0 +1,9 @@
+-- Typed Recall Accuracy
+-- Stores the word-level accuracy (0-100) of typed recall reviews.
+-- NULL for swipe reviews where no answer was typed.
+
+ALTER TABLE public.review_logs
+    ADD COLUMN IF NOT EXISTS accuracy_percentage numeric(5,2)
+        CHECK (accuracy_percentage IS NULL OR (accuracy_percentage >= 0 AND accuracy_percentage <= 100));
+
+COMMENT ON COLUMN public.review_logs.accuracy_percentage IS 'Word-level accuracy of a typed recall review (0-100). NULL for swipe reviews.';
@@ -0,0 +1,160 @@
+-- Graded Review Outcomes
+-- Adds a four-level grade (again/hard/good/easy) to review_logs and teaches
+-- process_review_comprehensive() to honor it. Must stay in sync with
+-- processReview() in src/utils/spacedRepetition.ts:
+--   again - resets phase progress to 0
+--   hard  - holds phase progress
+--   good  - adds 1 to phase progress
+--   easy  - adds 2 to phase progress (bonus)
+-- Reviews without a grade keep the original binary behavior.
+
+ALTER TABLE public.review_logs
+    ADD COLUMN IF NOT EXISTS grade text
+        CHECK (grade IS NULL OR grade IN ('again', 'hard', 'good', 'easy'));
+
+COMMENT ON COLUMN public.review_logs.grade IS 'Review grade: again, hard, good or easy. NULL for binary pass/fail reviews.';
+
+CREATE OR REPLACE FUNCTION process_review_comprehensive()
+RETURNS TRIGGER AS $$
+DECLARE
+    is_first_review_today BOOLEAN;
+    current_card RECORD;
+    user_timezone TEXT;
+    user_today DATE;
+    new_progress INTEGER;
+    new_phase TEXT;
+    phase_requirement INTEGER;
+    progress_increment INTEGER;
+    next_due DATE;
+    new_current_streak INTEGER;
+    new_best_streak INTEGER;
+    assignment_record RECORD;
+    assigned_dow INTEGER;
+    assigned_parity INTEGER;
+    assigned_dom INTEGER;
+BEGIN
+    -- Validate that required data exists
+    IF NEW.verse_card_id IS NULL OR NEW.user_id IS NULL THEN
+        RAISE EXCEPTION 'verse_card_id and user_id cannot be NULL';
+    END IF;
+    -- Get user timezone and current card state with error handling
+    SELECT vc.* INTO current_card
+    FROM verse_cards vc
+    WHERE vc.id = NEW.verse_card_id;
+    
+    SELECT up.timezone INTO user_timezone
+    FROM user_profiles up
+    WHERE up.user_id = NEW.user_id;
+    
+    -- Ensure we found the card and user profile
+    IF current_card IS NULL THEN
+        RAISE EXCEPTION 'Verse card not found or user profile missing for card_id: %', NEW.verse_card_id;
+    END IF;
+    
+    -- Default timezone if not set
+    IF user_timezone IS NULL THEN
+        user_timezone := 'UTC';
+    END IF;
+    
+    -- Calculate user's today
+    user_today := (NOW() AT TIME ZONE user_timezone)::DATE;
+    
+    -- Check if this is first review today for this card (using UTC for consistency with unique constraint)
+    is_first_review_today := NOT EXISTS (
+        SELECT 1 FROM review_logs rl
+        WHERE rl.verse_card_id = NEW.verse_card_id 
+        AND rl.user_id = NEW.user_id 
+        AND date(rl.created_at AT TIME ZONE 'UTC') = date(NOW() AT TIME ZONE 'UTC')
+        AND rl.id != NEW.id
+    );
+    
+    -- Update the review log with whether it counts toward progress
+    -- Only successful first reviews of the day count toward progress
+    UPDATE review_logs 
+    SET counted_toward_progress = (NEW.was_successful AND is_first_review_today)
+    WHERE id = NEW.id;
+    
+    -- Calculate streak updates
+    IF NEW.was_successful AND is_first_review_today THEN
+        new_current_streak := current_card.current_streak + 1;
+        new_best_streak := GREATEST(current_card.best_streak, new_current_streak);
+    ELSIF NOT NEW.was_successful THEN
+        -- Reset current streak on failure
+        new_current_streak := 0;
+        new_best_streak := current_card.best_streak;
+    ELSE
+        -- Neither successful first review nor failure - keep streaks unchanged
+        new_current_streak := current_card.current_streak;
+        new_best_streak := current_card.best_streak;
+    END IF;
+    
+    -- Default: keep current phase and assignments
+    new_progress := current_card.phase_progress_count;
+    new_phase := current_card.current_phase;
+    assigned_dow := current_card.assigned_day_of_week;
+    assigned_parity := current_card.assigned_week_parity;
+    assigned_dom := current_card.assigned_day_of_month;
+    
+    IF NEW.grade = 'again' AND is_first_review_today THEN
+        -- 'again' starts the current phase over
+        new_progress := 0;
+    ELSIF NEW.was_successful AND is_first_review_today THEN
+        -- Progress earned by this grade (ungraded successes count as 'good')
+        progress_increment := CASE COALESCE(NEW.grade, 'good')
+            WHEN 'hard' THEN 0
+            WHEN 'good' THEN 1
+            WHEN 'easy' THEN 2
+            ELSE 1
+        END;
+        
+        -- Determine phase requirements
+        CASE current_card.current_phase
+            WHEN 'daily' THEN phase_requirement := 14;
+            WHEN 'weekly' THEN phase_requirement := 4;
+            WHEN 'biweekly' THEN phase_requirement := 4;
+            WHEN 'monthly' THEN phase_requirement := NULL; -- No advancement from monthly
+        END CASE;
+        
+        new_progress := current_card.phase_progress_count + progress_increment;
+        
+        -- Check if we should advance to next phase
+        IF phase_requirement IS NOT NULL AND new_progress >= phase_requirement THEN
+            -- Advance to next phase and reset progress
+            CASE current_card.current_phase
+                WHEN 'daily' THEN new_phase := 'weekly';
+                WHEN 'weekly' THEN new_phase := 'biweekly';
+                WHEN 'biweekly' THEN new_phase := 'monthly';
+            END CASE;
+            new_progress := 0;
+            
+            -- Get optimal assignment for new phase
+            SELECT * INTO assignment_record
+            FROM get_optimal_assignment(NEW.user_id, new_phase)
+            LIMIT 1;
+            
+            assigned_dow := assignment_record.day_of_week;
+            assigned_parity := assignment_record.week_parity;
+            assigned_dom := assignment_record.day_of_month;
+        END IF;
+    END IF;
+    
+    -- Calculate next due date based on phase and assignments
+    next_due := calculate_next_assigned_date(new_phase, assigned_dow, assigned_parity, assigned_dom, user_timezone);
+    
+    -- Update verse_card with all calculated values
+    UPDATE verse_cards SET
+        last_reviewed_at = NOW(),
+        next_due_date = next_due,
+        current_phase = new_phase,
+        phase_progress_count = new_progress,
+        assigned_day_of_week = assigned_dow,
+        assigned_week_parity = assigned_parity,
+        assigned_day_of_month = assigned_dom,
+        current_streak = new_current_streak,
+        best_streak = new_best_streak,
+        updated_at = NOW()
+    WHERE id = NEW.verse_card_id;
+    
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
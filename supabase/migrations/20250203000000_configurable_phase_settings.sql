@@ -0,0 +1,276 @@
+-- Configurable Phase Settings
+-- Moves the phase ladder constants (PHASE_REQUIREMENTS / PHASE_INTERVALS in
+-- src/utils/spacedRepetition.ts) onto user_profiles so each user can tune them.
+-- Defaults match the original 14/4/4 requirements and 1/7/14/30 day intervals.
+--
+-- Intervals for the assigned phases (weekly/biweekly/monthly) set the earliest slot:
+-- the card is due on its next assigned day no sooner than (interval - slot period + 1)
+-- days out, so the default intervals keep the original "next assigned slot" behavior.
+
+ALTER TABLE public.user_profiles
+    ADD COLUMN IF NOT EXISTS daily_phase_requirement integer NOT NULL DEFAULT 14
+        CHECK (daily_phase_requirement BETWEEN 1 AND 100),
+    ADD COLUMN IF NOT EXISTS weekly_phase_requirement integer NOT NULL DEFAULT 4
+        CHECK (weekly_phase_requirement BETWEEN 1 AND 100),
+    ADD COLUMN IF NOT EXISTS biweekly_phase_requirement integer NOT NULL DEFAULT 4
+        CHECK (biweekly_phase_requirement BETWEEN 1 AND 100),
+    ADD COLUMN IF NOT EXISTS daily_interval_days integer NOT NULL DEFAULT 1
+        CHECK (daily_interval_days BETWEEN 1 AND 6),
+    ADD COLUMN IF NOT EXISTS weekly_interval_days integer NOT NULL DEFAULT 7
+        CHECK (weekly_interval_days BETWEEN 7 AND 13),
+    ADD COLUMN IF NOT EXISTS biweekly_interval_days integer NOT NULL DEFAULT 14
+        CHECK (biweekly_interval_days BETWEEN 14 AND 27),
+    ADD COLUMN IF NOT EXISTS monthly_interval_days integer NOT NULL DEFAULT 30
+        CHECK (monthly_interval_days BETWEEN 28 AND 90);
+
+-- Replace the 5-argument version so calls without an interval aren't ambiguous
+DROP FUNCTION IF EXISTS calculate_next_assigned_date(TEXT, INTEGER, INTEGER, INTEGER, TEXT);
+
+CREATE OR REPLACE FUNCTION calculate_next_assigned_date(
+  phase_name TEXT,
+  day_of_week_param INTEGER,
+  week_parity_param INTEGER,
+  day_of_month_param INTEGER,
+  user_timezone TEXT,
+  interval_days INTEGER DEFAULT NULL
+) RETURNS DATE AS $$
+DECLARE
+  user_today DATE;
+  earliest_date DATE;
+  next_date DATE;
+  current_dow INTEGER;
+  days_ahead INTEGER;
+BEGIN
+  -- Validate inputs
+  IF phase_name IS NULL OR phase_name NOT IN ('daily', 'weekly', 'biweekly', 'monthly') THEN
+    RAISE EXCEPTION 'Invalid phase_name: %. Must be daily, weekly, biweekly, or monthly', phase_name;
+  END IF;
+  
+  IF user_timezone IS NULL THEN
+    user_timezone := 'UTC';
+  END IF;
+  
+  -- Calculate user_today with error handling
+  BEGIN
+    user_today := (NOW() AT TIME ZONE user_timezone)::DATE;
+  EXCEPTION WHEN OTHERS THEN
+    RAISE EXCEPTION 'Invalid timezone: %', user_timezone;
+  END;
+  
+  IF phase_name = 'daily' THEN
+    RETURN (user_today + COALESCE(interval_days, 1) * INTERVAL '1 day')::DATE;
+    
+  ELSIF phase_name = 'weekly' THEN
+    -- Find next occurrence of assigned weekday on or after the earliest allowed date
+    earliest_date := user_today + GREATEST(1, COALESCE(interval_days, 7) - 6);
+    -- Convert PostgreSQL DOW (0=Sun, 1=Mon, ..., 6=Sat) to our schema (1=Sun, 2=Mon, ..., 7=Sat)
+    current_dow := EXTRACT(DOW FROM earliest_date) + 1;
+    days_ahead := (day_of_week_param - current_dow + 7) % 7;
+    RETURN (earliest_date + days_ahead * INTERVAL '1 day')::DATE;
+    
+  ELSIF phase_name = 'biweekly' THEN
+    -- Find next occurrence of assigned weekday + week parity using epoch-based calculation
+    earliest_date := user_today + GREATEST(1, COALESCE(interval_days, 14) - 13);
+    next_date := earliest_date;
+    LOOP
+      -- Convert PostgreSQL DOW (0=Sun, 1=Mon, ..., 6=Sat) to our schema (1=Sun, 2=Mon, ..., 7=Sat)
+      IF (EXTRACT(DOW FROM next_date) + 1) = day_of_week_param 
+         AND ((EXTRACT(EPOCH FROM next_date)::INTEGER / 86400) / 7) % 2 = week_parity_param THEN
+        EXIT;
+      END IF;
+      next_date := next_date + 1;
+      -- Safety check to prevent infinite loop
+      IF next_date > earliest_date + INTERVAL '13 days' THEN
+        EXIT;
+      END IF;
+    END LOOP;
+    RETURN next_date;
+    
+  ELSIF phase_name = 'monthly' THEN
+    -- Find next occurrence of assigned day of month on or after the earliest allowed date
+    earliest_date := user_today + GREATEST(1, COALESCE(interval_days, 30) - 29);
+    BEGIN
+      next_date := MAKE_DATE(
+        EXTRACT(YEAR FROM earliest_date)::INTEGER,
+        EXTRACT(MONTH FROM earliest_date)::INTEGER,
+        day_of_month_param
+      );
+    EXCEPTION WHEN OTHERS THEN
+      -- If day doesn't exist in current month (e.g., Feb 30), use last day of month
+      next_date := DATE_TRUNC('month', earliest_date) + INTERVAL '1 month' - INTERVAL '1 day';
+    END;
+    
+    -- If that date is before the earliest allowed date, go to next month
+    IF next_date < earliest_date THEN
+      BEGIN
+        next_date := MAKE_DATE(
+          EXTRACT(YEAR FROM earliest_date + INTERVAL '1 month')::INTEGER,
+          EXTRACT(MONTH FROM earliest_date + INTERVAL '1 month')::INTEGER,
+          day_of_month_param
+        );
+      EXCEPTION WHEN OTHERS THEN
+        -- If day doesn't exist in next month, use last day of that month
+        next_date := DATE_TRUNC('month', earliest_date + INTERVAL '2 months') - INTERVAL '1 day';
+      END;
+    END IF;
+    RETURN next_date;
+  END IF;
+  
+  RETURN (user_today + INTERVAL '1 day')::DATE; -- fallback
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION process_review_comprehensive()
+RETURNS TRIGGER AS $$
+DECLARE
+    is_first_review_today BOOLEAN;
+    current_card RECORD;
+    user_profile RECORD;
+    user_timezone TEXT;
+    phase_interval INTEGER;
+    user_today DATE;
+    new_progress INTEGER;
+    new_phase TEXT;
+    phase_requirement INTEGER;
+    progress_increment INTEGER;
+    next_due DATE;
+    new_current_streak INTEGER;
+    new_best_streak INTEGER;
+    assignment_record RECORD;
+    assigned_dow INTEGER;
+    assigned_parity INTEGER;
+    assigned_dom INTEGER;
+BEGIN
+    -- Validate that required data exists
+    IF NEW.verse_card_id IS NULL OR NEW.user_id IS NULL THEN
+        RAISE EXCEPTION 'verse_card_id and user_id cannot be NULL';
+    END IF;
+    -- Get user timezone and current card state with error handling
+    SELECT vc.* INTO current_card
+    FROM verse_cards vc
+    WHERE vc.id = NEW.verse_card_id;
+    
+    SELECT up.* INTO user_profile
+    FROM user_profiles up
+    WHERE up.user_id = NEW.user_id;
+    
+    user_timezone := user_profile.timezone;
+    
+    -- Ensure we found the card and user profile
+    IF current_card IS NULL THEN
+        RAISE EXCEPTION 'Verse card not found or user profile missing for card_id: %', NEW.verse_card_id;
+    END IF;
+    
+    -- Default timezone if not set
+    IF user_timezone IS NULL THEN
+        user_timezone := 'UTC';
+    END IF;
+    
+    -- Calculate user's today
+    user_today := (NOW() AT TIME ZONE user_timezone)::DATE;
+    
+    -- Check if this is first review today for this card (using UTC for consistency with unique constraint)
+    is_first_review_today := NOT EXISTS (
+        SELECT 1 FROM review_logs rl
+        WHERE rl.verse_card_id = NEW.verse_card_id 
+        AND rl.user_id = NEW.user_id 
+        AND date(rl.created_at AT TIME ZONE 'UTC') = date(NOW() AT TIME ZONE 'UTC')
+        AND rl.id != NEW.id
+    );
+    
+    -- Update the review log with whether it counts toward progress
+    -- Only successful first reviews of the day count toward progress
+    UPDATE review_logs 
+    SET counted_toward_progress = (NEW.was_successful AND is_first_review_today)
+    WHERE id = NEW.id;
+    
+    -- Calculate streak updates
+    IF NEW.was_successful AND is_first_review_today THEN
+        new_current_streak := current_card.current_streak + 1;
+        new_best_streak := GREATEST(current_card.best_streak, new_current_streak);
+    ELSIF NOT NEW.was_successful THEN
+        -- Reset current streak on failure
+        new_current_streak := 0;
+        new_best_streak := current_card.best_streak;
+    ELSE
+        -- Neither successful first review nor failure - keep streaks unchanged
+        new_current_streak := current_card.current_streak;
+        new_best_streak := current_card.best_streak;
+    END IF;
+    
+    -- Default: keep current phase and assignments
+    new_progress := current_card.phase_progress_count;
+    new_phase := current_card.current_phase;
+    assigned_dow := current_card.assigned_day_of_week;
+    assigned_parity := current_card.assigned_week_parity;
+    assigned_dom := current_card.assigned_day_of_month;
+    
+    IF NEW.grade = 'again' AND is_first_review_today THEN
+        -- 'again' starts the current phase over
+        new_progress := 0;
+    ELSIF NEW.was_successful AND is_first_review_today THEN
+        -- Progress earned by this grade (ungraded successes count as 'good')
+        progress_increment := CASE COALESCE(NEW.grade, 'good')
+            WHEN 'hard' THEN 0
+            WHEN 'good' THEN 1
+            WHEN 'easy' THEN 2
+            ELSE 1
+        END;
+        
+        -- Determine phase requirements from the user's profile (defaults 14/4/4)
+        CASE current_card.current_phase
+            WHEN 'daily' THEN phase_requirement := COALESCE(user_profile.daily_phase_requirement, 14);
+            WHEN 'weekly' THEN phase_requirement := COALESCE(user_profile.weekly_phase_requirement, 4);
+            WHEN 'biweekly' THEN phase_requirement := COALESCE(user_profile.biweekly_phase_requirement, 4);
+            WHEN 'monthly' THEN phase_requirement := NULL; -- No advancement from monthly
+        END CASE;
+        
+        new_progress := current_card.phase_progress_count + progress_increment;
+        
+        -- Check if we should advance to next phase
+        IF phase_requirement IS NOT NULL AND new_progress >= phase_requirement THEN
+            -- Advance to next phase and reset progress
+            CASE current_card.current_phase
+                WHEN 'daily' THEN new_phase := 'weekly';
+                WHEN 'weekly' THEN new_phase := 'biweekly';
+                WHEN 'biweekly' THEN new_phase := 'monthly';
+            END CASE;
+            new_progress := 0;
+            
+            -- Get optimal assignment for new phase
+            SELECT * INTO assignment_record
+            FROM get_optimal_assignment(NEW.user_id, new_phase)
+            LIMIT 1;
+            
+            assigned_dow := assignment_record.day_of_week;
+            assigned_parity := assignment_record.week_parity;
+            assigned_dom := assignment_record.day_of_month;
+        END IF;
+    END IF;
+    
+    -- Calculate next due date based on phase, assignments and the user's interval for the phase
+    phase_interval := CASE new_phase
+        WHEN 'daily' THEN user_profile.daily_interval_days
+        WHEN 'weekly' THEN user_profile.weekly_interval_days
+        WHEN 'biweekly' THEN user_profile.biweekly_interval_days
+        WHEN 'monthly' THEN user_profile.monthly_interval_days
+    END;
+    next_due := calculate_next_assigned_date(new_phase, assigned_dow, assigned_parity, assigned_dom, user_timezone, phase_interval);
+    
+    -- Update verse_card with all calculated values
+    UPDATE verse_cards SET
+        last_reviewed_at = NOW(),
+        next_due_date = next_due,
+        current_phase = new_phase,
+        phase_progress_count = new_progress,
+        assigned_day_of_week = assigned_dow,
+        assigned_week_parity = assigned_parity,
+        assigned_day_of_month = assigned_dom,
+        current_streak = new_current_streak,
+        best_streak = new_best_streak,
+        updated_at = NOW()
+    WHERE id = NEW.verse_card_id;
+    
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,274 @@
+-- Pluggable Scheduler
+-- Adds SM-2 as an alternative to the fixed phase ladder, selected per user with
+-- user_profiles.scheduler. SM-2 state lives on each verse card (ease, interval, repetitions);
+-- SM-2 cards are due by next_due_date instead of their assigned day. Phase fields are left
+-- alone while a user is on SM-2 so switching back resumes the ladder.
+-- Mirrors phaseScheduler / sm2Scheduler in src/utils/spacedRepetition.ts.
+
+ALTER TABLE public.user_profiles
+    ADD COLUMN IF NOT EXISTS scheduler text NOT NULL DEFAULT 'phase'
+        CHECK (scheduler IN ('phase', 'sm2'));
+
+ALTER TABLE public.verse_cards
+    ADD COLUMN IF NOT EXISTS ease_factor numeric(4,2) NOT NULL DEFAULT 2.5
+        CHECK (ease_factor >= 1.3),
+    ADD COLUMN IF NOT EXISTS interval_days integer NOT NULL DEFAULT 0
+        CHECK (interval_days >= 0),
+    ADD COLUMN IF NOT EXISTS repetitions integer NOT NULL DEFAULT 0
+        CHECK (repetitions >= 0);
+
+CREATE OR REPLACE FUNCTION process_review_comprehensive()
+RETURNS TRIGGER AS $$
+DECLARE
+    is_first_review_today BOOLEAN;
+    current_card RECORD;
+    user_profile RECORD;
+    user_timezone TEXT;
+    phase_interval INTEGER;
+    user_today DATE;
+    new_progress INTEGER;
+    new_phase TEXT;
+    phase_requirement INTEGER;
+    progress_increment INTEGER;
+    next_due DATE;
+    new_current_streak INTEGER;
+    new_best_streak INTEGER;
+    assignment_record RECORD;
+    assigned_dow INTEGER;
+    assigned_parity INTEGER;
+    assigned_dom INTEGER;
+    is_failure BOOLEAN;
+    new_failures INTEGER;
+    demotion_threshold INTEGER;
+    demoted_from TEXT;
+    sm2_quality INTEGER;
+    new_ease NUMERIC;
+    new_interval INTEGER;
+    new_repetitions INTEGER;
+BEGIN
+    -- Validate that required data exists
+    IF NEW.verse_card_id IS NULL OR NEW.user_id IS NULL THEN
+        RAISE EXCEPTION 'verse_card_id and user_id cannot be NULL';
+    END IF;
+    -- Get user timezone and current card state with error handling
+    SELECT vc.* INTO current_card
+    FROM verse_cards vc
+    WHERE vc.id = NEW.verse_card_id;
+    
+    SELECT up.* INTO user_profile
+    FROM user_profiles up
+    WHERE up.user_id = NEW.user_id;
+    
+    user_timezone := user_profile.timezone;
+    
+    -- Ensure we found the card and user profile
+    IF current_card IS NULL THEN
+        RAISE EXCEPTION 'Verse card not found or user profile missing for card_id: %', NEW.verse_card_id;
+    END IF;
+    
+    -- Default timezone if not set
+    IF user_timezone IS NULL THEN
+        user_timezone := 'UTC';
+    END IF;
+    
+    -- Calculate user's today
+    user_today := (NOW() AT TIME ZONE user_timezone)::DATE;
+    
+    -- Check if this is first review today for this card (using UTC for consistency with unique constraint)
+    is_first_review_today := NOT EXISTS (
+        SELECT 1 FROM review_logs rl
+        WHERE rl.verse_card_id = NEW.verse_card_id 
+        AND rl.user_id = NEW.user_id 
+        AND date(rl.created_at AT TIME ZONE 'UTC') = date(NOW() AT TIME ZONE 'UTC')
+        AND rl.id != NEW.id
+    );
+    
+    -- Update the review log with whether it counts toward progress
+    -- Only successful first reviews of the day count toward progress
+    UPDATE review_logs 
+    SET counted_toward_progress = (NEW.was_successful AND is_first_review_today)
+    WHERE id = NEW.id;
+    
+    -- Calculate streak updates
+    IF NEW.was_successful AND is_first_review_today THEN
+        new_current_streak := current_card.current_streak + 1;
+        new_best_streak := GREATEST(current_card.best_streak, new_current_streak);
+    ELSIF NOT NEW.was_successful THEN
+        -- Reset current streak on failure
+        new_current_streak := 0;
+        new_best_streak := current_card.best_streak;
+    ELSE
+        -- Neither successful first review nor failure - keep streaks unchanged
+        new_current_streak := current_card.current_streak;
+        new_best_streak := current_card.best_streak;
+    END IF;
+    
+    -- Phase fields and assignments are untouched by SM-2 (switching back resumes the ladder)
+    new_progress := current_card.phase_progress_count;
+    new_phase := current_card.current_phase;
+    assigned_dow := current_card.assigned_day_of_week;
+    assigned_parity := current_card.assigned_week_parity;
+    assigned_dom := current_card.assigned_day_of_month;
+    new_failures := COALESCE(current_card.consecutive_failures, 0);
+    new_ease := COALESCE(current_card.ease_factor, 2.5);
+    new_interval := COALESCE(current_card.interval_days, 0);
+    new_repetitions := COALESCE(current_card.repetitions, 0);
+    
+    IF COALESCE(user_profile.scheduler, 'phase') = 'sm2' THEN
+        -- SM-2 scheduler - mirrors sm2Scheduler in src/utils/spacedRepetition.ts
+        next_due := current_card.next_due_date;
+        
+        IF is_first_review_today THEN
+            -- Cards coming off the phase ladder start from their current phase interval
+            IF new_repetitions = 0 AND new_interval = 0 AND current_card.current_phase <> 'daily' THEN
+                new_interval := CASE current_card.current_phase
+                    WHEN 'weekly' THEN COALESCE(user_profile.weekly_interval_days, 7)
+                    WHEN 'biweekly' THEN COALESCE(user_profile.biweekly_interval_days, 14)
+                    WHEN 'monthly' THEN COALESCE(user_profile.monthly_interval_days, 30)
+                END;
+                new_repetitions := 2;
+            END IF;
+            
+            -- Response quality 0-5 (ungraded reviews count as good/again)
+            sm2_quality := CASE COALESCE(NEW.grade, CASE WHEN NEW.was_successful THEN 'good' ELSE 'again' END)
+                WHEN 'again' THEN 1
+                WHEN 'hard' THEN 3
+                WHEN 'good' THEN 4
+                WHEN 'easy' THEN 5
+            END;
+            
+            IF sm2_quality < 3 THEN
+                -- Lapse - start the repetitions over, ease is unchanged
+                new_repetitions := 0;
+                new_interval := 1;
+            ELSE
+                new_ease := ROUND(GREATEST(1.3, new_ease + (0.1 - (5 - sm2_quality) * (0.08 + (5 - sm2_quality) * 0.02))), 2);
+                new_repetitions := new_repetitions + 1;
+                new_interval := CASE
+                    WHEN new_repetitions = 1 THEN 1
+                    WHEN new_repetitions = 2 THEN 6
+                    ELSE LEAST(365, ROUND(new_interval * new_ease)::INTEGER)
+                END;
+            END IF;
+            
+            next_due := user_today + new_interval;
+        END IF;
+    ELSE
+        -- Phase ladder
+        demoted_from := NULL;
+        is_failure := NOT NEW.was_successful OR COALESCE(NEW.grade, '') = 'again';
+    
+        IF is_failure AND is_first_review_today THEN
+            -- 'again' starts the current phase over; ungraded failures keep progress
+            IF NEW.grade = 'again' THEN
+                new_progress := 0;
+            END IF;
+        
+            new_failures := new_failures + 1;
+            demotion_threshold := COALESCE(user_profile.demotion_failure_threshold, 3);
+        
+            -- Too many failures in a row - drop back one phase (daily is the floor, 0 disables)
+            IF demotion_threshold > 0 AND new_failures >= demotion_threshold AND current_card.current_phase <> 'daily' THEN
+                demoted_from := current_card.current_phase;
+                CASE current_card.current_phase
+                    WHEN 'weekly' THEN new_phase := 'daily';
+                    WHEN 'biweekly' THEN new_phase := 'weekly';
+                    WHEN 'monthly' THEN new_phase := 'biweekly';
+                END CASE;
+                new_progress := 0;
+                new_failures := 0;
+            
+                IF new_phase = 'daily' THEN
+                    -- Daily cards have no assignment
+                    assigned_dow := NULL;
+                    assigned_parity := NULL;
+                    assigned_dom := NULL;
+                ELSE
+                    -- Fresh assignment for the lower phase
+                    SELECT * INTO assignment_record
+                    FROM get_optimal_assignment(NEW.user_id, new_phase)
+                    LIMIT 1;
+                
+                    assigned_dow := assignment_record.day_of_week;
+                    assigned_parity := assignment_record.week_parity;
+                    assigned_dom := assignment_record.day_of_month;
+                END IF;
+            
+                UPDATE review_logs
+                SET demoted_from_phase = demoted_from
+                WHERE id = NEW.id;
+            END IF;
+        ELSIF NEW.was_successful AND is_first_review_today THEN
+            -- A successful review ends the failure run
+            new_failures := 0;
+        
+            -- Progress earned by this grade (ungraded successes count as 'good')
+            progress_increment := CASE COALESCE(NEW.grade, 'good')
+                WHEN 'hard' THEN 0
+                WHEN 'good' THEN 1
+                WHEN 'easy' THEN 2
+                ELSE 1
+            END;
+        
+            -- Determine phase requirements from the user's profile (defaults 14/4/4)
+            CASE current_card.current_phase
+                WHEN 'daily' THEN phase_requirement := COALESCE(user_profile.daily_phase_requirement, 14);
+                WHEN 'weekly' THEN phase_requirement := COALESCE(user_profile.weekly_phase_requirement, 4);
+                WHEN 'biweekly' THEN phase_requirement := COALESCE(user_profile.biweekly_phase_requirement, 4);
+                WHEN 'monthly' THEN phase_requirement := NULL; -- No advancement from monthly
+            END CASE;
+        
+            new_progress := current_card.phase_progress_count + progress_increment;
+        
+            -- Check if we should advance to next phase
+            IF phase_requirement IS NOT NULL AND new_progress >= phase_requirement THEN
+                -- Advance to next phase and reset progress
+                CASE current_card.current_phase
+                    WHEN 'daily' THEN new_phase := 'weekly';
+                    WHEN 'weekly' THEN new_phase := 'biweekly';
+                    WHEN 'biweekly' THEN new_phase := 'monthly';
+                END CASE;
+                new_progress := 0;
+            
+                -- Get optimal assignment for new phase
+                SELECT * INTO assignment_record
+                FROM get_optimal_assignment(NEW.user_id, new_phase)
+                LIMIT 1;
+            
+                assigned_dow := assignment_record.day_of_week;
+                assigned_parity := assignment_record.week_parity;
+                assigned_dom := assignment_record.day_of_month;
+            END IF;
+        END IF;
+    
+        -- Calculate next due date based on phase, assignments and the user's interval for the phase
+        phase_interval := CASE new_phase
+            WHEN 'daily' THEN user_profile.daily_interval_days
+            WHEN 'weekly' THEN user_profile.weekly_interval_days
+            WHEN 'biweekly' THEN user_profile.biweekly_interval_days
+            WHEN 'monthly' THEN user_profile.monthly_interval_days
+        END;
+        next_due := calculate_next_assigned_date(new_phase, assigned_dow, assigned_parity, assigned_dom, user_timezone, phase_interval);
+    END IF;
+    
+    -- Update verse_card with all calculated values
+    UPDATE verse_cards SET
+        last_reviewed_at = NOW(),
+        next_due_date = next_due,
+        current_phase = new_phase,
+        phase_progress_count = new_progress,
+        assigned_day_of_week = assigned_dow,
+        assigned_week_parity = assigned_parity,
+        assigned_day_of_month = assigned_dom,
+        current_streak = new_current_streak,
+        best_streak = new_best_streak,
+        consecutive_failures = new_failures,
+        ease_factor = new_ease,
+        interval_days = new_interval,
+        repetitions = new_repetitions,
+        updated_at = NOW()
+    WHERE id = NEW.verse_card_id;
+    
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
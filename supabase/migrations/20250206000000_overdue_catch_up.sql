@@ -0,0 +1,16 @@
+-- Overdue Catch-Up
+-- Cards whose due date passed without a review stay due (labelled "overdue by N days")
+-- instead of silently waiting for their next assigned slot. To keep a large backlog
+-- manageable, at most user_profiles.overdue_daily_cap overdue cards (default 20, 0 = no cap)
+-- are offered per day, most overdue first. Due selection happens client-side in
+-- filterDueCards() (src/utils/assignmentLogic.ts); the review trigger is unchanged since
+-- calculate_next_assigned_date already moves a late review on to the next slot.
+
+ALTER TABLE public.user_profiles
+    ADD COLUMN IF NOT EXISTS overdue_daily_cap integer NOT NULL DEFAULT 20
+        CHECK (overdue_daily_cap BETWEEN 0 AND 200);
+
+-- How late each review was - also lets clients count today's catch-up reviews against the cap
+ALTER TABLE public.review_logs
+    ADD COLUMN IF NOT EXISTS overdue_days integer
+        CHECK (overdue_days > 0);
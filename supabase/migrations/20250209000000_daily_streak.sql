@@ -0,0 +1,13 @@
+-- Daily Streak
+-- User-level streak of days in a row with a review session, across the whole deck
+-- (verse_cards.current_streak/best_streak stay per card). Calculated client-side from
+-- review_logs in the user's timezone - paused days don't break it - and synced with
+-- the rest of the profile. Mirrors src/utils/dailyStreak.ts.
+
+ALTER TABLE public.user_profiles
+    ADD COLUMN IF NOT EXISTS current_daily_streak integer NOT NULL DEFAULT 0
+        CHECK (current_daily_streak >= 0),
+    ADD COLUMN IF NOT EXISTS best_daily_streak integer NOT NULL DEFAULT 0
+        CHECK (best_daily_streak >= 0),
+    -- Last day that counted toward the streak, in the user's timezone
+    ADD COLUMN IF NOT EXISTS last_streak_date date;
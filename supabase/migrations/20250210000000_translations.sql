@@ -0,0 +1,202 @@
+-- Multiple Translations
+-- Verses can now come from public-domain translations (KJV, WEB) as well as the ESV
+-- (see supabase/functions/_shared/bibleProviders.ts). Verses were already unique per
+-- (reference, translation); aliases become per translation too, since the same typed
+-- reference points to a different verse row in each translation.
+
+-- Only translations with a provider can be stored
+ALTER TABLE public.verses
+    ADD CONSTRAINT verses_translation_check CHECK (translation IN ('ESV', 'KJV', 'WEB'));
+
+ALTER TABLE public.user_profiles
+    ADD CONSTRAINT user_profiles_preferred_translation_check
+        CHECK (preferred_translation IS NULL OR preferred_translation IN ('ESV', 'KJV', 'WEB'));
+
+-- Aliases: unique per translation instead of globally
+ALTER TABLE public.aliases
+    ADD COLUMN IF NOT EXISTS translation text NOT NULL DEFAULT 'ESV';
+
+UPDATE public.aliases a
+SET translation = v.translation
+FROM public.verses v
+WHERE v.id = a.verse_id AND a.translation <> v.translation;
+
+ALTER TABLE public.aliases DROP CONSTRAINT IF EXISTS aliases_alias_key;
+ALTER TABLE public.aliases
+    ADD CONSTRAINT aliases_alias_translation_key UNIQUE (alias, translation);
+
+DROP INDEX IF EXISTS idx_aliases_alias;
+CREATE INDEX IF NOT EXISTS idx_aliases_alias_translation ON aliases(alias, translation);
+
+-- Verse lookup: defaults to the user's preferred translation, and only follows
+-- aliases of the requested translation
+CREATE OR REPLACE FUNCTION rpc_verse_lookup(
+  p_reference TEXT,
+  p_normalized TEXT,
+  p_user_id UUID DEFAULT NULL,
+  p_translation TEXT DEFAULT NULL
+) RETURNS JSON AS $$
+DECLARE
+  result JSON;
+  v_translation TEXT := p_translation;
+BEGIN
+  -- Validate inputs
+  IF p_reference IS NULL OR p_normalized IS NULL THEN
+    RETURN '{"verse": null, "found_via_alias": false, "user_card": null, "error": "Invalid parameters"}'::json;
+  END IF;
+
+  IF v_translation IS NULL THEN
+    SELECT preferred_translation INTO v_translation
+    FROM user_profiles
+    WHERE user_id = p_user_id;
+  END IF;
+  v_translation := COALESCE(v_translation, 'ESV');
+
+  -- Single query to get verse and user card data using JSON aggregation
+  WITH verse_lookup AS (
+    -- Direct verse lookup
+    SELECT
+      v.id, v.reference, v.text, v.translation, v.created_at, v.updated_at,
+      vc.id as card_id, vc.user_id as card_user_id, vc.verse_id as card_verse_id,
+      vc.current_phase, vc.phase_progress_count, vc.last_reviewed_at,
+      vc.next_due_date, vc.assigned_day_of_week, vc.assigned_week_parity,
+      vc.assigned_day_of_month, vc.archived, vc.current_streak, vc.best_streak,
+      vc.created_at as card_created_at, vc.updated_at as card_updated_at,
+      false as via_alias
+    FROM verses v
+    LEFT JOIN verse_cards vc ON (vc.verse_id = v.id AND vc.user_id = p_user_id)
+    WHERE v.reference = p_reference AND v.translation = v_translation
+
+    UNION ALL
+
+    -- Alias lookup
+    SELECT
+      v.id, v.reference, v.text, v.translation, v.created_at, v.updated_at,
+      vc.id as card_id, vc.user_id as card_user_id, vc.verse_id as card_verse_id,
+      vc.current_phase, vc.phase_progress_count, vc.last_reviewed_at,
+      vc.next_due_date, vc.assigned_day_of_week, vc.assigned_week_parity,
+      vc.assigned_day_of_month, vc.archived, vc.current_streak, vc.best_streak,
+      vc.created_at as card_created_at, vc.updated_at as card_updated_at,
+      true as via_alias
+    FROM aliases a
+    JOIN verses v ON v.id = a.verse_id
+    LEFT JOIN verse_cards vc ON (vc.verse_id = v.id AND vc.user_id = p_user_id)
+    WHERE a.alias = p_normalized AND a.translation = v_translation
+    AND NOT EXISTS (
+      SELECT 1 FROM verses v2
+      WHERE v2.reference = p_reference AND v2.translation = v_translation
+    )
+  )
+  SELECT json_build_object(
+    'verse', CASE
+      WHEN vl.id IS NOT NULL THEN json_build_object(
+        'id', vl.id,
+        'reference', vl.reference,
+        'text', vl.text,
+        'translation', vl.translation,
+        'created_at', vl.created_at,
+        'updated_at', vl.updated_at
+      )
+      ELSE NULL
+    END,
+    'found_via_alias', COALESCE(vl.via_alias, false),
+    'user_card', CASE
+      WHEN vl.card_id IS NOT NULL THEN json_build_object(
+        'id', vl.card_id,
+        'user_id', vl.card_user_id,
+        'verse_id', vl.card_verse_id,
+        'current_phase', vl.current_phase,
+        'phase_progress_count', vl.phase_progress_count,
+        'last_reviewed_at', vl.last_reviewed_at,
+        'next_due_date', vl.next_due_date,
+        'assigned_day_of_week', vl.assigned_day_of_week,
+        'assigned_week_parity', vl.assigned_week_parity,
+        'assigned_day_of_month', vl.assigned_day_of_month,
+        'archived', vl.archived,
+        'current_streak', vl.current_streak,
+        'best_streak', vl.best_streak,
+        'created_at', vl.card_created_at,
+        'updated_at', vl.card_updated_at
+      )
+      ELSE NULL
+    END,
+    'error', NULL
+  ) INTO result
+  FROM verse_lookup vl
+  LIMIT 1;
+
+  -- Return empty result if nothing found
+  IF result IS NULL THEN
+    result := '{"verse": null, "found_via_alias": false, "user_card": null, "error": null}'::json;
+  END IF;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION rpc_verse_lookup TO authenticated;
+
+-- Alias creation: the alias takes its verse's translation
+CREATE OR REPLACE FUNCTION rpc_create_alias(
+  p_alias TEXT,
+  p_verse_id UUID
+) RETURNS JSON AS $$
+DECLARE
+  alias_id UUID;
+  v_translation TEXT;
+  result JSON;
+BEGIN
+  -- Validate inputs
+  IF p_alias IS NULL OR p_verse_id IS NULL OR p_alias = '' THEN
+    RETURN json_build_object('error', 'Alias and verse_id are required');
+  END IF;
+
+  -- Verify verse exists
+  SELECT translation INTO v_translation FROM verses WHERE id = p_verse_id;
+  IF v_translation IS NULL THEN
+    RETURN json_build_object('error', 'Verse not found');
+  END IF;
+
+  -- Check if alias already exists for this translation
+  SELECT id INTO alias_id
+  FROM aliases
+  WHERE alias = p_alias AND translation = v_translation;
+
+  IF alias_id IS NOT NULL THEN
+    -- Return existing alias
+    SELECT json_build_object(
+      'id', id,
+      'alias', alias,
+      'verse_id', verse_id,
+      'translation', translation,
+      'created_at', created_at,
+      'existed', true
+    ) INTO result
+    FROM aliases
+    WHERE id = alias_id;
+
+    RETURN result;
+  END IF;
+
+  -- Create new alias
+  INSERT INTO aliases (alias, verse_id, translation)
+  VALUES (p_alias, p_verse_id, v_translation)
+  RETURNING id INTO alias_id;
+
+  -- Return new alias
+  SELECT json_build_object(
+    'id', id,
+    'alias', alias,
+    'verse_id', verse_id,
+    'translation', translation,
+    'created_at', created_at,
+    'existed', false
+  ) INTO result
+  FROM aliases
+  WHERE id = alias_id;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION rpc_create_alias TO service_role;
@@ -0,0 +1,239 @@
+-- Alias Hygiene
+-- verse-operations creates an alias for every new spelling of a reference. Aliases now
+-- record who created them (for a per-user rate limit) and how often they are reused, and
+-- a nightly job prunes aliases nobody reuses that point at verses nobody memorizes.
+-- The edge function also only creates an alias when the input parses to the same passage
+-- as the canonical reference (see referencesMatch in supabase/functions/_shared/bibleBooks.ts).
+
+ALTER TABLE public.aliases
+    ADD COLUMN IF NOT EXISTS created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS use_count integer NOT NULL DEFAULT 0 CHECK (use_count >= 0),
+    ADD COLUMN IF NOT EXISTS last_used_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_aliases_created_by_created_at ON aliases(created_by, created_at);
+
+-- Verse lookup: unchanged, except that a hit through an alias counts as a reuse
+CREATE OR REPLACE FUNCTION rpc_verse_lookup(
+  p_reference TEXT,
+  p_normalized TEXT,
+  p_user_id UUID DEFAULT NULL,
+  p_translation TEXT DEFAULT NULL
+) RETURNS JSON AS $$
+DECLARE
+  result JSON;
+  v_translation TEXT := p_translation;
+BEGIN
+  -- Validate inputs
+  IF p_reference IS NULL OR p_normalized IS NULL THEN
+    RETURN '{"verse": null, "found_via_alias": false, "user_card": null, "error": "Invalid parameters"}'::json;
+  END IF;
+
+  IF v_translation IS NULL THEN
+    SELECT preferred_translation INTO v_translation
+    FROM user_profiles
+    WHERE user_id = p_user_id;
+  END IF;
+  v_translation := COALESCE(v_translation, 'ESV');
+
+  -- Single query to get verse and user card data using JSON aggregation
+  WITH verse_lookup AS (
+    -- Direct verse lookup
+    SELECT
+      v.id, v.reference, v.text, v.translation, v.created_at, v.updated_at,
+      vc.id as card_id, vc.user_id as card_user_id, vc.verse_id as card_verse_id,
+      vc.current_phase, vc.phase_progress_count, vc.last_reviewed_at,
+      vc.next_due_date, vc.assigned_day_of_week, vc.assigned_week_parity,
+      vc.assigned_day_of_month, vc.archived, vc.current_streak, vc.best_streak,
+      vc.created_at as card_created_at, vc.updated_at as card_updated_at,
+      false as via_alias
+    FROM verses v
+    LEFT JOIN verse_cards vc ON (vc.verse_id = v.id AND vc.user_id = p_user_id)
+    WHERE v.reference = p_reference AND v.translation = v_translation
+
+    UNION ALL
+
+    -- Alias lookup
+    SELECT
+      v.id, v.reference, v.text, v.translation, v.created_at, v.updated_at,
+      vc.id as card_id, vc.user_id as card_user_id, vc.verse_id as card_verse_id,
+      vc.current_phase, vc.phase_progress_count, vc.last_reviewed_at,
+      vc.next_due_date, vc.assigned_day_of_week, vc.assigned_week_parity,
+      vc.assigned_day_of_month, vc.archived, vc.current_streak, vc.best_streak,
+      vc.created_at as card_created_at, vc.updated_at as card_updated_at,
+      true as via_alias
+    FROM aliases a
+    JOIN verses v ON v.id = a.verse_id
+    LEFT JOIN verse_cards vc ON (vc.verse_id = v.id AND vc.user_id = p_user_id)
+    WHERE a.alias = p_normalized AND a.translation = v_translation
+    AND NOT EXISTS (
+      SELECT 1 FROM verses v2
+      WHERE v2.reference = p_reference AND v2.translation = v_translation
+    )
+  )
+  SELECT json_build_object(
+    'verse', CASE
+      WHEN vl.id IS NOT NULL THEN json_build_object(
+        'id', vl.id,
+        'reference', vl.reference,
+        'text', vl.text,
+        'translation', vl.translation,
+        'created_at', vl.created_at,
+        'updated_at', vl.updated_at
+      )
+      ELSE NULL
+    END,
+    'found_via_alias', COALESCE(vl.via_alias, false),
+    'user_card', CASE
+      WHEN vl.card_id IS NOT NULL THEN json_build_object(
+        'id', vl.card_id,
+        'user_id', vl.card_user_id,
+        'verse_id', vl.card_verse_id,
+        'current_phase', vl.current_phase,
+        'phase_progress_count', vl.phase_progress_count,
+        'last_reviewed_at', vl.last_reviewed_at,
+        'next_due_date', vl.next_due_date,
+        'assigned_day_of_week', vl.assigned_day_of_week,
+        'assigned_week_parity', vl.assigned_week_parity,
+        'assigned_day_of_month', vl.assigned_day_of_month,
+        'archived', vl.archived,
+        'current_streak', vl.current_streak,
+        'best_streak', vl.best_streak,
+        'created_at', vl.card_created_at,
+        'updated_at', vl.card_updated_at
+      )
+      ELSE NULL
+    END,
+    'error', NULL
+  ) INTO result
+  FROM verse_lookup vl
+  LIMIT 1;
+
+  -- Count the reuse so prune_unused_aliases() keeps aliases people actually type
+  IF (result->>'found_via_alias')::boolean THEN
+    UPDATE aliases
+    SET use_count = use_count + 1, last_used_at = now()
+    WHERE alias = p_normalized AND translation = v_translation;
+  END IF;
+
+  -- Return empty result if nothing found
+  IF result IS NULL THEN
+    result := '{"verse": null, "found_via_alias": false, "user_card": null, "error": null}'::json;
+  END IF;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION rpc_verse_lookup TO authenticated;
+
+-- Alias creation: rate limited per user
+DROP FUNCTION IF EXISTS rpc_create_alias(TEXT, UUID);
+
+CREATE OR REPLACE FUNCTION rpc_create_alias(
+  p_alias TEXT,
+  p_verse_id UUID,
+  p_user_id UUID DEFAULT NULL
+) RETURNS JSON AS $$
+DECLARE
+  alias_id UUID;
+  v_translation TEXT;
+  v_recent_count INTEGER;
+  result JSON;
+  c_daily_limit CONSTANT INTEGER := 50;
+BEGIN
+  -- Validate inputs
+  IF p_alias IS NULL OR p_verse_id IS NULL OR p_alias = '' THEN
+    RETURN json_build_object('error', 'Alias and verse_id are required');
+  END IF;
+
+  -- Verify verse exists
+  SELECT translation INTO v_translation FROM verses WHERE id = p_verse_id;
+  IF v_translation IS NULL THEN
+    RETURN json_build_object('error', 'Verse not found');
+  END IF;
+
+  -- Check if alias already exists for this translation
+  SELECT id INTO alias_id
+  FROM aliases
+  WHERE alias = p_alias AND translation = v_translation;
+
+  IF alias_id IS NOT NULL THEN
+    -- Return existing alias
+    SELECT json_build_object(
+      'id', id,
+      'alias', alias,
+      'verse_id', verse_id,
+      'translation', translation,
+      'created_at', created_at,
+      'existed', true
+    ) INTO result
+    FROM aliases
+    WHERE id = alias_id;
+
+    RETURN result;
+  END IF;
+
+  -- Rate limit: each user can add a limited number of new aliases per day
+  IF p_user_id IS NOT NULL THEN
+    SELECT COUNT(*) INTO v_recent_count
+    FROM aliases
+    WHERE created_by = p_user_id AND created_at > now() - interval '1 day';
+
+    IF v_recent_count >= c_daily_limit THEN
+      RETURN json_build_object('error', 'Alias rate limit exceeded');
+    END IF;
+  END IF;
+
+  -- Create new alias
+  INSERT INTO aliases (alias, verse_id, translation, created_by)
+  VALUES (p_alias, p_verse_id, v_translation, p_user_id)
+  RETURNING id INTO alias_id;
+
+  -- Return new alias
+  SELECT json_build_object(
+    'id', id,
+    'alias', alias,
+    'verse_id', verse_id,
+    'translation', translation,
+    'created_at', created_at,
+    'existed', false
+  ) INTO result
+  FROM aliases
+  WHERE id = alias_id;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION rpc_create_alias TO service_role;
+
+-- Garbage collection: removes aliases that were never reused and whose verse has no
+-- verse_cards (archived cards still count). New aliases get a week's grace period.
+CREATE OR REPLACE FUNCTION prune_unused_aliases(
+  p_min_age INTERVAL DEFAULT interval '7 days'
+) RETURNS INTEGER AS $$
+DECLARE
+  v_deleted INTEGER;
+BEGIN
+  DELETE FROM aliases a
+  WHERE a.use_count = 0
+    AND a.created_at < now() - p_min_age
+    AND NOT EXISTS (
+      SELECT 1 FROM verse_cards vc WHERE vc.verse_id = a.verse_id
+    );
+
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+  RETURN v_deleted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION prune_unused_aliases TO service_role;
+
+-- Run nightly with pg_cron
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'prune-unused-aliases',
+  '0 3 * * *',
+  $$SELECT prune_unused_aliases()$$
+);
@@ -0,0 +1,17 @@
+-- Passages
+-- A long range can be added as a passage: chunk cards of a few verses each
+-- (passage_position 1..n) and a chain card for the whole range (passage_position 0),
+-- grouped by a shared passage_id. The chain card stays out of the due list until every
+-- chunk has reached the weekly phase - see src/utils/passages.ts. Grouping only; each card
+-- keeps its own schedule, so the review trigger is unchanged.
+
+ALTER TABLE public.verse_cards
+    ADD COLUMN IF NOT EXISTS passage_id uuid,
+    ADD COLUMN IF NOT EXISTS passage_position integer
+        CHECK (passage_position >= 0),
+    ADD CONSTRAINT verse_cards_passage_check
+        CHECK ((passage_id IS NULL) = (passage_position IS NULL));
+
+CREATE INDEX IF NOT EXISTS idx_verse_cards_user_passage
+    ON verse_cards(user_id, passage_id)
+    WHERE passage_id IS NOT NULL;
@@ -0,0 +1,40 @@
+-- Chapter projects
+-- A whole chapter memorized one verse at a time: every verse_interval_days a new verse
+-- card is introduced together with a cumulative chain card from verse 1 (chain_verse_id),
+-- which replaces the previous chain - see src/utils/chapterProjects.ts. The cards are
+-- ordinary verse_cards; a project only tracks how far through the chapter the user is.
+-- Project ids are generated on the device and kept when synced.
+
+CREATE TABLE IF NOT EXISTS public.projects (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    reference text NOT NULL,
+    book text NOT NULL,
+    chapter integer NOT NULL CHECK (chapter >= 1),
+    verse_count integer NOT NULL CHECK (verse_count >= 1),
+    verse_interval_days integer NOT NULL DEFAULT 1
+        CHECK (verse_interval_days BETWEEN 1 AND 30),
+    introduced_count integer NOT NULL DEFAULT 0
+        CHECK (introduced_count BETWEEN 0 AND verse_count),
+    last_introduced_on date,
+    chain_verse_id uuid, -- No foreign key: the chain verse may still be local-only
+    archived boolean NOT NULL DEFAULT false,
+    created_at timestamp with time zone DEFAULT now(),
+    updated_at timestamp with time zone DEFAULT now(),
+    UNIQUE(user_id, book, chapter)
+);
+
+-- Enable RLS
+ALTER TABLE public.projects ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_projects_user_id ON projects(user_id);
+
+CREATE POLICY "Users can manage their own projects" ON public.projects
+    FOR ALL USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_projects_updated_at
+    BEFORE UPDATE ON projects
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON projects TO authenticated;
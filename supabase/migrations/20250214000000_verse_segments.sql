@@ -0,0 +1,125 @@
+-- Verse Segments
+-- Verses keep their plain text (what review, word revelation and the edge function's integrity
+-- check use) and gain optional structured segments for display: one entry per verse with its
+-- number, any section heading before it, and its poetry lines -
+--   [{"chapter": 23, "verse": 1, "heading": "The Lord Is My Shepherd", "lines": ["..."]}]
+-- verse-operations fills segments when it creates a verse and backfills older verses on lookup.
+-- See src/utils/verseSegments.ts.
+
+ALTER TABLE public.verses
+    ADD COLUMN IF NOT EXISTS segments jsonb;
+
+-- Verse lookup: unchanged, except that it returns the verse's segments
+CREATE OR REPLACE FUNCTION rpc_verse_lookup(
+  p_reference TEXT,
+  p_normalized TEXT,
+  p_user_id UUID DEFAULT NULL,
+  p_translation TEXT DEFAULT NULL
+) RETURNS JSON AS $$
+DECLARE
+  result JSON;
+  v_translation TEXT := p_translation;
+BEGIN
+  -- Validate inputs
+  IF p_reference IS NULL OR p_normalized IS NULL THEN
+    RETURN '{"verse": null, "found_via_alias": false, "user_card": null, "error": "Invalid parameters"}'::json;
+  END IF;
+
+  IF v_translation IS NULL THEN
+    SELECT preferred_translation INTO v_translation
+    FROM user_profiles
+    WHERE user_id = p_user_id;
+  END IF;
+  v_translation := COALESCE(v_translation, 'ESV');
+
+  -- Single query to get verse and user card data using JSON aggregation
+  WITH verse_lookup AS (
+    -- Direct verse lookup
+    SELECT
+      v.id, v.reference, v.text, v.translation, v.segments, v.created_at, v.updated_at,
+      vc.id as card_id, vc.user_id as card_user_id, vc.verse_id as card_verse_id,
+      vc.current_phase, vc.phase_progress_count, vc.last_reviewed_at,
+      vc.next_due_date, vc.assigned_day_of_week, vc.assigned_week_parity,
+      vc.assigned_day_of_month, vc.archived, vc.current_streak, vc.best_streak,
+      vc.created_at as card_created_at, vc.updated_at as card_updated_at,
+      false as via_alias
+    FROM verses v
+    LEFT JOIN verse_cards vc ON (vc.verse_id = v.id AND vc.user_id = p_user_id)
+    WHERE v.reference = p_reference AND v.translation = v_translation
+
+    UNION ALL
+
+    -- Alias lookup
+    SELECT
+      v.id, v.reference, v.text, v.translation, v.segments, v.created_at, v.updated_at,
+      vc.id as card_id, vc.user_id as card_user_id, vc.verse_id as card_verse_id,
+      vc.current_phase, vc.phase_progress_count, vc.last_reviewed_at,
+      vc.next_due_date, vc.assigned_day_of_week, vc.assigned_week_parity,
+      vc.assigned_day_of_month, vc.archived, vc.current_streak, vc.best_streak,
+      vc.created_at as card_created_at, vc.updated_at as card_updated_at,
+      true as via_alias
+    FROM aliases a
+    JOIN verses v ON v.id = a.verse_id
+    LEFT JOIN verse_cards vc ON (vc.verse_id = v.id AND vc.user_id = p_user_id)
+    WHERE a.alias = p_normalized AND a.translation = v_translation
+    AND NOT EXISTS (
+      SELECT 1 FROM verses v2
+      WHERE v2.reference = p_reference AND v2.translation = v_translation
+    )
+  )
+  SELECT json_build_object(
+    'verse', CASE
+      WHEN vl.id IS NOT NULL THEN json_build_object(
+        'id', vl.id,
+        'reference', vl.reference,
+        'text', vl.text,
+        'translation', vl.translation,
+        'segments', vl.segments,
+        'created_at', vl.created_at,
+        'updated_at', vl.updated_at
+      )
+      ELSE NULL
+    END,
+    'found_via_alias', COALESCE(vl.via_alias, false),
+    'user_card', CASE
+      WHEN vl.card_id IS NOT NULL THEN json_build_object(
+        'id', vl.card_id,
+        'user_id', vl.card_user_id,
+        'verse_id', vl.card_verse_id,
+        'current_phase', vl.current_phase,
+        'phase_progress_count', vl.phase_progress_count,
+        'last_reviewed_at', vl.last_reviewed_at,
+        'next_due_date', vl.next_due_date,
+        'assigned_day_of_week', vl.assigned_day_of_week,
+        'assigned_week_parity', vl.assigned_week_parity,
+        'assigned_day_of_month', vl.assigned_day_of_month,
+        'archived', vl.archived,
+        'current_streak', vl.current_streak,
+        'best_streak', vl.best_streak,
+        'created_at', vl.card_created_at,
+        'updated_at', vl.card_updated_at
+      )
+      ELSE NULL
+    END,
+    'error', NULL
+  ) INTO result
+  FROM verse_lookup vl
+  LIMIT 1;
+
+  -- Count the reuse so prune_unused_aliases() keeps aliases people actually type
+  IF (result->>'found_via_alias')::boolean THEN
+    UPDATE aliases
+    SET use_count = use_count + 1, last_used_at = now()
+    WHERE alias = p_normalized AND translation = v_translation;
+  END IF;
+
+  -- Return empty result if nothing found
+  IF result IS NULL THEN
+    result := '{"verse": null, "found_via_alias": false, "user_card": null, "error": null}'::json;
+  END IF;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION rpc_verse_lookup TO authenticated;
@@ -0,0 +1,10 @@
+-- Cloze review mode
+-- Adds 'cloze' as a reference display mode: a share of the verse's words is hidden,
+-- growing with the card's phase progress (see src/utils/cloze.ts).
+
+ALTER TABLE public.user_profiles
+    DROP CONSTRAINT IF EXISTS user_profiles_reference_display_mode_check;
+
+ALTER TABLE public.user_profiles
+    ADD CONSTRAINT user_profiles_reference_display_mode_check
+    CHECK (reference_display_mode IN ('full', 'first', 'blank', 'cloze'));
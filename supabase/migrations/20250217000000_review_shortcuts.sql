@@ -0,0 +1,9 @@
+-- Keyboard shortcuts for desktop review
+-- Per-user key bindings for review actions, keyed by action name (see src/utils/reviewShortcuts.ts).
+-- NULL uses the defaults: space / enter reveal, arrows grade, u undoes, ? shows help.
+
+ALTER TABLE public.user_profiles
+    ADD COLUMN IF NOT EXISTS review_shortcuts jsonb;
+
+COMMENT ON COLUMN public.user_profiles.review_shortcuts IS
+    'Review keyboard shortcuts by action (revealNext, revealAll, correct, incorrect, hard, easy, undo, help) - NULL uses the defaults';
@@ -0,0 +1,7 @@
+-- Due queue ordering
+-- Remembers how each user's review sessions order their due cards
+-- (see orderDueCards in src/utils/reviewOrder.ts). 'scheduled' keeps the due-filter order.
+
+ALTER TABLE public.user_profiles
+    ADD COLUMN IF NOT EXISTS review_order text NOT NULL DEFAULT 'scheduled'
+        CHECK (review_order IN ('scheduled', 'weakest', 'oldest_due', 'canonical', 'shuffled'));